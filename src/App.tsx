@@ -8,7 +8,14 @@ import Index from "./pages/Index";
 import { Auth } from "./pages/Auth";
 import ResetPassword from "./pages/ResetPassword";
 import NotFound from "./pages/NotFound";
-import EmployeeProfile from "./pages/EmployeeProfile";
+import LeaveRequestDetail from "./pages/LeaveRequestDetail";
+import ExceptionDetail from "./pages/ExceptionDetail";
+import EmployeeDetail from "./pages/EmployeeDetail";
+import {
+  ChecklistsSection, DashboardSection, DocumentsSection, LeavesSection, MyAttendanceSection, OrgChartSection, PayrollSection,
+  ProfileSection, SettingsSection, TeamAttendanceSection
+} from "./pages/Sections";
+import { RequireRole } from "@/components/RequireRole";
 
 const queryClient = new QueryClient();
 
@@ -23,10 +30,26 @@ const App = () => (
           <Sonner />
           <BrowserRouter>
             <Routes>
-              <Route path="/" element={<Index />} />
+              {/* Paths are mirrored in src/lib/routes.ts; role guards match the sidebar in Index */}
+              <Route path="/" element={<Index />}>
+                <Route index element={<DashboardSection />} />
+                <Route path="profile" element={<ProfileSection />} />
+                <Route path="my-attendance" element={<MyAttendanceSection />} />
+                <Route path="leaves" element={<LeavesSection />} />
+                <Route path="leaves/:section" element={<LeavesSection />} />
+                <Route path="payroll" element={<PayrollSection />} />
+                <Route path="org-chart" element={<OrgChartSection />} />
+                <Route path="checklists" element={<ChecklistsSection />} />
+                <Route path="team-attendance" element={<RequireRole roles={['admin', 'manager']}><TeamAttendanceSection /></RequireRole>} />
+                <Route path="documents" element={<RequireRole roles={['admin', 'manager']}><DocumentsSection /></RequireRole>} />
+                <Route path="settings" element={<RequireRole roles={['admin']}><SettingsSection /></RequireRole>} />
+                <Route path="settings/:tab" element={<RequireRole roles={['admin']}><SettingsSection /></RequireRole>} />
+                <Route path="leave/:id" element={<LeaveRequestDetail />} />
+                <Route path="exceptions/:id" element={<ExceptionDetail />} />
+                <Route path="employees/:id" element={<RequireRole roles={['admin', 'manager']}><EmployeeDetail /></RequireRole>} />
+              </Route>
               <Route path="/auth" element={<Auth />} />
               <Route path="/reset-password" element={<ResetPassword />} />
-              <Route path="/profile" element={<EmployeeProfile />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
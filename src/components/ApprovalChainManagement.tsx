@@ -0,0 +1,580 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { APPROVER_TYPE_LABELS, ApprovalRequestType, ApproverType } from '@/lib/approvals';
+import { ArrowDown, ArrowUp, ChevronRight, GitBranch, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface ChainStep {
+  label: string;
+  approver_type: ApproverType;
+  approver_role: 'admin' | 'manager' | null;
+  approver_employee_id: string | null;
+}
+
+interface ApprovalChain {
+  id: string;
+  name: string;
+  description: string | null;
+  request_type: ApprovalRequestType;
+  leave_type_id: string | null;
+  exception_type: string | null;
+  division: string | null;
+  min_days: number | null;
+  priority: number;
+  is_active: boolean;
+  approval_chain_steps: (ChainStep & { step_order: number })[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const ANY = 'any';
+
+const EXCEPTION_TYPES = [
+  { value: 'short_permission_personal', label: 'Short Permission (Personal)' },
+  { value: 'short_permission_official', label: 'Short Permission (Official)' },
+  { value: 'wfh', label: 'Work from Home (WFH)' },
+  { value: 'missed_clock_in', label: 'Missed Clock In' },
+  { value: 'missed_clock_out', label: 'Missed Clock Out' },
+  { value: 'wrong_time', label: 'Wrong Clock Time' },
+];
+
+const ROLE_LABELS = {
+  admin: 'HR / Admin',
+  manager: 'Any Manager',
+};
+
+const emptyStep = (): ChainStep => ({
+  label: 'Line Manager',
+  approver_type: 'line_manager',
+  approver_role: null,
+  approver_employee_id: null,
+});
+
+export const ApprovalChainManagement = () => {
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<Option[]>([]);
+  const [divisions, setDivisions] = useState<Option[]>([]);
+  const [employees, setEmployees] = useState<(Option & { staff_id: string | null })[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [requestType, setRequestType] = useState<ApprovalRequestType>('leave');
+  const [leaveTypeId, setLeaveTypeId] = useState(ANY);
+  const [exceptionType, setExceptionType] = useState(ANY);
+  const [division, setDivision] = useState(ANY);
+  const [minDays, setMinDays] = useState('');
+  const [priority, setPriority] = useState('0');
+  const [steps, setSteps] = useState<ChainStep[]>([emptyStep()]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchChains = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('approval_chains')
+        .select('*, approval_chain_steps(step_order, label, approver_type, approver_role, approver_employee_id)')
+        .order('request_type')
+        .order('priority', { ascending: false });
+
+      if (error) throw error;
+      setChains((data || []).map(chain => ({
+        ...chain,
+        approval_chain_steps: [...chain.approval_chain_steps].sort((a, b) => a.step_order - b.step_order),
+      })) as ApprovalChain[]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch approval chains",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  const fetchOptions = async () => {
+    const [leaveTypesResult, divisionsResult, employeesResult] = await Promise.all([
+      supabase.from('leave_types').select('id, name').eq('is_active', true).order('name'),
+      supabase.from('divisions').select('id, name').eq('is_active', true).order('name'),
+      supabase.from('employees').select('id, full_name, staff_id').eq('status', 'active').order('full_name'),
+    ]);
+
+    setLeaveTypes(leaveTypesResult.data || []);
+    setDivisions(divisionsResult.data || []);
+    setEmployees((employeesResult.data || []).map(e => ({ id: e.id, name: e.full_name, staff_id: e.staff_id })));
+  };
+
+  useEffect(() => {
+    fetchChains();
+    fetchOptions();
+  }, [fetchChains]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setRequestType('leave');
+    setLeaveTypeId(ANY);
+    setExceptionType(ANY);
+    setDivision(ANY);
+    setMinDays('');
+    setPriority('0');
+    setSteps([emptyStep()]);
+  };
+
+  const handleEdit = (chain: ApprovalChain) => {
+    setEditingId(chain.id);
+    setName(chain.name);
+    setDescription(chain.description || '');
+    setRequestType(chain.request_type);
+    setLeaveTypeId(chain.leave_type_id || ANY);
+    setExceptionType(chain.exception_type || ANY);
+    setDivision(chain.division || ANY);
+    setMinDays(chain.min_days?.toString() || '');
+    setPriority(chain.priority.toString());
+    setSteps(chain.approval_chain_steps.map(({ label, approver_type, approver_role, approver_employee_id }) => ({
+      label, approver_type, approver_role, approver_employee_id
+    })));
+  };
+
+  const updateStep = (index: number, changes: Partial<ChainStep>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const handleApproverTypeChange = (index: number, approverType: ApproverType) => {
+    updateStep(index, {
+      approver_type: approverType,
+      approver_role: approverType === 'role' ? 'admin' : null,
+      approver_employee_id: null,
+      label: approverType === 'line_manager' ? 'Line Manager' : approverType === 'role' ? 'HR' : '',
+    });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSteps(reordered);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    if (steps.length === 0 || steps.some(step => !step.label.trim())) {
+      toast({
+        title: "Invalid Chain",
+        description: "Add at least one step and give every step a label",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (steps.some(step => step.approver_type === 'employee' && !step.approver_employee_id)) {
+      toast({
+        title: "Invalid Chain",
+        description: "Choose the employee for every specific-employee step",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const chainData = {
+        name: name.trim(),
+        description: description.trim() || null,
+        request_type: requestType,
+        leave_type_id: requestType === 'leave' && leaveTypeId !== ANY ? leaveTypeId : null,
+        exception_type: requestType === 'exception' && exceptionType !== ANY ? exceptionType : null,
+        division: division === ANY ? null : division,
+        min_days: requestType === 'leave' && minDays ? parseFloat(minDays) : null,
+        priority: parseInt(priority) || 0,
+      };
+
+      let chainId = editingId;
+      if (chainId) {
+        const { error } = await supabase
+          .from('approval_chains')
+          .update(chainData)
+          .eq('id', chainId);
+        if (error) throw error;
+
+        // Steps are replaced wholesale; requests already in flight keep their own copy
+        const { error: deleteError } = await supabase
+          .from('approval_chain_steps')
+          .delete()
+          .eq('chain_id', chainId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('approval_chains')
+          .insert({ ...chainData, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        chainId = data.id;
+      }
+
+      const { error: stepsError } = await supabase
+        .from('approval_chain_steps')
+        .insert(steps.map((step, index) => ({
+          chain_id: chainId!,
+          step_order: index + 1,
+          label: step.label.trim(),
+          approver_type: step.approver_type,
+          approver_role: step.approver_type === 'role' ? step.approver_role : null,
+          approver_employee_id: step.approver_type === 'employee' ? step.approver_employee_id : null,
+        })));
+      if (stepsError) throw stepsError;
+
+      toast({
+        title: "Success",
+        description: editingId ? "Approval chain updated" : "Approval chain created"
+      });
+
+      resetForm();
+      fetchChains();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save approval chain",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleStatus = async (id: string, currentStatus: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('approval_chains')
+        .update({ is_active: !currentStatus })
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchChains();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update approval chain",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('approval_chains')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Approval chain deleted"
+      });
+      if (editingId === id) resetForm();
+      fetchChains();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete approval chain",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeScope = (chain: ApprovalChain) => {
+    const parts: string[] = [chain.request_type === 'leave' ? 'Leave' : 'Exceptions'];
+    if (chain.leave_type_id) {
+      parts.push(leaveTypes.find(lt => lt.id === chain.leave_type_id)?.name || 'Unknown leave type');
+    }
+    if (chain.exception_type) {
+      parts.push(EXCEPTION_TYPES.find(t => t.value === chain.exception_type)?.label || chain.exception_type);
+    }
+    if (chain.min_days !== null) parts.push(`over ${chain.min_days} days`);
+    parts.push(chain.division || 'all divisions');
+    return parts.join(' • ');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            {editingId ? 'Edit Approval Chain' : 'Add Approval Chain'}
+          </CardTitle>
+          <CardDescription>
+            Requests matching a chain must be approved by each step in order. When several chains
+            match, the highest priority (then the most specific) wins. Requests with no matching
+            chain are reviewed in a single step by an admin or the line manager.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="chain-name">Name</Label>
+                <Input
+                  id="chain-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Long unpaid leave"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select value={requestType} onValueChange={(value) => setRequestType(value as ApprovalRequestType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="leave">Leave Requests</SelectItem>
+                    <SelectItem value="exception">Attendance Exceptions</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {requestType === 'leave' ? (
+                <div className="space-y-2">
+                  <Label>Leave Type</Label>
+                  <Select value={leaveTypeId} onValueChange={setLeaveTypeId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any leave type</SelectItem>
+                      {leaveTypes.map(lt => (
+                        <SelectItem key={lt.id} value={lt.id}>{lt.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Exception Type</Label>
+                  <Select value={exceptionType} onValueChange={setExceptionType}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any exception type</SelectItem>
+                      {EXCEPTION_TYPES.map(t => (
+                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Division</Label>
+                <Select value={division} onValueChange={setDivision}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All divisions</SelectItem>
+                    {divisions.map(d => (
+                      <SelectItem key={d.id} value={d.name}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {requestType === 'leave' && (
+                <div className="space-y-2">
+                  <Label htmlFor="chain-min-days">Only When Longer Than (days)</Label>
+                  <Input
+                    id="chain-min-days"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={minDays}
+                    onChange={(e) => setMinDays(e.target.value)}
+                    placeholder="Any length"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="chain-priority">Priority</Label>
+                <Input
+                  id="chain-priority"
+                  type="number"
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="chain-description">Description (optional)</Label>
+              <Textarea
+                id="chain-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Approval Steps</Label>
+              {steps.map((step, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 rounded-lg border p-3">
+                  <Badge variant="outline">{index + 1}</Badge>
+                  <Select
+                    value={step.approver_type}
+                    onValueChange={(value) => handleApproverTypeChange(index, value as ApproverType)}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(APPROVER_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {step.approver_type === 'role' && (
+                    <Select
+                      value={step.approver_role || 'admin'}
+                      onValueChange={(value) => updateStep(index, { approver_role: value as 'admin' | 'manager' })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {step.approver_type === 'employee' && (
+                    <Select
+                      value={step.approver_employee_id || ''}
+                      onValueChange={(value) => updateStep(index, { approver_employee_id: value })}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Select employee" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {employees.map(emp => (
+                          <SelectItem key={emp.id} value={emp.id}>
+                            {emp.name}{emp.staff_id ? ` (${emp.staff_id})` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Input
+                    className="w-40"
+                    value={step.label}
+                    onChange={(e) => updateStep(index, { label: e.target.value })}
+                    placeholder="Step label (e.g. Finance)"
+                  />
+                  <div className="ml-auto flex gap-1">
+                    <Button type="button" variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                      disabled={steps.length === 1}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => setSteps([...steps, emptyStep()])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Step
+              </Button>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading}>
+                {editingId ? 'Save Chain' : 'Add Chain'}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Approval Chains</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {chains.length === 0 ? (
+            <p className="text-muted-foreground">
+              No approval chains configured. All requests use single-step review.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {chains.map(chain => (
+                <div key={chain.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{chain.name}</h4>
+                      {chain.priority !== 0 && <Badge variant="outline">Priority {chain.priority}</Badge>}
+                      {!chain.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{describeScope(chain)}</p>
+                    <div className="flex flex-wrap items-center gap-1 text-xs">
+                      {chain.approval_chain_steps.map((step, index) => (
+                        <div key={step.step_order} className="flex items-center gap-1">
+                          {index > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                          <Badge variant="secondary">{step.label}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                    {chain.description && (
+                      <p className="text-xs text-muted-foreground">{chain.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={chain.is_active}
+                      onCheckedChange={() => handleToggleStatus(chain.id, chain.is_active)}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(chain)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(chain.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { todayInGST } from '@/lib/timezone';
+import { format, parseISO } from 'date-fns';
+import { ArrowRight, Plus, UserCheck, X } from 'lucide-react';
+
+interface ApprovalDelegationManagementProps {
+  userRole: 'admin' | 'staff' | 'manager';
+}
+
+interface Delegation {
+  id: string;
+  delegator_employee_id: string;
+  delegate_employee_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  is_active: boolean;
+  delegator: { full_name: string } | null;
+  delegate: { full_name: string } | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const NONE = 'none';
+
+export const ApprovalDelegationManagement = ({ userRole }: ApprovalDelegationManagementProps) => {
+  const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [defaultDelegateId, setDefaultDelegateId] = useState(NONE);
+  const [employees, setEmployees] = useState<Option[]>([]);
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [delegatorId, setDelegatorId] = useState('');
+  const [delegateId, setDelegateId] = useState('');
+  const [startDate, setStartDate] = useState(todayInGST());
+  const [endDate, setEndDate] = useState(todayInGST());
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchDelegations = useCallback(async (myEmployeeId: string | null) => {
+    let query = supabase
+      .from('approval_delegations')
+      .select(`
+        *,
+        delegator:employees!approval_delegations_delegator_employee_id_fkey(full_name),
+        delegate:employees!approval_delegations_delegate_employee_id_fkey(full_name)
+      `)
+      .order('start_date', { ascending: false });
+
+    // Admins see every delegation; everyone else sees their own and those made to them
+    if (userRole !== 'admin' && myEmployeeId) {
+      query = query.or(`delegator_employee_id.eq.${myEmployeeId},delegate_employee_id.eq.${myEmployeeId}`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    setDelegations((data || []) as Delegation[]);
+  }, [userRole]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [meResult, employeesResult] = await Promise.all([
+        supabase.from('employees').select('id, default_delegate_id').eq('user_id', user!.id).maybeSingle(),
+        supabase.from('employees').select('id, full_name').eq('status', 'active').order('full_name'),
+      ]);
+
+      const me = meResult.data;
+      setEmployeeId(me?.id || null);
+      setDefaultDelegateId(me?.default_delegate_id || NONE);
+      setDelegatorId(current => current || me?.id || '');
+      setEmployees((employeesResult.data || []).map(e => ({ id: e.id, name: e.full_name })));
+
+      await fetchDelegations(me?.id || null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load delegation settings",
+        variant: "destructive"
+      });
+    }
+  }, [user, toast, fetchDelegations]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchData();
+    }
+  }, [user?.id, fetchData]);
+
+  const handleDefaultDelegateChange = async (value: string) => {
+    const previous = defaultDelegateId;
+    setDefaultDelegateId(value);
+    try {
+      const { error } = await supabase.rpc('set_default_delegate', {
+        p_delegate_employee_id: value === NONE ? undefined : value,
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: value === NONE ? "Default delegate removed" : "Default delegate saved"
+      });
+    } catch (error) {
+      setDefaultDelegateId(previous);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save default delegate",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!delegatorId || !delegateId) return;
+
+    if (delegatorId === delegateId) {
+      toast({
+        title: "Invalid Delegation",
+        description: "Approvals cannot be delegated to the same person",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (endDate < startDate) {
+      toast({
+        title: "Invalid Delegation",
+        description: "End date must be on or after the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('approval_delegations')
+        .insert({
+          delegator_employee_id: delegatorId,
+          delegate_employee_id: delegateId,
+          start_date: startDate,
+          end_date: endDate,
+          reason: reason.trim() || null,
+          created_by: user?.id,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Delegation created"
+      });
+
+      setDelegateId('');
+      setReason('');
+      fetchDelegations(employeeId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create delegation",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('approval_delegations')
+        .update({ is_active: false })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Delegation cancelled"
+      });
+      fetchDelegations(employeeId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to cancel delegation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getStatusBadge = (delegation: Delegation) => {
+    const today = todayInGST();
+    if (!delegation.is_active) return <Badge variant="outline">Cancelled</Badge>;
+    if (delegation.end_date < today) return <Badge variant="secondary">Ended</Badge>;
+    if (delegation.start_date > today) return <Badge variant="outline">Scheduled</Badge>;
+    return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+  };
+
+  const formatDate = (date: string) => format(parseISO(date), 'MMM dd, yyyy');
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5" />
+            Approval Delegation
+          </CardTitle>
+          <CardDescription>
+            While a delegation is active, requests waiting on the delegator's approval — including
+            in-app notifications and emails — go to the delegate, and decisions are recorded as made
+            on the delegator's behalf.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {employeeId && (
+            <div className="space-y-2 max-w-md">
+              <Label>Default Delegate While I'm On Leave</Label>
+              <Select value={defaultDelegateId} onValueChange={handleDefaultDelegateChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No default delegate</SelectItem>
+                  {employees.filter(e => e.id !== employeeId).map(e => (
+                    <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Takes over automatically on days covered by your approved leave, unless a delegation
+                below covers those days.
+              </p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {userRole === 'admin' && (
+                <div className="space-y-2">
+                  <Label>Delegate Approvals Of</Label>
+                  <Select value={delegatorId} onValueChange={setDelegatorId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select employee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {employees.map(e => (
+                        <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Delegate To</Label>
+                <Select value={delegateId} onValueChange={setDelegateId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select employee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.filter(e => e.id !== delegatorId).map(e => (
+                      <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-start">From</Label>
+                <Input
+                  id="delegation-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-end">To</Label>
+                <Input
+                  id="delegation-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegation-reason">Reason</Label>
+              <Textarea
+                id="delegation-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Business travel"
+                rows={2}
+              />
+            </div>
+            <Button type="submit" disabled={loading || !delegatorId || !delegateId}>
+              <Plus className="h-4 w-4 mr-2" />
+              {loading ? 'Saving...' : 'Add Delegation'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delegations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {delegations.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No delegations yet</div>
+          ) : (
+            <div className="space-y-3">
+              {delegations.map(delegation => (
+                <div key={delegation.id} className="flex items-start justify-between border rounded-lg p-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 font-medium">
+                      {delegation.delegator?.full_name || 'Unknown'}
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      {delegation.delegate?.full_name || 'Unknown'}
+                      {getStatusBadge(delegation)}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(delegation.start_date)} - {formatDate(delegation.end_date)}
+                    </p>
+                    {delegation.reason && (
+                      <p className="text-sm text-muted-foreground">{delegation.reason}</p>
+                    )}
+                  </div>
+                  {delegation.is_active && delegation.end_date >= todayInGST() &&
+                    (userRole === 'admin' || delegation.delegator_employee_id === employeeId) && (
+                    <Button variant="ghost" size="sm" onClick={() => handleCancel(delegation.id)}>
+                      <X className="h-4 w-4 mr-1" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { CheckCircle, ChevronRight, Circle, Clock, MinusCircle, XCircle } from "lucide-react";
+import { RequestApprovalStep } from "@/lib/approvals";
+import { cn } from "@/lib/utils";
+
+interface ApprovalProgressProps {
+  steps: RequestApprovalStep[] | undefined;
+  className?: string;
+}
+
+const getStepIcon = (status: RequestApprovalStep['status']) => {
+  switch (status) {
+    case 'approved':
+      return <CheckCircle className="h-3.5 w-3.5 text-green-500" />;
+    case 'rejected':
+      return <XCircle className="h-3.5 w-3.5 text-red-500" />;
+    case 'pending':
+      return <Clock className="h-3.5 w-3.5 text-yellow-500" />;
+    case 'skipped':
+      return <MinusCircle className="h-3.5 w-3.5 text-muted-foreground" />;
+    default:
+      return <Circle className="h-3.5 w-3.5 text-muted-foreground" />;
+  }
+};
+
+// e.g. "Approved by Sara Ahmed on behalf of Omar Khan"
+const getActionSummary = (step: RequestApprovalStep) => {
+  if ((step.status !== 'approved' && step.status !== 'rejected') || !step.acted_by_name) return undefined;
+  const action = step.status === 'approved' ? 'Approved' : 'Rejected';
+  return step.on_behalf_of_name
+    ? `${action} by ${step.acted_by_name} on behalf of ${step.on_behalf_of_name}`
+    : `${action} by ${step.acted_by_name}`;
+};
+
+/**
+ * Shows each step of a request's approval chain and where it currently stands
+ */
+export const ApprovalProgress = ({ steps, className }: ApprovalProgressProps) => {
+  if (!steps || steps.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1 text-xs", className)}>
+      {steps.map((step, index) => (
+        <div key={step.id} className="flex items-center gap-1">
+          {index > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+          <span
+            className={cn(
+              "flex items-center gap-1 rounded-full border px-2 py-0.5",
+              step.status === 'pending' && "border-yellow-300 bg-yellow-50 font-medium",
+              step.status === 'skipped' && "line-through text-muted-foreground"
+            )}
+            title={[getActionSummary(step), step.comments].filter(Boolean).join(' — ') || undefined}
+          >
+            {getStepIcon(step.status)}
+            {step.label}
+            {step.status === 'pending' && <span className="text-muted-foreground">(waiting)</span>}
+            {step.on_behalf_of_name && (
+              <span className="text-muted-foreground">
+                (by {step.acted_by_name} on behalf of {step.on_behalf_of_name})
+              </span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
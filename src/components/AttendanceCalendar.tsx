@@ -41,13 +41,15 @@ interface AttendanceCalendarProps {
   attendanceData: AttendanceRecord[];
   onDayClick?: (record: AttendanceRecord | null, date: Date) => void;
   showWeeklySummary?: boolean;
+  minimumDailyHours?: number;
 }
 
 export const AttendanceCalendar = ({ 
   month, 
   attendanceData,
   onDayClick,
-  showWeeklySummary = true
+  showWeeklySummary = true,
+  minimumDailyHours
 }: AttendanceCalendarProps) => {
   
   // Generate calendar grid
@@ -160,7 +162,11 @@ export const AttendanceCalendar = ({
     <div className="w-full space-y-4">
       {/* Weekly Hours Summary */}
       {showWeeklySummary && (
-        <WeeklyHoursSummary attendanceData={attendanceData} month={month} />
+        <WeeklyHoursSummary
+          attendanceData={attendanceData}
+          month={month}
+          minimumDailyHours={minimumDailyHours}
+        />
       )}
       
       {/* Calendar Grid */}
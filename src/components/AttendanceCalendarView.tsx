@@ -27,18 +27,29 @@ export function AttendanceCalendarView({
   // Build modifiers for each status
   const presentDays: Date[] = [];
   const lateDays: Date[] = [];
+  const minorLateDays: Date[] = [];
+  const severeLateDays: Date[] = [];
   const absentDays: Date[] = [];
   const futureDays: Date[] = [];
   const nonWorkingDays: Date[] = [];
+  const holidayDays: Date[] = [];
+  const leaveDays: Date[] = [];
+  const partialLeaveDays: Date[] = [];
 
   days.forEach((dayStatus, dateStr) => {
     const date = parseISO(dateStr);
+    if (dayStatus.leaveDuration && dayStatus.leaveDuration !== 'full_day') {
+      partialLeaveDays.push(date);
+    }
     switch (dayStatus.status) {
       case 'present':
         presentDays.push(date);
         break;
       case 'late':
         lateDays.push(date);
+        // Shaded by the consequence of the lateness tier
+        if (dayStatus.lateConsequence === 'record') minorLateDays.push(date);
+        if (dayStatus.lateConsequence === 'escalate') severeLateDays.push(date);
         break;
       case 'absent':
         absentDays.push(date);
@@ -49,6 +60,12 @@ export function AttendanceCalendarView({
       case 'non-working':
         nonWorkingDays.push(date);
         break;
+      case 'holiday':
+        holidayDays.push(date);
+        break;
+      case 'leave':
+        leaveDays.push(date);
+        break;
     }
   });
 
@@ -64,6 +81,14 @@ export function AttendanceCalendarView({
           <div className="w-8 h-8 rounded bg-orange-100 border-2 border-orange-300 flex items-center justify-center text-xs">🕒</div>
           <span className="text-sm font-medium text-foreground">Late</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded bg-yellow-50 border-2 border-yellow-300 flex items-center justify-center text-xs">🕒</div>
+          <span className="text-sm font-medium text-foreground">Late (minor)</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded bg-orange-200 border-2 border-orange-500 flex items-center justify-center text-xs">🕒</div>
+          <span className="text-sm font-medium text-foreground">Late (escalated)</span>
+        </div>
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 rounded bg-red-100 border-2 border-red-300 flex items-center justify-center text-xs">❌</div>
           <span className="text-sm font-medium text-foreground">Absent</span>
@@ -72,6 +97,18 @@ export function AttendanceCalendarView({
           <div className="w-8 h-8 rounded bg-gray-100 border-2 border-gray-200 flex items-center justify-center text-xs">🏖️</div>
           <span className="text-sm font-medium text-foreground">Weekend</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded bg-purple-100 border-2 border-purple-300 flex items-center justify-center text-xs">🎉</div>
+          <span className="text-sm font-medium text-foreground">Public Holiday</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded bg-blue-100 border-2 border-blue-300 flex items-center justify-center text-xs">🌴</div>
+          <span className="text-sm font-medium text-foreground">Leave</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded border-2 border-border flex items-center justify-center text-xs text-blue-700">½</div>
+          <span className="text-sm font-medium text-foreground">Partial-Day Leave</span>
+        </div>
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 rounded bg-gray-50 flex items-center justify-center text-xs opacity-60">⚪</div>
           <span className="text-sm font-medium text-muted-foreground">Future</span>
@@ -86,16 +123,26 @@ export function AttendanceCalendarView({
           modifiers={{
             present: presentDays,
             late: lateDays,
+            lateMinor: minorLateDays,
+            lateSevere: severeLateDays,
             absent: absentDays,
             future: futureDays,
             nonWorking: nonWorkingDays,
+            holiday: holidayDays,
+            leave: leaveDays,
+            partialLeave: partialLeaveDays,
           }}
           modifiersClassNames={{
             present: 'present',
             late: 'late',
+            lateMinor: 'late-minor',
+            lateSevere: 'late-severe',
             absent: 'absent',
             future: 'future',
             nonWorking: 'non-working',
+            holiday: 'holiday',
+            leave: 'leave',
+            partialLeave: 'partial-leave',
           }}
           onDayClick={onDayClick}
           disabled={(date) => {
@@ -1,5 +1,6 @@
+import { useEffect, useState } from 'react';
 import { format } from 'date-fns';
-import { Clock, Calendar, AlertCircle } from 'lucide-react';
+import { Clock, Calendar, AlertCircle, Coffee } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -8,6 +9,10 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { DayStatus } from '@/hooks/useAttendanceCalendar';
+import { AttendanceSession, fetchAttendanceSessions } from '@/lib/attendanceSessions';
+import { AttendanceTimeline } from './AttendanceTimeline';
+import { LEAVE_DURATION_LABELS } from '@/lib/leaveDuration';
+import { LATENESS_CONSEQUENCE_LABELS } from '@/lib/attendanceRules';
 
 interface AttendanceDayDetailsModalProps {
   open: boolean;
@@ -22,6 +27,22 @@ export function AttendanceDayDetailsModal({
   date,
   dayStatus,
 }: AttendanceDayDetailsModalProps) {
+  const [sessions, setSessions] = useState<AttendanceSession[]>([]);
+
+  useEffect(() => {
+    if (!open || !dayStatus.attendanceId) {
+      setSessions([]);
+      return;
+    }
+
+    fetchAttendanceSessions(dayStatus.attendanceId)
+      .then(setSessions)
+      .catch(error => {
+        console.error('Error fetching attendance sessions:', error);
+        setSessions([]);
+      });
+  }, [open, dayStatus.attendanceId]);
+
   const getStatusBadge = () => {
     switch (dayStatus.status) {
       case 'present':
@@ -30,6 +51,10 @@ export function AttendanceDayDetailsModal({
         return <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-200">🕒 Late</Badge>;
       case 'absent':
         return <Badge className="bg-red-100 text-red-800 hover:bg-red-200">❌ Absent</Badge>;
+      case 'holiday':
+        return <Badge className="bg-purple-100 text-purple-800 hover:bg-purple-200">🎉 Public Holiday</Badge>;
+      case 'leave':
+        return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">🌴 On Leave</Badge>;
       default:
         return null;
     }
@@ -49,9 +74,31 @@ export function AttendanceDayDetailsModal({
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">Status:</span>
             {getStatusBadge()}
+            {dayStatus.shiftName && (
+              <Badge variant="outline">{dayStatus.shiftName} shift</Badge>
+            )}
           </div>
 
-          {dayStatus.status === 'absent' ? (
+          {dayStatus.holidayName && (
+            <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+              <p className="text-purple-800 text-sm">
+                {dayStatus.holidayName}
+              </p>
+            </div>
+          )}
+
+          {dayStatus.leaveType && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <p className="text-blue-800 text-sm">
+                {dayStatus.leaveType}
+                {dayStatus.leaveDuration && dayStatus.leaveDuration !== 'full_day' && (
+                  <> · {LEAVE_DURATION_LABELS[dayStatus.leaveDuration]} ({dayStatus.leaveHours?.toFixed(1)} hrs)</>
+                )}
+              </p>
+            </div>
+          )}
+
+          {dayStatus.status === 'holiday' || dayStatus.status === 'leave' ? null : dayStatus.status === 'absent' ? (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4">
               <p className="text-red-800 text-sm">
                 No attendance record found for this date.
@@ -81,21 +128,60 @@ export function AttendanceDayDetailsModal({
                 </div>
               </div>
 
-              <div className="space-y-1">
-                <div className="text-sm text-muted-foreground">Total Hours</div>
-                <div className="text-2xl font-bold">
-                  {dayStatus.totalHours ? dayStatus.totalHours.toFixed(2) : '-'} hrs
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Total Hours</div>
+                  <div className="text-2xl font-bold">
+                    {dayStatus.totalHours ? dayStatus.totalHours.toFixed(2) : '-'} hrs
+                  </div>
                 </div>
+
+                {!!dayStatus.breakMinutes && (
+                  <div className="space-y-1">
+                    <div className="text-sm text-muted-foreground">Breaks</div>
+                    <div className="flex items-center gap-2 text-2xl font-bold">
+                      <Coffee className="h-5 w-5" />
+                      {dayStatus.breakMinutes} min
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {dayStatus.isShortHours && dayStatus.requiredHours !== undefined && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+                  <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-red-800">Below Minimum Hours</p>
+                    <p className="text-sm text-red-700">
+                      {dayStatus.requiredHours.toFixed(2)} hrs required
+                      {dayStatus.leaveHours ? ` after ${dayStatus.leaveHours.toFixed(1)} hrs of leave` : ''}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {sessions.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-sm text-muted-foreground">Timeline (GST)</div>
+                  <AttendanceTimeline sessions={sessions} />
+                </div>
+              )}
+
               {dayStatus.isLate && dayStatus.minutesLate && (
                 <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 flex items-start gap-3">
                   <AlertCircle className="h-5 w-5 text-orange-600 mt-0.5" />
                   <div>
-                    <p className="font-medium text-orange-800">Late Arrival</p>
+                    <p className="font-medium text-orange-800">
+                      Late Arrival{dayStatus.lateTier && ` (${dayStatus.lateTier})`}
+                    </p>
                     <p className="text-sm text-orange-700">
                       Arrived {dayStatus.minutesLate} minute{dayStatus.minutesLate !== 1 ? 's' : ''} late
                     </p>
+                    {dayStatus.lateWithinAllowance ? (
+                      <p className="text-xs text-orange-700">Within the monthly late allowance, so it does not count</p>
+                    ) : dayStatus.lateConsequence && (
+                      <p className="text-xs text-orange-700">{LATENESS_CONSEQUENCE_LABELS[dayStatus.lateConsequence]}</p>
+                    )}
                   </div>
                 </div>
               )}
@@ -17,9 +17,13 @@ import {
   TrendingUp,
   TrendingDown,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Timer
 } from 'lucide-react';
-import { startOfMonth, endOfMonth, format, isWeekend } from 'date-fns';
+import { startOfMonth, endOfMonth, format } from 'date-fns';
+import { fetchHolidayMapsByDivision } from '@/lib/holidays';
+import { fetchShiftAssignments, getAssignmentKey } from '@/lib/shifts';
+import { classifyAttendanceDays, fetchAttendanceRules, findViolation, isCountedViolation, isEscalated } from '@/lib/attendanceRules';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
 
 interface EmployeeAttendanceData {
@@ -37,8 +41,12 @@ interface AttendanceStats {
   totalPresents: number;
   totalAbsents: number;
   totalLates: number;
+  // Late arrivals in a lateness tier that is escalated to the manager
+  escalatedLates: number;
   totalBreaches: number;
   attendanceRate: number;
+  approvedOvertimeHours: number;
+  pendingOvertimeRequests: number;
   employeesWithBreaches: EmployeeAttendanceData[];
   dailyStats: { date: string; presents: number; absents: number; lates: number }[];
 }
@@ -73,7 +81,7 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
       // Fetch all active employees
       const { data: employees, error: employeesError } = await supabase
         .from('employees')
-        .select('id, full_name')
+        .select('id, full_name, division')
         .eq('status', 'active')
         .is('deleted_at', null);
 
@@ -84,8 +92,11 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
           totalPresents: 0,
           totalAbsents: 0,
           totalLates: 0,
+          escalatedLates: 0,
           totalBreaches: 0,
           attendanceRate: 0,
+          approvedOvertimeHours: 0,
+          pendingOvertimeRequests: 0,
           employeesWithBreaches: [],
           dailyStats: []
         });
@@ -95,7 +106,7 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
       // Fetch attendance for all employees for current month
       const { data: attendance, error: attendanceError } = await supabase
         .from('attendance')
-        .select('employee_id, date, status, clock_in_time, clock_out_time')
+        .select('employee_id, date, status, clock_in_time, clock_out_time, total_hours')
         .gte('date', format(monthStart, 'yyyy-MM-dd'))
         .lte('date', format(monthEnd, 'yyyy-MM-dd'))
         .order('date', { ascending: true });
@@ -105,13 +116,47 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
       // Fetch work schedules for late detection
       const { data: schedules, error: schedulesError } = await supabase
         .from('work_schedules')
-        .select('employee_id, start_time')
+        .select('employee_id, start_time, end_time, minimum_daily_hours, working_days')
         .eq('is_active', true);
 
       if (schedulesError) throw schedulesError;
 
+      // Rostered shifts, public holidays and approved leave decide which days count
+      const { data: leaves, error: leavesError } = await supabase
+        .from('leave_requests')
+        .select('employee_id, start_date, end_date, duration_type, duration_hours')
+        .eq('status', 'approved')
+        .lte('start_date', format(monthEnd, 'yyyy-MM-dd'))
+        .gte('end_date', format(monthStart, 'yyyy-MM-dd'));
+
+      if (leavesError) throw leavesError;
+
+      const [shiftAssignments, holidaysByDivision, rules] = await Promise.all([
+        fetchShiftAssignments(format(monthStart, 'yyyy-MM-dd'), format(monthEnd, 'yyyy-MM-dd')),
+        fetchHolidayMapsByDivision(
+          format(monthStart, 'yyyy-MM-dd'),
+          format(monthEnd, 'yyyy-MM-dd'),
+          employees.map(emp => emp.division)
+        ),
+        fetchAttendanceRules(),
+      ]);
+
+      // Fetch overtime raised this month
+      const { data: overtime, error: overtimeError } = await supabase
+        .from('overtime_requests')
+        .select('overtime_hours, status')
+        .gte('date', format(monthStart, 'yyyy-MM-dd'))
+        .lte('date', format(monthEnd, 'yyyy-MM-dd'));
+
+      if (overtimeError) throw overtimeError;
+
+      const approvedOvertimeHours = overtime
+        ?.filter(o => o.status === 'approved')
+        .reduce((sum, o) => sum + Number(o.overtime_hours), 0) || 0;
+      const pendingOvertimeRequests = overtime?.filter(o => o.status === 'pending').length || 0;
+
       const scheduleMap = new Map(
-        schedules?.map(s => [s.employee_id, s.start_time]) || []
+        schedules?.map(s => [s.employee_id, s]) || []
       );
 
       // Process attendance data
@@ -121,6 +166,7 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
       let totalPresents = 0;
       let totalAbsents = 0;
       let totalLates = 0;
+      let escalatedLates = 0;
 
       // Initialize employee data
       employees.forEach(emp => {
@@ -144,13 +190,11 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
         attendanceMap.get(record.employee_id)?.set(record.date, record);
       });
 
-      // Calculate working days in month (excluding weekends)
-      const workingDays: Date[] = [];
+      // Days of the month so far; which of them are working days is decided per employee
+      const monthDays: string[] = [];
       let currentDate = new Date(monthStart);
       while (currentDate <= monthEnd && currentDate <= new Date()) {
-        if (!isWeekend(currentDate)) {
-          workingDays.push(new Date(currentDate));
-        }
+        monthDays.push(format(currentDate, 'yyyy-MM-dd'));
         currentDate.setDate(currentDate.getDate() + 1);
       }
 
@@ -158,14 +202,31 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
       employees.forEach(emp => {
         const empData = employeeDataMap.get(emp.id)!;
         const empAttendance = attendanceMap.get(emp.id) || new Map();
-        const scheduleStartTime = scheduleMap.get(emp.id) || '09:00:00';
+        const holidays = holidaysByDivision.get(emp.division ?? null);
         
         let consecutiveAbsences = 0;
         let maxConsecutiveAbsences = 0;
 
-        workingDays.forEach(day => {
-          const dateStr = format(day, 'yyyy-MM-dd');
-          const record = empAttendance.get(dateStr);
+        const days = classifyAttendanceDays(
+          monthDays.map(dateStr => {
+            const assignment = shiftAssignments.get(getAssignmentKey(emp.id, dateStr));
+            return {
+              date: dateStr,
+              schedule: scheduleMap.get(emp.id) ?? null,
+              shift: assignment ? assignment.shift_templates : undefined,
+              isHoliday: holidays?.has(dateStr),
+              leave: leaves?.find(l => l.employee_id === emp.id && dateStr >= l.start_date && dateStr <= l.end_date),
+              attendance: empAttendance.get(dateStr) ?? null,
+            };
+          }),
+          rules
+        );
+
+        days.forEach(day => {
+          const dateStr = day.date;
+
+          // Days off, public holidays and full days of leave are neither presences nor absences
+          if (day.kind !== 'working') return;
 
           // Initialize daily stats
           if (!dailyStatsMap.has(dateStr)) {
@@ -173,18 +234,13 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
           }
           const dailyStats = dailyStatsMap.get(dateStr)!;
 
-          if (record && record.clock_in_time) {
-            // Check if late
-            const clockInTime = new Date(record.clock_in_time);
-            const [hours, minutes] = scheduleStartTime.split(':').map(Number);
-            const scheduledTime = new Date(clockInTime);
-            scheduledTime.setHours(hours, minutes + 15, 0); // 15 min grace period
-
-            const isLate = clockInTime > scheduledTime;
-
-            if (isLate) {
+          if (!findViolation(day, 'absent')) {
+            // Late arrivals forgiven by the monthly allowance count as presences
+            const late = findViolation(day, 'late');
+            if (late && isCountedViolation(late)) {
               empData.total_lates++;
               totalLates++;
+              if (isEscalated(late)) escalatedLates++;
               dailyStats.lates++;
             } else {
               empData.total_presents++;
@@ -217,6 +273,7 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
 
       // Convert daily stats to array
       const dailyStats = Array.from(dailyStatsMap.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
         .map(([date, stats]) => ({
           date: format(new Date(date), 'MMM dd'),
           ...stats
@@ -233,8 +290,11 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
         totalPresents,
         totalAbsents,
         totalLates,
+        escalatedLates,
         totalBreaches: employeesWithBreaches.length,
         attendanceRate,
+        approvedOvertimeHours,
+        pendingOvertimeRequests,
         employeesWithBreaches,
         dailyStats
       });
@@ -314,7 +374,7 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
         <CollapsibleContent>
           <div className="px-6 pb-6">
             {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
         <Card className="p-4 bg-card border-2">
           <div className="flex items-center justify-between">
             <div>
@@ -345,7 +405,9 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
             <div>
               <p className="text-sm font-medium text-muted-foreground">Total Lates</p>
               <p className="text-3xl font-bold text-orange-600 mt-1">{stats.totalLates}</p>
-              <p className="text-xs text-muted-foreground mt-1">Late arrivals</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Late arrivals{stats.escalatedLates > 0 && ` · ${stats.escalatedLates} escalated`}
+              </p>
             </div>
             <div className="h-12 w-12 rounded-full bg-orange-500/10 flex items-center justify-center">
               <Clock className="h-6 w-6 text-orange-600" />
@@ -365,6 +427,21 @@ export const AttendanceStatsWidget = ({ onBreachClick }: AttendanceStatsWidgetPr
             </div>
           </div>
         </Card>
+
+        <Card className="p-4 bg-card border-2 border-rose-500/20">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Overtime</p>
+              <p className="text-3xl font-bold text-rose-600 mt-1">{stats.approvedOvertimeHours.toFixed(1)}h</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Approved · {stats.pendingOvertimeRequests} pending
+              </p>
+            </div>
+            <div className="h-12 w-12 rounded-full bg-rose-500/10 flex items-center justify-center">
+              <Timer className="h-6 w-6 text-rose-600" />
+            </div>
+          </div>
+        </Card>
       </div>
 
       {/* Attendance Rate */}
@@ -0,0 +1,53 @@
+import { LogIn, Coffee } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatInGST } from '@/lib/timezone';
+import { AttendanceSession, getSessionMinutes } from '@/lib/attendanceSessions';
+
+interface AttendanceTimelineProps {
+  sessions: AttendanceSession[];
+}
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+export const AttendanceTimeline = ({ sessions }: AttendanceTimelineProps) => {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No punches recorded</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {sessions.map(session => {
+        const isBreak = session.session_type === 'break';
+        return (
+          <div
+            key={session.id}
+            className={`flex items-center justify-between rounded-lg border p-2 text-sm ${
+              isBreak ? 'ml-6 bg-amber-50 border-amber-200' : 'bg-muted/30'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              {isBreak ? (
+                <Coffee className="h-4 w-4 text-amber-600" />
+              ) : (
+                <LogIn className="h-4 w-4 text-green-600" />
+              )}
+              <span className="font-medium">{isBreak ? 'Break' : 'Work'}</span>
+              <span className="text-muted-foreground">
+                {formatInGST(session.start_time, 'HH:mm')} – {session.end_time ? formatInGST(session.end_time, 'HH:mm') : 'now'}
+              </span>
+            </div>
+            {session.end_time ? (
+              <span className="text-muted-foreground">{formatDuration(getSessionMinutes(session))}</span>
+            ) : (
+              <Badge variant="secondary">In progress</Badge>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { readImportFile } from '@/lib/employeeImport';
+import {
+  BiometricDayOutcome,
+  BiometricImportOutcome,
+  getDayKey,
+  importBiometricAttendance,
+  ParsedPunchLog,
+  parsePunchLog
+} from '@/lib/biometricImport';
+import { formatInGST } from '@/lib/timezone';
+import { AlertTriangle, Fingerprint, Loader2, Upload } from 'lucide-react';
+
+type OutcomeFilter = 'all' | BiometricImportOutcome | 'warnings';
+
+const OUTCOME_BADGES: Record<BiometricImportOutcome, { label: string; className: string }> = {
+  created: { label: 'New', className: 'bg-green-100 text-green-800' },
+  duplicate: { label: 'Already recorded', className: 'bg-gray-100 text-gray-800' },
+  conflict: { label: 'Conflict', className: 'bg-yellow-100 text-yellow-800' },
+  replaced: { label: 'Replace', className: 'bg-blue-100 text-blue-800' },
+};
+
+// Long imports are summarized rather than rendered in full
+const MAX_VISIBLE_DAYS = 300;
+
+const formatTime = (time: string | null) => (time ? formatInGST(time, 'HH:mm') : '-');
+
+/**
+ * Import historical punches from biometric terminal exports (ZKTeco and similar)
+ * Every import is checked against existing attendance first; nothing is saved until confirmed.
+ */
+export const BiometricAttendanceImport = () => {
+  const [fileName, setFileName] = useState('');
+  const [log, setLog] = useState<ParsedPunchLog | null>(null);
+  const [outcomes, setOutcomes] = useState<Map<string, BiometricDayOutcome>>(new Map());
+  const [replaceConflicts, setReplaceConflicts] = useState(false);
+  const [filter, setFilter] = useState<OutcomeFilter>('all');
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState(false);
+  const { toast } = useToast();
+
+  const runDryRun = async (parsed: ParsedPunchLog, replace: boolean) => {
+    setChecking(true);
+    try {
+      const results = await importBiometricAttendance(parsed.days, true, replace);
+      setOutcomes(new Map(results.map(r => [getDayKey(r.employee_id, r.attendance_date), r])));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check existing attendance",
+        variant: "destructive"
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setChecking(true);
+    setOutcomes(new Map());
+    setImported(false);
+    try {
+      const parsed = await parsePunchLog(await readImportFile(file));
+      setFileName(file.name);
+      setLog(parsed);
+      if (parsed.days.length > 0) {
+        await runDryRun(parsed, replaceConflicts);
+      }
+    } catch (error) {
+      setLog(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive"
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleReplaceChange = (checked: boolean) => {
+    setReplaceConflicts(checked);
+    if (log && !imported) {
+      runDryRun(log, checked);
+    }
+  };
+
+  const counts = { created: 0, duplicate: 0, conflict: 0, replaced: 0 };
+  outcomes.forEach(outcome => counts[outcome.outcome]++);
+  const toSave = counts.created + counts.replaced;
+
+  const handleImport = async () => {
+    if (!log) return;
+    if (!confirm(`Save ${toSave} attendance days from ${fileName}?`)) return;
+
+    setImporting(true);
+    try {
+      const results = await importBiometricAttendance(log.days, false, replaceConflicts);
+      setOutcomes(new Map(results.map(r => [getDayKey(r.employee_id, r.attendance_date), r])));
+      setImported(true);
+      const saved = results.filter(r => r.outcome === 'created' || r.outcome === 'replaced').length;
+      toast({
+        title: "Attendance Imported",
+        description: `${saved} days saved, ${results.length - saved} left unchanged`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import attendance",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const visibleDays = (log?.days || []).filter(day => {
+    if (filter === 'all') return true;
+    if (filter === 'warnings') return day.warnings.length > 0;
+    return outcomes.get(getDayKey(day.employee_id, day.date))?.outcome === filter;
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Biometric Attendance Import
+        </CardTitle>
+        <CardDescription>
+          Import punch logs exported from fingerprint terminals (ZKTeco BioTime transaction reports or
+          attendance logs) as CSV or Excel. Device user IDs are matched to staff IDs and each day's
+          punches become work sessions and breaks. Nothing is saved until you confirm the import.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-6">
+          <div className="grid gap-2">
+            <Label htmlFor="biometric_import_file">Punch log</Label>
+            <Input
+              id="biometric_import_file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              disabled={checking || importing}
+              className="w-72"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="biometric_replace_conflicts"
+              checked={replaceConflicts}
+              onCheckedChange={handleReplaceChange}
+              disabled={checking || importing || imported}
+            />
+            <Label htmlFor="biometric_replace_conflicts">Replace days that already have different punches</Label>
+          </div>
+        </div>
+
+        {checking && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking against existing attendance...
+          </div>
+        )}
+
+        {log && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{log.days.length} days</Badge>
+              <Badge variant="outline">{new Set(log.days.map(d => d.employee_id)).size} employees</Badge>
+              {outcomes.size > 0 && (
+                <>
+                  <Badge className={OUTCOME_BADGES.created.className}>{counts.created} new</Badge>
+                  <Badge className={OUTCOME_BADGES.duplicate.className}>{counts.duplicate} already recorded</Badge>
+                  {counts.conflict > 0 && <Badge className={OUTCOME_BADGES.conflict.className}>{counts.conflict} conflicts (skipped)</Badge>}
+                  {counts.replaced > 0 && <Badge className={OUTCOME_BADGES.replaced.className}>{counts.replaced} to replace</Badge>}
+                </>
+              )}
+              {log.duplicatePunches > 0 && (
+                <Badge variant="outline">{log.duplicatePunches} repeated punches ignored</Badge>
+              )}
+            </div>
+
+            {log.unmatchedUsers.length > 0 && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  No employee has these staff IDs, so their punches are skipped:
+                </p>
+                <p>
+                  {log.unmatchedUsers
+                    .map(u => `${u.deviceUserId}${u.deviceName ? ` (${u.deviceName})` : ''} - ${u.punchCount} punches`)
+                    .join(', ')}
+                </p>
+              </div>
+            )}
+
+            {log.issues.length > 0 && (
+              <details className="rounded-lg border p-3 text-sm">
+                <summary className="cursor-pointer font-medium">{log.issues.length} punches could not be used</summary>
+                <ul className="mt-2 space-y-1 text-muted-foreground">
+                  {log.issues.slice(0, 200).map((issue, index) => (
+                    <li key={index}>
+                      {issue.rowNumber ? `Row ${issue.rowNumber}` : 'File'}
+                      {issue.deviceUserId && ` (ID ${issue.deviceUserId})`}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <Select value={filter} onValueChange={value => setFilter(value as OutcomeFilter)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All days</SelectItem>
+                  <SelectItem value="created">New</SelectItem>
+                  <SelectItem value="duplicate">Already recorded</SelectItem>
+                  <SelectItem value="conflict">Conflicts</SelectItem>
+                  <SelectItem value="replaced">Replaced</SelectItem>
+                  <SelectItem value="warnings">With warnings</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleImport} disabled={checking || importing || imported || toSave === 0}>
+                {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                {imported ? 'Imported' : `Import ${toSave} ${toSave === 1 ? 'Day' : 'Days'}`}
+              </Button>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Clock In</TableHead>
+                    <TableHead>Clock Out</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Break</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleDays.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No days to show
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleDays.slice(0, MAX_VISIBLE_DAYS).map(day => {
+                      const outcome = outcomes.get(getDayKey(day.employee_id, day.date));
+                      const work = day.sessions.filter(s => s.session_type === 'work');
+                      return (
+                        <TableRow key={getDayKey(day.employee_id, day.date)}>
+                          <TableCell className="whitespace-nowrap">{format(parseISO(day.date), 'EEE, MMM d, yyyy')}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{day.employee_name}</div>
+                            <div className="text-xs text-muted-foreground">{day.staff_id} • {day.punchCount} punches</div>
+                          </TableCell>
+                          <TableCell>{formatTime(work[0]?.start_time ?? null)}</TableCell>
+                          <TableCell>{formatTime(work[work.length - 1]?.end_time ?? null)}</TableCell>
+                          <TableCell className="text-right">{day.total_hours === null ? '-' : day.total_hours.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{day.break_minutes ? `${day.break_minutes}m` : '-'}</TableCell>
+                          <TableCell>
+                            {outcome && (
+                              <Badge className={OUTCOME_BADGES[outcome.outcome].className}>
+                                {imported && (outcome.outcome === 'created' || outcome.outcome === 'replaced') ? 'Saved' : OUTCOME_BADGES[outcome.outcome].label}
+                              </Badge>
+                            )}
+                            {outcome && (outcome.outcome === 'conflict' || outcome.outcome === 'replaced') && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                Recorded: {formatTime(outcome.existing_clock_in)} - {formatTime(outcome.existing_clock_out)}
+                              </div>
+                            )}
+                            {day.warnings.map(warning => (
+                              <div key={warning} className="flex items-center gap-1 text-xs text-amber-700 mt-1">
+                                <AlertTriangle className="h-3 w-3" />
+                                {warning}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            {visibleDays.length > MAX_VISIBLE_DAYS && (
+              <p className="text-sm text-muted-foreground">
+                Showing the first {MAX_VISIBLE_DAYS} of {visibleDays.length} days; every day is imported.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react';
+import { CalendarFeedType, getCalendarFeedUrl, toWebcalUrl } from '@/lib/calendarFeeds';
+
+const FEED_DESCRIPTIONS: Record<CalendarFeedType, { label: string; description: string }> = {
+  personal: {
+    label: 'My Calendar',
+    description: 'Your approved leave, WFH days and public holidays',
+  },
+  team: {
+    label: 'My Team',
+    description: 'Approved leave of your direct reports',
+  },
+};
+
+/**
+ * Secret iCal URLs for subscribing to leave from Outlook, Google Calendar or Apple Calendar
+ */
+export const CalendarFeedSubscriptions = () => {
+  const { user } = useAuth();
+  const [feedUrls, setFeedUrls] = useState<Partial<Record<CalendarFeedType, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchFeeds = useCallback(async () => {
+    try {
+      const { data: employee } = await supabase
+        .from('employees')
+        .select('id')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (!employee) return;
+
+      const { count } = await supabase
+        .from('employees')
+        .select('id', { count: 'exact', head: true })
+        .eq('manager_id', employee.id)
+        .eq('status', 'active');
+
+      const feedTypes: CalendarFeedType[] = count ? ['personal', 'team'] : ['personal'];
+      const urls = await Promise.all(feedTypes.map(feedType => getCalendarFeedUrl(feedType)));
+      setFeedUrls(Object.fromEntries(feedTypes.map((feedType, i) => [feedType, urls[i]])));
+    } catch (error) {
+      console.error('Error fetching calendar feeds:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load calendar subscriptions",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchFeeds();
+    }
+  }, [user?.id, fetchFeeds]);
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Copied",
+        description: "Paste the link into your calendar app's \"Subscribe from URL\" option"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy the link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRegenerate = async (feedType: CalendarFeedType) => {
+    if (!confirm('Calendars subscribed with the current link will stop updating. Generate a new link?')) return;
+
+    try {
+      const url = await getCalendarFeedUrl(feedType, true);
+      setFeedUrls(urls => ({ ...urls, [feedType]: url }));
+      toast({
+        title: "Link Regenerated",
+        description: "Subscribe again with the new link"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to regenerate the link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading || Object.keys(feedUrls).length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="h-5 w-5" />
+          Calendar Subscriptions
+        </CardTitle>
+        <CardDescription>
+          Subscribe from Outlook, Google Calendar or Apple Calendar instead of copying leave by hand.
+          Anyone with a link can read its calendar, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(Object.keys(feedUrls) as CalendarFeedType[]).map(feedType => {
+          const url = feedUrls[feedType]!;
+          return (
+            <div key={feedType} className="space-y-2">
+              <div>
+                <Label htmlFor={`calendar-feed-${feedType}`}>{FEED_DESCRIPTIONS[feedType].label}</Label>
+                <p className="text-sm text-muted-foreground">{FEED_DESCRIPTIONS[feedType].description}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Input id={`calendar-feed-${feedType}`} value={url} readOnly className="flex-1 min-w-[16rem] font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={() => handleCopy(url)}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={toWebcalUrl(url)}>
+                    <CalendarPlus className="h-4 w-4 mr-2" />
+                    Subscribe
+                  </a>
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleRegenerate(feedType)}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  New Link
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
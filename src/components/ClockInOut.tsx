@@ -2,11 +2,16 @@ import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { LogIn, LogOut, Clock, Loader2 } from "lucide-react";
-import { format } from "date-fns";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { LogIn, LogOut, Clock, Coffee, Loader2, ShieldAlert } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { todayInGST, nowInGSTISO, formatInGST } from '@/lib/timezone';
+import { todayInGST, yesterdayInGST, formatInGST } from '@/lib/timezone';
+import { AttendanceSession, fetchAttendanceSessions } from '@/lib/attendanceSessions';
+import { isOvernightShiftPunch } from '@/lib/attendanceRules';
+import { AttendanceTimeline } from '@/components/AttendanceTimeline';
 
 interface ClockInOutProps {
   userProfile: {
@@ -16,31 +21,110 @@ interface ClockInOutProps {
   };
 }
 
-interface AttendanceRecord {
-  id: string;
-  clock_in_time: string | null;
-  clock_out_time: string | null;
-  total_hours: number | null;
-  status: string;
+interface ClockActionResult {
+  success: boolean;
+  reason?: string;
+  error?: string;
+  data?: {
+    clock_in_time?: string;
+    clock_out_time?: string;
+    break_start_time?: string;
+    break_end_time?: string;
+    is_wfh?: boolean;
+  };
 }
 
+const REJECTION_TITLES: Record<string, string> = {
+  ip_not_allowed: 'Not on Office Network',
+  ip_unknown: 'Network Not Detected',
+  already_clocked_in: 'Already Clocked In',
+  not_clocked_in: 'Not Clocked In',
+  already_on_break: 'Already On Break',
+  not_on_break: 'Not On Break',
+  employee_inactive: 'Account Inactive',
+  employee_not_found: 'Employee Not Found',
+};
+
+type ClockAction = 'clock-in' | 'clock-out' | 'break-start' | 'break-end';
+
+// Clock punches are validated server-side (IP allowlist, WFH eligibility)
+const invokeClockAction = async (action: ClockAction): Promise<ClockActionResult> => {
+  const { data, error } = await supabase.functions.invoke('attendance-clock', {
+    body: { action }
+  });
+
+  if (error) {
+    // Rejections come back as non-2xx responses with a structured body
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body) return body as ClockActionResult;
+    }
+    return { success: false, error: error.message };
+  }
+
+  return data as ClockActionResult;
+};
+
 interface ClockInOutState {
-  status: 'not-clocked-in' | 'clocked-in' | 'clocked-out';
+  status: 'not-clocked-in' | 'clocked-in' | 'on-break' | 'clocked-out';
   clockInTime: string | null;
   clockOutTime: string | null;
   totalHours: number | null;
+  breakMinutes: number;
+  sessions: AttendanceSession[];
 }
 
+const EMPTY_STATE: ClockInOutState = {
+  status: 'not-clocked-in',
+  clockInTime: null,
+  clockOutTime: null,
+  totalHours: null,
+  breakMinutes: 0,
+  sessions: []
+};
+
+const ACTION_LABELS: Record<ClockAction, { title: string; verb: string }> = {
+  'clock-in': { title: 'Clocked In', verb: 'clocked in' },
+  'clock-out': { title: 'Clocked Out', verb: 'clocked out' },
+  'break-start': { title: 'Break Started', verb: 'started your break' },
+  'break-end': { title: 'Break Ended', verb: 'ended your break' },
+};
+
+const getActionTime = (action: ClockAction, result: ClockActionResult) => {
+  switch (action) {
+    case 'clock-in':
+      return result.data?.clock_in_time;
+    case 'clock-out':
+      return result.data?.clock_out_time;
+    case 'break-start':
+      return result.data?.break_start_time;
+    case 'break-end':
+      return result.data?.break_end_time;
+  }
+};
+
+// Status comes from the punch log; days without sessions fall back to the day's clock times
+const deriveStatus = (
+  sessions: AttendanceSession[],
+  clockInTime: string | null,
+  clockOutTime: string | null
+): ClockInOutState['status'] => {
+  if (sessions.length > 0) {
+    if (sessions.some(s => s.session_type === 'break' && !s.end_time)) return 'on-break';
+    if (sessions.some(s => s.session_type === 'work' && !s.end_time)) return 'clocked-in';
+    return 'clocked-out';
+  }
+  return clockOutTime ? 'clocked-out' : clockInTime ? 'clocked-in' : 'not-clocked-in';
+};
+
 export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
-  const [state, setState] = useState<ClockInOutState>({
-    status: 'not-clocked-in',
-    clockInTime: null,
-    clockOutTime: null,
-    totalHours: null
-  });
+  const [state, setState] = useState<ClockInOutState>(EMPTY_STATE);
   const [loading, setLoading] = useState(true);
-  const [actionLoading, setActionLoading] = useState(false);
+  const [pendingAction, setPendingAction] = useState<ClockAction | null>(null);
   const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<{ title: string; message: string } | null>(null);
+  // Yesterday's date when its work session was left open and today started a new record
+  const [missedClockOutDate, setMissedClockOutDate] = useState<string | null>(null);
   const { toast } = useToast();
 
   // Get today's date in GST timezone
@@ -77,13 +161,17 @@ export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
 
       setEmployeeId(employee.id);
 
-      // Then get today's attendance record
-      const { data: attendance, error: attendanceError } = await supabase
-        .from('attendance')
-        .select('id, clock_in_time, clock_out_time, total_hours, status')
-        .eq('employee_id', employee.id)
-        .eq('date', today)
-        .maybeSingle();
+      // Then get today's attendance record. After midnight, a shift that crosses midnight keeps
+      // recording against the day it started on (same rule as the attendance-clock function).
+      const yesterday = yesterdayInGST();
+      const [{ data: recentAttendance, error: attendanceError }, { data: yesterdayShifts }] = await Promise.all([
+        supabase
+          .from('attendance')
+          .select('id, date, clock_in_time, clock_out_time, total_hours, break_duration_minutes, status')
+          .eq('employee_id', employee.id)
+          .in('date', [yesterday, today]),
+        supabase.rpc('get_employee_shift', { p_employee_id: employee.id, p_date: yesterday })
+      ]);
 
       if (attendanceError) {
         console.error('Error fetching attendance:', attendanceError);
@@ -95,23 +183,26 @@ export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
         return;
       }
 
+      const openYesterday = recentAttendance?.find(a => a.date === yesterday && a.clock_in_time && !a.clock_out_time);
+      const carriesOver = isOvernightShiftPunch(yesterdayShifts?.[0], today, !!openYesterday);
+      const attendance = carriesOver && openYesterday
+        ? openYesterday
+        : recentAttendance?.find(a => a.date === (carriesOver ? yesterday : today));
+      setMissedClockOutDate(openYesterday && !carriesOver ? yesterday : null);
+
       if (attendance) {
-        const hasClockIn = attendance.clock_in_time !== null;
-        const hasClockOut = attendance.clock_out_time !== null;
-        
+        const sessions = await fetchAttendanceSessions(attendance.id);
+
         setState({
-          status: hasClockOut ? 'clocked-out' : hasClockIn ? 'clocked-in' : 'not-clocked-in',
+          status: deriveStatus(sessions, attendance.clock_in_time, attendance.clock_out_time),
           clockInTime: attendance.clock_in_time,
           clockOutTime: attendance.clock_out_time,
-          totalHours: attendance.total_hours
+          totalHours: attendance.total_hours,
+          breakMinutes: attendance.break_duration_minutes || 0,
+          sessions
         });
       } else {
-        setState({
-          status: 'not-clocked-in',
-          clockInTime: null,
-          clockOutTime: null,
-          totalHours: null
-        });
+        setState(EMPTY_STATE);
       }
     } catch (error) {
       console.error('Error in fetchAttendanceData:', error);
@@ -129,67 +220,18 @@ export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
     fetchAttendanceData();
   }, [userProfile.user_id, today, toast]);
 
-  const handleClockIn = async () => {
-    if (!employeeId) {
-      toast({
-        title: "Error",
-        description: "Employee data not loaded. Please refresh the page.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
-    setActionLoading(true);
-    try {
-      const now = nowInGSTISO();
-      
-      // Get user's current IP (in production, this would be server-side)
-      const response = await fetch('https://api.ipify.org?format=json');
-      const { ip } = await response.json();
-      
-      const { error } = await supabase
-        .from('attendance')
-        .insert({
-          employee_id: employeeId,
-          date: today,
-          clock_in_time: now,
-          status: 'present',
-          ip_address: ip
-        });
-
-      if (error) {
-        if (error.code === '23505') { // Unique constraint violation
-          toast({
-            title: "Already Clocked In",
-            description: "You have already clocked in today",
-            variant: "destructive"
-          });
-        } else {
-          throw error;
-        }
-        return;
-      }
-
-      // Refetch attendance data to ensure UI shows actual database state
-      await fetchAttendanceData();
-
-      toast({
-        title: "Clocked In",
-        description: `Successfully clocked in at ${formatInGST(now, 'HH:mm')} GST`,
-      });
-    } catch (error) {
-      console.error('Error clocking in:', error);
-      toast({
-        title: "Error",
-        description: "Failed to clock in. Please try again.",
-        variant: "destructive"
-      });
-    } finally {
-      setActionLoading(false);
-    }
+  const handleRejection = (result: ClockActionResult) => {
+    const title = (result.reason && REJECTION_TITLES[result.reason]) || 'Error';
+    const message = result.error || 'Request was rejected. Please try again.';
+    setRejection({ title, message });
+    toast({
+      title,
+      description: message,
+      variant: "destructive"
+    });
   };
 
-  const handleClockOut = async () => {
+  const handleAction = async (action: ClockAction) => {
     if (!employeeId) {
       toast({
         title: "Error",
@@ -199,41 +241,33 @@ export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
       return;
     }
     
-    // Allow re-clocking out if already clocked in or clocked out
-    if (state.status === 'not-clocked-in') return;
-    
-    setActionLoading(true);
+    setPendingAction(action);
+    setRejection(null);
     try {
-      const now = nowInGSTISO();
-      
-      const { error } = await supabase
-        .from('attendance')
-        .update({
-          clock_out_time: now
-        })
-        .eq('employee_id', employeeId)
-        .eq('date', today);
-
-      if (error) {
-        throw error;
+      const result = await invokeClockAction(action);
+
+      if (!result.success) {
+        handleRejection(result);
+        return;
       }
 
       // Refetch attendance data to ensure UI shows actual database state
       await fetchAttendanceData();
 
+      const { title, verb } = ACTION_LABELS[action];
       toast({
-        title: "Clocked Out",
-        description: `Successfully clocked out at ${formatInGST(now, 'HH:mm')} GST`,
+        title: action === 'clock-in' && result.data?.is_wfh ? `${title} (WFH)` : title,
+        description: `Successfully ${verb} at ${formatInGST(getActionTime(action, result) || new Date(), 'HH:mm')} GST`,
       });
     } catch (error) {
-      console.error('Error clocking out:', error);
+      console.error(`Error performing ${action}:`, error);
       toast({
         title: "Error",
-        description: "Failed to clock out. Please try again.",
+        description: "Failed to record your punch. Please try again.",
         variant: "destructive"
       });
     } finally {
-      setActionLoading(false);
+      setPendingAction(null);
     }
   };
 
@@ -251,6 +285,14 @@ export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
           badge: 'bg-status-present text-white',
           description: `Clocked in at ${state.clockInTime ? formatInGST(state.clockInTime, 'HH:mm') : ''} GST`
         };
+      case 'on-break': {
+        const openBreak = state.sessions.find(s => s.session_type === 'break' && !s.end_time);
+        return {
+          text: 'On break',
+          badge: 'bg-amber-500 text-white',
+          description: `Break started at ${openBreak ? formatInGST(openBreak.start_time, 'HH:mm') : ''} GST`
+        };
+      }
       case 'clocked-out':
         return {
           text: 'Clocked out',
@@ -274,6 +316,9 @@ export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
   }
 
   const statusDisplay = getStatusDisplay();
+  const isWorking = state.status === 'clocked-in' || state.status === 'on-break';
+  const canClockIn = state.status === 'not-clocked-in' || state.status === 'clocked-out';
+  const breakAction: ClockAction = state.status === 'on-break' ? 'break-end' : 'break-start';
 
   return (
     <Card className="border-2 border-primary/20 bg-gradient-to-r from-primary/5 to-primary-glow/5">
@@ -313,38 +358,86 @@ export const ClockInOut = ({ userProfile }: ClockInOutProps) => {
                     {state.totalHours.toFixed(2)}h
                   </div>
                 )}
+                {state.breakMinutes > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Coffee className="h-4 w-4" />
+                    {state.breakMinutes}m break
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Full punch log once the day has more than a single session */}
+            {state.sessions.length > 1 && (
+              <div className="mt-3 max-w-md">
+                <AttendanceTimeline sessions={state.sessions} />
               </div>
             )}
+
+            {missedClockOutDate && (
+              <Alert className="mt-3">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertDescription>
+                  You did not clock out on {format(parseISO(missedClockOutDate), 'MMM d')}. Submit a missed
+                  clock-out exception so that day can be corrected.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {rejection && (
+              <Alert variant="destructive" className="mt-3">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertDescription>
+                  <span className="font-medium">{rejection.title}:</span> {rejection.message}
+                </AlertDescription>
+              </Alert>
+            )}
           </div>
           
           
           <div className="flex gap-3">
             <Button 
-              onClick={handleClockIn}
+              onClick={() => handleAction('clock-in')}
               size="lg"
-              disabled={actionLoading || state.status !== 'not-clocked-in'}
+              disabled={!!pendingAction || !canClockIn}
               className="bg-status-present hover:bg-status-present/90 disabled:opacity-50"
             >
-              {actionLoading && state.status === 'not-clocked-in' ? (
+              {pendingAction === 'clock-in' ? (
                 <Loader2 className="h-5 w-5 mr-2 animate-spin" />
               ) : (
                 <LogIn className="h-5 w-5 mr-2" />
               )}
-              Clock In
+              {state.status === 'clocked-out' ? 'Clock In Again' : 'Clock In'}
             </Button>
+
+            {isWorking && (
+              <Button
+                onClick={() => handleAction(breakAction)}
+                size="lg"
+                variant="outline"
+                disabled={!!pendingAction}
+              >
+                {pendingAction === breakAction ? (
+                  <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                ) : (
+                  <Coffee className="h-5 w-5 mr-2" />
+                )}
+                {state.status === 'on-break' ? 'End Break' : 'Start Break'}
+              </Button>
+            )}
             
             <Button 
-              onClick={handleClockOut}
+              onClick={() => handleAction('clock-out')}
               size="lg"
-              disabled={actionLoading || state.status === 'not-clocked-in'}
+              disabled={!!pendingAction || !isWorking}
               className="bg-status-rejected hover:bg-status-rejected/90 disabled:opacity-50"
             >
-              {actionLoading && state.status !== 'not-clocked-in' ? (
+              {pendingAction === 'clock-out' ? (
                 <Loader2 className="h-5 w-5 mr-2 animate-spin" />
               ) : (
                 <LogOut className="h-5 w-5 mr-2" />
               )}
-              {state.status === 'clocked-out' ? 'Update Clock Out' : 'Clock Out'}
+              Clock Out
             </Button>
           </div>
         </div>
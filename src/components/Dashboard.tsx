@@ -26,7 +26,18 @@ import { supabase } from "@/integrations/supabase/client";
 import { format } from "date-fns";
 import { calculateServiceDuration, formatServiceDuration, isProbationCompleted } from "@/lib/utils";
 import { todayInGST } from '@/lib/timezone';
+import { fetchShiftAssignments, getAssignmentKey } from '@/lib/shifts';
+import { fetchHolidayMapsByDivision } from '@/lib/holidays';
+import {
+  classifyAttendanceDays,
+  fetchAttendanceRules,
+  findViolation,
+  isCountedViolation,
+  listDates,
+  startOfMonthDate
+} from '@/lib/attendanceRules';
 import { TimezoneIndicator } from '@/components/TimezoneIndicator';
+import { ROUTES } from "@/lib/routes";
 
 interface DashboardProps {
   userRole: 'admin' | 'staff';
@@ -41,7 +52,7 @@ interface DashboardProps {
     full_name: string;
   };
   onLogout: () => void;
-  onNavigate?: (tabId: string) => void;
+  onNavigate?: (path: string) => void;
 }
 
 interface TodayAttendance {
@@ -51,8 +62,7 @@ interface TodayAttendance {
   clock_in_time: string | null;
   clock_out_time: string | null;
   status: string;
-  start_time?: string;
-  working_days?: string[];
+  is_late: boolean;
 }
 
 interface DashboardStats {
@@ -82,34 +92,6 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
   // Get today's date in GST timezone
   const today = todayInGST();
 
-  // Helper function to check if clock-in is late based on work schedule
-  const isLateCheckIn = (clockInTime: string, startTime: string | undefined): boolean => {
-    if (!clockInTime) return false;
-    
-    const clockIn = new Date(clockInTime);
-    const gracePeriodMinutes = 15;
-    
-    // Default to 9:00 AM if no schedule
-    const defaultStartHour = 9;
-    const defaultStartMinute = 0;
-    
-    let scheduleStartHour = defaultStartHour;
-    let scheduleStartMinute = defaultStartMinute;
-    
-    if (startTime) {
-      // Parse time format "HH:MM:SS"
-      const [hours, minutes] = startTime.split(':').map(Number);
-      scheduleStartHour = hours;
-      scheduleStartMinute = minutes;
-    }
-    
-    // Create a date object for scheduled start time on the same day
-    const scheduledStart = new Date(clockIn);
-    scheduledStart.setHours(scheduleStartHour, scheduleStartMinute + gracePeriodMinutes, 0, 0);
-    
-    return clockIn > scheduledStart;
-  };
-
   // Fetch dashboard data
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -124,7 +106,8 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
             status,
             employees!inner(
               full_name,
-              department
+              department,
+              division
             )
           `)
           .eq('date', today)
@@ -135,13 +118,33 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
         if (attendanceError) {
           console.error('Error fetching today\'s attendance:', attendanceError);
         } else {
-          // Fetch work schedules for employees
+          // Lateness follows the shared attendance rules; earlier late arrivals this month use up
+          // the monthly allowance, so the month so far is classified too
           const employeeIds = (attendanceData || []).map(record => record.employee_id);
-          const { data: scheduleData } = await supabase
-            .from('work_schedules')
-            .select('employee_id, start_time, working_days')
-            .in('employee_id', employeeIds)
-            .eq('is_active', true);
+          const monthStart = startOfMonthDate(today);
+          const [{ data: scheduleData }, { data: monthAttendance }, { data: leaves }, shiftAssignments, holidaysByDivision, rules] = await Promise.all([
+            supabase
+              .from('work_schedules')
+              .select('employee_id, start_time, end_time, minimum_daily_hours, working_days')
+              .in('employee_id', employeeIds)
+              .eq('is_active', true),
+            supabase
+              .from('attendance')
+              .select('employee_id, date, clock_in_time, clock_out_time, total_hours')
+              .in('employee_id', employeeIds)
+              .gte('date', monthStart)
+              .lte('date', today),
+            supabase
+              .from('leave_requests')
+              .select('employee_id, start_date, end_date, duration_type, duration_hours')
+              .in('employee_id', employeeIds)
+              .eq('status', 'approved')
+              .lte('start_date', today)
+              .gte('end_date', monthStart),
+            fetchShiftAssignments(monthStart, today, employeeIds),
+            fetchHolidayMapsByDivision(monthStart, today, (attendanceData || []).map(record => record.employees.division)),
+            fetchAttendanceRules(),
+          ]);
 
           // Create a map of schedules by employee_id
           const scheduleMap = new Map(
@@ -150,7 +153,22 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
 
           // Merge schedule data with attendance data
           formattedData = (attendanceData || []).map(record => {
-            const schedule = scheduleMap.get(record.employee_id);
+            const holidays = holidaysByDivision.get(record.employees.division ?? null);
+            const days = classifyAttendanceDays(
+              listDates(monthStart, today).map(date => {
+                const assignment = shiftAssignments.get(getAssignmentKey(record.employee_id, date));
+                return {
+                  date,
+                  schedule: scheduleMap.get(record.employee_id) ?? null,
+                  shift: assignment ? assignment.shift_templates : undefined,
+                  isHoliday: holidays?.has(date),
+                  leave: leaves?.find(l => l.employee_id === record.employee_id && date >= l.start_date && date <= l.end_date),
+                  attendance: monthAttendance?.find(a => a.employee_id === record.employee_id && a.date === date) ?? null,
+                };
+              }),
+              rules
+            );
+            const late = findViolation(days[days.length - 1], 'late');
             return {
               employee_id: record.employee_id,
               employee_name: record.employees.full_name,
@@ -158,8 +176,7 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
               clock_in_time: record.clock_in_time,
               clock_out_time: record.clock_out_time,
               status: record.status,
-              start_time: schedule?.start_time,
-              working_days: schedule?.working_days
+              is_late: !!late && isCountedViolation(late)
             };
           });
 
@@ -195,10 +212,7 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
             .gte('end_date', today);
 
           // Calculate late check-ins using work schedules
-          const lateCheckIns = formattedData.filter(record => {
-            if (!record.clock_in_time) return false;
-            return isLateCheckIn(record.clock_in_time, record.start_time);
-          }).length;
+          const lateCheckIns = formattedData.filter(record => record.is_late).length;
 
           setDashboardStats({
             totalStaff: totalStaffCount || 0,
@@ -250,7 +264,7 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
   const getAttendanceStatus = (record: TodayAttendance) => {
     if (!record.clock_in_time) return 'absent';
     
-    if (isLateCheckIn(record.clock_in_time, record.start_time)) {
+    if (record.is_late) {
       return 'late';
     }
     
@@ -474,7 +488,7 @@ export const Dashboard = ({ userRole, currentUser, userProfile, onLogout, onNavi
                   <Button 
                     variant="outline" 
                     size="sm" 
-                    onClick={() => onNavigate('attendance')}
+                    onClick={() => onNavigate(ROUTES.teamAttendance)}
                   >
                     Review Attendance
                   </Button>
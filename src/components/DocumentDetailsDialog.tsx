@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { DocumentVersion, documentStatusLabel, documentTypeLabel, fetchDocumentVersions } from '@/lib/staffDocuments';
+import { Eye, History } from 'lucide-react';
+
+interface DocumentDetailsDialogProps {
+  document: {
+    id: string;
+    document_type: string;
+    document_name: string;
+    employees?: { full_name: string; employee_id: string } | null;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : '-');
+
+/**
+ * A staff document with its renewal timeline: every version, its dates and who uploaded it
+ */
+export const DocumentDetailsDialog = ({ document, open, onOpenChange }: DocumentDetailsDialogProps) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchVersions = useCallback(async (documentId: string) => {
+    setLoading(true);
+    try {
+      setVersions(await fetchDocumentVersions(documentId));
+    } catch (error) {
+      console.error('Error fetching document versions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the document history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const documentId = document?.id;
+  useEffect(() => {
+    if (open && documentId) {
+      fetchVersions(documentId);
+    }
+  }, [open, documentId, fetchVersions]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {document?.document_name}
+          </DialogTitle>
+          <DialogDescription>
+            {document && documentTypeLabel(document.document_type)}
+            {document?.employees && ` · ${document.employees.full_name} (${document.employees.employee_id})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : (
+          <ol className="relative space-y-4 border-l pl-6">
+            {[...versions].reverse().map(version => (
+              <li key={version.id} className="relative">
+                <span
+                  className={`absolute -left-[29px] top-1.5 h-3 w-3 rounded-full border-2 border-background ${
+                    version.status === 'active' ? 'bg-primary' : 'bg-muted-foreground'
+                  }`}
+                />
+                <div className="flex flex-wrap items-start justify-between gap-2 rounded-md border p-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 font-medium">
+                      Version {version.version_number}
+                      {version.status === 'active' ? (
+                        <Badge>Current</Badge>
+                      ) : (
+                        <Badge variant="outline">{documentStatusLabel(version.status)}</Badge>
+                      )}
+                      {version.id === document?.id && version.status !== 'active' && (
+                        <Badge variant="secondary">Selected</Badge>
+                      )}
+                    </div>
+                    {version.document_name !== document?.document_name && (
+                      <p>{version.document_name}</p>
+                    )}
+                    <p className="text-muted-foreground">
+                      Issued {formatDate(version.issue_date)} · Expires {formatDate(version.expiry_date)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Uploaded by {version.uploaded_by_name || 'Unknown'} on{' '}
+                      {format(parseISO(version.created_at), 'MMM d, yyyy h:mm a')}
+                    </p>
+                    {version.notes && <p className="text-xs italic text-muted-foreground">{version.notes}</p>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => window.open(version.file_url, '_blank')}>
+                    <Eye className="h-4 w-4 mr-1" />
+                    View
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -12,10 +12,21 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
-import { FileText, Upload, Calendar as CalendarIcon, AlertTriangle, Download, Eye } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { FileText, Upload, Calendar as CalendarIcon, AlertTriangle, Download, Eye, RefreshCw, X, History, FilePlus } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { toGST } from '@/lib/timezone';
+import {
+  DOCUMENT_TYPES,
+  documentStatusLabel,
+  documentTypeLabel,
+  setDocumentRenewal,
+  uploadStaffDocumentFile
+} from '@/lib/staffDocuments';
+import { DocumentReminderPolicies } from '@/components/DocumentReminderPolicies';
+import { DocumentDetailsDialog } from '@/components/DocumentDetailsDialog';
+import { DocumentVerificationQueue } from '@/components/DocumentVerificationQueue';
 
 interface Employee {
   id: string;
@@ -34,6 +45,10 @@ interface StaffDocument {
   expiry_date: string | null;
   status: string;
   notes: string | null;
+  renewal_in_progress: boolean;
+  renewal_started_at: string | null;
+  version_number: number;
+  previous_version_id: string | null;
   created_at: string;
   employees?: {
     full_name: string;
@@ -41,17 +56,6 @@ interface StaffDocument {
   } | null;
 }
 
-const documentTypes = [
-  { value: 'emirates_id', label: 'Emirates ID' },
-  { value: 'passport', label: 'Passport' },
-  { value: 'visa', label: 'Visa' },
-  { value: 'driving_license', label: 'Driving License' },
-  { value: 'work_permit', label: 'Work Permit' },
-  { value: 'health_card', label: 'Health Card' },
-  { value: 'insurance_card', label: 'Insurance Card' },
-  { value: 'other', label: 'Other' }
-];
-
 export const DocumentManagement = () => {
   const [documents, setDocuments] = useState<StaffDocument[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -59,17 +63,24 @@ export const DocumentManagement = () => {
   const [uploading, setUploading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [renewalBusy, setRenewalBusy] = useState<string | null>(null);
+  const [detailsDocument, setDetailsDocument] = useState<StaffDocument | null>(null);
   const { toast } = useToast();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
   
   // Form state
-  const [formData, setFormData] = useState({
+  const emptyForm = {
     employee_id: '',
     document_type: '',
     document_name: '',
     issue_date: null as Date | null,
     expiry_date: null as Date | null,
-    notes: ''
-  });
+    notes: '',
+    // Set when uploading a renewed version of an existing document
+    previous_version_id: null as string | null
+  };
+  const [formData, setFormData] = useState(emptyForm);
 
   const fetchData = async () => {
     try {
@@ -85,7 +96,7 @@ export const DocumentManagement = () => {
             employee_id
           )
         `)
-        .eq('status', 'active')
+        .in('status', ['active', 'pending_verification'])
         .order('created_at', { ascending: false });
 
       if (docsError) throw docsError;
@@ -120,25 +131,6 @@ export const DocumentManagement = () => {
     fetchData();
   }, []);
 
-  const handleFileUpload = async (file: File): Promise<string> => {
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${Date.now()}_${Math.random().toString(36).substring(2)}.${fileExt}`;
-    const filePath = `documents/${fileName}`;
-
-    const { error: uploadError } = await supabase.storage
-      .from('hr-documents')
-      .upload(filePath, file);
-
-    if (uploadError) throw uploadError;
-
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('hr-documents')
-      .getPublicUrl(filePath);
-
-    return publicUrl;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedFile) {
@@ -154,7 +146,7 @@ export const DocumentManagement = () => {
 
     try {
       // Upload file
-      const fileUrl = await handleFileUpload(selectedFile);
+      const fileUrl = await uploadStaffDocumentFile(selectedFile, 'documents');
 
       // Save document record
       const { error } = await supabase
@@ -167,6 +159,7 @@ export const DocumentManagement = () => {
           issue_date: formData.issue_date?.toISOString().split('T')[0] || null,
           expiry_date: formData.expiry_date?.toISOString().split('T')[0] || null,
           notes: formData.notes || null,
+          previous_version_id: formData.previous_version_id,
           uploaded_by: (await supabase.auth.getUser()).data.user?.id
         });
 
@@ -174,18 +167,13 @@ export const DocumentManagement = () => {
 
       toast({
         title: 'Success',
-        description: 'Document uploaded successfully',
+        description: formData.previous_version_id
+          ? 'Renewed version uploaded - the previous version is kept in the document history'
+          : 'Document uploaded successfully',
       });
 
       // Reset form
-      setFormData({
-        employee_id: '',
-        document_type: '',
-        document_name: '',
-        issue_date: null,
-        expiry_date: null,
-        notes: ''
-      });
+      setFormData(emptyForm);
       setSelectedFile(null);
       setIsDialogOpen(false);
 
@@ -203,6 +191,42 @@ export const DocumentManagement = () => {
     }
   };
 
+  const handleRenewal = async (doc: StaffDocument, inProgress: boolean) => {
+    setRenewalBusy(doc.id);
+    try {
+      await setDocumentRenewal(doc.id, inProgress, (await supabase.auth.getUser()).data.user?.id);
+      toast({
+        title: 'Success',
+        description: inProgress
+          ? 'Renewal started - expiry reminders are paused until the new document is uploaded'
+          : 'Renewal cancelled - expiry reminders will resume',
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error updating renewal:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update the renewal',
+        variant: 'destructive',
+      });
+    } finally {
+      setRenewalBusy(null);
+    }
+  };
+
+  // Open the upload form for the renewed version of a document
+  const openRenewalUpload = (doc: StaffDocument) => {
+    setFormData({
+      ...emptyForm,
+      employee_id: doc.employee_id,
+      document_type: doc.document_type,
+      document_name: doc.document_name,
+      previous_version_id: doc.id
+    });
+    setSelectedFile(null);
+    setIsDialogOpen(true);
+  };
+
   const getExpiryStatus = (expiryDate: string | null) => {
     if (!expiryDate) return null;
     
@@ -230,7 +254,13 @@ export const DocumentManagement = () => {
           <h2 className="text-2xl font-semibold">Staff Documents</h2>
         </div>
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <Dialog
+          open={isDialogOpen}
+          onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) setFormData(emptyForm);
+          }}
+        >
           <DialogTrigger asChild>
             <Button>
               <Upload className="h-4 w-4 mr-2" />
@@ -239,7 +269,7 @@ export const DocumentManagement = () => {
           </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Upload New Document</DialogTitle>
+              <DialogTitle>{formData.previous_version_id ? 'Upload Renewed Version' : 'Upload New Document'}</DialogTitle>
             </DialogHeader>
             
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -249,6 +279,7 @@ export const DocumentManagement = () => {
                   <Select 
                     value={formData.employee_id} 
                     onValueChange={(value) => setFormData({ ...formData, employee_id: value })}
+                    disabled={!!formData.previous_version_id}
                     required
                   >
                     <SelectTrigger>
@@ -269,13 +300,14 @@ export const DocumentManagement = () => {
                   <Select 
                     value={formData.document_type} 
                     onValueChange={(value) => setFormData({ ...formData, document_type: value })}
+                    disabled={!!formData.previous_version_id}
                     required
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select document type" />
                     </SelectTrigger>
                     <SelectContent>
-                      {documentTypes.map((type) => (
+                      {DOCUMENT_TYPES.map((type) => (
                         <SelectItem key={type.value} value={type.value}>
                           {type.label}
                         </SelectItem>
@@ -376,7 +408,14 @@ export const DocumentManagement = () => {
                 <Button type="submit" disabled={uploading} className="flex-1">
                   {uploading ? 'Uploading...' : 'Upload Document'}
                 </Button>
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setIsDialogOpen(false);
+                    setFormData(emptyForm);
+                  }}
+                >
                   Cancel
                 </Button>
               </div>
@@ -385,6 +424,14 @@ export const DocumentManagement = () => {
         </Dialog>
       </div>
 
+      {isAdmin && (
+        <DocumentVerificationQueue
+          documents={documents.filter(doc => doc.status === 'pending_verification')}
+          onReviewed={fetchData}
+          onViewHistory={(id) => setDetailsDocument(documents.find(doc => doc.id === id) ?? null)}
+        />
+      )}
+
       {/* Documents Table */}
       <Card>
         <CardHeader>
@@ -407,7 +454,7 @@ export const DocumentManagement = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {documents.map((doc) => {
+                {documents.filter(doc => doc.status === 'active').map((doc) => {
                   const expiryStatus = getExpiryStatus(doc.expiry_date);
                   return (
                     <TableRow key={doc.id}>
@@ -418,9 +465,14 @@ export const DocumentManagement = () => {
                         </div>
                       </TableCell>
                       <TableCell>
-                        {documentTypes.find(t => t.value === doc.document_type)?.label || doc.document_type}
+                        {documentTypeLabel(doc.document_type)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {doc.document_name}
+                          {doc.version_number > 1 && <Badge variant="outline">v{doc.version_number}</Badge>}
+                        </div>
                       </TableCell>
-                      <TableCell>{doc.document_name}</TableCell>
                       <TableCell>
                         {doc.issue_date ? format(new Date(doc.issue_date), 'PPP') : '-'}
                       </TableCell>
@@ -436,7 +488,15 @@ export const DocumentManagement = () => {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge variant="outline">{doc.status}</Badge>
+                        <div className="flex flex-col gap-1">
+                          <Badge variant="outline" className="w-fit">{documentStatusLabel(doc.status)}</Badge>
+                          {doc.renewal_in_progress && (
+                            <Badge variant="secondary" className="w-fit">
+                              <RefreshCw className="h-3 w-3 mr-1" />
+                              Renewal in progress
+                            </Badge>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
@@ -459,6 +519,46 @@ export const DocumentManagement = () => {
                           >
                             <Download className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Details and renewal history"
+                            onClick={() => setDetailsDocument(doc)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          {isAdmin && (
+                            <Button
+                              variant={doc.renewal_in_progress ? 'outline' : 'ghost'}
+                              size="sm"
+                              title="Upload renewed version"
+                              onClick={() => openRenewalUpload(doc)}
+                            >
+                              <FilePlus className="h-4 w-4" />
+                              {doc.renewal_in_progress && <span className="ml-1">Upload Renewal</span>}
+                            </Button>
+                          )}
+                          {isAdmin && doc.expiry_date && (doc.renewal_in_progress ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Cancel renewal"
+                              onClick={() => handleRenewal(doc, false)}
+                              disabled={renewalBusy === doc.id}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Start renewal (pauses expiry reminders)"
+                              onClick={() => handleRenewal(doc, true)}
+                              disabled={renewalBusy === doc.id}
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
+                          ))}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -469,6 +569,14 @@ export const DocumentManagement = () => {
           )}
         </CardContent>
       </Card>
+
+      {isAdmin && <DocumentReminderPolicies />}
+
+      <DocumentDetailsDialog
+        document={detailsDocument}
+        open={!!detailsDocument}
+        onOpenChange={(open) => !open && setDetailsDocument(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
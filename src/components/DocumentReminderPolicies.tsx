@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DocumentReminderPolicy,
+  documentTypeLabel,
+  fetchDocumentReminderPolicies,
+  parseReminderDays,
+  saveDocumentReminderPolicy
+} from '@/lib/staffDocuments';
+import { BellRing, Save } from 'lucide-react';
+
+interface PolicyRow extends DocumentReminderPolicy {
+  // The schedule as typed, e.g. "60, 30, 14, 7, 1"
+  daysText: string;
+}
+
+const toRow = (policy: DocumentReminderPolicy): PolicyRow => ({
+  ...policy,
+  daysText: policy.reminder_days.join(', '),
+});
+
+/**
+ * Expiry reminder schedule per document type, and whether HR is alerted when a document expires
+ */
+export const DocumentReminderPolicies = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<PolicyRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const policies = await fetchDocumentReminderPolicies();
+      setRows(policies.map(toRow));
+    } catch (error) {
+      console.error('Error fetching reminder policies:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load reminder schedules',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const updateRow = (documentType: string, changes: Partial<PolicyRow>) => {
+    setRows(rows.map(row => (row.document_type === documentType ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async () => {
+    const policies: DocumentReminderPolicy[] = [];
+    for (const row of rows) {
+      try {
+        policies.push({ ...row, reminder_days: parseReminderDays(row.daysText) });
+      } catch (error) {
+        toast({
+          title: 'Invalid Schedule',
+          description: `${documentTypeLabel(row.document_type)}: ${(error as Error).message}`,
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      for (const policy of policies) {
+        await saveDocumentReminderPolicy(policy, user?.id);
+      }
+      setRows(policies.map(toRow));
+      toast({
+        title: 'Success',
+        description: 'Reminder schedules saved',
+      });
+    } catch (error) {
+      console.error('Error saving reminder policies:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save reminder schedules',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Expiry Reminder Schedules
+        </CardTitle>
+        <CardDescription>
+          Days before expiry that the employee and HR are reminded, per document type. Documents with a
+          renewal in progress get no reminders until the new document is uploaded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p>Loading reminder schedules...</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document Type</TableHead>
+                  <TableHead>Remind (days before expiry)</TableHead>
+                  <TableHead>Reminders On</TableHead>
+                  <TableHead>Alert HR On Expiry</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.document_type}>
+                    <TableCell className="font-medium">{documentTypeLabel(row.document_type)}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={row.daysText}
+                        onChange={(e) => updateRow(row.document_type, { daysText: e.target.value })}
+                        placeholder="e.g. 60, 30, 14, 7, 1"
+                        className="max-w-xs"
+                        disabled={!row.is_active}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={row.is_active}
+                        onCheckedChange={(checked) => updateRow(row.document_type, { is_active: checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={row.escalate_on_expiry}
+                        onCheckedChange={(checked) => updateRow(row.document_type, { escalate_on_expiry: checked })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Schedules'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
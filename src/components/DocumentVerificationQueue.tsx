@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { documentTypeLabel, reviewStaffDocument } from '@/lib/staffDocuments';
+import { Check, Eye, History, ShieldCheck, X } from 'lucide-react';
+
+interface PendingDocument {
+  id: string;
+  document_type: string;
+  document_name: string;
+  file_url: string;
+  issue_date: string | null;
+  expiry_date: string | null;
+  notes: string | null;
+  version_number: number;
+  previous_version_id: string | null;
+  created_at: string;
+  employees?: { full_name: string; employee_id: string } | null;
+}
+
+interface DocumentVerificationQueueProps {
+  documents: PendingDocument[];
+  onReviewed: () => void;
+  onViewHistory: (documentId: string) => void;
+}
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : '-');
+
+/**
+ * Documents employees uploaded themselves, for HR to approve or reject with a reason
+ */
+export const DocumentVerificationQueue = ({ documents, onReviewed, onViewHistory }: DocumentVerificationQueueProps) => {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<PendingDocument | null>(null);
+  const [reason, setReason] = useState('');
+
+  const handleReview = async (document: PendingDocument, approve: boolean, rejectionReason?: string) => {
+    setBusy(document.id);
+    try {
+      await reviewStaffDocument(document.id, approve, rejectionReason);
+      toast({
+        title: approve ? 'Document Verified' : 'Document Rejected',
+        description: `${document.employees?.full_name ?? 'The employee'} has been notified`,
+      });
+      setRejecting(null);
+      setReason('');
+      onReviewed();
+    } catch (error) {
+      console.error('Error reviewing document:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to review the document',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (documents.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Awaiting Verification
+          <Badge variant="secondary">{documents.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Documents uploaded by employees from their profile. They take effect once approved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {documents.map(document => (
+          <div key={document.id} className="flex flex-wrap items-start justify-between gap-3 rounded-md border p-3 text-sm">
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2 font-medium">
+                {document.employees?.full_name}
+                <span className="text-muted-foreground">({document.employees?.employee_id})</span>
+                <Badge variant="outline">{documentTypeLabel(document.document_type)}</Badge>
+                {document.previous_version_id && (
+                  <Badge variant="secondary">Renewal · v{document.version_number}</Badge>
+                )}
+              </div>
+              <p>{document.document_name}</p>
+              <p className="text-muted-foreground">
+                Issued {formatDate(document.issue_date)} · Expires {formatDate(document.expiry_date)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Uploaded {format(parseISO(document.created_at), 'MMM d, yyyy h:mm a')}
+              </p>
+              {document.notes && <p className="text-xs italic text-muted-foreground">{document.notes}</p>}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="ghost" size="sm" onClick={() => window.open(document.file_url, '_blank')}>
+                <Eye className="h-4 w-4 mr-1" />
+                View
+              </Button>
+              {document.previous_version_id && (
+                <Button variant="ghost" size="sm" title="Renewal history" onClick={() => onViewHistory(document.id)}>
+                  <History className="h-4 w-4" />
+                </Button>
+              )}
+              <Button size="sm" onClick={() => handleReview(document, true)} disabled={busy === document.id}>
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setRejecting(document);
+                  setReason('');
+                }}
+                disabled={busy === document.id}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Document</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.document_name} from ${rejecting.employees?.full_name ?? 'the employee'}`}.
+              The reason is shown to the employee.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection_reason">Reason</Label>
+            <Textarea
+              id="rejection_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The scan is unreadable - please upload a clearer copy"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && handleReview(rejecting, false, reason.trim())}
+              disabled={!reason.trim() || busy === rejecting?.id}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CHECKLIST_ANCHOR_LABELS,
+  CHECKLIST_TYPE_LABELS,
+  ChecklistTask,
+  ChecklistTaskStatus,
+  ChecklistType,
+  EmployeeChecklist,
+  fetchEmployeeChecklists,
+  startEmployeeChecklists,
+  TASK_CATEGORY_LABELS,
+  taskOwnerName,
+  updateChecklistTask
+} from '@/lib/lifecycleChecklists';
+import { documentTypeLabel } from '@/lib/staffDocuments';
+import { employeePath } from '@/lib/routes';
+import { todayInGST } from '@/lib/timezone';
+import { Check, ChevronDown, ChevronRight, ListChecks, Play, RotateCcw, SkipForward } from 'lucide-react';
+
+interface EmployeeChecklistsProps {
+  // One employee's checklists (all statuses); otherwise every open checklist the user can see
+  employeeId?: string;
+  onTaskChanged?: () => void;
+}
+
+const STATUS_VARIANTS: Record<EmployeeChecklist['status'], 'default' | 'secondary' | 'outline'> = {
+  open: 'default',
+  completed: 'secondary',
+  cancelled: 'outline',
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+interface ChecklistTaskItemProps {
+  task: ChecklistTask;
+  // e.g. whose checklist the task is on, when listed outside it
+  context?: string;
+  canAct: boolean;
+  busy: boolean;
+  onChange: (task: ChecklistTask, status: ChecklistTaskStatus) => void;
+}
+
+/**
+ * One checklist task with its owner, due date and the actions open to the user
+ */
+export const ChecklistTaskItem = ({ task, context, canAct, busy, onChange }: ChecklistTaskItemProps) => {
+  const overdue = task.status === 'pending' && task.due_date < todayInGST();
+
+  return (
+    <div className="flex flex-wrap items-start justify-between gap-3 rounded-md border p-3 text-sm">
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2 font-medium">
+          {task.status === 'done' && <Check className="h-4 w-4 text-primary" />}
+          <span className={task.status !== 'pending' ? 'text-muted-foreground line-through' : ''}>{task.title}</span>
+          <Badge variant="outline">{TASK_CATEGORY_LABELS[task.category]}</Badge>
+          {task.status === 'skipped' && <Badge variant="secondary">Skipped</Badge>}
+        </div>
+        {context && <p className="text-xs font-medium text-primary">{context}</p>}
+        {task.description && <p className="text-muted-foreground">{task.description}</p>}
+        <p className="text-xs text-muted-foreground">
+          {taskOwnerName(task)} · {overdue ? (
+            <span className="text-destructive font-medium">Overdue since {formatDate(task.due_date)}</span>
+          ) : `Due ${formatDate(task.due_date)}`}
+          {task.category === 'document' && task.document_type && task.status === 'pending' &&
+            ` · Completed when a ${documentTypeLabel(task.document_type)} is uploaded`}
+        </p>
+        {task.notes && <p className="text-xs italic text-muted-foreground">{task.notes}</p>}
+      </div>
+      {canAct && (
+        <div className="flex gap-2">
+          {task.status === 'pending' ? (
+            <>
+              <Button size="sm" onClick={() => onChange(task, 'done')} disabled={busy}>
+                <Check className="h-4 w-4 mr-1" />
+                Done
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => onChange(task, 'skipped')} disabled={busy}>
+                <SkipForward className="h-4 w-4 mr-1" />
+                Skip
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={() => onChange(task, 'pending')} disabled={busy}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reopen
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Onboarding and offboarding checklists with their progress
+ * Admins can act on any task and start checklists by hand; others act on the tasks they own.
+ */
+export const EmployeeChecklists = ({ employeeId, onTaskChanged }: EmployeeChecklistsProps) => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [checklists, setChecklists] = useState<EmployeeChecklist[]>([]);
+  const [ownEmployeeId, setOwnEmployeeId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [startType, setStartType] = useState<ChecklistType>('onboarding');
+  const [anchorDate, setAnchorDate] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = profile?.role === 'admin';
+  const canViewRecords = isAdmin || profile?.role === 'manager';
+
+  const fetchChecklists = useCallback(async () => {
+    try {
+      const [checklistData, ownEmployeeResult] = await Promise.all([
+        fetchEmployeeChecklists(employeeId),
+        supabase.from('employees').select('id').eq('user_id', user!.id).maybeSingle(),
+      ]);
+
+      setChecklists(checklistData);
+      setOwnEmployeeId(ownEmployeeResult.data?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching checklists:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load checklists",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId, user, toast]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchChecklists();
+    }
+  }, [user?.id, fetchChecklists]);
+
+  const handleTaskChange = async (task: ChecklistTask, status: ChecklistTaskStatus) => {
+    let notes: string | undefined;
+    if (status === 'skipped') {
+      const reason = prompt('Why is this task being skipped? (optional)');
+      if (reason === null) return;
+      notes = reason.trim() || undefined;
+    }
+
+    setBusy(true);
+    try {
+      await updateChecklistTask(task.id, status, notes);
+      await fetchChecklists();
+      onTaskChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the task",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!employeeId) return;
+
+    setBusy(true);
+    try {
+      const started = await startEmployeeChecklists(employeeId, startType, anchorDate || undefined);
+      toast({
+        title: started > 0 ? "Checklist Started" : "Nothing to Start",
+        description: started > 0
+          ? `${started} ${CHECKLIST_TYPE_LABELS[startType].toLowerCase()} ${started === 1 ? 'checklist' : 'checklists'} started`
+          : `No active ${CHECKLIST_TYPE_LABELS[startType].toLowerCase()} template applies that is not already open`
+      });
+      setAnchorDate('');
+      await fetchChecklists();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the checklist",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setExpanded(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          {employeeId ? 'Onboarding & Offboarding' : 'Open Checklists'}
+        </CardTitle>
+        <CardDescription>
+          Checklists start when an employee is invited or deactivated, with due dates counted from the
+          hire date or last working day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin && employeeId && (
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="grid gap-1">
+              <Label className="text-xs">Checklist</Label>
+              <Select value={startType} onValueChange={value => setStartType(value as ChecklistType)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHECKLIST_TYPE_LABELS) as ChecklistType[]).map(type => (
+                    <SelectItem key={type} value={type}>{CHECKLIST_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="checklist_anchor_date" className="text-xs capitalize">{CHECKLIST_ANCHOR_LABELS[startType]}</Label>
+              <Input
+                id="checklist_anchor_date"
+                type="date"
+                value={anchorDate}
+                onChange={e => setAnchorDate(e.target.value)}
+                className="w-44"
+              />
+            </div>
+            <Button variant="outline" onClick={handleStart} disabled={busy}>
+              <Play className="h-4 w-4 mr-2" />
+              Start Checklist
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">Loading...</div>
+        ) : checklists.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No checklists</p>
+        ) : (
+          <div className="space-y-3">
+            {checklists.map(checklist => {
+              const finished = checklist.tasks.filter(task => task.status !== 'pending').length;
+              const isOpen = expanded.has(checklist.id);
+
+              return (
+                <Collapsible key={checklist.id} open={isOpen} onOpenChange={() => toggleExpanded(checklist.id)}>
+                  <div className="rounded-lg border">
+                    <CollapsibleTrigger asChild>
+                      <button type="button" className="flex w-full flex-wrap items-center justify-between gap-3 p-4 text-left hover:bg-muted/50">
+                        <div className="flex items-center gap-2">
+                          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          <div>
+                            <div className="flex flex-wrap items-center gap-2 font-medium">
+                              {!employeeId && checklist.employee ? checklist.employee.full_name : checklist.name}
+                              <Badge variant="outline">{CHECKLIST_TYPE_LABELS[checklist.checklist_type]}</Badge>
+                              <Badge variant={STATUS_VARIANTS[checklist.status]} className="capitalize">{checklist.status}</Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {!employeeId && `${checklist.name} · `}
+                              From the {CHECKLIST_ANCHOR_LABELS[checklist.checklist_type]}, {formatDate(checklist.anchor_date)}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex w-48 items-center gap-2 text-xs text-muted-foreground">
+                          <Progress value={checklist.tasks.length ? (finished / checklist.tasks.length) * 100 : 100} />
+                          <span className="whitespace-nowrap">{finished}/{checklist.tasks.length}</span>
+                        </div>
+                      </button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <div className="space-y-2 border-t p-4">
+                        {!employeeId && canViewRecords && checklist.employee && (
+                          <Link to={employeePath(checklist.employee.id)} className="text-sm hover:underline">
+                            View {checklist.employee.full_name}'s record
+                          </Link>
+                        )}
+                        {checklist.tasks.map(task => (
+                          <ChecklistTaskItem
+                            key={task.id}
+                            task={task}
+                            canAct={checklist.status !== 'cancelled' && (isAdmin || (!!ownEmployeeId && task.owner_employee_id === ownEmployeeId))}
+                            busy={busy}
+                            onChange={handleTaskChange}
+                          />
+                        ))}
+                      </div>
+                    </CollapsibleContent>
+                  </div>
+                </Collapsible>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
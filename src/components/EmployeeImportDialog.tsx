@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  buildImportReport,
+  buildImportTemplate,
+  ExistingEmployee,
+  fetchExistingEmployees,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportColumnMapping,
+  ImportResult,
+  ImportSheet,
+  readImportFile,
+  runEmployeeImport,
+  validateImportRows
+} from '@/lib/employeeImport';
+import { AlertTriangle, CheckCircle, FileDown, FileUp, Loader2 } from 'lucide-react';
+
+interface EmployeeImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const NOT_MAPPED = 'none';
+
+const RESULT_BADGES: Record<ImportResult['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  success: { label: 'Done', variant: 'default' },
+  partial: { label: 'Partly saved', variant: 'secondary' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  skipped: { label: 'Skipped', variant: 'outline' },
+};
+
+const downloadCsv = (contents: string, fileName: string) => {
+  const blob = new Blob([contents], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Invite new employees and update existing ones from a CSV or Excel sheet
+ * Rows are validated and previewed before anything is saved.
+ */
+export const EmployeeImportDialog = ({ open, onOpenChange, onImported }: EmployeeImportDialogProps) => {
+  const { toast } = useToast();
+  const [existingEmployees, setExistingEmployees] = useState<ExistingEmployee[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [running, setRunning] = useState(false);
+  const [processed, setProcessed] = useState(0);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setResults(null);
+    setProcessed(0);
+    fetchExistingEmployees()
+      .then(setExistingEmployees)
+      .catch(error => {
+        console.error('Error fetching employees for import:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load current employees",
+          variant: "destructive"
+        });
+      });
+  }, [open, toast]);
+
+  const rows = useMemo(
+    () => (sheet ? validateImportRows(sheet, mapping, existingEmployees) : []),
+    [sheet, mapping, existingEmployees]
+  );
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const inviteCount = validRows.filter(row => row.action === 'invite').length;
+  const updateCount = validRows.length - inviteCount;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.rows.length === 0) {
+        throw new Error('The file has no rows below the header');
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setResults(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    setRunning(true);
+    setProcessed(0);
+    try {
+      const importResults = await runEmployeeImport(rows, setProcessed);
+      setResults(importResults);
+      onImported();
+
+      const failed = importResults.filter(r => r.status === 'failed').length;
+      toast({
+        title: "Import Finished",
+        description: `${importResults.filter(r => r.status === 'success' || r.status === 'partial').length} saved, ${failed} failed, ${importResults.filter(r => r.status === 'skipped').length} skipped`,
+        variant: failed > 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Import failed",
+        variant: "destructive"
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const mappingSelect = (field: (typeof IMPORT_FIELDS)[number]) => (
+    <div key={field.field} className="grid gap-1">
+      <Label className="text-xs">{field.label}</Label>
+      <Select
+        value={mapping[field.field] === undefined ? NOT_MAPPED : String(mapping[field.field])}
+        onValueChange={value => {
+          const next = { ...mapping };
+          if (value === NOT_MAPPED) delete next[field.field]; else next[field.field] = Number(value);
+          setMapping(next);
+        }}
+        disabled={running || !!results}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+          {sheet!.headers.map((header, index) => (
+            <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={value => !running && onOpenChange(value)}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Bulk Import Employees
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) sheet. Rows with an Employee ID update that employee and blank
+            cells keep their current values; rows without one are invited as new users. The manager
+            column takes an employee ID, staff ID or email, including people added in the same file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="employee_import_file">File</Label>
+            <Input
+              id="employee_import_file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              disabled={running}
+              className="w-72"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => downloadCsv(buildImportTemplate(existingEmployees), `employees-${format(new Date(), 'yyyy-MM-dd')}.csv`)}
+          >
+            <FileDown className="h-4 w-4 mr-2" />
+            Download Current Employees
+          </Button>
+        </div>
+
+        {sheet && (
+          <>
+            <div>
+              <p className="text-sm font-medium mb-2">Columns in {fileName}</p>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {IMPORT_FIELDS.map(mappingSelect)}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{inviteCount} to invite</Badge>
+              <Badge variant="outline">{updateCount} to update</Badge>
+              {rows.length > validRows.length && (
+                <Badge variant="destructive">{rows.length - validRows.length} with errors (will be skipped)</Badge>
+              )}
+            </div>
+
+            {running && (
+              <div className="space-y-1">
+                <Progress value={(processed / rows.length) * 100} />
+                <p className="text-xs text-muted-foreground">{processed} of {rows.length} rows processed</p>
+              </div>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Staff ID</TableHead>
+                    <TableHead>{results ? 'Result' : 'Check'}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results
+                    ? results.map(result => (
+                      <TableRow key={result.rowNumber}>
+                        <TableCell>{result.rowNumber}</TableCell>
+                        <TableCell className="capitalize">{result.action}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{result.full_name || '-'}</div>
+                          <div className="text-xs text-muted-foreground">{result.email}</div>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{result.employee_id || '-'}</TableCell>
+                        <TableCell>
+                          <Badge variant={RESULT_BADGES[result.status].variant}>{RESULT_BADGES[result.status].label}</Badge>
+                          <div className="text-xs text-muted-foreground mt-1">{result.message}</div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                    : rows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell className="capitalize">{row.action}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.values.full_name || '-'}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {row.values.email}
+                            {row.values.department && ` • ${row.values.department}`}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{row.values.staff_id || '-'}</TableCell>
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <Badge variant="default" className="gap-1">
+                              <CheckCircle className="h-3 w-3" />
+                              Ready
+                            </Badge>
+                          ) : (
+                            <div className="space-y-1">
+                              {row.errors.map(error => (
+                                <div key={error} className="flex items-center gap-1 text-xs text-destructive">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {error}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => downloadCsv(buildImportReport(results), `employee-import-report-${format(new Date(), 'yyyy-MM-dd-HHmm')}.csv`)}
+              >
+                <FileDown className="h-4 w-4 mr-2" />
+                Download Report
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>Close</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={running}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={running || validRows.length === 0}>
+                {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {running ? 'Importing...' : `Import ${validRows.length} ${validRows.length === 1 ? 'Row' : 'Rows'}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
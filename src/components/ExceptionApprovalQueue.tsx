@@ -8,6 +8,8 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { CheckCircle, XCircle, Clock, FileText, Download } from 'lucide-react';
 import { format } from 'date-fns';
+import { actOnApproval, fetchApprovalSteps, fetchMyPendingApprovals, RequestApprovalStep } from '@/lib/approvals';
+import { ApprovalProgress } from '@/components/ApprovalProgress';
 
 interface ExceptionRequest {
   id: string;
@@ -35,8 +37,14 @@ interface ExceptionRequest {
   attendance_date?: string;
 }
 
-export const ExceptionApprovalQueue = () => {
+interface ExceptionApprovalQueueProps {
+  // Admins review every exception; everyone else only sees requests waiting on their approval step
+  userRole?: 'admin' | 'staff' | 'manager';
+}
+
+export const ExceptionApprovalQueue = ({ userRole = 'admin' }: ExceptionApprovalQueueProps) => {
   const [exceptions, setExceptions] = useState<ExceptionRequest[]>([]);
+  const [approvalSteps, setApprovalSteps] = useState<Map<string, RequestApprovalStep[]>>(new Map());
   const [loading, setLoading] = useState(false);
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [adminComments, setAdminComments] = useState<{ [key: string]: string }>({});
@@ -49,11 +57,22 @@ export const ExceptionApprovalQueue = () => {
   const fetchExceptions = async () => {
     try {
       // Get exceptions with employee details
-      const { data: exceptionsData, error } = await supabase
+      let query = supabase
         .from('attendance_exceptions')
         .select('*')
         .order('created_at', { ascending: false });
 
+      if (userRole !== 'admin') {
+        const pendingIds = await fetchMyPendingApprovals('exception');
+        if (pendingIds.length === 0) {
+          setExceptions([]);
+          return;
+        }
+        query = query.in('id', pendingIds);
+      }
+
+      const { data: exceptionsData, error } = await query;
+
       if (error) throw error;
 
       if (!exceptionsData || exceptionsData.length === 0) {
@@ -94,6 +113,7 @@ export const ExceptionApprovalQueue = () => {
       }));
 
       setExceptions(exceptionsWithDetails);
+      setApprovalSteps(await fetchApprovalSteps('exception', exceptionsWithDetails.map(ex => ex.id)));
     } catch (error: any) {
       toast({
         title: "Error",
@@ -111,66 +131,50 @@ export const ExceptionApprovalQueue = () => {
 
       const comments = adminComments[id] || '';
       
-      // Update the exception status
-      const { error: updateError } = await supabase
-        .from('attendance_exceptions')
-        .update({
-          status,
-          admin_comments: comments.trim() || null,
-          reviewed_by: (await supabase.auth.getUser()).data.user?.id,
-          reviewed_at: new Date().toISOString()
-        })
-        .eq('id', id);
-
-      if (updateError) throw updateError;
-
-      // Send email notification to employee
-      try {
-        // Get employee details
-        const { data: employeeData } = await supabase
-          .from('employees')
-          .select('email, full_name')
-          .eq('id', exception.employee_id)
-          .single();
-
-        if (employeeData) {
-          await supabase.functions.invoke('notify-email', {
-            body: {
-              type: 'attendance_exception',
-              action: status,
-              recipientEmail: employeeData.email,
-              recipientName: employeeData.full_name,
-              submitterName: employeeData.full_name,
-              employeeId: exception.employee_id,
-              details: {
-                exceptionType: exception.exception_type,
-                reason: exception.reason,
-                adminComments: comments.trim() || undefined
+      // Record the decision on the current approval step; the status only changes on the final one
+      const result = await actOnApproval('exception', id, status, comments.trim() || undefined);
+
+      // Send email notification to employee once the request is decided
+      if (result !== 'pending') {
+        try {
+          // Get employee details
+          const { data: employeeData } = await supabase
+            .from('employees')
+            .select('email, full_name')
+            .eq('id', exception.employee_id)
+            .single();
+
+          if (employeeData) {
+            await supabase.functions.invoke('notify-email', {
+              body: {
+                type: 'attendance_exception',
+                action: result,
+                recipientEmail: employeeData.email,
+                recipientName: employeeData.full_name,
+                submitterName: employeeData.full_name,
+                employeeId: exception.employee_id,
+                requestId: exception.id,
+                details: {
+                  exceptionType: exception.exception_type,
+                  reason: exception.reason,
+                  adminComments: comments.trim() || undefined
+                }
               }
-            }
-          });
+            });
+          }
+        } catch (emailError) {
+          console.log('Email notification failed:', emailError);
+          // Don't fail the whole operation if email fails
         }
-      } catch (emailError) {
-        console.log('Email notification failed:', emailError);
-        // Don't fail the whole operation if email fails
       }
 
-      // Run attendance correction for time-based and WFH exceptions
-      const attendanceAffectingTypes = [
-        'missed_clock_in', 
-        'missed_clock_out', 
-        'wrong_time',
-        'wfh',
-        'short_permission_personal',
-        'short_permission_official'
-      ];
-      if (status === 'approved' && attendanceAffectingTypes.includes(exception.exception_type)) {
-        await handleAttendanceCorrection(exception);
-      }
+      // The attendance day is corrected by a database trigger once the request is approved
 
       toast({
         title: "Success",
-        description: `Exception request ${status} successfully`
+        description: result === 'pending'
+          ? 'Step approved. The request has been passed to the next approver'
+          : `Exception request ${result} successfully`
       });
 
       setAdminComments(prev => {
@@ -191,86 +195,6 @@ export const ExceptionApprovalQueue = () => {
     }
   };
 
-  const handleAttendanceCorrection = async (exception: ExceptionRequest) => {
-    try {
-      const targetDate = exception.target_date;
-      if (!targetDate) return;
-
-      // Check if attendance record exists for the date
-      const { data: existingAttendance } = await supabase
-        .from('attendance')
-        .select('*')
-        .eq('employee_id', exception.employee_id)
-        .eq('date', targetDate)
-        .single();
-
-      if (existingAttendance) {
-        // Update existing attendance record
-        const updates: any = {};
-        
-        // Handle WFH exception
-        if (exception.exception_type === 'wfh') {
-          updates.is_wfh = true;
-          updates.status = 'present';
-          updates.notes = `WFH approved: ${exception.reason}`;
-        }
-        
-        // Handle time-based exceptions
-        if (exception.proposed_clock_in_time) {
-          updates.clock_in_time = exception.proposed_clock_in_time;
-        }
-        if (exception.proposed_clock_out_time) {
-          updates.clock_out_time = exception.proposed_clock_out_time;
-        }
-        
-        // Handle permission exceptions
-        if (exception.exception_type === 'short_permission_personal' || 
-            exception.exception_type === 'short_permission_official') {
-          updates.notes = `${exception.exception_type}: ${exception.reason}`;
-        }
-
-        if (Object.keys(updates).length > 0) {
-          const { error } = await supabase
-            .from('attendance')
-            .update(updates)
-            .eq('id', existingAttendance.id);
-
-          if (error) throw error;
-        }
-      } else {
-        // Create new attendance record
-        const insertData: any = {
-          employee_id: exception.employee_id,
-          date: targetDate,
-          status: 'present',
-          notes: `Created via exception approval: ${exception.reason}`
-        };
-        
-        // WFH specific
-        if (exception.exception_type === 'wfh') {
-          insertData.is_wfh = true;
-        }
-        
-        // Time-based exceptions
-        if (exception.proposed_clock_in_time) {
-          insertData.clock_in_time = exception.proposed_clock_in_time;
-        }
-        if (exception.proposed_clock_out_time) {
-          insertData.clock_out_time = exception.proposed_clock_out_time;
-        }
-
-        const { error } = await supabase
-          .from('attendance')
-          .insert(insertData);
-
-        if (error) throw error;
-      }
-    } catch (error) {
-      console.error('Error handling attendance correction:', error);
-      throw error;
-    }
-  };
-
   const downloadDocument = async (documentUrl: string, fileName: string) => {
     try {
       const { data, error } = await supabase.storage
@@ -372,6 +296,7 @@ export const ExceptionApprovalQueue = () => {
                         </p>
                       )}
                       <p className="text-sm">{exception.reason}</p>
+                      <ApprovalProgress steps={approvalSteps.get(exception.id)} />
                       {exception.document_url && (
                         <Button
                           variant="outline"
@@ -422,50 +347,53 @@ export const ExceptionApprovalQueue = () => {
         </Card>
       )}
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Recent Decisions</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {processedExceptions.length === 0 ? (
-              <p className="text-muted-foreground">No processed requests</p>
-            ) : (
-              processedExceptions.slice(0, 10).map(exception => (
-                <div key={exception.id} className="flex items-center justify-between p-3 border rounded-lg">
-                  <div>
-                    <div className="flex items-center gap-2">
-                      <h4 className="font-medium">{exception.employee_name}</h4>
-                      {getStatusBadge(exception.status)}
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      {getExceptionTypeLabel(exception.exception_type)} - {exception.attendance_date}
-                    </p>
-                    {exception.exception_type === 'short_permission_personal' && exception.duration_hours && (
-                      <p className="text-xs text-muted-foreground">
-                        Duration: {exception.duration_hours} hours
-                      </p>
-                    )}
-                    {['missed_clock_in', 'missed_clock_out', 'wrong_time'].includes(exception.exception_type) && (
-                      <p className="text-xs text-muted-foreground">
-                        {formatProposedTimes(exception)}
-                      </p>
-                    )}
-                    {exception.admin_comments && (
-                      <p className="text-sm mt-1">
-                        <strong>Admin notes:</strong> {exception.admin_comments}
+      {userRole === 'admin' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Decisions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {processedExceptions.length === 0 ? (
+                <p className="text-muted-foreground">No processed requests</p>
+              ) : (
+                processedExceptions.slice(0, 10).map(exception => (
+                  <div key={exception.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium">{exception.employee_name}</h4>
+                        {getStatusBadge(exception.status)}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {getExceptionTypeLabel(exception.exception_type)} - {exception.attendance_date}
                       </p>
-                    )}
-                  </div>
-                  <div className="text-xs text-muted-foreground">
-                    {new Date(exception.created_at).toLocaleDateString()}
+                      {exception.exception_type === 'short_permission_personal' && exception.duration_hours && (
+                        <p className="text-xs text-muted-foreground">
+                          Duration: {exception.duration_hours} hours
+                        </p>
+                      )}
+                      {['missed_clock_in', 'missed_clock_out', 'wrong_time'].includes(exception.exception_type) && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatProposedTimes(exception)}
+                        </p>
+                      )}
+                      {exception.admin_comments && (
+                        <p className="text-sm mt-1">
+                          <strong>Admin notes:</strong> {exception.admin_comments}
+                        </p>
+                      )}
+                      <ApprovalProgress steps={approvalSteps.get(exception.id)} className="mt-1" />
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(exception.created_at).toLocaleDateString()}
+                    </div>
                   </div>
-                </div>
-              ))
-            )}
-          </div>
-        </CardContent>
-      </Card>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
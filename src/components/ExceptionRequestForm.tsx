@@ -220,9 +220,11 @@ export const ExceptionRequestForm = ({ attendanceId, employeeId, onSuccess }: Ex
         }
       }
 
-      const { error } = await supabase
+      const { data: createdException, error } = await supabase
         .from('attendance_exceptions')
-        .insert(insertData);
+        .insert(insertData)
+        .select('id')
+        .single();
 
       if (error) throw error;
 
@@ -257,6 +259,7 @@ export const ExceptionRequestForm = ({ attendanceId, employeeId, onSuccess }: Ex
                 recipientName: admin.full_name,
                 submitterName: employeeData.full_name,
                 employeeId: employeeId,
+                requestId: createdException.id,
                 details: {
                   exceptionType: exceptionType,
                   reason: reason.trim()
@@ -0,0 +1,450 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { EMIRATES, getEmirateLabel } from '@/lib/holidays';
+import { CalendarDays, Plus, Trash2, Repeat, MapPin } from 'lucide-react';
+
+interface PublicHoliday {
+  id: string;
+  name: string;
+  holiday_date: string;
+  end_date: string | null;
+  is_recurring: boolean;
+  emirate: string | null;
+  divisions: string[] | null;
+  description: string | null;
+  is_active: boolean;
+}
+
+interface Division {
+  id: string;
+  name: string;
+  emirate: string | null;
+}
+
+const FEDERAL = 'federal';
+
+export const HolidayManagement = () => {
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+  const [name, setName] = useState('');
+  const [holidayDate, setHolidayDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [emirate, setEmirate] = useState(FEDERAL);
+  const [selectedDivisions, setSelectedDivisions] = useState<string[]>([]);
+  const [yearFilter, setYearFilter] = useState(new Date().getFullYear().toString());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('public_holidays')
+        .select('*')
+        .order('holiday_date', { ascending: true });
+
+      if (error) throw error;
+      setHolidays(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch public holidays",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  const fetchDivisions = async () => {
+    const { data, error } = await supabase
+      .from('divisions')
+      .select('id, name, emirate')
+      .eq('is_active', true)
+      .order('name');
+
+    if (!error) {
+      setDivisions(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchHolidays();
+    fetchDivisions();
+  }, [fetchHolidays]);
+
+  const resetForm = () => {
+    setName('');
+    setHolidayDate('');
+    setEndDate('');
+    setIsRecurring(false);
+    setEmirate(FEDERAL);
+    setSelectedDivisions([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !holidayDate) return;
+
+    if (endDate && endDate < holidayDate) {
+      toast({
+        title: "Invalid Dates",
+        description: "End date cannot be before the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('public_holidays')
+        .insert({
+          name: name.trim(),
+          holiday_date: holidayDate,
+          end_date: endDate || null,
+          is_recurring: isRecurring,
+          emirate: emirate === FEDERAL ? null : emirate,
+          divisions: selectedDivisions.length > 0 ? selectedDivisions : null,
+          created_by: user?.id
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Public holiday added successfully"
+      });
+
+      resetForm();
+      fetchHolidays();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add public holiday",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleStatus = async (id: string, currentStatus: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('public_holidays')
+        .update({ is_active: !currentStatus })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Holiday ${!currentStatus ? 'activated' : 'deactivated'} successfully`
+      });
+
+      fetchHolidays();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update holiday status",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this holiday?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('public_holidays')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Public holiday deleted successfully"
+      });
+
+      fetchHolidays();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete public holiday",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDivisionEmirateChange = async (divisionId: string, value: string) => {
+    try {
+      const { error } = await supabase
+        .from('divisions')
+        .update({ emirate: value === FEDERAL ? null : value })
+        .eq('id', divisionId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Division emirate updated"
+      });
+
+      fetchDivisions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update division emirate",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleDivision = (divisionName: string, checked: boolean) => {
+    setSelectedDivisions(prev =>
+      checked ? [...prev, divisionName] : prev.filter(d => d !== divisionName)
+    );
+  };
+
+  const formatHolidayDates = (holiday: PublicHoliday) => {
+    const options: Intl.DateTimeFormatOptions = holiday.is_recurring
+      ? { month: 'short', day: 'numeric' }
+      : { month: 'short', day: 'numeric', year: 'numeric' };
+    const start = new Date(holiday.holiday_date).toLocaleDateString('en-US', options);
+    if (!holiday.end_date || holiday.end_date === holiday.holiday_date) return start;
+    return `${start} - ${new Date(holiday.end_date).toLocaleDateString('en-US', options)}`;
+  };
+
+  // Recurring holidays apply every year; one-off holidays only in their own year
+  const visibleHolidays = holidays.filter(holiday =>
+    holiday.is_recurring || holiday.holiday_date.startsWith(yearFilter)
+  );
+
+  const currentYear = new Date().getFullYear();
+  const yearOptions = [currentYear - 1, currentYear, currentYear + 1].map(String);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Add Public Holiday
+          </CardTitle>
+          <CardDescription>
+            Holidays are excluded from absences, leave day counts and attendance notifications
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="holidayName">Name</Label>
+                <Input
+                  id="holidayName"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Eid Al Fitr"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="holidayDate">Date</Label>
+                <Input
+                  id="holidayDate"
+                  type="date"
+                  value={holidayDate}
+                  onChange={(e) => setHolidayDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="holidayEndDate">End Date (multi-day holidays)</Label>
+                <Input
+                  id="holidayEndDate"
+                  type="date"
+                  value={endDate}
+                  min={holidayDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Applies To</Label>
+                <Select value={emirate} onValueChange={setEmirate}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FEDERAL}>Federal (all emirates)</SelectItem>
+                    {EMIRATES.map(e => (
+                      <SelectItem key={e.value} value={e.value}>{e.label} only</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="holidayRecurring" className="font-medium">Repeats Every Year</Label>
+                  <p className="text-xs text-muted-foreground">For fixed Gregorian dates only</p>
+                </div>
+                <Switch
+                  id="holidayRecurring"
+                  checked={isRecurring}
+                  onCheckedChange={setIsRecurring}
+                />
+              </div>
+            </div>
+
+            {divisions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Divisions (leave empty for all divisions)</Label>
+                <div className="flex flex-wrap gap-4">
+                  {divisions.map(division => (
+                    <label key={division.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={selectedDivisions.includes(division.name)}
+                        onCheckedChange={(checked) => toggleDivision(division.name, checked === true)}
+                      />
+                      {division.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={loading || !name.trim() || !holidayDate}
+              className="w-full"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Holiday
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Public Holidays
+            </CardTitle>
+            <Select value={yearFilter} onValueChange={setYearFilter}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {yearOptions.map(year => (
+                  <SelectItem key={year} value={year}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {visibleHolidays.length === 0 ? (
+              <p className="text-muted-foreground">No public holidays configured for {yearFilter}</p>
+            ) : (
+              visibleHolidays.map(holiday => (
+                <div key={holiday.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h4 className="font-medium">{holiday.name}</h4>
+                      <Badge variant={holiday.is_active ? "default" : "secondary"}>
+                        {holiday.is_active ? "Active" : "Inactive"}
+                      </Badge>
+                      <Badge variant="outline">{getEmirateLabel(holiday.emirate)}</Badge>
+                      {holiday.is_recurring && (
+                        <Badge variant="outline" className="gap-1">
+                          <Repeat className="h-3 w-3" />
+                          Yearly
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{formatHolidayDates(holiday)}</p>
+                    {holiday.divisions && holiday.divisions.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Divisions: {holiday.divisions.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleStatus(holiday.id, holiday.is_active)}
+                    >
+                      {holiday.is_active ? 'Deactivate' : 'Activate'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(holiday.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {divisions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Division Emirates
+            </CardTitle>
+            <CardDescription>
+              Emirate-specific holidays apply to divisions located in that emirate
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {divisions.map(division => (
+                <div key={division.id} className="flex items-center justify-between">
+                  <span className="font-medium">{division.name}</span>
+                  <Select
+                    value={division.emirate || FEDERAL}
+                    onValueChange={(value) => handleDivisionEmirateChange(division.id, value)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={FEDERAL}>Not set</SelectItem>
+                      {EMIRATES.map(e => (
+                        <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
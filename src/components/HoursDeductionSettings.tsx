@@ -4,11 +4,21 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Switch } from './ui/switch';
 import { Button } from './ui/button';
-import { Clock, Save, Info } from 'lucide-react';
-import { useSystemSettings } from '@/hooks/useSystemSettings';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Clock, Save, Info, Timer, Plus, Trash2 } from 'lucide-react';
+import { useAttendanceRulesSettings, useSystemSettings } from '@/hooks/useSystemSettings';
+import { useToast } from '@/hooks/use-toast';
+import { LATENESS_CONSEQUENCE_LABELS, LatenessConsequence, LatenessTier } from '@/lib/attendanceRules';
 import { Alert, AlertDescription } from './ui/alert';
 
-export const HoursDeductionSettings = () => {
+export const HoursDeductionSettings = () => (
+  <div className="space-y-6">
+    <DailyDeductionSettings />
+    <LatenessRulesSettings />
+  </div>
+);
+
+const DailyDeductionSettings = () => {
   const { settings, isLoading, updateSettings } = useSystemSettings();
   const [enabled, setEnabled] = useState(false);
   const [hours, setHours] = useState(0);
@@ -148,3 +158,227 @@ export const HoursDeductionSettings = () => {
     </Card>
   );
 };
+
+/**
+ * Grace windows, lateness tiers and the monthly late allowance used by the attendance calendar,
+ * stats and notifications
+ */
+const LatenessRulesSettings = () => {
+  const { rules, isLoading, updateRules, isSaving } = useAttendanceRulesSettings();
+  const { toast } = useToast();
+  const [lateGrace, setLateGrace] = useState(0);
+  const [earlyGrace, setEarlyGrace] = useState(0);
+  const [allowance, setAllowance] = useState(0);
+  const [tiers, setTiers] = useState<LatenessTier[]>([]);
+
+  useEffect(() => {
+    if (rules) {
+      setLateGrace(rules.lateGraceMinutes);
+      setEarlyGrace(rules.earlyGraceMinutes);
+      setAllowance(rules.monthlyLateAllowance);
+      setTiers(rules.latenessTiers);
+    }
+  }, [rules]);
+
+  const updateTier = (index: number, changes: Partial<LatenessTier>) => {
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+  };
+
+  const addTier = () => {
+    setTiers([...tiers, { name: '', up_to_minutes: null, consequence: 'notify' }]);
+  };
+
+  const removeTier = (index: number) => {
+    setTiers(tiers.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    const sorted = [...tiers]
+      .map(tier => ({ ...tier, name: tier.name.trim() }))
+      .sort((a, b) => (a.up_to_minutes ?? Infinity) - (b.up_to_minutes ?? Infinity));
+
+    let error: string | null = null;
+    if (sorted.some(tier => !tier.name)) {
+      error = 'Every tier needs a name';
+    } else if (sorted.filter(tier => tier.up_to_minutes === null).length > 1) {
+      error = 'Only one tier can have no upper limit';
+    } else if (sorted.some((tier, i) => i > 0 && tier.up_to_minutes !== null && tier.up_to_minutes === sorted[i - 1].up_to_minutes)) {
+      error = 'Two tiers cannot end at the same minute';
+    } else if (sorted.some(tier => tier.up_to_minutes !== null && tier.up_to_minutes <= lateGrace)) {
+      error = 'Tier limits must be above the late grace period';
+    }
+
+    if (error) {
+      toast({ title: 'Invalid Tiers', description: error, variant: 'destructive' });
+      return;
+    }
+
+    setTiers(sorted);
+    updateRules({
+      lateGraceMinutes: lateGrace,
+      earlyGraceMinutes: earlyGrace,
+      latenessTiers: sorted,
+      monthlyLateAllowance: allowance,
+    });
+  };
+
+  // Lower bound of a tier, for the range shown beside it
+  const tierFrom = (index: number) => {
+    const previous = tiers
+      .filter((tier, i) => i !== index && tier.up_to_minutes !== null && (
+        tiers[index].up_to_minutes === null || tier.up_to_minutes < tiers[index].up_to_minutes!
+      ))
+      .reduce((max, tier) => Math.max(max, tier.up_to_minutes!), lateGrace);
+    return previous + 1;
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Lateness Rules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">Loading settings...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Lateness Rules
+        </CardTitle>
+        <CardDescription>
+          Grace periods, lateness tiers and how many late arrivals a month are forgiven
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            These rules apply to the attendance calendar, attendance stats, reports and the daily and
+            weekly attendance emails. Late arrivals within the monthly allowance are shown but not
+            counted; managers are copied only on escalated lateness.
+          </AlertDescription>
+        </Alert>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="late-grace">Late grace (minutes)</Label>
+            <Input
+              id="late-grace"
+              type="number"
+              min="0"
+              max="120"
+              value={lateGrace}
+              onChange={(e) => setLateGrace(Math.max(0, Math.min(120, parseInt(e.target.value) || 0)))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="early-grace">Early leave grace (minutes)</Label>
+            <Input
+              id="early-grace"
+              type="number"
+              min="0"
+              max="120"
+              value={earlyGrace}
+              onChange={(e) => setEarlyGrace(Math.max(0, Math.min(120, parseInt(e.target.value) || 0)))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="late-allowance">Late arrivals forgiven per month</Label>
+            <Input
+              id="late-allowance"
+              type="number"
+              min="0"
+              max="31"
+              value={allowance}
+              onChange={(e) => setAllowance(Math.max(0, Math.min(31, parseInt(e.target.value) || 0)))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-base font-medium">Lateness Tiers</Label>
+            <Button variant="outline" size="sm" onClick={addTier}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Tier
+            </Button>
+          </div>
+
+          {tiers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No tiers - every counted late arrival notifies the employee
+            </p>
+          ) : (
+            tiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_8rem_12rem_auto] items-end gap-3 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input
+                    value={tier.name}
+                    onChange={(e) => updateTier(index, { name: e.target.value })}
+                    placeholder="e.g. Minor"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Up to (minutes)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={tier.up_to_minutes ?? ''}
+                    onChange={(e) => updateTier(index, {
+                      up_to_minutes: e.target.value === '' ? null : Math.max(1, parseInt(e.target.value) || 1)
+                    })}
+                    placeholder="No limit"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Consequence</Label>
+                  <Select
+                    value={tier.consequence}
+                    onValueChange={(value) => updateTier(index, { consequence: value as LatenessConsequence })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(LATENESS_CONSEQUENCE_LABELS) as LatenessConsequence[]).map(consequence => (
+                        <SelectItem key={consequence} value={consequence}>
+                          {LATENESS_CONSEQUENCE_LABELS[consequence]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => removeTier(index)} aria-label="Remove tier">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <p className="text-xs text-muted-foreground md:col-span-4">
+                  {tier.up_to_minutes === null
+                    ? `More than ${tierFrom(index) - 1} minutes late`
+                    : `${tierFrom(index)}-${tier.up_to_minutes} minutes late`}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Lateness Rules
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -136,10 +136,20 @@ export const IPManagement = () => {
     }
   };
 
+  // Accepts single addresses or CIDR ranges (e.g. 192.168.1.0/24)
   const validateIP = (ip: string) => {
+    const [address, prefix, ...rest] = ip.trim().split('/');
+    if (rest.length > 0) return false;
+
     const ipv4Regex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
     const ipv6Regex = /^(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$/;
-    return ipv4Regex.test(ip) || ipv6Regex.test(ip);
+    const isIPv4 = ipv4Regex.test(address);
+    const isIPv6 = ipv6Regex.test(address);
+    if (!isIPv4 && !isIPv6) return false;
+
+    if (prefix === undefined) return true;
+    const prefixLength = Number(prefix);
+    return /^\d{1,3}$/.test(prefix) && prefixLength >= 0 && prefixLength <= (isIPv4 ? 32 : 128);
   };
 
   return (
@@ -155,17 +165,17 @@ export const IPManagement = () => {
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="ipAddress">IP Address</Label>
+                <Label htmlFor="ipAddress">IP Address or Range</Label>
                 <Input
                   type="text"
                   value={ipAddress}
                   onChange={(e) => setIpAddress(e.target.value)}
-                  placeholder="192.168.1.100 or 2001:db8::1"
+                  placeholder="192.168.1.100 or 192.168.1.0/24"
                   required
                 />
                 {ipAddress && !validateIP(ipAddress) && (
                   <p className="text-sm text-destructive mt-1">
-                    Please enter a valid IPv4 or IPv6 address
+                    Please enter a valid IPv4/IPv6 address or CIDR range
                   </p>
                 )}
               </div>
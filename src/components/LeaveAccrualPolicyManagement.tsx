@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Plus, Save, SlidersHorizontal } from 'lucide-react';
+
+interface AccrualPolicy {
+  id: string;
+  leave_type_id: string;
+  accrual_method: 'upfront' | 'monthly';
+  annual_entitlement: number | null;
+  accrue_during_probation: boolean;
+  prorate_joiners: boolean;
+  carry_forward_max_days: number;
+  carry_forward_expiry_months: number | null;
+  is_active: boolean;
+}
+
+interface LeaveType {
+  id: string;
+  name: string;
+}
+
+export const LeaveAccrualPolicyManagement = () => {
+  const [policies, setPolicies] = useState<AccrualPolicy[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [newLeaveTypeId, setNewLeaveTypeId] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const [policiesResult, leaveTypesResult] = await Promise.all([
+        supabase.from('leave_accrual_policies').select('*'),
+        supabase.from('leave_types').select('id, name').eq('is_active', true).order('name'),
+      ]);
+
+      if (policiesResult.error) throw policiesResult.error;
+      setPolicies((policiesResult.data || []) as AccrualPolicy[]);
+      setLeaveTypes(leaveTypesResult.data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch accrual policies",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const updatePolicy = (id: string, changes: Partial<AccrualPolicy>) => {
+    setPolicies(policies.map(policy => (policy.id === id ? { ...policy, ...changes } : policy)));
+  };
+
+  const handleSave = async (policy: AccrualPolicy) => {
+    setSavingId(policy.id);
+    try {
+      const { error } = await supabase
+        .from('leave_accrual_policies')
+        .update({
+          accrual_method: policy.accrual_method,
+          annual_entitlement: policy.annual_entitlement,
+          accrue_during_probation: policy.accrue_during_probation,
+          prorate_joiners: policy.prorate_joiners,
+          carry_forward_max_days: policy.carry_forward_max_days,
+          carry_forward_expiry_months: policy.carry_forward_max_days > 0 ? policy.carry_forward_expiry_months : null,
+          is_active: policy.is_active,
+        })
+        .eq('id', policy.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Accrual policy saved. Changes apply to periods not yet accrued."
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save accrual policy",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newLeaveTypeId) return;
+    try {
+      const { error } = await supabase
+        .from('leave_accrual_policies')
+        .insert({ leave_type_id: newLeaveTypeId });
+
+      if (error) throw error;
+      setNewLeaveTypeId('');
+      fetchPolicies();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add accrual policy",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getLeaveTypeName = (leaveTypeId: string) =>
+    leaveTypes.find(lt => lt.id === leaveTypeId)?.name || 'Inactive leave type';
+
+  const untrackedLeaveTypes = leaveTypes.filter(lt => !policies.some(p => p.leave_type_id === lt.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Accrual Policies
+        </CardTitle>
+        <CardDescription>
+          How each leave type is credited to the ledger. Leave types without a policy are not
+          tracked; their requests do not reduce any balance.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {[...policies]
+          .sort((a, b) => getLeaveTypeName(a.leave_type_id).localeCompare(getLeaveTypeName(b.leave_type_id)))
+          .map(policy => (
+            <div key={policy.id} className="border rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">{getLeaveTypeName(policy.leave_type_id)}</h4>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`active-${policy.id}`} className="text-sm text-muted-foreground">Active</Label>
+                  <Switch
+                    id={`active-${policy.id}`}
+                    checked={policy.is_active}
+                    onCheckedChange={(checked) => updatePolicy(policy.id, { is_active: checked })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label>Accrual</Label>
+                  <Select
+                    value={policy.accrual_method}
+                    onValueChange={(value) => updatePolicy(policy.id, { accrual_method: value as AccrualPolicy['accrual_method'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="upfront">Upfront (yearly)</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Days per Year</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    placeholder="Statutory"
+                    value={policy.annual_entitlement ?? ''}
+                    onChange={(e) => updatePolicy(policy.id, {
+                      annual_entitlement: e.target.value === '' ? null : parseFloat(e.target.value)
+                    })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Carry Forward Max (days)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={policy.carry_forward_max_days}
+                    onChange={(e) => updatePolicy(policy.id, { carry_forward_max_days: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Carried Days Expire After (months)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="12"
+                    placeholder="Never"
+                    disabled={policy.carry_forward_max_days <= 0}
+                    value={policy.carry_forward_expiry_months ?? ''}
+                    onChange={(e) => updatePolicy(policy.id, {
+                      carry_forward_expiry_months: e.target.value === '' ? null : parseInt(e.target.value)
+                    })}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`probation-${policy.id}`}
+                    checked={policy.accrue_during_probation}
+                    onCheckedChange={(checked) => updatePolicy(policy.id, { accrue_during_probation: checked })}
+                  />
+                  <Label htmlFor={`probation-${policy.id}`}>Accrue during probation</Label>
+                </div>
+                {policy.accrual_method === 'upfront' && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`prorate-${policy.id}`}
+                      checked={policy.prorate_joiners}
+                      onCheckedChange={(checked) => updatePolicy(policy.id, { prorate_joiners: checked })}
+                    />
+                    <Label htmlFor={`prorate-${policy.id}`}>Pro-rate mid-year joiners</Label>
+                  </div>
+                )}
+                <Button
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => handleSave(policy)}
+                  disabled={savingId === policy.id}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {savingId === policy.id ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          ))}
+
+        {untrackedLeaveTypes.length > 0 && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-1 max-w-xs">
+              <Label>Track Another Leave Type</Label>
+              <Select value={newLeaveTypeId} onValueChange={setNewLeaveTypeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select leave type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {untrackedLeaveTypes.map(lt => (
+                    <SelectItem key={lt.id} value={lt.id}>{lt.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handleAdd} disabled={!newLeaveTypeId}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Policy
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
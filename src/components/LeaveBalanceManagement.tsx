@@ -4,9 +4,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Calendar, Plus, Edit, RefreshCw, AlertCircle } from 'lucide-react';
+import { LeaveAccrualPolicyManagement } from '@/components/LeaveAccrualPolicyManagement';
+import { addLeaveAdjustment, fetchLeaveLedger, LeaveTransaction, TRANSACTION_TYPE_LABELS } from '@/lib/leaveAccrual';
+import { format, parseISO } from 'date-fns';
+import { Calendar, Plus, RefreshCw, AlertCircle, History } from 'lucide-react';
 
 interface LeaveBalance {
   id: string;
@@ -33,15 +38,55 @@ interface LeaveType {
   max_days: number;
 }
 
+// LedgerTable sub-component
+const LedgerTable = ({ transactions }: { transactions: LeaveTransaction[] }) => {
+  if (transactions.length === 0) {
+    return <p className="text-sm text-muted-foreground mt-4">No ledger entries for this balance.</p>;
+  }
+
+  let runningBalance = 0;
+  return (
+    <Table className="mt-4">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Details</TableHead>
+          <TableHead className="text-right">Days</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.map(transaction => {
+          runningBalance += Number(transaction.days);
+          return (
+            <TableRow key={transaction.id}>
+              <TableCell>{format(parseISO(transaction.effective_date), 'MMM dd, yyyy')}</TableCell>
+              <TableCell>{TRANSACTION_TYPE_LABELS[transaction.transaction_type]}</TableCell>
+              <TableCell className="text-muted-foreground">{transaction.notes}</TableCell>
+              <TableCell className={`text-right ${transaction.days < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {transaction.days > 0 ? '+' : ''}{Number(transaction.days)}
+              </TableCell>
+              <TableCell className="text-right font-medium">{runningBalance.toFixed(2)}</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
 export const LeaveBalanceManagement = () => {
   const [balances, setBalances] = useState<LeaveBalance[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('');
   const [selectedLeaveTypeId, setSelectedLeaveTypeId] = useState<string>('');
-  const [allocatedDays, setAllocatedDays] = useState<number>(0);
+  const [adjustmentDays, setAdjustmentDays] = useState<string>('');
+  const [adjustmentNotes, setAdjustmentNotes] = useState<string>('');
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
-  const [editingBalance, setEditingBalance] = useState<LeaveBalance | null>(null);
+  const [ledgerBalanceId, setLedgerBalanceId] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<LeaveTransaction[]>([]);
   const [loading, setLoading] = useState(false);
   const [autoAllocating, setAutoAllocating] = useState(false);
   const { toast } = useToast();
@@ -132,66 +177,25 @@ export const LeaveBalanceManagement = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedEmployeeId || !selectedLeaveTypeId || allocatedDays < 0) return;
+    const days = parseFloat(adjustmentDays);
+    if (!selectedEmployeeId || !selectedLeaveTypeId || !days || !adjustmentNotes.trim()) return;
 
     setLoading(true);
     try {
-      const balanceData = {
-        employee_id: editingBalance ? editingBalance.employee_id : selectedEmployeeId,
-        leave_type_id: editingBalance ? editingBalance.leave_type_id : selectedLeaveTypeId,
-        allocated_days: allocatedDays,
-        year: selectedYear
-      };
-
-      if (editingBalance) {
-        const { error } = await supabase
-          .from('employee_leave_balances')
-          .update({ allocated_days: allocatedDays })
-          .eq('id', editingBalance.id);
-
-        if (error) throw error;
-
-        toast({
-          title: "Success",
-          description: "Leave balance updated successfully"
-        });
-      } else {
-        // Check if balance already exists for this employee/leave type/year
-        const { data: existing } = await supabase
-          .from('employee_leave_balances')
-          .select('id')
-          .eq('employee_id', selectedEmployeeId)
-          .eq('leave_type_id', selectedLeaveTypeId)
-          .eq('year', selectedYear)
-          .maybeSingle();
-
-        if (existing) {
-          toast({
-            title: "Error", 
-            description: "Balance already exists for this employee, leave type and year",
-            variant: "destructive"
-          });
-          return;
-        }
-
-        const { error } = await supabase
-          .from('employee_leave_balances')
-          .insert(balanceData);
-
-        if (error) throw error;
-
-        toast({
-          title: "Success",
-          description: "Leave balance created successfully"
-        });
-      }
+      await addLeaveAdjustment(selectedEmployeeId, selectedLeaveTypeId, selectedYear, days, adjustmentNotes.trim());
+
+      toast({
+        title: "Success",
+        description: "Leave balance adjusted"
+      });
 
       resetForm();
       fetchBalances();
-    } catch (error: any) {
+      setLedgerBalanceId(null);
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Failed to adjust leave balance",
         variant: "destructive"
       });
     } finally {
@@ -202,13 +206,26 @@ export const LeaveBalanceManagement = () => {
   const resetForm = () => {
     setSelectedEmployeeId('');
     setSelectedLeaveTypeId('');
-    setAllocatedDays(0);
-    setEditingBalance(null);
+    setAdjustmentDays('');
+    setAdjustmentNotes('');
   };
 
-  const handleEdit = (balance: LeaveBalance) => {
-    setEditingBalance(balance);
-    setAllocatedDays(balance.allocated_days);
+  const handleToggleLedger = async (balance: LeaveBalance) => {
+    if (ledgerBalanceId === balance.id) {
+      setLedgerBalanceId(null);
+      return;
+    }
+
+    try {
+      setLedger(await fetchLeaveLedger(balance.employee_id, balance.leave_type_id, balance.year));
+      setLedgerBalanceId(balance.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch leave ledger",
+        variant: "destructive"
+      });
+    }
   };
 
   const handleAutoAllocate = async () => {
@@ -222,7 +239,7 @@ export const LeaveBalanceManagement = () => {
 
       toast({
         title: "Success",
-        description: `Leave balances auto-calculated for ${selectedYear} based on UAE Labour Law`
+        description: `Leave accrual run for ${selectedYear}`
       });
 
       fetchBalances();
@@ -237,17 +254,6 @@ export const LeaveBalanceManagement = () => {
     }
   };
 
-  const getAvailableEmployeeLeaveTypes = () => {
-    if (!selectedEmployeeId) return [];
-    
-    const existingBalances = balances.filter(b => 
-      b.employee_id === selectedEmployeeId && b.year === selectedYear
-    );
-    const usedLeaveTypeIds = existingBalances.map(b => b.leave_type_id);
-    
-    return leaveTypes.filter(lt => !usedLeaveTypeIds.includes(lt.id));
-  };
-
   const currentYear = new Date().getFullYear();
   const years = Array.from({ length: 5 }, (_, i) => currentYear - 2 + i);
 
@@ -258,7 +264,7 @@ export const LeaveBalanceManagement = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <RefreshCw className="h-5 w-5 text-primary" />
-            Auto-Calculate Leave Balances (UAE Labour Law)
+            Run Leave Accrual
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -266,18 +272,17 @@ export const LeaveBalanceManagement = () => {
             <AlertCircle className="h-5 w-5 text-primary mt-0.5" />
             <div className="flex-1 space-y-2">
               <p className="text-sm text-muted-foreground">
-                Automatically calculate leave entitlements for all active employees based on:
+                Balances are built from a ledger. The accrual engine runs nightly; running it here posts
+                anything due for the selected year (to today, or to 31 December for a past year):
               </p>
               <ul className="text-xs text-muted-foreground space-y-1 ml-4">
-                <li>• Annual Leave: 2 days/month (6-12 months service) or 30 days (&gt;1 year)</li>
-                <li>• Sick Leave: 90 days/year (after probation completion)</li>
-                <li>• Maternity Leave: 60 days</li>
-                <li>• Parental Leave: 5 days/year</li>
-                <li>• Study Leave: 10 days/year</li>
-                <li>• Hajj Leave: 30 days (after 2 years service, once only)</li>
+                <li>• Unused days carried forward from the previous year, up to each policy's cap</li>
+                <li>• Carried-forward days not used by their expiry date</li>
+                <li>• Entitlement credited upfront or monthly, from the hire date and per each policy's probation rule</li>
+                <li>• Statutory entitlements (UAE Labour Law) unless a policy sets its own days per year</li>
               </ul>
               <p className="text-xs text-muted-foreground font-medium mt-2">
-                This will update balances for the selected year based on each employee's hire date and service duration.
+                Periods already posted are skipped, so running it again is safe. Approved leave is deducted automatically.
               </p>
             </div>
           </div>
@@ -303,17 +308,19 @@ export const LeaveBalanceManagement = () => {
               className="mt-6"
             >
               <RefreshCw className={`h-4 w-4 mr-2 ${autoAllocating ? 'animate-spin' : ''}`} />
-              {autoAllocating ? 'Calculating...' : 'Auto-Calculate Balances'}
+              {autoAllocating ? 'Running...' : 'Run Accrual'}
             </Button>
           </div>
         </CardContent>
       </Card>
 
+      <LeaveAccrualPolicyManagement />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Calendar className="h-5 w-5" />
-            {editingBalance ? 'Edit Leave Balance' : 'Set Leave Balance'}
+            Adjust Leave Balance
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -335,66 +342,68 @@ export const LeaveBalanceManagement = () => {
                 </Select>
               </div>
 
-              {!editingBalance && (
-                <>
-                  <div>
-                    <Label htmlFor="employee">Employee</Label>
-                    <Select value={selectedEmployeeId} onValueChange={setSelectedEmployeeId}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select employee" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {employees.map(employee => (
-                          <SelectItem key={employee.id} value={employee.id}>
-                            {employee.full_name} ({employee.employee_id})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+              <div>
+                <Label htmlFor="employee">Employee</Label>
+                <Select value={selectedEmployeeId} onValueChange={setSelectedEmployeeId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select employee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.map(employee => (
+                      <SelectItem key={employee.id} value={employee.id}>
+                        {employee.full_name} ({employee.employee_id})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-                  <div>
-                    <Label htmlFor="leaveType">Leave Type</Label>
-                    <Select value={selectedLeaveTypeId} onValueChange={setSelectedLeaveTypeId}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select leave type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {getAvailableEmployeeLeaveTypes().map(leaveType => (
-                          <SelectItem key={leaveType.id} value={leaveType.id}>
-                            {leaveType.name} (Max: {leaveType.max_days} days)
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </>
-              )}
+              <div>
+                <Label htmlFor="leaveType">Leave Type</Label>
+                <Select value={selectedLeaveTypeId} onValueChange={setSelectedLeaveTypeId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select leave type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {leaveTypes.map(leaveType => (
+                      <SelectItem key={leaveType.id} value={leaveType.id}>
+                        {leaveType.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
               <div>
-                <Label htmlFor="allocatedDays">Allocated Days</Label>
+                <Label htmlFor="adjustmentDays">Days (negative to deduct)</Label>
                 <Input
+                  id="adjustmentDays"
                   type="number"
-                  min="0"
-                  max="365"
-                  value={allocatedDays}
-                  onChange={(e) => setAllocatedDays(parseInt(e.target.value) || 0)}
+                  step="0.5"
+                  value={adjustmentDays}
+                  onChange={(e) => setAdjustmentDays(e.target.value)}
+                  placeholder="e.g. 2 or -1.5"
                   required
                 />
               </div>
             </div>
 
-            <div className="flex gap-2">
-              <Button type="submit" disabled={loading}>
-                {editingBalance ? <Edit className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
-                {editingBalance ? 'Update Balance' : 'Set Balance'}
-              </Button>
-              {editingBalance && (
-                <Button type="button" variant="outline" onClick={resetForm}>
-                  Cancel
-                </Button>
-              )}
+            <div>
+              <Label htmlFor="adjustmentNotes">Reason</Label>
+              <Textarea
+                id="adjustmentNotes"
+                value={adjustmentNotes}
+                onChange={(e) => setAdjustmentNotes(e.target.value)}
+                placeholder="Recorded on the ledger, e.g. Compensation for working on a public holiday"
+                rows={2}
+                required
+              />
             </div>
+
+            <Button type="submit" disabled={loading}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Adjustment
+            </Button>
           </form>
         </CardContent>
       </Card>
@@ -409,38 +418,35 @@ export const LeaveBalanceManagement = () => {
               <p className="text-muted-foreground">No leave balances configured for {selectedYear}</p>
             ) : (
               balances.map(balance => (
-                <div key={balance.id} className="flex items-center justify-between p-4 border rounded-lg">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
+                <div key={balance.id} className="p-4 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
                       <h4 className="font-medium">{balance.employee_name}</h4>
-                      {balance.auto_calculated && (
-                        <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
-                          Auto-calculated
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      {balance.leave_type_name}: {balance.used_days}/{balance.allocated_days} days used
-                    </p>
-                    {balance.auto_calculated && balance.service_months_at_allocation !== undefined && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Based on {balance.service_months_at_allocation} months of service
+                      <p className="text-sm text-muted-foreground">
+                        {balance.leave_type_name}: {Number(balance.used_days)}/{Number(balance.allocated_days)} days used
+                        {' '}({Number(balance.allocated_days) - Number(balance.used_days)} remaining)
                       </p>
-                    )}
-                    <div className="w-full bg-muted rounded-full h-2 mt-2">
-                      <div 
-                        className="bg-primary h-2 rounded-full" 
-                        style={{ width: `${Math.min((balance.used_days / balance.allocated_days) * 100, 100)}%` }}
-                      ></div>
+                      <div className="w-full bg-muted rounded-full h-2 mt-2">
+                        <div 
+                          className="bg-primary h-2 rounded-full" 
+                          style={{ width: `${balance.allocated_days > 0 ? Math.min((balance.used_days / balance.allocated_days) * 100, 100) : 0}%` }}
+                        ></div>
+                      </div>
                     </div>
+                    <Button
+                      variant={ledgerBalanceId === balance.id ? 'secondary' : 'outline'}
+                      size="sm"
+                      className="ml-4"
+                      onClick={() => handleToggleLedger(balance)}
+                    >
+                      <History className="h-4 w-4 mr-2" />
+                      Ledger
+                    </Button>
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleEdit(balance)}
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
+
+                  {ledgerBalanceId === balance.id && (
+                    <LedgerTable transactions={ledger} />
+                  )}
                 </div>
               ))
             )}
@@ -0,0 +1,227 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { LeaveChangeType, requestLeaveChange } from "@/lib/leaveChanges";
+import { formatLeaveDuration } from "@/lib/leaveDuration";
+
+interface ChangeableLeaveRequest {
+  id: string;
+  employee_id: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  total_days: number;
+  duration_type: string;
+  duration_hours: number | null;
+  employee?: { full_name: string } | null;
+  leave_type?: { name: string } | null;
+}
+
+interface LeaveChangeDialogProps {
+  request: ChangeableLeaveRequest | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+/**
+ * Ask to cancel a leave request, or to move its dates (returning early or extending)
+ */
+export const LeaveChangeDialog = ({ request, onOpenChange, onChanged }: LeaveChangeDialogProps) => {
+  const [changeType, setChangeType] = useState<LeaveChangeType>('cancel');
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [newTotalDays, setNewTotalDays] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Only approved full-day leave can have its dates moved
+  const canAmend = request?.status === 'approved' && request?.duration_type === 'full_day';
+
+  useEffect(() => {
+    if (!request) return;
+    setChangeType('cancel');
+    setStartDate(request.start_date);
+    setEndDate(request.end_date);
+    setReason("");
+    setNewTotalDays(null);
+  }, [request]);
+
+  // Preview the days the amended leave would be charged
+  useEffect(() => {
+    if (!request || changeType !== 'amend' || !startDate || !endDate || endDate < startDate) {
+      setNewTotalDays(null);
+      return;
+    }
+
+    const fetchNewTotal = async () => {
+      const { data, error } = await supabase.rpc('calculate_leave_days', {
+        p_employee_id: request.employee_id,
+        p_start_date: startDate,
+        p_end_date: endDate
+      });
+      setNewTotalDays(error ? null : data);
+    };
+    fetchNewTotal();
+  }, [request, changeType, startDate, endDate]);
+
+  const handleSubmit = async () => {
+    if (!request) return;
+
+    if (!reason.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please give a reason for the change",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const change = await requestLeaveChange(
+        request.id,
+        changeType,
+        reason.trim(),
+        changeType === 'amend' ? startDate : undefined,
+        changeType === 'amend' ? endDate : undefined
+      );
+
+      if (change.status === 'pending') {
+        // Let the line manager (or their delegate) know there is a change to review
+        try {
+          await supabase.functions.invoke('notify-email', {
+            body: {
+              type: 'leave_request',
+              action: 'change_requested',
+              submitterName: request.employee?.full_name,
+              employeeId: request.employee_id,
+              requestId: request.id,
+              details: {
+                leaveType: request.leave_type?.name,
+                startDate: request.start_date,
+                endDate: request.end_date,
+                changeType,
+                newStartDate: change.new_start_date,
+                newEndDate: change.new_end_date,
+                reason: change.reason
+              }
+            }
+          });
+        } catch (emailError) {
+          console.error('Failed to send change notification:', emailError);
+        }
+      }
+
+      toast({
+        title: change.status === 'pending' ? "Change Requested" : changeType === 'cancel' ? "Leave Cancelled" : "Leave Amended",
+        description: change.status === 'pending'
+          ? "Your request has been sent for approval"
+          : "The leave request and balance have been updated"
+      });
+
+      onOpenChange(false);
+      onChanged();
+    } catch (error) {
+      console.error('Error requesting leave change:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to request the change",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change Leave Request</DialogTitle>
+          <DialogDescription>
+            {request && `${request.leave_type?.name} · ${request.start_date} to ${request.end_date} (${formatLeaveDuration(request)})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Change</Label>
+            <Select value={changeType} onValueChange={(value) => setChangeType(value as LeaveChangeType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cancel">Cancel the leave</SelectItem>
+                {canAmend && <SelectItem value="amend">Change the dates</SelectItem>}
+              </SelectContent>
+            </Select>
+            {request?.status === 'pending' && (
+              <p className="text-xs text-muted-foreground">
+                This request has not been approved yet, so cancelling it takes effect immediately.
+              </p>
+            )}
+          </div>
+
+          {changeType === 'amend' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="change-start-date">New Start Date</Label>
+                  <Input
+                    id="change-start-date"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="change-end-date">New End Date</Label>
+                  <Input
+                    id="change-end-date"
+                    type="date"
+                    value={endDate}
+                    min={startDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              {newTotalDays !== null && request && (
+                <div className="text-sm text-muted-foreground">
+                  {newTotalDays} day(s) instead of {request.total_days}
+                  {newTotalDays < request.total_days && ` · ${request.total_days - newTotalDays} day(s) returned to your balance`}
+                  {newTotalDays > request.total_days && ` · ${newTotalDays - request.total_days} more day(s) from your balance`}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="change-reason">Reason</Label>
+            <Textarea
+              id="change-reason"
+              placeholder={changeType === 'cancel' ? "Why is the leave no longer needed?" : "e.g. Returned to work early"}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting}>
+              {submitting ? 'Submitting...' : 'Submit'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { fetchLeaveCoverage, getCoverageShortfalls, LeaveCoverageDay } from "@/lib/teamLeave";
+import { cn } from "@/lib/utils";
+
+interface LeaveCoverageWarningProps {
+  employeeId: string | null | undefined;
+  startDate: string;
+  endDate: string;
+  // Set when assessing an existing request
+  requestId?: string;
+  className?: string;
+}
+
+/**
+ * Warns when a full-day leave would take the employee's team below its minimum staffing
+ */
+export const LeaveCoverageWarning = ({ employeeId, startDate, endDate, requestId, className }: LeaveCoverageWarningProps) => {
+  const [shortfalls, setShortfalls] = useState<LeaveCoverageDay[]>([]);
+
+  useEffect(() => {
+    if (!employeeId || !startDate || !endDate || endDate < startDate) {
+      setShortfalls([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchLeaveCoverage(employeeId, startDate, endDate, requestId)
+      .then(days => {
+        if (!cancelled) setShortfalls(getCoverageShortfalls(days));
+      })
+      .catch(error => {
+        console.error('Error checking leave coverage:', error);
+        if (!cancelled) setShortfalls([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeId, startDate, endDate, requestId]);
+
+  if (shortfalls.length === 0) return null;
+
+  const first = shortfalls[0];
+  const dates = shortfalls.map(day => format(parseISO(day.coverage_date), 'MMM d')).join(', ');
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-2 rounded-md border p-3 text-sm",
+        first.block_submission
+          ? "border-red-200 bg-red-50 text-red-800 dark:border-red-900 dark:bg-red-950/40 dark:text-red-200"
+          : "border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-900 dark:bg-amber-950/40 dark:text-amber-200",
+        className
+      )}
+    >
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-medium">
+          {first.department} would drop below {first.minimum_present} available staff
+        </p>
+        <p>
+          {dates}: as few as {Math.min(...shortfalls.map(day => day.available))} of {first.team_size} available
+          {first.block_submission && !requestId && '. This request cannot be submitted for these dates.'}
+        </p>
+      </div>
+    </div>
+  );
+};
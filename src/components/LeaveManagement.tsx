@@ -1,16 +1,22 @@
-import { useState } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Breadcrumb, BreadcrumbList, BreadcrumbItem, BreadcrumbLink, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
 import { LeaveRequestsView } from "@/components/LeaveRequestsView";
 import { ExceptionApprovalQueue } from "@/components/ExceptionApprovalQueue";
 import { StaffAttendanceExceptions } from "@/components/StaffAttendanceExceptions";
+import { OvertimeApprovalQueue } from "@/components/OvertimeApprovalQueue";
 import { WorkScheduleManagement } from "@/components/WorkScheduleManagement";
 import { LeaveBalanceManagement } from "@/components/LeaveBalanceManagement";
 import { SettingsManagement } from "@/components/SettingsManagement";
+import { ApprovalDelegationManagement } from "@/components/ApprovalDelegationManagement";
+import { TeamLeaveCalendar } from "@/components/TeamLeaveCalendar";
+import { StaffingRulesManagement } from "@/components/StaffingRulesManagement";
+import { CalendarFeedSubscriptions } from "@/components/CalendarFeedSubscriptions";
+import { leaveSectionPath, ROUTES } from "@/lib/routes";
 import { 
   LayoutGrid, List, FileText, AlertCircle, ClipboardList, 
-  Clock, Calendar, Settings as SettingsIcon
+  Clock, Calendar, CalendarDays, Settings as SettingsIcon, Timer, UserCheck
 } from "lucide-react";
 
 interface LeaveManagementProps {
@@ -27,6 +33,14 @@ const navigationTiles = [
     gradient: 'from-blue-500 to-blue-600',
     adminOnly: false
   },
+  {
+    id: 'team-calendar',
+    label: 'Team Calendar',
+    icon: CalendarDays,
+    description: 'See who is off and staffing cover',
+    gradient: 'from-cyan-500 to-cyan-600',
+    adminOnly: false
+  },
   {
     id: 'absences',
     label: 'Absences',
@@ -35,6 +49,23 @@ const navigationTiles = [
     gradient: 'from-amber-500 to-amber-600',
     adminOnly: false
   },
+  {
+    id: 'overtime',
+    label: 'Overtime',
+    icon: Timer,
+    description: 'Review and approve overtime',
+    gradient: 'from-rose-500 to-rose-600',
+    adminOnly: false
+  },
+  {
+    id: 'delegation',
+    label: 'Delegation',
+    icon: UserCheck,
+    description: 'Hand over approvals while away',
+    gradient: 'from-teal-500 to-teal-600',
+    adminOnly: false,
+    managerOnly: true
+  },
   {
     id: 'work-schedules',
     label: 'Work Schedules',
@@ -98,17 +129,24 @@ const GridView = ({ tiles, onTileClick }: GridViewProps) => {
 };
 
 export const LeaveManagement = ({ userRole }: LeaveManagementProps) => {
-  const [viewMode, setViewMode] = useState<'grid' | 'tabs'>('grid');
-  const [activeSection, setActiveSection] = useState<string>('leave-requests');
+  // /leaves shows the tiles, /leaves/:section opens a tile as a tab
+  const { section } = useParams<{ section?: string }>();
+  const navigate = useNavigate();
+  const viewMode = section ? 'tabs' : 'grid';
+  const activeSection = section || 'leave-requests';
 
   // Filter tiles based on user role
   const availableTiles = navigationTiles.filter(tile => 
-    !tile.adminOnly || userRole === 'admin'
+    (!tile.adminOnly || userRole === 'admin') &&
+    (!tile.managerOnly || userRole !== 'staff')
   );
 
+  if (section && !availableTiles.some(tile => tile.id === section)) {
+    return <Navigate to={ROUTES.leaves} replace />;
+  }
+
   const handleTileClick = (tileId: string) => {
-    setActiveSection(tileId);
-    setViewMode('tabs');
+    navigate(leaveSectionPath(tileId));
   };
 
   const getSectionLabel = (sectionId: string) => {
@@ -129,7 +167,7 @@ export const LeaveManagement = ({ userRole }: LeaveManagementProps) => {
         <Button
           variant="outline"
           size="sm"
-          onClick={() => setViewMode(viewMode === 'grid' ? 'tabs' : 'grid')}
+          onClick={() => navigate(viewMode === 'grid' ? leaveSectionPath(activeSection) : ROUTES.leaves)}
         >
           {viewMode === 'grid' ? (
             <>
@@ -152,7 +190,7 @@ export const LeaveManagement = ({ userRole }: LeaveManagementProps) => {
             <BreadcrumbItem>
               <BreadcrumbLink 
                 className="cursor-pointer"
-                onClick={() => setViewMode('grid')}
+                onClick={() => navigate(ROUTES.leaves)}
               >
                 Leave Management
               </BreadcrumbLink>
@@ -166,9 +204,9 @@ export const LeaveManagement = ({ userRole }: LeaveManagementProps) => {
       )}
 
       {/* Navigation Tabs */}
-      <Tabs value={activeSection} onValueChange={setActiveSection} className="w-full">
+      <Tabs value={activeSection} onValueChange={handleTileClick} className="w-full">
         <TabsList className={`grid w-full ${
-          userRole === 'admin' ? 'grid-cols-6' : 'grid-cols-2'
+          userRole === 'admin' ? 'grid-cols-8' : userRole === 'manager' ? 'grid-cols-5' : 'grid-cols-4'
         }`}>
           {availableTiles.map(tile => (
             <TabsTrigger 
@@ -195,15 +233,39 @@ export const LeaveManagement = ({ userRole }: LeaveManagementProps) => {
               <LeaveRequestsView userRole={userRole} />
             </TabsContent>
 
+            {/* Team Calendar Content */}
+            <TabsContent value="team-calendar" className="mt-6">
+              <div className="space-y-6">
+                <TeamLeaveCalendar userRole={userRole} />
+                <CalendarFeedSubscriptions />
+                {userRole === 'admin' && <StaffingRulesManagement />}
+              </div>
+            </TabsContent>
+
               {/* Absences Content */}
               <TabsContent value="absences" className="mt-6">
                 {userRole === 'admin' ? (
                   <ExceptionApprovalQueue />
                 ) : (
-                  <StaffAttendanceExceptions />
+                  <div className="space-y-6">
+                    <ExceptionApprovalQueue userRole={userRole} />
+                    <StaffAttendanceExceptions />
+                  </div>
                 )}
               </TabsContent>
 
+            {/* Overtime Content */}
+            <TabsContent value="overtime" className="mt-6">
+              <OvertimeApprovalQueue userRole={userRole} />
+            </TabsContent>
+
+            {/* Delegation Content */}
+            {userRole !== 'staff' && (
+              <TabsContent value="delegation" className="mt-6">
+                <ApprovalDelegationManagement userRole={userRole} />
+              </TabsContent>
+            )}
+
             {/* Work Schedules Content */}
             {userRole === 'admin' && (
               <TabsContent value="work-schedules" className="mt-6">
@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,8 +11,15 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
-import { Calendar, Plus, Clock, CheckCircle, XCircle, AlertCircle, FileText } from "lucide-react";
+import { Calendar, Plus, Clock, CheckCircle, XCircle, AlertCircle, FileText, Ban, CalendarClock } from "lucide-react";
 import { calculateServiceDuration, formatServiceDuration, isProbationCompleted } from "@/lib/utils";
+import { actOnApproval, fetchApprovalSteps, fetchMyPendingApprovals, RequestApprovalStep } from "@/lib/approvals";
+import { ApprovalProgress } from "@/components/ApprovalProgress";
+import { LeaveCoverageWarning } from "@/components/LeaveCoverageWarning";
+import { formatLeaveDuration, isPartialLeave, LEAVE_DURATION_LABELS, LeaveDurationType } from "@/lib/leaveDuration";
+import { actOnLeaveChange, fetchLeaveChanges, fetchLeaveChangesToReview, LEAVE_CHANGE_TYPE_LABELS, LeaveChangeToReview, LeaveRequestChange } from "@/lib/leaveChanges";
+import { LeaveChangeDialog } from "@/components/LeaveChangeDialog";
+import { leaveRequestPath } from "@/lib/routes";
 
 interface LeaveRequestsViewProps {
   userRole: 'admin' | 'staff' | 'manager';
@@ -27,6 +35,8 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
     type: "",
     startDate: "",
     endDate: "",
+    durationType: "full_day" as LeaveDurationType,
+    durationHours: "",
     reason: "",
     medicalCertificateUrl: "",
     relationship: ""
@@ -37,6 +47,12 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
   const { user } = useAuth();
 
   const [leaveRequests, setLeaveRequests] = useState<any[]>([]);
+  const [awaitingMyApproval, setAwaitingMyApproval] = useState<typeof leaveRequests>([]);
+  const [approvalSteps, setApprovalSteps] = useState<Map<string, RequestApprovalStep[]>>(new Map());
+  const [leaveChanges, setLeaveChanges] = useState<Map<string, LeaveRequestChange[]>>(new Map());
+  const [changesToReview, setChangesToReview] = useState<LeaveChangeToReview[]>([]);
+  const [changingRequest, setChangingRequest] = useState<(typeof leaveRequests)[number] | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [leaveTypes, setLeaveTypes] = useState<any[]>([]);
   const [leaveBalances, setLeaveBalances] = useState<any>({
     annual: { used: 0, total: 0, remaining: 0 },
@@ -46,6 +62,7 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
   const [wfhBalance, setWfhBalance] = useState({ used: 0, allocated: 15, remaining: 15 });
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear().toString());
   const [loadingRequests, setLoadingRequests] = useState(true);
+  const [leaveDaysPreview, setLeaveDaysPreview] = useState<{ calendarDays: number; chargeableDays: number } | null>(null);
 
   // Filter leave types to only show these in forms/lists
   const ALLOWED_LEAVE_TYPES = ['Annual Leave', 'Sick Leave', 'Study Leave'];
@@ -87,6 +104,50 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
     });
   };
 
+  // Days charged for the request: public holidays inside a range are not deducted, and a
+  // partial day is charged as a fraction of the day's working hours
+  const calculateChargeableDays = useCallback(async () => {
+    if (isPartialLeave(newRequest.durationType)) {
+      return supabase.rpc('calculate_partial_leave_days', {
+        p_employee_id: employeeId,
+        p_date: newRequest.startDate,
+        p_duration_type: newRequest.durationType,
+        p_duration_hours: newRequest.durationType === 'hours' ? parseFloat(newRequest.durationHours) || undefined : undefined
+      });
+    }
+    return supabase.rpc('calculate_leave_days', {
+      p_employee_id: employeeId,
+      p_start_date: newRequest.startDate,
+      p_end_date: newRequest.endDate
+    });
+  }, [employeeId, newRequest.startDate, newRequest.endDate, newRequest.durationType, newRequest.durationHours]);
+
+  // Preview chargeable days
+  useEffect(() => {
+    const fetchLeaveDaysPreview = async () => {
+      if (!employeeId || !newRequest.startDate || !newRequest.endDate || newRequest.endDate < newRequest.startDate ||
+          (newRequest.durationType === 'hours' && !(parseFloat(newRequest.durationHours) > 0))) {
+        setLeaveDaysPreview(null);
+        return;
+      }
+
+      const calendarDays = Math.ceil((new Date(newRequest.endDate).getTime() - new Date(newRequest.startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1;
+      const { data, error } = await calculateChargeableDays();
+
+      // An invalid partial request (e.g. more hours than the working day) has nothing to preview
+      if (error && isPartialLeave(newRequest.durationType)) {
+        setLeaveDaysPreview(null);
+        return;
+      }
+
+      setLeaveDaysPreview({
+        calendarDays,
+        chargeableDays: error || data === null ? calendarDays : data
+      });
+    };
+    fetchLeaveDaysPreview();
+  }, [employeeId, newRequest.startDate, newRequest.endDate, newRequest.durationType, newRequest.durationHours, calculateChargeableDays]);
+
   // Fetch leave types and requests
   useEffect(() => {
     const fetchLeaveData = async () => {
@@ -108,6 +169,9 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
             .in('leave_type.name', ALLOWED_LEAVE_TYPES)
             .order('created_at', { ascending: false });
           setLeaveRequests(requests || []);
+          setApprovalSteps(await fetchApprovalSteps('leave', (requests || []).map(r => r.id)));
+          setLeaveChanges(await fetchLeaveChanges((requests || []).map(r => r.id)));
+          setChangesToReview(await fetchLeaveChangesToReview(employeeId || undefined));
         } else if (employeeId) {
           const [requestsResult, balancesResult] = await Promise.all([
             supabase.from('leave_requests').select(`
@@ -127,6 +191,31 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
 
           setLeaveRequests(requestsResult.data || []);
 
+          // Requests from others waiting on this user (directly or as a delegate)
+          const pendingIds = await fetchMyPendingApprovals('leave');
+          let awaiting: typeof leaveRequests = [];
+          if (pendingIds.length > 0) {
+            const { data: awaitingData } = await supabase
+              .from('leave_requests')
+              .select(`
+                *,
+                employee:employees(full_name, department),
+                leave_type:leave_types(name)
+              `)
+              .in('id', pendingIds)
+              .order('created_at', { ascending: true });
+            awaiting = awaitingData || [];
+          }
+          setAwaitingMyApproval(awaiting);
+          setApprovalSteps(await fetchApprovalSteps('leave', [
+            ...(requestsResult.data || []).map(r => r.id),
+            ...awaiting.map(r => r.id)
+          ]));
+          setLeaveChanges(await fetchLeaveChanges((requestsResult.data || []).map(r => r.id)));
+
+          // Cancellations and amendments of other people's leave this user can decide
+          setChangesToReview(await fetchLeaveChangesToReview(employeeId));
+
           if (balancesResult.data) {
             const balances: any = { 
               annual: { used: 0, total: 0, remaining: 0 }, 
@@ -159,7 +248,7 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
     if (userRole === 'admin' || employeeId) {
       fetchLeaveData();
     }
-  }, [userRole, employeeId, selectedYear]);
+  }, [userRole, employeeId, selectedYear, refreshKey]);
 
   const handleSubmitRequest = async () => {
     try {
@@ -182,15 +271,37 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
         return;
       }
 
-      const startDate = new Date(newRequest.startDate);
-      const endDate = new Date(newRequest.endDate);
-      const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+      if (newRequest.durationType === 'hours' && !(parseFloat(newRequest.durationHours) > 0)) {
+        toast({
+          title: "Missing Information",
+          description: "Please enter the number of hours",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Public holidays applicable to the employee's division are excluded from the count
+      const { data: totalDays, error: daysError } = await calculateChargeableDays();
+      if (daysError) throw daysError;
+
+      if (!totalDays) {
+        toast({
+          title: "No Leave Days",
+          description: isPartialLeave(newRequest.durationType)
+            ? "The selected date is not a working day"
+            : "The selected dates only cover public holidays",
+          variant: "destructive"
+        });
+        return;
+      }
       
       const insertData: any = {
         employee_id: employeeId,
         leave_type_id: leaveType.id,
         start_date: newRequest.startDate,
         end_date: newRequest.endDate,
+        duration_type: newRequest.durationType,
+        duration_hours: newRequest.durationType === 'hours' ? parseFloat(newRequest.durationHours) : null,
         total_days: totalDays,
         reason: newRequest.reason,
         status: 'pending'
@@ -203,7 +314,11 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
         insertData.relationship = newRequest.relationship;
       }
 
-      const { error } = await supabase.from('leave_requests').insert(insertData);
+      const { data: createdRequest, error } = await supabase
+        .from('leave_requests')
+        .insert(insertData)
+        .select('id')
+        .single();
       if (error) throw error;
 
       // Send email notification to admins
@@ -229,6 +344,7 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
                 recipientName: admin.full_name,
                 submitterName: employeeDataResult.full_name,
                 employeeId: employeeId,
+                requestId: createdRequest.id,
                 details: {
                   leaveType: leaveType.name,
                   startDate: newRequest.startDate,
@@ -253,28 +369,22 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
         type: "",
         startDate: "",
         endDate: "",
+        durationType: "full_day",
+        durationHours: "",
         reason: "",
         medicalCertificateUrl: "",
         relationship: ""
       });
 
-      if (userRole === 'staff' && employeeId) {
-        const { data: requests } = await supabase
-          .from('leave_requests')
-          .select(`
-            *,
-            employee:employees(full_name, department),
-            leave_type:leave_types(name)
-          `)
-          .eq('employee_id', employeeId)
-          .order('created_at', { ascending: false });
-        setLeaveRequests(requests || []);
-      }
+      // Reload the list (and the approval chain the new request was given)
+      setRefreshKey(key => key + 1);
 
       setNewRequest({
         type: "",
         startDate: "",
         endDate: "",
+        durationType: "full_day",
+        durationHours: "",
         reason: "",
         medicalCertificateUrl: "",
         relationship: ""
@@ -283,7 +393,7 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
       console.error('Error submitting leave request:', error);
       toast({
         title: "Error",
-        description: "Failed to submit leave request. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to submit leave request. Please try again.",
         variant: "destructive"
       });
     }
@@ -291,20 +401,11 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
 
   const handleApproval = async (requestId: string, status: 'approved' | 'rejected', comments?: string) => {
     try {
-      const { error } = await supabase
-        .from('leave_requests')
-        .update({
-          status,
-          review_comments: comments,
-          reviewed_at: new Date().toISOString(),
-          reviewed_by: user?.id
-        })
-        .eq('id', requestId);
+      // Moves the request along its approval chain; only the final decision changes its status
+      const result = await actOnApproval('leave', requestId, status, comments);
 
-      if (error) throw error;
-
-      const request = leaveRequests.find(r => r.id === requestId);
-      if (request) {
+      const request = [...leaveRequests, ...awaitingMyApproval].find(r => r.id === requestId);
+      if (request && result !== 'pending') {
         try {
           const { data: employeeProfile } = await supabase
             .from('employees')
@@ -316,9 +417,10 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
             await supabase.functions.invoke('notify-email', {
               body: {
                 type: 'leave_request',
-                action: status,
+                action: result,
                 recipientEmail: employeeProfile.email,
                 recipientName: employeeProfile.full_name,
+                requestId: request.id,
                 details: {
                   leaveType: request.leave_type?.name,
                   startDate: request.start_date,
@@ -334,35 +436,135 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
       }
 
       toast({
-        title: `Request ${status}`,
-        description: `Leave request has been ${status}`
+        title: result === 'pending' ? 'Step approved' : `Request ${result}`,
+        description: result === 'pending'
+          ? 'Leave request has been passed to the next approver'
+          : `Leave request has been ${result}`
       });
 
-      const { data: requests } = await supabase
-        .from('leave_requests')
-        .select(`
-          *,
-          employee:employees(full_name, department),
-          leave_type:leave_types(name)
-        `)
-        .order('created_at', { ascending: false });
-      setLeaveRequests(requests || []);
+      setRefreshKey(key => key + 1);
     } catch (error) {
       console.error('Error updating leave request:', error);
       toast({
         title: "Error",
-        description: "Failed to update leave request",
+        description: error instanceof Error ? error.message : "Failed to update leave request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleChangeDecision = async (change: LeaveChangeToReview, decision: 'approved' | 'rejected') => {
+    try {
+      await actOnLeaveChange(change.id, decision);
+
+      try {
+        const { data: employeeProfile } = await supabase
+          .from('employees')
+          .select('email, full_name')
+          .eq('id', change.employee_id)
+          .single();
+
+        if (employeeProfile) {
+          await supabase.functions.invoke('notify-email', {
+            body: {
+              type: 'leave_request',
+              action: decision,
+              recipientEmail: employeeProfile.email,
+              recipientName: employeeProfile.full_name,
+              employeeId: change.employee_id,
+              requestId: change.leave_request_id,
+              details: {
+                leaveType: change.leave_request?.leave_type?.name,
+                startDate: change.original_start_date,
+                endDate: change.original_end_date,
+                changeType: change.change_type,
+                newStartDate: change.new_start_date,
+                newEndDate: change.new_end_date
+              }
+            }
+          });
+        }
+      } catch (emailError) {
+        console.error('Failed to send notification:', emailError);
+      }
+
+      toast({
+        title: `${LEAVE_CHANGE_TYPE_LABELS[change.change_type]} ${decision}`,
+        description: decision === 'approved'
+          ? 'The leave request and balance have been updated'
+          : 'The leave request is unchanged'
+      });
+
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Error deciding leave change:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update leave change",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleWithdrawChange = async (changeId: string) => {
+    try {
+      await actOnLeaveChange(changeId, 'withdrawn');
+      toast({
+        title: "Change Withdrawn",
+        description: "Your change request has been withdrawn"
+      });
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to withdraw change request",
         variant: "destructive"
       });
     }
   };
 
+  // Own requests (any request for admins) can be cancelled, or moved once approved,
+  // while no other change is waiting
+  const canRequestChange = (request: (typeof leaveRequests)[number]) =>
+    ['pending', 'approved'].includes(request.status) &&
+    (userRole === 'admin' || request.employee_id === employeeId) &&
+    !(leaveChanges.get(request.id) || []).some(change => change.status === 'pending');
+
+  const describeChange = (change: LeaveRequestChange) => change.change_type === 'cancel'
+    ? 'Cancel leave'
+    : `Move to ${formatDate(change.new_start_date)} - ${formatDate(change.new_end_date)} (${change.new_total_days} day(s), was ${change.original_total_days})`;
+
+  const renderChangeHistory = (requestId: string) => {
+    const changes = leaveChanges.get(requestId);
+    if (!changes || changes.length === 0) return null;
+
+    return (
+      <div className="space-y-1 border-t pt-2">
+        {changes.map(change => (
+          <div key={change.id} className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <CalendarClock className="h-3 w-3" />
+            <span>{formatDate(change.created_at)}: {describeChange(change)}</span>
+            <Badge variant="outline" className="text-xs">{change.status}</Badge>
+            {change.review_comments && <span className="italic">{change.review_comments}</span>}
+            {change.status === 'pending' && change.employee_id === employeeId && (
+              <Button size="sm" variant="link" className="h-auto p-0 text-xs" onClick={() => handleWithdrawChange(change.id)}>
+                Withdraw
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'approved':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case 'rejected':
         return <XCircle className="h-5 w-5 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="h-5 w-5 text-gray-500" />;
       default:
         return <Clock className="h-5 w-5 text-yellow-500" />;
     }
@@ -372,12 +574,14 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
     const variants: any = {
       pending: "default",
       approved: "default",
-      rejected: "destructive"
+      rejected: "destructive",
+      cancelled: "secondary"
     };
     const colors: any = {
       pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
       approved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
-      rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+      rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+      cancelled: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200"
     };
     return <Badge variant={variants[status]} className={colors[status]}>{status.charAt(0).toUpperCase() + status.slice(1)}</Badge>;
   };
@@ -483,26 +687,93 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
               </Select>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="start-date">Start Date *</Label>
-                <Input
-                  id="start-date"
-                  type="date"
-                  value={newRequest.startDate}
-                  onChange={(e) => setNewRequest({ ...newRequest, startDate: e.target.value })}
-                />
+            <div className="space-y-2">
+              <Label htmlFor="leave-duration">Duration *</Label>
+              <Select
+                value={newRequest.durationType}
+                onValueChange={(value) => setNewRequest({
+                  ...newRequest,
+                  durationType: value as LeaveDurationType,
+                  // Partial-day leave covers a single day
+                  endDate: isPartialLeave(value) ? newRequest.startDate : newRequest.endDate
+                })}
+              >
+                <SelectTrigger id="leave-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LEAVE_DURATION_LABELS) as LeaveDurationType[]).map((durationType) => (
+                    <SelectItem key={durationType} value={durationType}>
+                      {LEAVE_DURATION_LABELS[durationType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isPartialLeave(newRequest.durationType) ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="start-date">Date *</Label>
+                  <Input
+                    id="start-date"
+                    type="date"
+                    value={newRequest.startDate}
+                    onChange={(e) => setNewRequest({ ...newRequest, startDate: e.target.value, endDate: e.target.value })}
+                  />
+                </div>
+                {newRequest.durationType === 'hours' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="duration-hours">Hours *</Label>
+                    <Input
+                      id="duration-hours"
+                      type="number"
+                      min="0.5"
+                      step="0.5"
+                      value={newRequest.durationHours}
+                      onChange={(e) => setNewRequest({ ...newRequest, durationHours: e.target.value })}
+                    />
+                  </div>
+                )}
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="end-date">End Date *</Label>
-                <Input
-                  id="end-date"
-                  type="date"
-                  value={newRequest.endDate}
-                  onChange={(e) => setNewRequest({ ...newRequest, endDate: e.target.value })}
-                />
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="start-date">Start Date *</Label>
+                  <Input
+                    id="start-date"
+                    type="date"
+                    value={newRequest.startDate}
+                    onChange={(e) => setNewRequest({ ...newRequest, startDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="end-date">End Date *</Label>
+                  <Input
+                    id="end-date"
+                    type="date"
+                    value={newRequest.endDate}
+                    onChange={(e) => setNewRequest({ ...newRequest, endDate: e.target.value })}
+                  />
+                </div>
               </div>
-            </div>
+            )}
+
+            {leaveDaysPreview && (
+              <p className="text-sm text-muted-foreground">
+                {leaveDaysPreview.chargeableDays} {leaveDaysPreview.chargeableDays === 1 ? 'day' : 'days'} will be deducted
+                {!isPartialLeave(newRequest.durationType) && leaveDaysPreview.calendarDays > leaveDaysPreview.chargeableDays &&
+                  ` (${leaveDaysPreview.calendarDays - leaveDaysPreview.chargeableDays} public holiday${leaveDaysPreview.calendarDays - leaveDaysPreview.chargeableDays === 1 ? '' : 's'} excluded)`}
+              </p>
+            )}
+
+            {!isPartialLeave(newRequest.durationType) && (
+              <LeaveCoverageWarning
+                employeeId={employeeId}
+                startDate={newRequest.startDate}
+                endDate={newRequest.endDate}
+              />
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="reason">Reason *</Label>
@@ -618,7 +889,7 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
                         <span className="text-muted-foreground">End Date:</span> {formatDate(request.end_date)}
                       </div>
                       <div>
-                        <span className="text-muted-foreground">Days:</span> {request.total_days}
+                        <span className="text-muted-foreground">Duration:</span> {formatLeaveDuration(request)}
                       </div>
                       <div>
                         <span className="text-muted-foreground">Submitted:</span> {formatDate(request.created_at)}
@@ -634,6 +905,13 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
                         <span className="text-muted-foreground">Review Comments:</span> {request.review_comments}
                       </div>
                     )}
+                    <ApprovalProgress steps={approvalSteps.get(request.id)} />
+                    {renderChangeHistory(request.id)}
+                    {canRequestChange(request) && (
+                      <Button size="sm" variant="outline" onClick={() => setChangingRequest(request)}>
+                        Cancel or Change
+                      </Button>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -642,6 +920,114 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
         </DialogContent>
       </Dialog>
 
+      {/* Requests waiting on this user as approver, line manager or delegate */}
+      {userRole !== 'admin' && awaitingMyApproval.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Clock className="h-5 w-5 mr-2 text-primary" />
+              Awaiting My Approval ({awaitingMyApproval.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {awaitingMyApproval.map((request) => (
+                <div key={request.id} className="border rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-2 flex-1">
+                      <div>
+                        <h4 className="font-medium text-foreground">
+                          <Link to={leaveRequestPath(request.id)} className="hover:underline">{request.leave_type?.name || 'N/A'}</Link>
+                        </h4>
+                        <p className="text-sm text-muted-foreground">
+                          {request.employee?.full_name} • {request.employee?.department}
+                        </p>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {isPartialLeave(request.duration_type)
+                          ? formatDate(request.start_date)
+                          : `${formatDate(request.start_date)} - ${formatDate(request.end_date)}`} ({formatLeaveDuration(request)})
+                      </div>
+                      <p className="text-sm text-muted-foreground">{request.reason}</p>
+                      {!isPartialLeave(request.duration_type) && (
+                        <LeaveCoverageWarning
+                          employeeId={request.employee_id}
+                          startDate={request.start_date}
+                          endDate={request.end_date}
+                          requestId={request.id}
+                        />
+                      )}
+                      <ApprovalProgress steps={approvalSteps.get(request.id)} />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleApproval(request.id, 'approved')}>
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleApproval(request.id, 'rejected')}>
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cancellations and amendments waiting on this user */}
+      {changesToReview.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2 text-primary" />
+              Leave Changes to Review ({changesToReview.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {changesToReview.map((change) => (
+                <div key={change.id} className="border rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-2 flex-1">
+                      <div>
+                        <h4 className="font-medium text-foreground">
+                          {LEAVE_CHANGE_TYPE_LABELS[change.change_type]} · {change.leave_request?.leave_type?.name || 'N/A'}
+                        </h4>
+                        <p className="text-sm text-muted-foreground">
+                          {change.leave_request?.employee?.full_name} • {change.leave_request?.employee?.department}
+                        </p>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        Approved: {formatDate(change.original_start_date)} - {formatDate(change.original_end_date)} ({change.original_total_days} day(s))
+                      </div>
+                      <div className="text-sm font-medium">{describeChange(change)}</div>
+                      <p className="text-sm text-muted-foreground">{change.reason}</p>
+                      {change.change_type === 'amend' && (
+                        <LeaveCoverageWarning
+                          employeeId={change.employee_id}
+                          startDate={change.new_start_date}
+                          endDate={change.new_end_date}
+                          requestId={change.leave_request_id}
+                        />
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleChangeDecision(change, 'approved')}>
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleChangeDecision(change, 'rejected')}>
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Leave Requests List (For Admin) */}
       <Card>
         <CardHeader>
@@ -673,7 +1059,9 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
                       <div className="flex items-center space-x-3">
                         {getStatusIcon(request.status)}
                         <div>
-                          <h4 className="font-medium text-foreground">{request.leave_type?.name || 'N/A'}</h4>
+                          <h4 className="font-medium text-foreground">
+                            <Link to={leaveRequestPath(request.id)} className="hover:underline">{request.leave_type?.name || 'N/A'}</Link>
+                          </h4>
                           {userRole === 'admin' && (
                             <p className="text-sm text-muted-foreground">
                               {request.employee?.full_name} • {request.employee?.department}
@@ -683,7 +1071,9 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
                       </div>
                       
                       <div className="text-sm text-muted-foreground">
-                        {formatDate(request.start_date)} - {formatDate(request.end_date)} ({request.total_days} {request.total_days === 1 ? 'day' : 'days'})
+                        {isPartialLeave(request.duration_type)
+                          ? formatDate(request.start_date)
+                          : `${formatDate(request.start_date)} - ${formatDate(request.end_date)}`} ({formatLeaveDuration(request)})
                       </div>
                       
                       <p className="text-sm text-muted-foreground">{request.reason}</p>
@@ -693,10 +1083,27 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
                           Admin comments: {request.review_comments}
                         </p>
                       )}
+
+                      {userRole === 'admin' && request.status === 'pending' && !isPartialLeave(request.duration_type) && (
+                        <LeaveCoverageWarning
+                          employeeId={request.employee_id}
+                          startDate={request.start_date}
+                          endDate={request.end_date}
+                          requestId={request.id}
+                        />
+                      )}
+
+                      <ApprovalProgress steps={approvalSteps.get(request.id)} />
+                      {renderChangeHistory(request.id)}
                     </div>
                     
                     <div className="flex flex-col items-end space-y-2">
                       {getStatusBadge(request.status)}
+                      {canRequestChange(request) && (
+                        <Button size="sm" variant="outline" onClick={() => setChangingRequest(request)}>
+                          Cancel or Change
+                        </Button>
+                      )}
                       {userRole === 'admin' && request.status === 'pending' && (
                         <div className="flex gap-2 mt-2">
                           <Button size="sm" onClick={() => handleApproval(request.id, 'approved')}>
@@ -715,6 +1122,12 @@ export const LeaveRequestsView = ({ userRole }: LeaveRequestsViewProps) => {
           )}
         </CardContent>
       </Card>
+
+      <LeaveChangeDialog
+        request={changingRequest}
+        onOpenChange={(open) => !open && setChangingRequest(null)}
+        onChanged={() => setRefreshKey(key => key + 1)}
+      />
     </div>
   );
 };
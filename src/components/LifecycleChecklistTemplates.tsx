@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CHECKLIST_ANCHOR_LABELS,
+  CHECKLIST_TYPE_LABELS,
+  ChecklistTaskCategory,
+  ChecklistTaskOwnerType,
+  ChecklistTemplate,
+  ChecklistType,
+  fetchChecklistTemplates,
+  TASK_CATEGORY_LABELS,
+  TASK_OWNER_LABELS
+} from '@/lib/lifecycleChecklists';
+import { DOCUMENT_TYPES, documentTypeLabel } from '@/lib/staffDocuments';
+import { ListChecks, Plus, Trash2 } from 'lucide-react';
+
+const ALL = 'all';
+
+interface TaskForm {
+  title: string;
+  category: ChecklistTaskCategory;
+  document_type: string;
+  owner_type: ChecklistTaskOwnerType;
+  owner_employee_id: string;
+  due_offset_days: number;
+}
+
+const EMPTY_TASK: TaskForm = {
+  title: '',
+  category: 'other',
+  document_type: '',
+  owner_type: 'admin',
+  owner_employee_id: '',
+  due_offset_days: 0,
+};
+
+const describeOffset = (days: number, type: ChecklistType) => {
+  const anchor = CHECKLIST_ANCHOR_LABELS[type];
+  if (days === 0) return `On the ${anchor}`;
+  return `${Math.abs(days)} ${Math.abs(days) === 1 ? 'day' : 'days'} ${days < 0 ? 'before' : 'after'} the ${anchor}`;
+};
+
+/**
+ * Onboarding and offboarding checklist templates
+ * Every active template matching an employee's department and division is copied for them
+ * when they are invited (onboarding) or deactivated (offboarding).
+ */
+export const LifecycleChecklistTemplates = () => {
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [divisions, setDivisions] = useState<string[]>([]);
+  const [employees, setEmployees] = useState<{ id: string; full_name: string }[]>([]);
+  const [name, setName] = useState('');
+  const [checklistType, setChecklistType] = useState<ChecklistType>('onboarding');
+  const [department, setDepartment] = useState(ALL);
+  const [division, setDivision] = useState(ALL);
+  const [taskForms, setTaskForms] = useState<Record<string, TaskForm>>({});
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const [templateData, employeesResult, divisionsResult] = await Promise.all([
+        fetchChecklistTemplates(),
+        supabase.from('employees').select('id, full_name, department').eq('status', 'active').order('full_name'),
+        supabase.from('divisions').select('name').eq('is_active', true).order('name'),
+      ]);
+
+      setTemplates(templateData);
+      setEmployees(employeesResult.data || []);
+      setDepartments(Array.from(
+        new Set((employeesResult.data || []).map(e => e.department).filter((d): d is string => !!d))
+      ).sort());
+      setDivisions((divisionsResult.data || []).map(d => d.name));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch checklist templates",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleAddTemplate = async () => {
+    if (!name.trim()) return;
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('lifecycle_checklist_templates')
+        .insert({
+          name: name.trim(),
+          checklist_type: checklistType,
+          department: department === ALL ? null : department,
+          division: division === ALL ? null : division,
+          created_by: user?.id,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Checklist template added"
+      });
+
+      setName('');
+      setDepartment(ALL);
+      setDivision(ALL);
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add checklist template",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleTemplate = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('lifecycle_checklist_templates')
+        .update({ is_active: isActive })
+        .eq('id', id);
+
+      if (error) throw error;
+      setTemplates(templates.map(t => (t.id === id ? { ...t, is_active: isActive } : t)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update checklist template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    if (!confirm('Delete this checklist template? Checklists already started from it are kept.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('lifecycle_checklist_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete checklist template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const taskForm = (templateId: string) => taskForms[templateId] || EMPTY_TASK;
+
+  const updateTaskForm = (templateId: string, changes: Partial<TaskForm>) => {
+    setTaskForms({ ...taskForms, [templateId]: { ...taskForm(templateId), ...changes } });
+  };
+
+  const handleAddTask = async (template: ChecklistTemplate) => {
+    const form = taskForm(template.id);
+    if (!form.title.trim()) return;
+
+    if (form.category === 'document' && !form.document_type) {
+      toast({
+        title: "Validation Error",
+        description: "Choose the document type to collect",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (form.owner_type === 'person' && !form.owner_employee_id) {
+      toast({
+        title: "Validation Error",
+        description: "Choose who owns this task",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('lifecycle_template_tasks')
+        .insert({
+          template_id: template.id,
+          title: form.title.trim(),
+          category: form.category,
+          document_type: form.category === 'document' ? form.document_type : null,
+          owner_type: form.owner_type,
+          owner_employee_id: form.owner_type === 'person' ? form.owner_employee_id : null,
+          due_offset_days: form.due_offset_days,
+          sort_order: template.tasks.length,
+        });
+
+      if (error) throw error;
+
+      setTaskForms({ ...taskForms, [template.id]: EMPTY_TASK });
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add task",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteTask = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('lifecycle_template_tasks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete task",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const employeeName = (id: string | null) => employees.find(e => e.id === id)?.full_name || 'Unknown';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Onboarding & Offboarding Checklists
+        </CardTitle>
+        <CardDescription>
+          Tasks to complete when someone joins or leaves. Onboarding checklists start when an employee
+          is invited and offboarding ones when they are deactivated; due dates are counted from the hire
+          date or last working day. Document tasks complete themselves when that document is uploaded,
+          and settlement tasks when the final settlement is generated.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="checklist-template-name">Name</Label>
+            <Input
+              id="checklist-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. New joiner"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={checklistType} onValueChange={(value) => setChecklistType(value as ChecklistType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CHECKLIST_TYPE_LABELS) as ChecklistType[]).map(type => (
+                  <SelectItem key={type} value={type}>{CHECKLIST_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All departments</SelectItem>
+                {departments.map(d => (
+                  <SelectItem key={d} value={d}>{d}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Division</Label>
+            <Select value={division} onValueChange={setDivision}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All divisions</SelectItem>
+                {divisions.map(d => (
+                  <SelectItem key={d} value={d}>{d}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleAddTemplate} disabled={loading || !name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            {loading ? 'Saving...' : 'Add Template'}
+          </Button>
+        </div>
+
+        {templates.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">No checklist templates yet</div>
+        ) : (
+          <div className="space-y-4">
+            {templates.map(template => {
+              const form = taskForm(template.id);
+
+              return (
+                <div key={template.id} className="border rounded-lg p-4 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex flex-wrap items-center gap-2 font-medium">
+                      {template.name}
+                      <Badge variant="outline">{CHECKLIST_TYPE_LABELS[template.checklist_type]}</Badge>
+                      <Badge variant="outline">{template.department || 'All departments'}</Badge>
+                      <Badge variant="outline">{template.division || 'All divisions'}</Badge>
+                      {!template.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`template-active-${template.id}`}
+                          checked={template.is_active}
+                          onCheckedChange={(checked) => handleToggleTemplate(template.id, checked)}
+                        />
+                        <Label htmlFor={`template-active-${template.id}`} className="text-sm">Active</Label>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteTemplate(template.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {template.tasks.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Task</TableHead>
+                          <TableHead>Category</TableHead>
+                          <TableHead>Owner</TableHead>
+                          <TableHead>Due</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {template.tasks.map(task => (
+                          <TableRow key={task.id}>
+                            <TableCell className="font-medium">{task.title}</TableCell>
+                            <TableCell>
+                              {TASK_CATEGORY_LABELS[task.category]}
+                              {task.document_type && ` (${documentTypeLabel(task.document_type)})`}
+                            </TableCell>
+                            <TableCell>
+                              {task.owner_type === 'person' ? employeeName(task.owner_employee_id) : TASK_OWNER_LABELS[task.owner_type]}
+                            </TableCell>
+                            <TableCell>{describeOffset(task.due_offset_days, template.checklist_type)}</TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => handleDeleteTask(task.id)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+                    <div className="space-y-1 md:col-span-2">
+                      <Label className="text-xs">New task</Label>
+                      <Input
+                        value={form.title}
+                        onChange={(e) => updateTaskForm(template.id, { title: e.target.value })}
+                        placeholder={template.checklist_type === 'onboarding' ? 'e.g. Issue laptop' : 'e.g. Revoke email access'}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Category</Label>
+                      <Select
+                        value={form.category}
+                        onValueChange={(value) => updateTaskForm(template.id, { category: value as ChecklistTaskCategory })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(TASK_CATEGORY_LABELS) as ChecklistTaskCategory[]).map(category => (
+                            <SelectItem key={category} value={category}>{TASK_CATEGORY_LABELS[category]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {form.category === 'document' && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Document</Label>
+                        <Select
+                          value={form.document_type}
+                          onValueChange={(value) => updateTaskForm(template.id, { document_type: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DOCUMENT_TYPES.map(type => (
+                              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="space-y-1">
+                      <Label className="text-xs">Owner</Label>
+                      <Select
+                        value={form.owner_type}
+                        onValueChange={(value) => updateTaskForm(template.id, { owner_type: value as ChecklistTaskOwnerType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(TASK_OWNER_LABELS) as ChecklistTaskOwnerType[]).map(owner => (
+                            <SelectItem key={owner} value={owner}>{TASK_OWNER_LABELS[owner]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {form.owner_type === 'person' && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Person</Label>
+                        <Select
+                          value={form.owner_employee_id}
+                          onValueChange={(value) => updateTaskForm(template.id, { owner_employee_id: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select employee" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {employees.map(e => (
+                              <SelectItem key={e.id} value={e.id}>{e.full_name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="space-y-1">
+                      <Label className="text-xs">Due (days from {CHECKLIST_ANCHOR_LABELS[template.checklist_type]})</Label>
+                      <Input
+                        type="number"
+                        value={form.due_offset_days}
+                        onChange={(e) => updateTaskForm(template.id, { due_offset_days: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <Button variant="outline" onClick={() => handleAddTask(template)} disabled={!form.title.trim()}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Task
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CHECKLIST_TYPE_LABELS,
+  ChecklistTask,
+  ChecklistTaskStatus,
+  fetchMyChecklistTasks,
+  MyChecklistTask,
+  updateChecklistTask
+} from '@/lib/lifecycleChecklists';
+import { todayInGST } from '@/lib/timezone';
+import { ChecklistTaskItem, EmployeeChecklists } from '@/components/EmployeeChecklists';
+import { ClipboardCheck } from 'lucide-react';
+
+/**
+ * Onboarding and offboarding tasks waiting on the current user, and the open checklists they can see
+ */
+export const LifecycleChecklists = () => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<MyChecklistTask[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+  // Remounts the checklist list after a task changes here
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const isAdmin = profile?.role === 'admin';
+  const overdueCount = tasks.filter(task => task.due_date < todayInGST()).length;
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const { data: employee, error } = await supabase
+        .from('employees')
+        .select('id')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setTasks(employee ? await fetchMyChecklistTasks(employee.id, isAdmin) : []);
+    } catch (error) {
+      console.error('Error fetching checklist tasks:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your checklist tasks",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, isAdmin, toast]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchTasks();
+    }
+  }, [user?.id, fetchTasks]);
+
+  const handleTaskChange = async (task: ChecklistTask, status: ChecklistTaskStatus) => {
+    let notes: string | undefined;
+    if (status === 'skipped') {
+      const reason = prompt('Why is this task being skipped? (optional)');
+      if (reason === null) return;
+      notes = reason.trim() || undefined;
+    }
+
+    setBusy(true);
+    try {
+      await updateChecklistTask(task.id, status, notes);
+      await fetchTasks();
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the task",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            My Checklist Tasks
+            {overdueCount > 0 && <Badge variant="destructive">{overdueCount} overdue</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {isAdmin
+              ? 'Onboarding and offboarding tasks assigned to you or to HR'
+              : 'Onboarding and offboarding tasks assigned to you'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-6 text-muted-foreground">Loading...</div>
+          ) : tasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing waiting on you</p>
+          ) : (
+            <div className="space-y-2">
+              {tasks.map(task => (
+                <ChecklistTaskItem
+                  key={task.id}
+                  task={task}
+                  context={[
+                    task.employee?.full_name,
+                    task.checklist && `${CHECKLIST_TYPE_LABELS[task.checklist.checklist_type]}: ${task.checklist.name}`
+                  ].filter(Boolean).join(' · ')}
+                  canAct
+                  busy={busy}
+                  onChange={handleTaskChange}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <EmployeeChecklists key={refreshKey} onTaskChanged={fetchTasks} />
+    </div>
+  );
+};
@@ -0,0 +1,324 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DOCUMENT_TYPES,
+  documentStatusLabel,
+  documentTypeLabel,
+  fetchEmployeeDocuments,
+  OwnStaffDocument,
+  uploadStaffDocumentFile
+} from '@/lib/staffDocuments';
+import { todayInGST } from '@/lib/timezone';
+import { DocumentDetailsDialog } from '@/components/DocumentDetailsDialog';
+import { AlertTriangle, Eye, History, Upload } from 'lucide-react';
+
+interface MyDocumentsProps {
+  employeeId: string;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  active: 'outline',
+  pending_verification: 'secondary',
+  rejected: 'destructive',
+};
+
+// Replaces nothing: the upload is a new document rather than a renewal
+const NO_PREVIOUS_VERSION = 'none';
+
+const emptyForm = {
+  document_type: '',
+  document_name: '',
+  issue_date: '',
+  expiry_date: '',
+  notes: '',
+  previous_version_id: NO_PREVIOUS_VERSION,
+};
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : '-');
+
+/**
+ * The employee's own staff documents (read-only) and self-service uploads for HR to verify
+ */
+export const MyDocuments = ({ employeeId }: MyDocumentsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<OwnStaffDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [historyDocument, setHistoryDocument] = useState<OwnStaffDocument | null>(null);
+
+  const today = todayInGST();
+  const currentOfType = documents.filter(doc => doc.status === 'active' && doc.document_type === formData.document_type);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      setDocuments(await fetchEmployeeDocuments(employeeId));
+    } catch (error) {
+      console.error('Error fetching documents:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your documents',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId, toast]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleTypeChange = (documentType: string) => {
+    // A new copy of a document already on file renews its current version
+    const current = documents.find(doc => doc.status === 'active' && doc.document_type === documentType);
+    setFormData({
+      ...formData,
+      document_type: documentType,
+      previous_version_id: current?.id ?? NO_PREVIOUS_VERSION,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedFile || !user) return;
+
+    setUploading(true);
+    try {
+      const fileUrl = await uploadStaffDocumentFile(selectedFile, user.id);
+
+      const { error } = await supabase
+        .from('staff_documents')
+        .insert({
+          employee_id: employeeId,
+          document_type: formData.document_type,
+          document_name: formData.document_name,
+          file_url: fileUrl,
+          issue_date: formData.issue_date || null,
+          expiry_date: formData.expiry_date || null,
+          notes: formData.notes || null,
+          status: 'pending_verification',
+          previous_version_id: formData.previous_version_id === NO_PREVIOUS_VERSION ? null : formData.previous_version_id,
+          uploaded_by: user.id
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Document Uploaded',
+        description: 'HR will verify it and you will be notified',
+      });
+      setFormData(emptyForm);
+      setSelectedFile(null);
+      setIsDialogOpen(false);
+      fetchDocuments();
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload the document',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const expiryBadge = (doc: OwnStaffDocument) => {
+    if (doc.status !== 'active' || !doc.expiry_date) return null;
+    if (doc.expiry_date < today) {
+      return <Badge variant="destructive"><AlertTriangle className="h-3 w-3 mr-1" />Expired</Badge>;
+    }
+    const days = Math.round((parseISO(doc.expiry_date).getTime() - parseISO(today).getTime()) / (24 * 60 * 60 * 1000));
+    return days <= 30
+      ? <Badge variant="secondary"><AlertTriangle className="h-3 w-3 mr-1" />Expires in {days} day{days !== 1 ? 's' : ''}</Badge>
+      : null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Upload a scan of a new or renewed document. HR verifies it before it is added to your record.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setFormData(emptyForm);
+            setSelectedFile(null);
+            setIsDialogOpen(true);
+          }}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Upload
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading documents...</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No documents on file</p>
+      ) : (
+        <div className="space-y-2">
+          {documents.map(doc => (
+            <div key={doc.id} className="flex flex-wrap items-start justify-between gap-3 rounded-md border p-3 text-sm">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2 font-medium">
+                  {doc.document_name}
+                  <Badge variant="outline">{documentTypeLabel(doc.document_type)}</Badge>
+                  <Badge variant={STATUS_VARIANTS[doc.status] ?? 'outline'}>{documentStatusLabel(doc.status)}</Badge>
+                  {expiryBadge(doc)}
+                </div>
+                <p className="text-muted-foreground">
+                  Issued {formatDate(doc.issue_date)} · Expires {formatDate(doc.expiry_date)}
+                </p>
+                {doc.status === 'rejected' && doc.rejection_reason && (
+                  <p className="text-xs text-destructive">Rejected: {doc.rejection_reason}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => window.open(doc.file_url, '_blank')}>
+                  <Eye className="h-4 w-4" />
+                </Button>
+                {(doc.version_number > 1 || doc.previous_version_id) && (
+                  <Button variant="ghost" size="sm" title="Renewal history" onClick={() => setHistoryDocument(doc)}>
+                    <History className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Upload Document</DialogTitle>
+            <DialogDescription>The document is added to your record once HR verifies it.</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Document Type</Label>
+              <Select value={formData.document_type} onValueChange={handleTypeChange} required>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select document type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOCUMENT_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {currentOfType.length > 0 && (
+              <div className="space-y-2">
+                <Label>Replaces</Label>
+                <Select
+                  value={formData.previous_version_id}
+                  onValueChange={(value) => setFormData({ ...formData, previous_version_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currentOfType.map(doc => (
+                      <SelectItem key={doc.id} value={doc.id}>
+                        {doc.document_name} (expires {formatDate(doc.expiry_date)})
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={NO_PREVIOUS_VERSION}>Nothing - this is an additional document</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="my_document_name">Document Name</Label>
+              <Input
+                id="my_document_name"
+                value={formData.document_name}
+                onChange={(e) => setFormData({ ...formData, document_name: e.target.value })}
+                placeholder="e.g., Passport"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="my_issue_date">Issue Date</Label>
+                <Input
+                  id="my_issue_date"
+                  type="date"
+                  value={formData.issue_date}
+                  onChange={(e) => setFormData({ ...formData, issue_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="my_expiry_date">Expiry Date</Label>
+                <Input
+                  id="my_expiry_date"
+                  type="date"
+                  value={formData.expiry_date}
+                  onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="my_document_file">Document File</Label>
+              <Input
+                id="my_document_file"
+                type="file"
+                onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+                accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="my_document_notes">Notes (Optional)</Label>
+              <Textarea
+                id="my_document_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <Button type="submit" disabled={uploading || !formData.document_type} className="flex-1">
+                {uploading ? 'Uploading...' : 'Submit for Verification'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <DocumentDetailsDialog
+        document={historyDocument}
+        open={!!historyDocument}
+        onOpenChange={(open) => !open && setHistoryDocument(null)}
+      />
+    </div>
+  );
+};
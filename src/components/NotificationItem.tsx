@@ -1,5 +1,5 @@
 import { formatDistanceToNow } from 'date-fns';
-import { Bell, Calendar, AlertTriangle, FileText, Info, X } from 'lucide-react';
+import { Bell, Calendar, AlertTriangle, FileCheck, FileText, Info, ListChecks, Timer, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from './ui/button';
 
@@ -25,8 +25,14 @@ const getNotificationIcon = (type: string) => {
       return <Calendar className="h-4 w-4" />;
     case 'exception_request':
       return <AlertTriangle className="h-4 w-4" />;
+    case 'overtime_request':
+      return <Timer className="h-4 w-4" />;
     case 'document_expiry':
       return <FileText className="h-4 w-4" />;
+    case 'document_verification':
+      return <FileCheck className="h-4 w-4" />;
+    case 'lifecycle_task':
+      return <ListChecks className="h-4 w-4" />;
     default:
       return <Info className="h-4 w-4" />;
   }
@@ -40,8 +46,14 @@ const getNotificationColor = (type: string) => {
       return 'text-primary';
     case 'exception_request':
       return 'text-warning';
+    case 'overtime_request':
+      return 'text-primary';
     case 'document_expiry':
       return 'text-purple-600';
+    case 'document_verification':
+      return 'text-purple-600';
+    case 'lifecycle_task':
+      return 'text-primary';
     default:
       return 'text-muted-foreground';
   }
@@ -0,0 +1,408 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildOrgTrees,
+  checkReportingLine,
+  countReports,
+  fetchOrgEmployees,
+  fetchReportingCycles,
+  OrgEmployee,
+  OrgNode,
+  ReportingCycleMember,
+  setEmployeeManager
+} from '@/lib/orgChart';
+import { employeePath } from '@/lib/routes';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, ChevronDown, ChevronRight, Network, Search, Users } from 'lucide-react';
+
+type OrgChartView = 'organization' | 'my-team';
+
+const NO_DIVISION = 'No Division';
+
+const matchesSearch = (employee: OrgEmployee, search: string) =>
+  [employee.full_name, employee.position, employee.department]
+    .some(value => value?.toLowerCase().includes(search));
+
+// Keep nodes that match the search or lead to a match
+const filterTree = (nodes: OrgNode[], search: string): OrgNode[] =>
+  nodes.flatMap(node => {
+    const children = filterTree(node.children, search);
+    return matchesSearch(node.employee, search) || children.length > 0 ? [{ ...node, children }] : [];
+  });
+
+/**
+ * Reporting lines of the organization, grouped by division
+ * Admins reassign managers by dragging an employee onto their new manager.
+ */
+export const OrgChart = () => {
+  const { user, profile } = useAuth();
+  const [employees, setEmployees] = useState<OrgEmployee[]>([]);
+  const [divisions, setDivisions] = useState<string[]>([]);
+  const [cycles, setCycles] = useState<ReportingCycleMember[]>([]);
+  const [ownEmployeeId, setOwnEmployeeId] = useState<string | null>(null);
+  const [view, setView] = useState<OrgChartView>('organization');
+  const [search, setSearch] = useState('');
+  const [collapsedDivisions, setCollapsedDivisions] = useState<Set<string>>(new Set());
+  const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const isAdmin = profile?.role === 'admin';
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [orgEmployees, divisionsResult, reportingCycles, ownEmployeeResult] = await Promise.all([
+        fetchOrgEmployees(),
+        supabase.from('divisions').select('name').eq('is_active', true).order('name'),
+        fetchReportingCycles(),
+        supabase.from('employees').select('id').eq('user_id', user!.id).maybeSingle(),
+      ]);
+
+      setEmployees(orgEmployees);
+      setDivisions((divisionsResult.data || []).map(d => d.name));
+      setCycles(reportingCycles);
+      setOwnEmployeeId(ownEmployeeResult.data?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching org chart:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the org chart",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchData();
+    }
+  }, [user?.id, fetchData]);
+
+  const activeEmployees = useMemo(() => employees.filter(e => e.status === 'active'), [employees]);
+  const employeesById = useMemo(() => new Map(employees.map(e => [e.id, e])), [employees]);
+  const reportCounts = useMemo(() => countReports(activeEmployees), [activeEmployees]);
+
+  // Within a division, a tree starts at anyone whose manager is outside it, inactive or missing
+  const divisionGroups = useMemo(() => {
+    const activeIds = new Set(activeEmployees.map(e => e.id));
+    const names = [...divisions];
+    activeEmployees.forEach(e => {
+      const name = e.division || NO_DIVISION;
+      if (!names.includes(name)) names.push(name);
+    });
+
+    return names
+      .map(name => {
+        const members = activeEmployees.filter(e => (e.division || NO_DIVISION) === name);
+        const inDivision = (e: OrgEmployee) => (e.division || NO_DIVISION) === name;
+        const rootIds = members
+          .filter(e => !e.manager_id || !activeIds.has(e.manager_id) || !inDivision(employeesById.get(e.manager_id)!))
+          .map(e => e.id);
+        return { name, headcount: members.length, trees: buildOrgTrees(activeEmployees, rootIds, inDivision) };
+      })
+      .filter(group => group.headcount > 0);
+  }, [activeEmployees, divisions, employeesById]);
+
+  const myTeam = useMemo(
+    () => (ownEmployeeId ? buildOrgTrees(activeEmployees, [ownEmployeeId]) : []),
+    [activeEmployees, ownEmployeeId]
+  );
+
+  const hasReports = !!ownEmployeeId && (reportCounts.get(ownEmployeeId) || 0) > 0;
+  const searchTerm = search.trim().toLowerCase();
+
+  const toggleDivision = (name: string) => {
+    setCollapsedDivisions(current => {
+      const next = new Set(current);
+      if (next.has(name)) next.delete(name); else next.add(name);
+      return next;
+    });
+  };
+
+  const toggleNode = (id: string) => {
+    setCollapsedNodes(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleReassign = async (employeeId: string, managerId: string | null) => {
+    const employee = employeesById.get(employeeId);
+    if (!employee || employee.manager_id === managerId) return;
+
+    const problem = checkReportingLine(employees, employeeId, managerId);
+    if (problem) {
+      toast({
+        title: "Cannot Change Reporting Line",
+        description: problem,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const manager = managerId ? employeesById.get(managerId) : null;
+    const message = manager
+      ? `${employee.full_name} will report to ${manager.full_name}. Continue?`
+      : `${employee.full_name} will no longer report to anyone. Continue?`;
+    if (!confirm(message)) return;
+
+    try {
+      await setEmployeeManager(employeeId, managerId);
+      toast({
+        title: "Reporting Line Updated",
+        description: manager ? `${employee.full_name} now reports to ${manager.full_name}` : `${employee.full_name} is now at the top level`
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the reporting line",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDrop = (managerId: string | null) => {
+    if (draggingId) {
+      handleReassign(draggingId, managerId);
+    }
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
+  const renderNode = (node: OrgNode, depth: number): React.ReactNode => {
+    const { employee } = node;
+    const manager = employee.manager_id ? employeesById.get(employee.manager_id) : undefined;
+    const expanded = !!searchTerm || !collapsedNodes.has(employee.id);
+    const directReports = activeEmployees.filter(e => e.manager_id === employee.id).length;
+    const totalReports = reportCounts.get(employee.id) || 0;
+    // Roots of a division tree can report to someone elsewhere
+    const showManager = depth === 0 && manager;
+
+    return (
+      <div key={employee.id}>
+        <div
+          draggable={isAdmin}
+          onDragStart={event => {
+            event.dataTransfer.effectAllowed = 'move';
+            setDraggingId(employee.id);
+          }}
+          onDragEnd={() => {
+            setDraggingId(null);
+            setDropTargetId(null);
+          }}
+          onDragOver={event => {
+            if (!draggingId || draggingId === employee.id) return;
+            event.preventDefault();
+            setDropTargetId(employee.id);
+          }}
+          onDragLeave={() => setDropTargetId(current => (current === employee.id ? null : current))}
+          onDrop={event => {
+            event.preventDefault();
+            handleDrop(employee.id);
+          }}
+          className={cn(
+            "flex items-center gap-2 rounded-md border bg-card p-2 text-sm",
+            isAdmin && "cursor-grab",
+            draggingId === employee.id && "opacity-50",
+            dropTargetId === employee.id && "ring-2 ring-primary",
+            searchTerm && matchesSearch(employee, searchTerm) && "border-primary bg-primary/5"
+          )}
+          style={{ marginLeft: `${depth * 1.5}rem` }}
+        >
+          {node.children.length > 0 ? (
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => toggleNode(employee.id)}>
+              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+          ) : (
+            <span className="w-6" />
+          )}
+          <div className="flex-1 min-w-0">
+            <div className="font-medium truncate">
+              {profile?.role === 'staff' ? (
+                employee.full_name
+              ) : (
+                <Link to={employeePath(employee.id)} className="hover:underline">{employee.full_name}</Link>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground truncate">
+              {employee.position} • {employee.department}
+              {showManager && manager.status === 'active' && ` • Reports to ${manager.full_name}${manager.division !== employee.division ? ` (${manager.division || NO_DIVISION})` : ''}`}
+            </div>
+          </div>
+          {showManager && manager.status !== 'active' && (
+            <Badge variant="outline" className="text-xs text-yellow-700 border-yellow-300">
+              Manager {manager.status}
+            </Badge>
+          )}
+          {totalReports > 0 && (
+            <Badge variant="secondary" className="text-xs whitespace-nowrap">
+              <Users className="h-3 w-3 mr-1" />
+              {directReports} direct{totalReports > directReports && ` • ${totalReports} total`}
+            </Badge>
+          )}
+        </div>
+        {expanded && node.children.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderTrees = (trees: OrgNode[]) => {
+    const visible = searchTerm ? filterTree(trees, searchTerm) : trees;
+    if (visible.length === 0) {
+      return <p className="text-sm text-muted-foreground">No matching employees</p>;
+    }
+    return <div className="space-y-2">{visible.map(tree => renderNode(tree, 0))}</div>;
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Network className="h-6 w-6" />
+            Org Chart
+          </h2>
+          <p className="text-muted-foreground">
+            {activeEmployees.length} active employees
+            {isAdmin && ' • Drag an employee onto their new manager to change who they report to'}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {hasReports && (
+            <>
+              <Button
+                variant={view === 'organization' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('organization')}
+              >
+                Organization
+              </Button>
+              <Button
+                variant={view === 'my-team' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView('my-team')}
+              >
+                My Team
+              </Button>
+            </>
+          )}
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search name, position or department"
+              value={search}
+              onChange={event => setSearch(event.target.value)}
+              className="pl-8 w-64"
+            />
+          </div>
+        </div>
+      </div>
+
+      {isAdmin && cycles.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Reporting cycles</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>These employees report, directly or indirectly, to themselves and are missing from the chart below.</p>
+            {cycles.map(member => (
+              <div key={member.employee_id} className="flex flex-wrap items-center gap-2">
+                <span>
+                  {member.full_name} reports to {employeesById.get(member.manager_id)?.full_name || 'unknown'}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleReassign(member.employee_id, null)}
+                >
+                  Remove Manager
+                </Button>
+              </div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isAdmin && draggingId && (
+        <div
+          onDragOver={event => {
+            event.preventDefault();
+            setDropTargetId('top-level');
+          }}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={event => {
+            event.preventDefault();
+            handleDrop(null);
+          }}
+          className={cn(
+            "rounded-md border-2 border-dashed p-4 text-center text-sm text-muted-foreground",
+            dropTargetId === 'top-level' && "border-primary text-primary"
+          )}
+        >
+          Drop here to remove the manager
+        </div>
+      )}
+
+      {view === 'my-team' && hasReports ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>My Team</CardTitle>
+            <CardDescription>
+              {reportCounts.get(ownEmployeeId!)} people report to you directly or through their managers
+            </CardDescription>
+          </CardHeader>
+          <CardContent>{renderTrees(myTeam)}</CardContent>
+        </Card>
+      ) : (
+        divisionGroups.map(group => (
+          <Collapsible
+            key={group.name}
+            open={!!searchTerm || !collapsedDivisions.has(group.name)}
+            onOpenChange={() => toggleDivision(group.name)}
+          >
+            <Card>
+              <CollapsibleTrigger asChild>
+                <CardHeader className="cursor-pointer hover:bg-muted/10 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {collapsedDivisions.has(group.name) && !searchTerm
+                        ? <ChevronRight className="h-4 w-4" />
+                        : <ChevronDown className="h-4 w-4" />}
+                      {group.name}
+                    </CardTitle>
+                    <Badge variant="outline">{group.headcount} {group.headcount === 1 ? 'employee' : 'employees'}</Badge>
+                  </div>
+                </CardHeader>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <CardContent>{renderTrees(group.trees)}</CardContent>
+              </CollapsibleContent>
+            </Card>
+          </Collapsible>
+        ))
+      )}
+    </div>
+  );
+};
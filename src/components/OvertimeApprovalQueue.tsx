@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CheckCircle, XCircle, Clock, Timer } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+interface OvertimeRequest {
+  id: string;
+  employee_id: string;
+  date: string;
+  worked_hours: number;
+  scheduled_hours: number;
+  overtime_hours: number;
+  day_type: 'weekday' | 'rest_day' | 'holiday';
+  multiplier: number;
+  status: 'pending' | 'approved' | 'rejected';
+  admin_comments: string | null;
+  payroll_record_id: string | null;
+  amount: number | null;
+  created_at: string;
+  employee_name?: string;
+}
+
+interface OvertimeApprovalQueueProps {
+  userRole: 'admin' | 'staff' | 'manager';
+}
+
+const DAY_TYPE_LABELS: Record<OvertimeRequest['day_type'], string> = {
+  weekday: 'Working Day',
+  rest_day: 'Rest Day',
+  holiday: 'Public Holiday',
+};
+
+export const OvertimeApprovalQueue = ({ userRole }: OvertimeApprovalQueueProps) => {
+  const [requests, setRequests] = useState<OvertimeRequest[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [adminComments, setAdminComments] = useState<{ [key: string]: string }>({});
+  const { toast } = useToast();
+  const canReview = userRole === 'admin' || userRole === 'manager';
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      // RLS limits staff to their own overtime and managers to their team's
+      const { data: overtimeData, error } = await supabase
+        .from('overtime_requests')
+        .select('*')
+        .order('date', { ascending: false });
+
+      if (error) throw error;
+
+      if (!overtimeData || overtimeData.length === 0) {
+        setRequests([]);
+        return;
+      }
+
+      const employeeIds = [...new Set(overtimeData.map(req => req.employee_id))];
+      const { data: employeesData } = await supabase
+        .from('employees')
+        .select('id, full_name')
+        .in('id', employeeIds);
+
+      setRequests(overtimeData.map(req => ({
+        ...req,
+        day_type: req.day_type as OvertimeRequest['day_type'],
+        status: req.status as OvertimeRequest['status'],
+        employee_name: employeesData?.find(emp => emp.id === req.employee_id)?.full_name || 'Unknown Employee'
+      })));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch overtime requests",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleApproval = async (id: string, status: 'approved' | 'rejected') => {
+    setProcessingId(id);
+    try {
+      const request = requests.find(req => req.id === id);
+      if (!request) throw new Error('Overtime request not found');
+
+      const comments = adminComments[id] || '';
+
+      // Approved overtime is added to the matching draft payroll record by a database trigger
+      const { error: updateError } = await supabase.rpc('review_overtime_request', {
+        p_request_id: id,
+        p_decision: status,
+        p_comments: comments.trim() || undefined
+      });
+
+      if (updateError) throw updateError;
+
+      try {
+        const { data: employeeData } = await supabase
+          .from('employees')
+          .select('email, full_name')
+          .eq('id', request.employee_id)
+          .single();
+
+        if (employeeData) {
+          await supabase.functions.invoke('notify-email', {
+            body: {
+              type: 'overtime_request',
+              action: status,
+              recipientEmail: employeeData.email,
+              recipientName: employeeData.full_name,
+              submitterName: employeeData.full_name,
+              employeeId: request.employee_id,
+              details: {
+                overtimeDate: request.date,
+                overtimeHours: request.overtime_hours,
+                adminComments: comments.trim() || undefined
+              }
+            }
+          });
+        }
+      } catch (emailError) {
+        console.log('Email notification failed:', emailError);
+        // Don't fail the whole operation if email fails
+      }
+
+      toast({
+        title: "Success",
+        description: `Overtime request ${status} successfully`
+      });
+
+      setAdminComments(prev => {
+        const updated = { ...prev };
+        delete updated[id];
+        return updated;
+      });
+
+      fetchRequests();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to ${status} overtime request: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return <Badge variant="secondary"><Clock className="h-3 w-3 mr-1" />Pending</Badge>;
+      case 'approved':
+        return <Badge variant="default"><CheckCircle className="h-3 w-3 mr-1" />Approved</Badge>;
+      case 'rejected':
+        return <Badge variant="destructive"><XCircle className="h-3 w-3 mr-1" />Rejected</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const formatOvertimeSummary = (request: OvertimeRequest) => {
+    const worked = `Worked ${Number(request.worked_hours).toFixed(2)}h`;
+    const scheduled = request.day_type === 'weekday'
+      ? ` of ${Number(request.scheduled_hours).toFixed(2)}h scheduled`
+      : '';
+    return `${worked}${scheduled} · Overtime ${Number(request.overtime_hours).toFixed(2)}h × ${Number(request.multiplier).toFixed(2)}`;
+  };
+
+  const pendingRequests = requests.filter(req => req.status === 'pending');
+  const processedRequests = requests.filter(req => req.status !== 'pending');
+  const totalApprovedHours = processedRequests
+    .filter(req => req.status === 'approved')
+    .reduce((sum, req) => sum + Number(req.overtime_hours), 0);
+
+  return (
+    <div className="space-y-6">
+      {pendingRequests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              {canReview ? 'Overtime Pending Approval' : 'My Pending Overtime'} ({pendingRequests.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {pendingRequests.map(request => (
+                <div key={request.id} className="border rounded-lg p-4 space-y-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{request.employee_name}</h4>
+                      {getStatusBadge(request.status)}
+                      <Badge variant="outline">{DAY_TYPE_LABELS[request.day_type]}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(request.date), 'EEE, MMM d, yyyy')}
+                    </p>
+                    <p className="text-sm font-medium text-primary">
+                      {formatOvertimeSummary(request)}
+                    </p>
+                  </div>
+
+                  {canReview && (
+                    <div className="space-y-2">
+                      <Textarea
+                        placeholder="Add comments (optional)"
+                        value={adminComments[request.id] || ''}
+                        onChange={(e) => setAdminComments(prev => ({
+                          ...prev,
+                          [request.id]: e.target.value
+                        }))}
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleApproval(request.id, 'approved')}
+                          disabled={processingId === request.id}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Approve
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleApproval(request.id, 'rejected')}
+                          disabled={processingId === request.id}
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Recent Overtime Decisions</span>
+            <span className="text-sm font-normal text-muted-foreground">
+              {totalApprovedHours.toFixed(2)}h approved
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {processedRequests.length === 0 ? (
+              <p className="text-muted-foreground">No processed overtime</p>
+            ) : (
+              processedRequests.slice(0, 10).map(request => (
+                <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{request.employee_name}</h4>
+                      {getStatusBadge(request.status)}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {DAY_TYPE_LABELS[request.day_type]} - {format(parseISO(request.date), 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatOvertimeSummary(request)}
+                    </p>
+                    {request.admin_comments && (
+                      <p className="text-sm mt-1">
+                        <strong>Reviewer notes:</strong> {request.admin_comments}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right text-xs text-muted-foreground">
+                    {request.payroll_record_id && request.amount !== null ? (
+                      <Badge variant="outline">Included in payroll: {Number(request.amount).toFixed(2)}</Badge>
+                    ) : request.status === 'approved' ? (
+                      <span>Awaiting payroll</span>
+                    ) : null}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -4,6 +4,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { generatePayslipPDF } from "@/lib/generatePayslip";
+import { PayrollRunDialog } from "./PayrollRunDialog";
+import { WpsExportDialog } from "./WpsExportDialog";
 import {
   DollarSign,
   Upload,
@@ -12,6 +14,8 @@ import {
   Trash2,
   Eye,
   Plus,
+  Calculator,
+  Landmark,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -60,12 +64,15 @@ interface PayrollRecord {
   payment_date: string;
   fixed_salary: number;
   variable_salary: number;
+  overtime_pay: number;
   allowances: number;
   gross_pay: number;
   deductions_tax: number;
   deductions_insurance: number;
   deductions_pension: number;
   deductions_other: number;
+  deductions_unpaid_leave: number;
+  deductions_attendance: number;
   total_deductions: number;
   net_pay: number;
   status: string;
@@ -106,6 +113,8 @@ export const PayrollAdminManagement = () => {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isRunDialogOpen, setIsRunDialogOpen] = useState(false);
+  const [isWpsDialogOpen, setIsWpsDialogOpen] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<PayrollRecord | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [filterEmployee, setFilterEmployee] = useState<string>("all");
@@ -173,6 +182,36 @@ export const PayrollAdminManagement = () => {
     },
   });
 
+  // Approved overtime not yet paid for the selected period; the database adds it to
+  // variable salary when a draft record is saved
+  const { data: pendingOvertimePay = 0 } = useQuery({
+    queryKey: [
+      "overtime-pay-preview",
+      formData.employee_id,
+      formData.pay_period_start,
+      formData.pay_period_end,
+      formData.fixed_salary,
+      formData.status,
+    ],
+    enabled:
+      isAddDialogOpen &&
+      formData.status === "draft" &&
+      !!formData.employee_id &&
+      !!formData.pay_period_start &&
+      !!formData.pay_period_end,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("calculate_overtime_pay", {
+        p_employee_id: formData.employee_id,
+        p_start_date: formData.pay_period_start,
+        p_end_date: formData.pay_period_end,
+        p_fixed_salary: formData.fixed_salary,
+      });
+
+      if (error) throw error;
+      return Number(data) || 0;
+    },
+  });
+
   // Filter records
   const filteredRecords = payrollRecords.filter((record) => {
     const matchesEmployee =
@@ -237,9 +276,10 @@ export const PayrollAdminManagement = () => {
       const employee = employees.find((e) => e.id === formData.employee_id);
       if (!employee) throw new Error("Employee not found");
 
-      // Calculate totals for PDF
+      // Calculate totals for PDF (approved overtime is added to variable salary on insert)
+      const variableSalaryWithOvertime = formData.variable_salary + pendingOvertimePay;
       const calculatedGrossPay =
-        formData.fixed_salary + formData.variable_salary + formData.allowances;
+        formData.fixed_salary + variableSalaryWithOvertime + formData.allowances;
       const calculatedTotalDeductions =
         formData.deductions_tax +
         formData.deductions_insurance +
@@ -259,7 +299,7 @@ export const PayrollAdminManagement = () => {
           payPeriodEnd: formData.pay_period_end,
           paymentDate: formData.payment_date,
           fixedSalary: formData.fixed_salary,
-          variableSalary: formData.variable_salary,
+          variableSalary: variableSalaryWithOvertime,
           allowances: formData.allowances,
           grossPay: calculatedGrossPay,
           deductionsTax: formData.deductions_tax,
@@ -363,7 +403,9 @@ export const PayrollAdminManagement = () => {
           formData.deductions_tax +
           formData.deductions_insurance +
           formData.deductions_pension +
-          formData.deductions_other;
+          formData.deductions_other +
+          selectedRecord.deductions_unpaid_leave +
+          selectedRecord.deductions_attendance;
         const calculatedNetPay = calculatedGrossPay - calculatedTotalDeductions;
 
         const pdfBlob = generatePayslipPDF({
@@ -375,12 +417,15 @@ export const PayrollAdminManagement = () => {
           paymentDate: formData.payment_date,
           fixedSalary: formData.fixed_salary,
           variableSalary: formData.variable_salary,
+          overtimePay: selectedRecord.overtime_pay,
           allowances: formData.allowances,
           grossPay: calculatedGrossPay,
           deductionsTax: formData.deductions_tax,
           deductionsInsurance: formData.deductions_insurance,
           deductionsPension: formData.deductions_pension,
           deductionsOther: formData.deductions_other,
+          deductionsUnpaidLeave: selectedRecord.deductions_unpaid_leave,
+          deductionsAttendance: selectedRecord.deductions_attendance,
           totalDeductions: calculatedTotalDeductions,
           netPay: calculatedNetPay,
         });
@@ -519,13 +564,20 @@ export const PayrollAdminManagement = () => {
     return <Badge variant={variants[status] || "default"}>{status}</Badge>;
   };
 
+  const overtimeToAdd = isAddDialogOpen ? pendingOvertimePay : 0;
   const grossPay =
-    formData.fixed_salary + formData.variable_salary + formData.allowances;
+    formData.fixed_salary + formData.variable_salary + overtimeToAdd + formData.allowances;
+  // Deductions calculated by a payroll run are not editable in the form but still count
+  const calculatedDeductions =
+    isEditDialogOpen && selectedRecord
+      ? selectedRecord.deductions_unpaid_leave + selectedRecord.deductions_attendance
+      : 0;
   const totalDeductions =
     formData.deductions_tax +
     formData.deductions_insurance +
     formData.deductions_pension +
-    formData.deductions_other;
+    formData.deductions_other +
+    calculatedDeductions;
   const netPay = grossPay - totalDeductions;
 
   const renderFormDialog = (isEdit: boolean) => (
@@ -633,6 +685,16 @@ export const PayrollAdminManagement = () => {
                   })
                 }
               />
+              {!isEdit && pendingOvertimePay > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  + AED {pendingOvertimePay.toFixed(2)} approved overtime will be added
+                </p>
+              )}
+              {isEdit && selectedRecord && selectedRecord.overtime_pay > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Includes AED {selectedRecord.overtime_pay.toFixed(2)} approved overtime
+                </p>
+              )}
             </div>
             <div className="grid gap-2">
               <Label htmlFor="allowances">Allowances</Label>
@@ -733,6 +795,11 @@ export const PayrollAdminManagement = () => {
               <p className="text-lg font-semibold">
                 AED {totalDeductions.toFixed(2)}
               </p>
+              {calculatedDeductions > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Includes AED {calculatedDeductions.toFixed(2)} unpaid leave and attendance
+                </p>
+              )}
             </div>
             <div>
               <Label className="text-muted-foreground">Net Pay</Label>
@@ -841,15 +908,25 @@ export const PayrollAdminManagement = () => {
             <DollarSign className="h-5 w-5" />
             Payroll Management (Admin)
           </CardTitle>
-          <Button
-            onClick={() => {
-              resetForm();
-              setIsAddDialogOpen(true);
-            }}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Record
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsRunDialogOpen(true)}>
+              <Calculator className="h-4 w-4 mr-2" />
+              Run Payroll
+            </Button>
+            <Button variant="outline" onClick={() => setIsWpsDialogOpen(true)}>
+              <Landmark className="h-4 w-4 mr-2" />
+              WPS Export
+            </Button>
+            <Button
+              onClick={() => {
+                resetForm();
+                setIsAddDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Record
+            </Button>
+          </div>
         </div>
       </CardHeader>
 
@@ -995,6 +1072,8 @@ export const PayrollAdminManagement = () => {
       {/* Dialogs */}
       {renderFormDialog(false)}
       {renderFormDialog(true)}
+      <PayrollRunDialog open={isRunDialogOpen} onOpenChange={setIsRunDialogOpen} />
+      <WpsExportDialog open={isWpsDialogOpen} onOpenChange={setIsWpsDialogOpen} />
 
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,506 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { generatePayslipPDF } from "@/lib/generatePayslip";
+import { Calculator, CheckCircle, Lock, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+interface PayrollRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface CalculationDetails {
+  employed_days: number;
+  period_days: number;
+  unpaid_leave_days: number;
+  half_pay_leave_days: number;
+  absent_days: number;
+  short_hours: number;
+  assessed_until: string;
+}
+
+interface RunRecord {
+  id: string;
+  employee_id: string;
+  pay_period_start: string;
+  pay_period_end: string;
+  payment_date: string;
+  fixed_salary: number;
+  variable_salary: number;
+  overtime_pay: number;
+  allowances: number;
+  gross_pay: number;
+  deductions_tax: number;
+  deductions_insurance: number;
+  deductions_pension: number;
+  deductions_other: number;
+  deductions_unpaid_leave: number;
+  deductions_attendance: number;
+  total_deductions: number;
+  net_pay: number;
+  status: string;
+  calculation_details: CalculationDetails | null;
+  full_name: string;
+  emp_number: string;
+  email: string;
+}
+
+interface PreviousRecord {
+  employee_id: string;
+  fixed_salary: number;
+  variable_salary: number;
+  allowances: number;
+  total_deductions: number;
+  net_pay: number;
+}
+
+// Components compared against the employee's previous payslip
+const DIFF_FIELDS: { key: keyof PreviousRecord; label: string }[] = [
+  { key: "fixed_salary", label: "Fixed" },
+  { key: "variable_salary", label: "Variable" },
+  { key: "allowances", label: "Allowances" },
+  { key: "total_deductions", label: "Deductions" },
+];
+
+const formatSigned = (value: number) =>
+  `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+export const PayrollRunDialog = ({ open, onOpenChange }: PayrollRunDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [periodMonth, setPeriodMonth] = useState(
+    format(startOfMonth(new Date()), "yyyy-MM")
+  );
+  const [paymentDate, setPaymentDate] = useState(
+    format(endOfMonth(new Date()), "yyyy-MM-dd")
+  );
+
+  const monthStart = parseISO(`${periodMonth}-01`);
+  const periodStart = format(monthStart, "yyyy-MM-dd");
+  const periodEnd = format(endOfMonth(monthStart), "yyyy-MM-dd");
+
+  const { data: run } = useQuery({
+    queryKey: ["payroll-run", periodStart, periodEnd],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payroll_runs")
+        .select("*")
+        .eq("pay_period_start", periodStart)
+        .eq("pay_period_end", periodEnd)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: records = [], isLoading: recordsLoading } = useQuery({
+    queryKey: ["payroll-run-records", run?.id],
+    enabled: open && !!run,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payroll_records")
+        .select(
+          `
+          *,
+          employees!inner (
+            full_name,
+            employee_id,
+            email
+          )
+        `
+        )
+        .eq("payroll_run_id", run!.id)
+        .neq("status", "cancelled");
+
+      if (error) throw error;
+
+      return data
+        .map((record) => ({
+          ...record,
+          calculation_details: record.calculation_details as unknown as CalculationDetails | null,
+          full_name: record.employees.full_name,
+          emp_number: record.employees.employee_id,
+          email: record.employees.email,
+        }))
+        .sort((a, b) => a.full_name.localeCompare(b.full_name)) as RunRecord[];
+    },
+  });
+
+  // Latest earlier payslip per employee, used for the review diff
+  const { data: previousRecords = new Map<string, PreviousRecord>() } = useQuery({
+    queryKey: ["payroll-run-previous", periodStart, records.map((r) => r.employee_id).join(",")],
+    enabled: open && records.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payroll_records")
+        .select("employee_id, fixed_salary, variable_salary, allowances, total_deductions, net_pay")
+        .in("employee_id", records.map((r) => r.employee_id))
+        .lt("pay_period_end", periodStart)
+        .neq("status", "cancelled")
+        .order("pay_period_end", { ascending: false });
+
+      if (error) throw error;
+
+      const latest = new Map<string, PreviousRecord>();
+      (data || []).forEach((record) => {
+        if (!latest.has(record.employee_id)) latest.set(record.employee_id, record);
+      });
+      return latest;
+    },
+  });
+
+  const isFinalized = run?.status === "finalized";
+
+  const calculateMutation = useMutation({
+    mutationFn: async () => {
+      const { data: userData } = await supabase.auth.getUser();
+      let runId = run?.id;
+
+      if (!runId) {
+        const { data: created, error: createError } = await supabase
+          .from("payroll_runs")
+          .insert({
+            pay_period_start: periodStart,
+            pay_period_end: periodEnd,
+            payment_date: paymentDate,
+            created_by: userData.user?.id,
+          })
+          .select("id")
+          .single();
+
+        if (createError) throw createError;
+        runId = created.id;
+      } else if (run.payment_date !== paymentDate) {
+        const { error: updateError } = await supabase
+          .from("payroll_runs")
+          .update({ payment_date: paymentDate })
+          .eq("id", runId);
+
+        if (updateError) throw updateError;
+      }
+
+      const { data: count, error } = await supabase.rpc("generate_payroll_run", {
+        p_run_id: runId,
+      });
+
+      if (error) throw error;
+      return count;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["payroll-run"] });
+      queryClient.invalidateQueries({ queryKey: ["payroll-run-records"] });
+      queryClient.invalidateQueries({ queryKey: ["payroll-admin-records"] });
+      toast({
+        title: "Payroll Calculated",
+        description: `${count} draft payroll records ready for review`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to run payroll: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Payslips are generated for every draft first; the run is only locked once all uploads succeed
+  const finalizeMutation = useMutation({
+    mutationFn: async () => {
+      if (!run) return 0;
+
+      for (const record of records.filter((r) => r.status === "draft")) {
+        const pdfBlob = generatePayslipPDF({
+          employeeName: record.full_name,
+          employeeId: record.emp_number,
+          email: record.email,
+          payPeriodStart: record.pay_period_start,
+          payPeriodEnd: record.pay_period_end,
+          paymentDate: record.payment_date,
+          fixedSalary: record.fixed_salary,
+          variableSalary: record.variable_salary,
+          overtimePay: record.overtime_pay,
+          allowances: record.allowances,
+          grossPay: record.gross_pay,
+          deductionsTax: record.deductions_tax,
+          deductionsInsurance: record.deductions_insurance,
+          deductionsPension: record.deductions_pension,
+          deductionsOther: record.deductions_other,
+          deductionsUnpaidLeave: record.deductions_unpaid_leave,
+          deductionsAttendance: record.deductions_attendance,
+          totalDeductions: record.total_deductions,
+          netPay: record.net_pay,
+        });
+
+        const month = format(parseISO(record.pay_period_start), "yyyy-MM");
+        const filePath = `payslips/${record.employee_id}/${record.emp_number}_${month}.pdf`;
+
+        const { error: uploadError } = await supabase.storage
+          .from("payslip-documents")
+          .upload(filePath, pdfBlob, { upsert: true });
+
+        if (uploadError) throw uploadError;
+
+        const { error: updateError } = await supabase
+          .from("payroll_records")
+          .update({ payslip_pdf_url: filePath })
+          .eq("id", record.id);
+
+        if (updateError) throw updateError;
+      }
+
+      const { data: count, error } = await supabase.rpc("finalize_payroll_run", {
+        p_run_id: run.id,
+      });
+
+      if (error) throw error;
+      return count;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["payroll-run"] });
+      queryClient.invalidateQueries({ queryKey: ["payroll-run-records"] });
+      queryClient.invalidateQueries({ queryKey: ["payroll-admin-records"] });
+      toast({
+        title: "Payroll Finalized",
+        description: `${count} payslips generated and processed`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to finalize payroll: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const describeCalculation = (details: CalculationDetails | null) => {
+    if (!details) return null;
+    const parts: string[] = [];
+    if (details.employed_days < details.period_days) {
+      parts.push(`${details.employed_days}/${details.period_days} days employed`);
+    }
+    if (details.unpaid_leave_days > 0) parts.push(`${details.unpaid_leave_days}d unpaid leave`);
+    if (details.half_pay_leave_days > 0) parts.push(`${details.half_pay_leave_days}d half-pay leave`);
+    if (details.absent_days > 0) parts.push(`${details.absent_days}d absent`);
+    if (details.short_hours > 0) parts.push(`${details.short_hours}h short`);
+    return parts.join(" · ");
+  };
+
+  const renderDiff = (record: RunRecord) => {
+    const previous = previousRecords.get(record.employee_id);
+    if (!previous) {
+      return <span className="text-xs text-muted-foreground">First payslip</span>;
+    }
+
+    const netChange = record.net_pay - previous.net_pay;
+    const changes = DIFF_FIELDS
+      .map(({ key, label }) => ({ label, delta: Number(record[key]) - Number(previous[key]) }))
+      .filter(({ delta }) => Math.abs(delta) >= 0.01);
+
+    return (
+      <div className="text-right">
+        <div
+          className={`font-medium ${
+            netChange > 0 ? "text-green-600" : netChange < 0 ? "text-red-600" : "text-muted-foreground"
+          }`}
+        >
+          {Math.abs(netChange) < 0.01 ? "No change" : formatSigned(netChange)}
+        </div>
+        {changes.length > 0 && (
+          <div className="text-xs text-muted-foreground">
+            {changes.map(({ label, delta }) => `${label} ${formatSigned(delta)}`).join(" · ")}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const totals = records.reduce(
+    (sum, r) => ({
+      gross: sum.gross + r.gross_pay,
+      deductions: sum.deductions + r.total_deductions,
+      net: sum.net + r.net_pay,
+    }),
+    { gross: 0, deductions: 0, net: 0 }
+  );
+
+  const isBusy = calculateMutation.isPending || finalizeMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Run Payroll
+          </DialogTitle>
+          <DialogDescription>
+            Builds draft payroll records for all active employees from salary, unpaid leave,
+            absences and short hours. Approved overtime is added automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="grid gap-2">
+            <Label htmlFor="run_period">Pay Period</Label>
+            <Input
+              id="run_period"
+              type="month"
+              value={periodMonth}
+              onChange={(e) => e.target.value && setPeriodMonth(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="run_payment_date">Payment Date</Label>
+            <Input
+              id="run_payment_date"
+              type="date"
+              value={paymentDate}
+              onChange={(e) => setPaymentDate(e.target.value)}
+              disabled={isFinalized}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            {run && (
+              <Badge variant={isFinalized ? "default" : "secondary"}>
+                {isFinalized ? "Finalized" : "Draft run"}
+              </Badge>
+            )}
+            <Button
+              onClick={() => calculateMutation.mutate()}
+              disabled={isBusy || isFinalized || !paymentDate}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${calculateMutation.isPending ? "animate-spin" : ""}`} />
+              {run ? "Recalculate" : "Calculate"}
+            </Button>
+          </div>
+        </div>
+
+        {run && (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead className="text-right">Fixed</TableHead>
+                  <TableHead className="text-right">Overtime</TableHead>
+                  <TableHead className="text-right">Unpaid Leave</TableHead>
+                  <TableHead className="text-right">Attendance</TableHead>
+                  <TableHead className="text-right">Net Pay</TableHead>
+                  <TableHead className="text-right">vs Last Payslip</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recordsLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : records.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center">
+                      No payroll records in this run
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  records.map((record) => (
+                    <TableRow key={record.id}>
+                      <TableCell>
+                        <div className="font-medium">{record.full_name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {describeCalculation(record.calculation_details) || record.emp_number}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{record.fixed_salary.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{record.overtime_pay.toFixed(2)}</TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {record.deductions_unpaid_leave > 0 ? `-${record.deductions_unpaid_leave.toFixed(2)}` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {record.deductions_attendance > 0 ? `-${record.deductions_attendance.toFixed(2)}` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold text-primary">
+                        {record.net_pay.toFixed(2)}
+                      </TableCell>
+                      <TableCell>{renderDiff(record)}</TableCell>
+                      <TableCell>
+                        <Badge variant={record.status === "draft" ? "secondary" : "default"}>
+                          {record.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              {records.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={5}>
+                      {records.length} employees · Gross {totals.gross.toFixed(2)} · Deductions {totals.deductions.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{totals.net.toFixed(2)}</TableCell>
+                    <TableCell colSpan={2} />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {run && !isFinalized && (
+            <Button
+              onClick={() => finalizeMutation.mutate()}
+              disabled={isBusy || records.length === 0}
+            >
+              {finalizeMutation.isPending ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Lock className="h-4 w-4 mr-2" />
+              )}
+              Finalize & Generate Payslips
+            </Button>
+          )}
+          {isFinalized && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              Finalized {run.finalized_at ? format(parseISO(run.finalized_at), "MMM dd, yyyy HH:mm") : ""}
+            </span>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
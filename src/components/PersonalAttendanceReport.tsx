@@ -450,6 +450,7 @@ export const PersonalAttendanceReport = () => {
                   attendanceData={processedData}
                   onDayClick={handleDayClick}
                   showWeeklySummary={!isStaff}
+                  minimumDailyHours={employeeData.schedule.minimum_daily_hours}
                 />
               )}
             </TabsContent>
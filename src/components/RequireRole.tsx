@@ -0,0 +1,20 @@
+import { Navigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+
+interface RequireRoleProps {
+  roles: Array<'admin' | 'staff' | 'manager'>;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only for the given roles; everyone else is sent to the dashboard
+ */
+export const RequireRole = ({ roles, children }: RequireRoleProps) => {
+  const { profile } = useAuth();
+
+  if (!profile || !roles.includes(profile.role)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
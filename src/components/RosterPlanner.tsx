@@ -0,0 +1,326 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ShiftAssignment,
+  ShiftTemplate,
+  fetchShiftAssignments,
+  fetchShiftTemplates,
+  formatShiftTime,
+  getAssignmentKey
+} from '@/lib/shifts';
+import { CalendarRange, ChevronLeft, ChevronRight, Copy } from 'lucide-react';
+import { addDays, format, startOfWeek } from 'date-fns';
+
+interface RosterEmployee {
+  id: string;
+  full_name: string;
+  employee_id: string;
+  division: string | null;
+}
+
+interface FixedSchedule {
+  employee_id: string;
+  start_time: string;
+  end_time: string;
+  working_days: string[] | null;
+}
+
+const ALL_DIVISIONS = 'all';
+// Cell values that are not template ids
+const DEFAULT_SHIFT = 'default';
+const DAY_OFF = 'off';
+
+export const RosterPlanner = () => {
+  const [divisions, setDivisions] = useState<string[]>([]);
+  const [division, setDivision] = useState(ALL_DIVISIONS);
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [employees, setEmployees] = useState<RosterEmployee[]>([]);
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [schedules, setSchedules] = useState<Map<string, FixedSchedule>>(new Map());
+  const [assignments, setAssignments] = useState<Map<string, ShiftAssignment>>(new Map());
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [copying, setCopying] = useState(false);
+  const { toast } = useToast();
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const weekStartStr = format(weekStart, 'yyyy-MM-dd');
+  const weekEndStr = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+
+  const fetchSetup = useCallback(async () => {
+    try {
+      const [{ data: divisionData }, { data: employeeData, error: employeeError }, { data: scheduleData }, activeTemplates] =
+        await Promise.all([
+          supabase.from('divisions').select('name').eq('is_active', true).order('name'),
+          supabase
+            .from('employees')
+            .select('id, full_name, employee_id, division')
+            .eq('status', 'active')
+            .order('full_name'),
+          supabase
+            .from('work_schedules')
+            .select('employee_id, start_time, end_time, working_days')
+            .eq('is_active', true),
+          fetchShiftTemplates(true)
+        ]);
+
+      if (employeeError) throw employeeError;
+
+      setDivisions((divisionData || []).map(d => d.name));
+      setEmployees(employeeData || []);
+      setSchedules(new Map((scheduleData || []).map(s => [s.employee_id, s])));
+      setTemplates(activeTemplates);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load roster data",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      setAssignments(await fetchShiftAssignments(weekStartStr, weekEndStr));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch shift assignments",
+        variant: "destructive"
+      });
+    }
+  }, [weekStartStr, weekEndStr, toast]);
+
+  useEffect(() => {
+    fetchSetup();
+  }, [fetchSetup]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  const handleCellChange = async (employeeId: string, date: string, value: string) => {
+    const key = getAssignmentKey(employeeId, date);
+    setSavingKey(key);
+    try {
+      if (value === DEFAULT_SHIFT) {
+        const { error } = await supabase
+          .from('shift_assignments')
+          .delete()
+          .eq('employee_id', employeeId)
+          .eq('shift_date', date);
+
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('shift_assignments')
+          .upsert({
+            employee_id: employeeId,
+            shift_date: date,
+            shift_template_id: value === DAY_OFF ? null : value,
+            created_by: user?.id
+          }, { onConflict: 'employee_id,shift_date' });
+
+        if (error) throw error;
+      }
+
+      await fetchAssignments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update roster",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  // Rotating rosters usually repeat; copy last week's entries for the visible employees
+  const handleCopyPreviousWeek = async () => {
+    if (!confirm('Copy last week\'s roster into this week? Existing entries for the same days will be overwritten.')) {
+      return;
+    }
+
+    setCopying(true);
+    try {
+      const previous = await fetchShiftAssignments(
+        format(addDays(weekStart, -7), 'yyyy-MM-dd'),
+        format(addDays(weekStart, -1), 'yyyy-MM-dd'),
+        visibleEmployees.map(e => e.id)
+      );
+
+      if (previous.size === 0) {
+        toast({
+          title: "Nothing to copy",
+          description: "Last week has no roster entries for these employees"
+        });
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('shift_assignments')
+        .upsert(Array.from(previous.values()).map(assignment => ({
+          employee_id: assignment.employee_id,
+          shift_date: format(addDays(new Date(`${assignment.shift_date}T00:00:00`), 7), 'yyyy-MM-dd'),
+          shift_template_id: assignment.shift_template_id,
+          notes: assignment.notes,
+          created_by: user?.id
+        })), { onConflict: 'employee_id,shift_date' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Copied ${previous.size} roster entries from last week`
+      });
+
+      fetchAssignments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to copy roster",
+        variant: "destructive"
+      });
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  // Label shown when a day has no roster entry and the fixed schedule applies
+  const getDefaultLabel = (employeeId: string, day: Date) => {
+    const schedule = schedules.get(employeeId);
+    if (!schedule) return 'No schedule';
+    if (schedule.working_days && !schedule.working_days.includes(format(day, 'EEEE'))) return 'Off';
+    return `${formatShiftTime(schedule.start_time)}-${formatShiftTime(schedule.end_time)}`;
+  };
+
+  const getCellValue = (assignment: ShiftAssignment | undefined) => {
+    if (!assignment) return DEFAULT_SHIFT;
+    return assignment.shift_template_id ?? DAY_OFF;
+  };
+
+  const visibleEmployees = division === ALL_DIVISIONS
+    ? employees
+    : employees.filter(e => e.division === division);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarRange className="h-5 w-5" />
+              Roster
+            </CardTitle>
+            <CardDescription>
+              Rostered shifts replace the fixed schedule for that day. Overnight shifts are rostered on the day they start.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={division} onValueChange={setDivision}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DIVISIONS}>All divisions</SelectItem>
+                {divisions.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium min-w-40 text-center">
+              {format(weekStart, 'MMM d')} - {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={handleCopyPreviousWeek} disabled={copying || visibleEmployees.length === 0}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Last Week
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visibleEmployees.length === 0 ? (
+          <p className="text-muted-foreground">No active employees in this division</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="p-2 text-left font-medium">Employee</th>
+                  {weekDays.map(day => (
+                    <th key={day.toISOString()} className="p-2 text-left font-medium">
+                      <div>{format(day, 'EEE')}</div>
+                      <div className="text-xs text-muted-foreground">{format(day, 'MMM d')}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEmployees.map(employee => (
+                  <tr key={employee.id} className="border-b">
+                    <td className="p-2">
+                      <div className="font-medium">{employee.full_name}</div>
+                      <div className="text-xs text-muted-foreground">{employee.employee_id}</div>
+                    </td>
+                    {weekDays.map(day => {
+                      const date = format(day, 'yyyy-MM-dd');
+                      const key = getAssignmentKey(employee.id, date);
+                      const assignment = assignments.get(key);
+                      const template = assignment?.shift_templates;
+                      return (
+                        <td key={date} className="p-1 min-w-32">
+                          <Select
+                            value={getCellValue(assignment)}
+                            onValueChange={(value) => handleCellChange(employee.id, date, value)}
+                            disabled={savingKey === key}
+                          >
+                            <SelectTrigger
+                              className="h-9 text-xs"
+                              style={template ? { borderLeft: `4px solid ${template.color}` } : undefined}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={DEFAULT_SHIFT}>
+                                Default ({getDefaultLabel(employee.id, day)})
+                              </SelectItem>
+                              <SelectItem value={DAY_OFF}>Day off</SelectItem>
+                              {templates.map(t => (
+                                <SelectItem key={t.id} value={t.id}>
+                                  {t.code} · {formatShiftTime(t.start_time)}-{formatShiftTime(t.end_time)}
+                                  {t.crosses_midnight ? ' (+1)' : ''}
+                                </SelectItem>
+                              ))}
+                              {/* Keep retired templates selectable where they are already rostered */}
+                              {template && !templates.some(t => t.id === template.id) && (
+                                <SelectItem value={template.id}>
+                                  {template.code} · {formatShiftTime(template.start_time)}-{formatShiftTime(template.end_time)}
+                                </SelectItem>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,3 +1,4 @@
+import { useNavigate, useParams } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { IPManagement } from './IPManagement';
 import { AttendanceNotificationLog } from './AttendanceNotificationLog';
@@ -6,16 +7,25 @@ import { ClockInOutTest } from './ClockInOutTest';
 import { TestEmailManagement } from './TestEmailManagement';
 import { HoursDeductionSettings } from './HoursDeductionSettings';
 import { PayrollAdminManagement } from './PayrollAdminManagement';
-import { Shield, Bell, Users, FlaskConical, Mail, Clock, DollarSign } from 'lucide-react';
+import { HolidayManagement } from './HolidayManagement';
+import { ApprovalChainManagement } from './ApprovalChainManagement';
+import { BiometricAttendanceImport } from './BiometricAttendanceImport';
+import { LifecycleChecklistTemplates } from './LifecycleChecklistTemplates';
+import { Shield, Bell, Users, FlaskConical, Mail, Clock, DollarSign, CalendarDays, GitBranch, Fingerprint, ListChecks } from 'lucide-react';
+import { settingsTabPath } from '@/lib/routes';
 
 interface SettingsManagementProps {
   userRole: 'admin' | 'staff' | 'manager';
 }
 
 export const SettingsManagement = ({ userRole }: SettingsManagementProps) => {
+  // The open tab lives in the URL (/settings/:tab) so it survives a refresh and can be linked to
+  const { tab = 'ip-management' } = useParams<{ tab?: string }>();
+  const navigate = useNavigate();
+
   return (
-    <Tabs defaultValue="ip-management" className="w-full">
-      <TabsList className="grid w-full grid-cols-7">
+    <Tabs value={tab} onValueChange={(value) => navigate(settingsTabPath(value))} className="w-full">
+      <TabsList className="grid w-full grid-cols-11">
         <TabsTrigger value="ip-management">
           <Shield className="h-4 w-4 mr-2" />
           IP Management
@@ -32,6 +42,22 @@ export const SettingsManagement = ({ userRole }: SettingsManagementProps) => {
           <Clock className="h-4 w-4 mr-2" />
           Hours Settings
         </TabsTrigger>
+        <TabsTrigger value="holidays">
+          <CalendarDays className="h-4 w-4 mr-2" />
+          Holidays
+        </TabsTrigger>
+        <TabsTrigger value="approval-chains">
+          <GitBranch className="h-4 w-4 mr-2" />
+          Approvals
+        </TabsTrigger>
+        <TabsTrigger value="attendance-import">
+          <Fingerprint className="h-4 w-4 mr-2" />
+          Attendance Import
+        </TabsTrigger>
+        <TabsTrigger value="checklists">
+          <ListChecks className="h-4 w-4 mr-2" />
+          Checklists
+        </TabsTrigger>
         <TabsTrigger value="clock-test">
           <FlaskConical className="h-4 w-4 mr-2" />
           Clock-In/Out Test
@@ -62,6 +88,22 @@ export const SettingsManagement = ({ userRole }: SettingsManagementProps) => {
         <HoursDeductionSettings />
       </TabsContent>
 
+      <TabsContent value="holidays" className="mt-6">
+        <HolidayManagement />
+      </TabsContent>
+
+      <TabsContent value="approval-chains" className="mt-6">
+        <ApprovalChainManagement />
+      </TabsContent>
+
+      <TabsContent value="attendance-import" className="mt-6">
+        <BiometricAttendanceImport />
+      </TabsContent>
+
+      <TabsContent value="checklists" className="mt-6">
+        <LifecycleChecklistTemplates />
+      </TabsContent>
+
       <TabsContent value="clock-test" className="mt-6">
         <ClockInOutTest />
       </TabsContent>
@@ -0,0 +1,311 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ShiftTemplate, fetchShiftTemplates, formatShiftTime } from '@/lib/shifts';
+import { Layers, Plus, Save, Edit, Moon } from 'lucide-react';
+
+const DEFAULT_COLOR = '#3b82f6';
+
+export const ShiftTemplateManagement = () => {
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('17:00');
+  const [minimumHours, setMinimumHours] = useState(8);
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [description, setDescription] = useState('');
+  const [editingTemplate, setEditingTemplate] = useState<ShiftTemplate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setTemplates(await fetchShiftTemplates());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch shift templates",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const resetForm = () => {
+    setName('');
+    setCode('');
+    setStartTime('09:00');
+    setEndTime('17:00');
+    setMinimumHours(8);
+    setColor(DEFAULT_COLOR);
+    setDescription('');
+    setEditingTemplate(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !code.trim()) return;
+
+    if (startTime === endTime) {
+      toast({
+        title: "Invalid Times",
+        description: "Start and end time cannot be the same",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const templateData = {
+        name: name.trim(),
+        code: code.trim().toUpperCase(),
+        start_time: startTime,
+        end_time: endTime,
+        minimum_hours: minimumHours,
+        color,
+        description: description.trim() || null
+      };
+
+      if (editingTemplate) {
+        const { error } = await supabase
+          .from('shift_templates')
+          .update(templateData)
+          .eq('id', editingTemplate.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('shift_templates')
+          .insert(templateData);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Shift template ${editingTemplate ? 'updated' : 'created'} successfully`
+      });
+
+      resetForm();
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save shift template",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (template: ShiftTemplate) => {
+    setEditingTemplate(template);
+    setName(template.name);
+    setCode(template.code);
+    setStartTime(formatShiftTime(template.start_time));
+    setEndTime(formatShiftTime(template.end_time));
+    setMinimumHours(template.minimum_hours);
+    setColor(template.color);
+    setDescription(template.description || '');
+  };
+
+  // Templates are retired rather than deleted so past rosters keep their shifts
+  const handleToggleStatus = async (template: ShiftTemplate) => {
+    try {
+      const { error } = await supabase
+        .from('shift_templates')
+        .update({ is_active: !template.is_active })
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Shift template ${!template.is_active ? 'activated' : 'deactivated'} successfully`
+      });
+
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update shift template status",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const crossesMidnight = endTime <= startTime;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            {editingTemplate ? 'Edit Shift Template' : 'Create Shift Template'}
+          </CardTitle>
+          <CardDescription>
+            Shifts ending at or before their start time finish on the next day and are recorded against the day they start
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="shiftName">Name</Label>
+                <Input
+                  id="shiftName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Night"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="shiftCode">Code</Label>
+                <Input
+                  id="shiftCode"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="N"
+                  maxLength={4}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="shiftColor">Color</Label>
+                <Input
+                  id="shiftColor"
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="shiftStart">Start Time</Label>
+                <Input
+                  id="shiftStart"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="shiftEnd">End Time{crossesMidnight ? ' (next day)' : ''}</Label>
+                <Input
+                  id="shiftEnd"
+                  type="time"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="shiftMinimumHours">Minimum Hours</Label>
+                <Input
+                  id="shiftMinimumHours"
+                  type="number"
+                  step="0.5"
+                  min="1"
+                  max="24"
+                  value={minimumHours}
+                  onChange={(e) => setMinimumHours(parseFloat(e.target.value))}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="shiftDescription">Description</Label>
+              <Input
+                id="shiftDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading || !name.trim() || !code.trim()}>
+                {editingTemplate ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                {editingTemplate ? 'Update Template' : 'Create Template'}
+              </Button>
+              {editingTemplate && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shift Templates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {templates.length === 0 ? (
+              <p className="text-muted-foreground">No shift templates configured</p>
+            ) : (
+              templates.map(template => (
+                <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <span
+                      className="flex h-8 w-8 items-center justify-center rounded text-xs font-semibold text-white"
+                      style={{ backgroundColor: template.color }}
+                    >
+                      {template.code}
+                    </span>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium">{template.name}</h4>
+                        <Badge variant={template.is_active ? "default" : "secondary"}>
+                          {template.is_active ? "Active" : "Inactive"}
+                        </Badge>
+                        {template.crosses_midnight && (
+                          <Badge variant="outline" className="gap-1">
+                            <Moon className="h-3 w-3" />
+                            Overnight
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {formatShiftTime(template.start_time)} - {formatShiftTime(template.end_time)}
+                        {template.crosses_midnight ? ' (+1 day)' : ''} | Minimum: {template.minimum_hours}h
+                      </p>
+                      {template.description && (
+                        <p className="text-xs text-muted-foreground">{template.description}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(template)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleToggleStatus(template)}>
+                      {template.is_active ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -8,6 +8,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { ExceptionRequestForm } from './ExceptionRequestForm';
 import { Clock, CheckCircle, XCircle, Calendar, FileText, AlertCircle } from 'lucide-react';
 import { format } from 'date-fns';
+import { fetchApprovalSteps, RequestApprovalStep } from '@/lib/approvals';
+import { ApprovalProgress } from './ApprovalProgress';
 
 interface AttendanceException {
   id: string;
@@ -31,6 +33,7 @@ export const StaffAttendanceExceptions = () => {
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [approvalSteps, setApprovalSteps] = useState<Map<string, RequestApprovalStep[]>>(new Map());
 
   useEffect(() => {
     fetchEmployeeId();
@@ -72,6 +75,7 @@ export const StaffAttendanceExceptions = () => {
 
       if (error) throw error;
       setExceptions(data || []);
+      setApprovalSteps(await fetchApprovalSteps('exception', (data || []).map(ex => ex.id)));
     } catch (error) {
       console.error('Error fetching exceptions:', error);
       toast({
@@ -263,6 +267,13 @@ export const StaffAttendanceExceptions = () => {
                   </div>
                 )}
 
+                {approvalSteps.has(exception.id) && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Approval Progress:</p>
+                    <ApprovalProgress steps={approvalSteps.get(exception.id)} />
+                  </div>
+                )}
+
                 {exception.admin_comments && (
                   <div className="border-t pt-3 mt-3">
                     <p className="text-sm font-medium mb-1">Admin Response:</p>
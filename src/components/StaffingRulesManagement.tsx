@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Plus, ShieldAlert, Trash2 } from 'lucide-react';
+
+interface StaffingRule {
+  id: string;
+  department: string;
+  division: string | null;
+  minimum_present: number;
+  block_submission: boolean;
+  is_active: boolean;
+}
+
+const ALL_DIVISIONS = 'all';
+
+export const StaffingRulesManagement = () => {
+  const [rules, setRules] = useState<StaffingRule[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [divisions, setDivisions] = useState<string[]>([]);
+  const [department, setDepartment] = useState('');
+  const [division, setDivision] = useState(ALL_DIVISIONS);
+  const [minimumPresent, setMinimumPresent] = useState(1);
+  const [blockSubmission, setBlockSubmission] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const [rulesResult, employeesResult, divisionsResult] = await Promise.all([
+        supabase.from('staffing_rules').select('*').order('department'),
+        supabase.from('employees').select('department').eq('status', 'active'),
+        supabase.from('divisions').select('name').eq('is_active', true).order('name'),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+
+      setRules(rulesResult.data || []);
+      setDepartments(Array.from(
+        new Set((employeesResult.data || []).map(e => e.department).filter((d): d is string => !!d))
+      ).sort());
+      setDivisions((divisionsResult.data || []).map(d => d.name));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch staffing rules",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleAdd = async () => {
+    if (!department) return;
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('staffing_rules')
+        .insert({
+          department,
+          division: division === ALL_DIVISIONS ? null : division,
+          minimum_present: minimumPresent,
+          block_submission: blockSubmission,
+          created_by: user?.id,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Staffing rule added"
+      });
+
+      setDepartment('');
+      setDivision(ALL_DIVISIONS);
+      setMinimumPresent(1);
+      setBlockSubmission(false);
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add staffing rule",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async (id: string, changes: Partial<StaffingRule>) => {
+    try {
+      const { error } = await supabase
+        .from('staffing_rules')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+      setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update staffing rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this staffing rule?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('staffing_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete staffing rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Minimum Staffing
+        </CardTitle>
+        <CardDescription>
+          How many people in a department must stay available on a working day. Approvers are warned
+          about requests that would go below it; blocking rules stop those requests being submitted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Division</Label>
+            <Select value={division} onValueChange={setDivision}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DIVISIONS}>All divisions</SelectItem>
+                {divisions.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="minimum-present">Minimum Available</Label>
+            <Input
+              id="minimum-present"
+              type="number"
+              min="0"
+              value={minimumPresent}
+              onChange={(e) => setMinimumPresent(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="block-submission" checked={blockSubmission} onCheckedChange={setBlockSubmission} />
+            <Label htmlFor="block-submission">Block submission</Label>
+          </div>
+          <Button onClick={handleAdd} disabled={loading || !department}>
+            <Plus className="h-4 w-4 mr-2" />
+            {loading ? 'Saving...' : 'Add Rule'}
+          </Button>
+        </div>
+
+        {rules.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">No staffing rules yet</div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex flex-wrap items-center justify-between gap-4 border rounded-lg p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 font-medium">
+                    {rule.department}
+                    <Badge variant="outline">{rule.division || 'All divisions'}</Badge>
+                    {!rule.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    At least {rule.minimum_present} available · {rule.block_submission ? 'Blocks submission' : 'Warns approver'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`block-${rule.id}`}
+                      checked={rule.block_submission}
+                      onCheckedChange={(checked) => handleUpdate(rule.id, { block_submission: checked })}
+                    />
+                    <Label htmlFor={`block-${rule.id}`} className="text-sm">Block</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`active-${rule.id}`}
+                      checked={rule.is_active}
+                      onCheckedChange={(checked) => handleUpdate(rule.id, { is_active: checked })}
+                    />
+                    <Label htmlFor={`active-${rule.id}`} className="text-sm">Active</Label>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -11,11 +11,23 @@ import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Download, Calendar, CalendarDays, Search, X, Users, LayoutGrid } from 'lucide-react';
-import { format, parse, isWeekend, addDays, startOfMonth, endOfMonth, startOfWeek, endOfWeek, subDays, subMonths } from 'date-fns';
+import { format, addDays, startOfMonth, endOfMonth, startOfWeek, endOfWeek, subDays, subMonths } from 'date-fns';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { AttendanceCalendar } from './AttendanceCalendar';
 import { useSystemSettings } from '@/hooks/useSystemSettings';
+import { fetchHolidayMapsByDivision } from '@/lib/holidays';
+import { fetchShiftAssignments, getAssignmentKey } from '@/lib/shifts';
+import {
+  AttendanceDayClassification,
+  AttendanceDayKind,
+  classifyAttendanceDays,
+  fetchAttendanceRules,
+  findViolation,
+  isCountedViolation,
+  listDates,
+  startOfMonthDate
+} from '@/lib/attendanceRules';
 
 interface AttendanceRecord {
   employee_id: string;
@@ -28,6 +40,8 @@ interface AttendanceRecord {
   actual_punch_out: string | null;
   work_hours: string;
   late_in: string;
+  // Lateness tier of a counted late arrival
+  late_tier: string | null;
   early_out: string;
   flex_time: string;
   comments: string;
@@ -37,6 +51,21 @@ interface AttendanceRecord {
   expected_end: string | null;
 }
 
+// Report status of days without a clock-in that are not absences
+const DAY_KIND_STATUSES: Record<AttendanceDayKind, string> = {
+  working: 'present',
+  non_working: 'weekend',
+  holiday: 'holiday',
+  leave: 'leave',
+};
+
+// e.g. "1 Hrs 5 Mins" or "20 Mins"
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours} Hrs ${mins} Mins` : `${mins} Mins`;
+};
+
 export const TeamAttendanceReport = () => {
   const { getDeductionInHours } = useSystemSettings();
 
@@ -143,18 +172,21 @@ export const TeamAttendanceReport = () => {
       // Fetch all active employees
       const { data: employees, error: empError } = await supabase
         .from('employees')
-        .select('id, full_name, employee_id, department')
+        .select('id, full_name, employee_id, department, division')
         .eq('status', 'active')
         .is('deleted_at', null)
         .order('employee_id');
 
       if (empError) throw empError;
 
+      // Late arrivals earlier in the first month use up its allowance, so days are classified from the month start
+      const classificationStart = startOfMonthDate(startDate);
+
       // Fetch attendance records for date range
       const { data: attendance, error: attError } = await supabase
         .from('attendance')
         .select('*')
-        .gte('date', startDate)
+        .gte('date', classificationStart)
         .lte('date', endDate)
         .order('date', { ascending: true });
 
@@ -163,18 +195,25 @@ export const TeamAttendanceReport = () => {
       // Fetch work schedules
       const { data: schedules, error: schedError } = await supabase
         .from('work_schedules')
-        .select('employee_id, start_time, end_time, working_days')
+        .select('employee_id, start_time, end_time, minimum_daily_hours, working_days')
         .eq('is_active', true);
 
       if (schedError) throw schedError;
 
+      // Rostered shifts override the fixed schedule; public holidays depend on the division
+      const [shiftAssignments, holidaysByDivision, rules] = await Promise.all([
+        fetchShiftAssignments(classificationStart, endDate),
+        fetchHolidayMapsByDivision(classificationStart, endDate, (employees || []).map(emp => emp.division)),
+        fetchAttendanceRules(),
+      ]);
+
       // Fetch approved leaves for the date range
       const { data: leaves, error: leaveError } = await supabase
         .from('leave_requests')
-        .select('employee_id, start_date, end_date, leave_type_id')
+        .select('employee_id, start_date, end_date, leave_type_id, duration_type, duration_hours')
         .eq('status', 'approved')
         .lte('start_date', endDate)
-        .gte('end_date', startDate);
+        .gte('end_date', classificationStart);
 
       if (leaveError) throw leaveError;
 
@@ -188,6 +227,31 @@ export const TeamAttendanceReport = () => {
       const leaveTypeMap = new Map(leaveTypes?.map(lt => [lt.id, lt.name]) || []);
       const scheduleMap = new Map(schedules?.map(s => [s.employee_id, s]) || []);
       const attendanceMap = new Map(attendance?.map(a => [`${a.employee_id}_${a.date}`, a]) || []);
+      const findLeave = (employeeId: string, dateStr: string) => leaves?.find(l =>
+        l.employee_id === employeeId &&
+        l.start_date <= dateStr &&
+        l.end_date >= dateStr
+      );
+
+      // Classify each employee's days with the shared attendance rules
+      const classifications = new Map<string, AttendanceDayClassification>();
+      employees?.forEach(emp => {
+        const holidays = holidaysByDivision.get(emp.division ?? null);
+        classifyAttendanceDays(
+          listDates(classificationStart, endDate).map(dateStr => {
+            const assignment = shiftAssignments.get(getAssignmentKey(emp.id, dateStr));
+            return {
+              date: dateStr,
+              schedule: scheduleMap.get(emp.id) ?? null,
+              shift: assignment ? assignment.shift_templates : undefined,
+              isHoliday: holidays?.has(dateStr),
+              leave: findLeave(emp.id, dateStr),
+              attendance: attendanceMap.get(`${emp.id}_${dateStr}`) ?? null,
+            };
+          }),
+          rules
+        ).forEach(day => classifications.set(`${emp.id}_${day.date}`, day));
+      });
 
       // Build records for each employee and date
       const allRecords: AttendanceRecord[] = [];
@@ -202,18 +266,17 @@ export const TeamAttendanceReport = () => {
         employees?.forEach(emp => {
           const schedule = scheduleMap.get(emp.id);
           const attRecord = attendanceMap.get(`${emp.id}_${dateStr}`);
-          const dayLeave = leaves?.find(l => 
-            l.employee_id === emp.id && 
-            l.start_date <= dateStr && 
-            l.end_date >= dateStr
-          );
-
-          const isWorkingDay = schedule?.working_days?.includes(format(currentDate, 'EEEE')) || false;
-          const isWeekendDay = isWeekend(currentDate);
+          const dayLeave = findLeave(emp.id, dateStr);
+          const shift = shiftAssignments.get(getAssignmentKey(emp.id, dateStr))?.shift_templates;
+          const holidayName = holidaysByDivision.get(emp.division ?? null)?.get(dateStr);
+          const day = classifications.get(`${emp.id}_${dateStr}`)!;
+          const isWeekendDay = day.kind === 'non_working';
+          // Late arrivals forgiven by the monthly allowance are not reported as late
+          const late = findViolation(day, 'late');
+          const countedLate = late && isCountedViolation(late) ? late : undefined;
+          const early = findViolation(day, 'early');
 
           let workHours = '0 Hrs 0 Mins';
-          let lateIn = '-';
-          let earlyOut = '-';
 
           if (attRecord?.total_hours) {
             const hours = Math.floor(attRecord.total_hours);
@@ -221,34 +284,6 @@ export const TeamAttendanceReport = () => {
             workHours = hours > 0 ? `${hours} Hrs ${mins} Mins` : `${mins} Mins`;
           }
 
-          // Calculate late in
-          if (attRecord?.clock_in_time && schedule?.start_time && isWorkingDay) {
-            const clockIn = parse(attRecord.clock_in_time, 'HH:mm:ss', new Date());
-            const expectedIn = parse(schedule.start_time, 'HH:mm:ss', new Date());
-            const diffMs = clockIn.getTime() - expectedIn.getTime();
-            const diffMins = Math.floor(diffMs / 60000);
-            
-            if (diffMins > 0) {
-              const lateHours = Math.floor(diffMins / 60);
-              const lateMins = diffMins % 60;
-              lateIn = lateHours > 0 ? `${lateHours} Hrs ${lateMins} Mins` : `${lateMins} Mins`;
-            }
-          }
-
-          // Calculate early out
-          if (attRecord?.clock_out_time && schedule?.end_time && isWorkingDay) {
-            const clockOut = parse(attRecord.clock_out_time, 'HH:mm:ss', new Date());
-            const expectedOut = parse(schedule.end_time, 'HH:mm:ss', new Date());
-            const diffMs = expectedOut.getTime() - clockOut.getTime();
-            const diffMins = Math.floor(diffMs / 60000);
-            
-            if (diffMins > 0) {
-              const earlyHours = Math.floor(diffMins / 60);
-              const earlyMins = diffMins % 60;
-              earlyOut = earlyHours > 0 ? `${earlyHours} Hrs ${earlyMins} Mins` : `${earlyMins} Mins`;
-            }
-          }
-
           const record: AttendanceRecord = {
             employee_id: emp.employee_id,
             employee_name: emp.full_name,
@@ -259,14 +294,15 @@ export const TeamAttendanceReport = () => {
             actual_punch_in: attRecord?.clock_in_time || null,
             actual_punch_out: attRecord?.clock_out_time || null,
             work_hours: workHours,
-            late_in: lateIn,
-            early_out: earlyOut,
+            late_in: countedLate ? formatMinutes(countedLate.minutes) : '-',
+            late_tier: countedLate?.tier?.name ?? null,
+            early_out: early ? formatMinutes(early.minutes) : '-',
             flex_time: '-',
-            comments: isWeekendDay ? 'WEEKEND' : (dayLeave ? leaveTypeMap.get(dayLeave.leave_type_id) || 'ON LEAVE' : (attRecord?.notes || '-')),
+            comments: isWeekendDay ? 'WEEKEND' : (dayLeave ? leaveTypeMap.get(dayLeave.leave_type_id) || 'ON LEAVE' : (holidayName || attRecord?.notes || '-')),
             leave_type: dayLeave ? leaveTypeMap.get(dayLeave.leave_type_id) || null : null,
-            status: attRecord?.status || (isWeekendDay ? 'weekend' : 'absent'),
-            expected_start: schedule?.start_time || null,
-            expected_end: schedule?.end_time || null,
+            status: findViolation(day, 'absent') ? 'absent' : attRecord?.status || DAY_KIND_STATUSES[day.kind],
+            expected_start: (shift ?? schedule)?.start_time || null,
+            expected_end: (shift ?? schedule)?.end_time || null,
           };
 
           allRecords.push(record);
@@ -298,6 +334,7 @@ export const TeamAttendanceReport = () => {
         'Expected Out',
         'Work Hours',
         'Late In',
+        'Late Tier',
         'Early Out',
         'Flex Time',
         'Comments',
@@ -318,6 +355,7 @@ export const TeamAttendanceReport = () => {
           r.expected_end || '-',
           r.work_hours,
           r.late_in,
+          r.late_tier || '-',
           r.early_out,
           r.flex_time,
           `"${r.comments}"`,
@@ -821,6 +859,9 @@ export const TeamAttendanceReport = () => {
                           <TableCell className="font-medium">{record.work_hours}</TableCell>
                           <TableCell className={record.late_in !== '-' ? 'text-yellow-600 dark:text-yellow-400 font-medium' : ''}>
                             {record.late_in}
+                            {record.late_tier && (
+                              <Badge variant="outline" className="ml-2 text-xs">{record.late_tier}</Badge>
+                            )}
                           </TableCell>
                           <TableCell className={record.early_out !== '-' ? 'text-orange-600 dark:text-orange-400 font-medium' : ''}>
                             {record.early_out}
@@ -0,0 +1,396 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchHolidayMap } from '@/lib/holidays';
+import { fetchTeamLeaveCalendar, TeamCalendarEntry } from '@/lib/teamLeave';
+import { isPartialLeave } from '@/lib/leaveDuration';
+import { cn } from '@/lib/utils';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+
+interface TeamLeaveCalendarProps {
+  userRole: 'admin' | 'staff' | 'manager';
+}
+
+interface TeamMember {
+  id: string;
+  full_name: string;
+  department: string | null;
+  division: string | null;
+}
+
+interface StaffingRule {
+  department: string;
+  division: string | null;
+  minimum_present: number;
+}
+
+const ALL = 'all';
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getEntryClass = (entry: TeamCalendarEntry) => {
+  if (entry.entry_type === 'wfh') {
+    return 'bg-sky-100 text-sky-800 dark:bg-sky-950/40 dark:text-sky-200';
+  }
+  return entry.status === 'approved'
+    ? 'bg-blue-600 text-white'
+    : 'bg-yellow-100 text-yellow-800 border border-dashed border-yellow-400 dark:bg-yellow-950/40 dark:text-yellow-200';
+};
+
+const getEntryLabel = (entry: TeamCalendarEntry) => {
+  if (entry.entry_type === 'wfh') return 'WFH';
+  const type = entry.leave_type || 'Leave';
+  return isPartialLeave(entry.duration_type) ? `${type} (part day)` : type;
+};
+
+export const TeamLeaveCalendar = ({ userRole }: TeamLeaveCalendarProps) => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [view, setView] = useState<'month' | 'timeline'>('month');
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [divisions, setDivisions] = useState<string[]>([]);
+  const [rules, setRules] = useState<StaffingRule[]>([]);
+  const [department, setDepartment] = useState(ALL);
+  const [division, setDivision] = useState(ALL);
+  const [entries, setEntries] = useState<TeamCalendarEntry[]>([]);
+  const [holidays, setHolidays] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Staff only see their own department
+  const canChooseDepartment = userRole !== 'staff';
+
+  const monthStartStr = format(startOfMonth(month), 'yyyy-MM-dd');
+  const monthEndStr = format(endOfMonth(month), 'yyyy-MM-dd');
+
+  const fetchSetup = useCallback(async () => {
+    try {
+      const [meResult, membersResult, divisionsResult, rulesResult] = await Promise.all([
+        supabase.from('employees').select('department').eq('user_id', user!.id).maybeSingle(),
+        supabase.from('employees').select('id, full_name, department, division').eq('status', 'active').order('full_name'),
+        supabase.from('divisions').select('name').eq('is_active', true).order('name'),
+        supabase.from('staffing_rules').select('department, division, minimum_present').eq('is_active', true),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+
+      setMembers(membersResult.data || []);
+      setDivisions((divisionsResult.data || []).map(d => d.name));
+      setRules(rulesResult.data || []);
+      if (meResult.data?.department) {
+        setDepartment(meResult.data.department);
+      } else if (!canChooseDepartment) {
+        // Staff outside any department have no team to show
+        setLoading(false);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load team calendar",
+        variant: "destructive"
+      });
+    }
+  }, [user, canChooseDepartment, toast]);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [calendar, holidayMap] = await Promise.all([
+        fetchTeamLeaveCalendar(
+          monthStartStr,
+          monthEndStr,
+          department === ALL ? null : department,
+          division === ALL ? null : division
+        ),
+        fetchHolidayMap(monthStartStr, monthEndStr, division === ALL ? null : division),
+      ]);
+      setEntries(calendar);
+      setHolidays(holidayMap);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch team leave",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [monthStartStr, monthEndStr, department, division, toast]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchSetup();
+    }
+  }, [user?.id, fetchSetup]);
+
+  useEffect(() => {
+    if (user?.id && (canChooseDepartment || department !== ALL)) {
+      fetchEntries();
+    }
+  }, [user?.id, canChooseDepartment, department, fetchEntries]);
+
+  const departments = Array.from(
+    new Set(members.map(m => m.department).filter((d): d is string => !!d))
+  ).sort();
+
+  const visibleMembers = members.filter(m =>
+    (department === ALL || m.department === department) &&
+    (division === ALL || m.division === division)
+  );
+
+  // A division rule takes precedence over a department-wide one
+  const rule = department === ALL
+    ? undefined
+    : rules.find(r => r.department === department && division !== ALL && r.division === division) ||
+      rules.find(r => r.department === department && r.division === null);
+
+  const getEntriesOn = (date: string) =>
+    entries.filter(entry => date >= entry.start_date && date <= entry.end_date);
+
+  // Colleagues on full-day leave (approved or pending) count against coverage
+  const getAvailableOn = (date: string) => {
+    const away = new Set(
+      getEntriesOn(date)
+        .filter(entry => entry.entry_type === 'leave' && !isPartialLeave(entry.duration_type))
+        .map(entry => entry.employee_id)
+    );
+    return visibleMembers.filter(m => !away.has(m.id)).length;
+  };
+
+  const isBelowMinimum = (day: Date) => {
+    if (!rule || !isSameMonth(day, month)) return false;
+    const date = format(day, 'yyyy-MM-dd');
+    if (holidays.has(date)) return false;
+    return getAvailableOn(date) < rule.minimum_present;
+  };
+
+  const calendarDays = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month))
+  });
+  const monthDays = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Team Calendar
+            </CardTitle>
+            <CardDescription>
+              Approved and pending leave, WFH days and public holidays.
+              {rule && ` At least ${rule.minimum_present} of ${visibleMembers.length} must be available on a working day.`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {canChooseDepartment && (
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All departments</SelectItem>
+                  {departments.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={division} onValueChange={setDivision}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All divisions</SelectItem>
+                {divisions.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex rounded-md border">
+              <Button
+                variant={view === 'month' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setView('month')}
+              >
+                Month
+              </Button>
+              <Button
+                variant={view === 'timeline' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setView('timeline')}
+              >
+                Timeline
+              </Button>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium min-w-28 text-center">{format(month, 'MMMM yyyy')}</span>
+            <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : view === 'month' ? (
+          <div className="grid grid-cols-7 gap-1">
+            {DAYS.map(day => (
+              <div key={day} className="text-center py-2 text-sm font-medium text-muted-foreground">
+                {day}
+              </div>
+            ))}
+            {calendarDays.map(day => {
+              const date = format(day, 'yyyy-MM-dd');
+              const inMonth = isSameMonth(day, month);
+              const holidayName = holidays.get(date);
+              const dayEntries = inMonth ? getEntriesOn(date) : [];
+              return (
+                <div
+                  key={date}
+                  className={cn(
+                    "min-h-[100px] rounded-md border p-1.5 space-y-1",
+                    !inMonth && "opacity-40",
+                    holidayName && "bg-purple-50 dark:bg-purple-950/30",
+                    isBelowMinimum(day) && "border-red-400 ring-1 ring-red-300"
+                  )}
+                >
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-medium">{format(day, 'd')}</span>
+                    {rule && inMonth && !holidayName && (
+                      <span className={cn("text-muted-foreground", isBelowMinimum(day) && "text-red-600 font-medium")}>
+                        {getAvailableOn(date)}/{visibleMembers.length}
+                      </span>
+                    )}
+                  </div>
+                  {holidayName && inMonth && (
+                    <div className="text-[10px] text-purple-700 dark:text-purple-300 truncate">{holidayName}</div>
+                  )}
+                  {dayEntries.map(entry => (
+                    <div
+                      key={`${entry.entry_type}-${entry.employee_id}-${entry.start_date}`}
+                      className={cn("text-[10px] px-1 rounded truncate", getEntryClass(entry))}
+                      title={`${entry.full_name} · ${getEntryLabel(entry)} (${entry.status})`}
+                    >
+                      {entry.full_name}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ) : visibleMembers.length === 0 ? (
+          <p className="text-muted-foreground">No active employees in this team</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr className="border-b">
+                  <th className="p-1 text-left font-medium sticky left-0 bg-background min-w-40">Employee</th>
+                  {monthDays.map(day => {
+                    const date = format(day, 'yyyy-MM-dd');
+                    return (
+                      <th
+                        key={date}
+                        className={cn("p-1 font-medium w-7 text-center", holidays.has(date) && "bg-purple-50 dark:bg-purple-950/30")}
+                        title={holidays.get(date)}
+                      >
+                        <div>{format(day, 'EEEEE')}</div>
+                        <div className="text-muted-foreground">{format(day, 'd')}</div>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleMembers.map(member => (
+                  <tr key={member.id} className="border-b">
+                    <td className="p-1 sticky left-0 bg-background font-medium truncate max-w-40">{member.full_name}</td>
+                    {monthDays.map(day => {
+                      const date = format(day, 'yyyy-MM-dd');
+                      const entry = getEntriesOn(date).find(e => e.employee_id === member.id);
+                      return (
+                        <td key={date} className={cn("p-0.5", holidays.has(date) && "bg-purple-50 dark:bg-purple-950/30")}>
+                          {entry && (
+                            <div
+                              className={cn("h-5 rounded-sm text-center leading-5", getEntryClass(entry))}
+                              title={`${getEntryLabel(entry)} (${entry.status})`}
+                            >
+                              {entry.entry_type === 'wfh' ? 'W' : isPartialLeave(entry.duration_type) ? '½' : ''}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                {rule && (
+                  <tr>
+                    <td className="p-1 sticky left-0 bg-background font-medium">
+                      Available (min {rule.minimum_present})
+                    </td>
+                    {monthDays.map(day => {
+                      const date = format(day, 'yyyy-MM-dd');
+                      return (
+                        <td
+                          key={date}
+                          className={cn("p-1 text-center", isBelowMinimum(day) && "text-red-600 font-semibold")}
+                        >
+                          {holidays.has(date) ? '' : getAvailableOn(date)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-4 justify-center text-sm text-muted-foreground">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 rounded bg-blue-600" />
+            Approved leave
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 rounded bg-yellow-100 border border-dashed border-yellow-400" />
+            Pending leave
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 rounded bg-sky-100" />
+            WFH
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 rounded bg-purple-50 border" />
+            Public holiday
+          </div>
+          {rule && (
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded border border-red-400" />
+              Below minimum staffing
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -10,11 +10,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { UserPlus, Users, KeyRound, Loader2, Pencil, MoreVertical, UserX, UserCheck, Trash2, RotateCcw, Eye, EyeOff } from 'lucide-react';
+import { UserPlus, Users, KeyRound, Loader2, Pencil, MoreVertical, UserX, UserCheck, Trash2, RotateCcw, Eye, EyeOff, FileUp } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { todayInGST, nowInGSTISO } from '@/lib/timezone';
+import { createFinalSettlement } from '@/lib/gratuity';
+import { EmployeeImportDialog } from '@/components/EmployeeImportDialog';
+import { isValidLabourCardNumber, isValidRoutingCode, isValidUaeIban, normalizeIban } from '@/lib/wps';
 
 interface Employee {
   id: string;
@@ -33,6 +36,9 @@ interface Employee {
   manager_name?: string;
   deleted_at?: string;
   deleted_by?: string;
+  labour_card_number?: string | null;
+  iban?: string | null;
+  bank_routing_code?: string | null;
 }
 
 export const UserManagement = () => {
@@ -40,6 +46,7 @@ export const UserManagement = () => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
   const [inviting, setInviting] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [resettingPassword, setResettingPassword] = useState<string | null>(null);
   const { toast } = useToast();
   const [divisions, setDivisions] = useState<string[]>([]);
@@ -137,7 +144,7 @@ export const UserManagement = () => {
         // Fetch employees first
         let query = supabase
           .from('employees')
-          .select('*');
+          .select('*, employee_bank_details(labour_card_number, iban, bank_routing_code)');
         
         // Filter deleted users unless showDeletedUsers is true
         if (!showDeletedUsers) {
@@ -169,9 +176,10 @@ export const UserManagement = () => {
             managersMap = new Map(managers?.map(m => [m.id, m.full_name]));
           }
 
-          // Map manager names to employees
-          data = employeesData?.map(emp => ({
+          // Map manager names and WPS bank details onto employees
+          data = employeesData?.map(({ employee_bank_details, ...emp }) => ({
             ...emp,
+            ...employee_bank_details,
             manager_name: emp.manager_id ? managersMap.get(emp.manager_id) || null : null
           }));
           error = null;
@@ -383,6 +391,23 @@ export const UserManagement = () => {
       return;
     }
 
+    // Validate WPS payroll fields (optional, but must be well-formed when set)
+    const labourCardNumber = editingEmployee.labour_card_number?.trim() || '';
+    const iban = normalizeIban(editingEmployee.iban || '');
+    const routingCode = editingEmployee.bank_routing_code?.trim() || '';
+    const wpsError =
+      (labourCardNumber && !isValidLabourCardNumber(labourCardNumber) && 'Labour card / personal number must be 14 digits') ||
+      (iban && !isValidUaeIban(iban) && 'IBAN is not a valid UAE IBAN') ||
+      (routingCode && !isValidRoutingCode(routingCode) && 'Bank routing code must be 9 digits');
+    if (wpsError) {
+      toast({
+        title: 'Error',
+        description: wpsError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setUpdating(true);
 
     try {
@@ -398,7 +423,10 @@ export const UserManagement = () => {
           position: editingEmployee.position,
           status: editingEmployee.status,
           hire_date: editingEmployee.hire_date,
-          manager_id: editingEmployee.manager_id || null
+          manager_id: editingEmployee.manager_id || null,
+          labour_card_number: labourCardNumber || null,
+          iban: iban || null,
+          bank_routing_code: routingCode || null
         }
       });
 
@@ -474,6 +502,26 @@ export const UserManagement = () => {
         description: `User ${newStatus === 'active' ? 'activated' : 'deactivated'} successfully`,
       });
 
+      // Deactivation ends employment: produce the final settlement statement with today as the last working day
+      if (newStatus === 'inactive') {
+        try {
+          const pdfBlob = await createFinalSettlement(statusToggleEmployee, todayInGST());
+          const url = URL.createObjectURL(pdfBlob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `${statusToggleEmployee.employee_id}_final_settlement.pdf`;
+          a.click();
+          URL.revokeObjectURL(url);
+        } catch (settlementError) {
+          console.error('Error generating final settlement:', settlementError);
+          toast({
+            title: 'Error',
+            description: 'User was deactivated but the final settlement statement could not be generated',
+            variant: 'destructive',
+          });
+        }
+      }
+
       setStatusToggleEmployee(null);
       fetchEmployees();
     } catch (error: any) {
@@ -599,8 +647,22 @@ export const UserManagement = () => {
           <Users className="h-5 w-5" />
           <h2 className="text-2xl font-semibold">User Management</h2>
         </div>
+        {isAdmin && (
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} className="gap-2">
+            <FileUp className="h-4 w-4" />
+            Bulk Import
+          </Button>
+        )}
       </div>
 
+      {isAdmin && (
+        <EmployeeImportDialog
+          open={isImportDialogOpen}
+          onOpenChange={setIsImportDialogOpen}
+          onImported={fetchEmployees}
+        />
+      )}
+
       {/* Invite User Form - Only for Admins */}
       {isAdmin && (
         <Card>
@@ -1132,6 +1194,46 @@ export const UserManagement = () => {
                   </p>
                 </div>
               </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Payroll (WPS)</h4>
+                <p className="text-xs text-muted-foreground">
+                  Required to include this employee in the WPS salary file
+                </p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-labour_card_number">Labour Card / Personal No.</Label>
+                  <Input
+                    id="edit-labour_card_number"
+                    value={editingEmployee.labour_card_number || ''}
+                    onChange={(e) => setEditingEmployee({ ...editingEmployee, labour_card_number: e.target.value })}
+                    placeholder="14 digits"
+                    maxLength={14}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-iban">IBAN</Label>
+                  <Input
+                    id="edit-iban"
+                    value={editingEmployee.iban || ''}
+                    onChange={(e) => setEditingEmployee({ ...editingEmployee, iban: e.target.value })}
+                    placeholder="AE07 0331 2345 6789 0123 456"
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-bank_routing_code">Bank Routing Code</Label>
+                  <Input
+                    id="edit-bank_routing_code"
+                    value={editingEmployee.bank_routing_code || ''}
+                    onChange={(e) => setEditingEmployee({ ...editingEmployee, bank_routing_code: e.target.value })}
+                    placeholder="9 digits"
+                    maxLength={9}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
               <div className="flex gap-2 justify-end">
                 <Button
                   type="button"
@@ -1163,7 +1265,7 @@ export const UserManagement = () => {
             </AlertDialogTitle>
             <AlertDialogDescription>
               {statusToggleEmployee?.status === 'active' 
-                ? `Are you sure you want to deactivate ${statusToggleEmployee?.full_name}? They will no longer be able to access the system.`
+                ? `Are you sure you want to deactivate ${statusToggleEmployee?.full_name}? They will no longer be able to access the system, and a final settlement statement (gratuity and leave encashment) will be generated with today as the last working day.`
                 : `Are you sure you want to activate ${statusToggleEmployee?.full_name}? They will regain access to the system.`
               }
             </AlertDialogDescription>
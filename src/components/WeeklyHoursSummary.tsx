@@ -8,21 +8,25 @@ interface AttendanceRecord {
   date: string;
   total_hours?: number;
   status: string;
+  isWorkingDay?: boolean;
 }
 
 interface WeeklyHoursSummaryProps {
   attendanceData: AttendanceRecord[];
   month: Date;
+  // Schedule's minimum daily hours; when set, hours beyond it are shown as overtime
+  minimumDailyHours?: number;
 }
 
 interface WeekSummary {
   weekStart: Date;
   weekEnd: Date;
   totalHours: number;
+  overtimeHours: number;
   daysWorked: number;
 }
 
-export function WeeklyHoursSummary({ attendanceData, month }: WeeklyHoursSummaryProps) {
+export function WeeklyHoursSummary({ attendanceData, month, minimumDailyHours }: WeeklyHoursSummaryProps) {
   const { getDeductionInHours, settings } = useSystemSettings();
   const deductionInHours = getDeductionInHours();
 
@@ -77,12 +81,21 @@ export function WeeklyHoursSummary({ attendanceData, month }: WeeklyHoursSummary
         const adjustedHours = Math.max(0, dailyHours - deductionInHours);
         return sum + adjustedHours;
       }, 0);
+      // Every hour on a rest day is overtime; on working days only hours beyond the schedule
+      const overtimeHours = minimumDailyHours === undefined ? 0 : weekRecords.reduce((sum, record) => {
+        const adjustedHours = Math.max(0, (record.total_hours || 0) - deductionInHours);
+        const overtime = record.isWorkingDay === false
+          ? adjustedHours
+          : Math.max(0, adjustedHours - minimumDailyHours);
+        return sum + overtime;
+      }, 0);
       const daysWorked = weekRecords.length;
       
       weeks.push({
         weekStart,
         weekEnd,
         totalHours,
+        overtimeHours,
         daysWorked,
       });
       
@@ -99,9 +112,10 @@ export function WeeklyHoursSummary({ attendanceData, month }: WeeklyHoursSummary
     }
     
     return weeks;
-  }, [attendanceData, month, deductionInHours]);
+  }, [attendanceData, month, deductionInHours, minimumDailyHours]);
 
   const monthTotal = weeklySummaries.reduce((sum, week) => sum + week.totalHours, 0);
+  const monthOvertime = weeklySummaries.reduce((sum, week) => sum + week.overtimeHours, 0);
   const totalDaysWorked = weeklySummaries.reduce((sum, week) => sum + week.daysWorked, 0);
 
   return (
@@ -143,6 +157,11 @@ export function WeeklyHoursSummary({ attendanceData, month }: WeeklyHoursSummary
                   <p className="text-lg font-bold text-foreground">
                     {week.totalHours.toFixed(1)} Hrs
                   </p>
+                  {week.overtimeHours > 0 && (
+                    <p className="text-xs font-medium text-rose-600">
+                      +{week.overtimeHours.toFixed(1)} Hrs overtime
+                    </p>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     {week.daysWorked} {week.daysWorked === 1 ? 'day' : 'days'}
                   </p>
@@ -165,6 +184,11 @@ export function WeeklyHoursSummary({ attendanceData, month }: WeeklyHoursSummary
                 <p className="text-2xl font-bold text-primary">
                   {monthTotal.toFixed(1)} Hrs
                 </p>
+                {monthOvertime > 0 && (
+                  <p className="text-xs font-medium text-rose-600">
+                    incl. {monthOvertime.toFixed(1)} Hrs overtime
+                  </p>
+                )}
                 <p className="text-xs text-muted-foreground">
                   Avg: {totalDaysWorked > 0 ? (monthTotal / totalDaysWorked).toFixed(1) : '0'} hrs/day
                 </p>
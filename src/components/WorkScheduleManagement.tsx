@@ -5,8 +5,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { ShiftTemplateManagement } from './ShiftTemplateManagement';
+import { RosterPlanner } from './RosterPlanner';
 import { Clock, Plus, Save, Edit, Trash2 } from 'lucide-react';
 
 interface WorkSchedule {
@@ -237,151 +240,169 @@ export const WorkScheduleManagement = () => {
   };
 
   return (
-    <div className="space-y-6">
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Clock className="h-5 w-5" />
-            {editingSchedule ? 'Edit Work Schedule' : 'Create Work Schedule'}
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-              {!editingSchedule && (
-                <div>
-                  <Label htmlFor="employee">Employee</Label>
-                  <Select value={selectedEmployeeId} onValueChange={setSelectedEmployeeId}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select employee" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getAvailableEmployees().map(employee => (
-                        <SelectItem key={employee.id} value={employee.id}>
-                          {employee.full_name} ({employee.employee_id})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-              
-              <div>
-                <Label htmlFor="startTime">Start Time</Label>
-                <Input
-                  type="time"
-                  value={startTime}
-                  onChange={(e) => setStartTime(e.target.value)}
-                  required
-                />
-              </div>
-              
-              <div>
-                <Label htmlFor="endTime">End Time</Label>
-                <Input
-                  type="time"
-                  value={endTime}
-                  onChange={(e) => setEndTime(e.target.value)}
-                  required
-                />
-              </div>
-              
-              <div>
-                <Label htmlFor="minimumHours">Minimum Daily Hours</Label>
-                <Input
-                  type="number"
-                  step="0.5"
-                  min="1"
-                  max="24"
-                  value={minimumHours}
-                  onChange={(e) => setMinimumHours(parseFloat(e.target.value))}
-                  required
-                />
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label>Working Days *</Label>
-              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 border rounded-md">
-                {['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map((day) => (
-                  <div key={day} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={day}
-                      checked={workingDays.includes(day)}
-                      onCheckedChange={(checked) => {
-                        if (checked) {
-                          setWorkingDays([...workingDays, day]);
-                        } else {
-                          setWorkingDays(workingDays.filter(d => d !== day));
-                        }
-                      }}
+    <Tabs defaultValue="schedules" className="w-full">
+      <TabsList className="grid w-full grid-cols-3">
+        <TabsTrigger value="schedules">Fixed Schedules</TabsTrigger>
+        <TabsTrigger value="roster">Roster</TabsTrigger>
+        <TabsTrigger value="templates">Shift Templates</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="roster" className="mt-6">
+        <RosterPlanner />
+      </TabsContent>
+
+      <TabsContent value="templates" className="mt-6">
+        <ShiftTemplateManagement />
+      </TabsContent>
+
+      <TabsContent value="schedules" className="mt-6">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                {editingSchedule ? 'Edit Work Schedule' : 'Create Work Schedule'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {!editingSchedule && (
+                    <div>
+                      <Label htmlFor="employee">Employee</Label>
+                      <Select value={selectedEmployeeId} onValueChange={setSelectedEmployeeId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select employee" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getAvailableEmployees().map(employee => (
+                            <SelectItem key={employee.id} value={employee.id}>
+                              {employee.full_name} ({employee.employee_id})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  
+                  <div>
+                    <Label htmlFor="startTime">Start Time</Label>
+                    <Input
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                      required
                     />
-                    <Label htmlFor={day} className="cursor-pointer font-normal">
-                      {day}
-                    </Label>
                   </div>
-                ))}
-              </div>
-            </div>
-            
-            <div className="flex gap-2">
-              <Button type="submit" disabled={loading}>
-                {editingSchedule ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
-                {editingSchedule ? 'Update Schedule' : 'Create Schedule'}
-              </Button>
-              {editingSchedule && (
-                <Button type="button" variant="outline" onClick={resetForm}>
-                  Cancel
-                </Button>
-              )}
-            </div>
-          </form>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Current Work Schedules</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {schedules.length === 0 ? (
-              <p className="text-muted-foreground">No work schedules configured</p>
-            ) : (
-              schedules.map(schedule => (
-                <div key={schedule.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  
                   <div>
-                    <h4 className="font-medium">{schedule.employee_name}</h4>
-                    <p className="text-sm text-muted-foreground">
-                      {schedule.start_time} - {schedule.end_time} | 
-                      Minimum: {schedule.minimum_daily_hours}h
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      Working: {schedule.working_days?.join(', ') || 'Not set'}
-                    </p>
+                    <Label htmlFor="endTime">End Time</Label>
+                    <Input
+                      type="time"
+                      value={endTime}
+                      onChange={(e) => setEndTime(e.target.value)}
+                      required
+                    />
                   </div>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleEdit(schedule)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => handleDelete(schedule)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                  
+                  <div>
+                    <Label htmlFor="minimumHours">Minimum Daily Hours</Label>
+                    <Input
+                      type="number"
+                      step="0.5"
+                      min="1"
+                      max="24"
+                      value={minimumHours}
+                      onChange={(e) => setMinimumHours(parseFloat(e.target.value))}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Working Days *</Label>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 border rounded-md">
+                    {['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map((day) => (
+                      <div key={day} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={day}
+                          checked={workingDays.includes(day)}
+                          onCheckedChange={(checked) => {
+                            if (checked) {
+                              setWorkingDays([...workingDays, day]);
+                            } else {
+                              setWorkingDays(workingDays.filter(d => d !== day));
+                            }
+                          }}
+                        />
+                        <Label htmlFor={day} className="cursor-pointer font-normal">
+                          {day}
+                        </Label>
+                      </div>
+                    ))}
                   </div>
                 </div>
-              ))
-            )}
-          </div>
-        </CardContent>
-      </Card>
-    </div>
+                
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={loading}>
+                    {editingSchedule ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                    {editingSchedule ? 'Update Schedule' : 'Create Schedule'}
+                  </Button>
+                  {editingSchedule && (
+                    <Button type="button" variant="outline" onClick={resetForm}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Current Work Schedules</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {schedules.length === 0 ? (
+                  <p className="text-muted-foreground">No work schedules configured</p>
+                ) : (
+                  schedules.map(schedule => (
+                    <div key={schedule.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div>
+                        <h4 className="font-medium">{schedule.employee_name}</h4>
+                        <p className="text-sm text-muted-foreground">
+                          {schedule.start_time} - {schedule.end_time}{schedule.end_time <= schedule.start_time ? ' (+1 day)' : ''} | 
+                          Minimum: {schedule.minimum_daily_hours}h
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Working: {schedule.working_days?.join(', ') || 'Not set'}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEdit(schedule)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDelete(schedule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </TabsContent>
+    </Tabs>
   );
 };
\ No newline at end of file
@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import {
+  DEFAULT_WPS_SETTINGS,
+  WpsEmployerSettings,
+  WpsSalaryLine,
+  buildSifFile,
+  getSifFileName,
+  validateEmployerSettings,
+  validateSalaryLine,
+} from "@/lib/wps";
+import { AlertTriangle, CheckCircle, FileDown, Landmark, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+interface WpsExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ExportLine extends WpsSalaryLine {
+  recordId: string;
+  empNumber: string;
+  issues: string[];
+}
+
+export const WpsExportDialog = ({ open, onOpenChange }: WpsExportDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [periodMonth, setPeriodMonth] = useState(
+    format(startOfMonth(new Date()), "yyyy-MM")
+  );
+  const [employer, setEmployer] = useState<WpsEmployerSettings>(DEFAULT_WPS_SETTINGS);
+
+  const monthStart = parseISO(`${periodMonth}-01`);
+  const periodStart = format(monthStart, "yyyy-MM-dd");
+  const periodEnd = format(endOfMonth(monthStart), "yyyy-MM-dd");
+
+  const { data: savedSettings } = useQuery({
+    queryKey: ["system-settings", "wps_settings"],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("system_settings")
+        .select("setting_value")
+        .eq("setting_key", "wps_settings")
+        .maybeSingle();
+
+      if (error) throw error;
+      return {
+        ...DEFAULT_WPS_SETTINGS,
+        ...(data?.setting_value as Partial<WpsEmployerSettings> | null),
+      };
+    },
+  });
+
+  useEffect(() => {
+    if (savedSettings) setEmployer(savedSettings);
+  }, [savedSettings]);
+
+  // Only finalized (processed) or paid records are sent to the bank
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: ["wps-export-records", periodStart, periodEnd],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payroll_records")
+        .select(
+          `
+          id,
+          pay_period_start,
+          pay_period_end,
+          fixed_salary,
+          net_pay,
+          status,
+          calculation_details,
+          employees!inner (
+            full_name,
+            employee_id,
+            employee_bank_details (
+              labour_card_number,
+              iban,
+              bank_routing_code
+            )
+          )
+        `
+        )
+        .gte("pay_period_start", periodStart)
+        .lte("pay_period_end", periodEnd)
+        .neq("status", "cancelled")
+        .order("pay_period_start");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("system_settings")
+        .upsert(
+          {
+            setting_key: "wps_settings",
+            setting_value: { ...employer },
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "setting_key" }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["system-settings", "wps_settings"] });
+      toast({
+        title: "Settings Updated",
+        description: "WPS employer details have been saved.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save WPS settings: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const finalRecords = records.filter((r) => r.status !== "draft");
+  const draftCount = records.length - finalRecords.length;
+
+  const lines: ExportLine[] = finalRecords.map((record) => {
+    const details = record.calculation_details as {
+      unpaid_leave_days?: number;
+      half_pay_leave_days?: number;
+    } | null;
+    const bankDetails = record.employees.employee_bank_details;
+    const line: WpsSalaryLine = {
+      employeeName: record.employees.full_name,
+      labourCardNumber: bankDetails?.labour_card_number ?? null,
+      routingCode: bankDetails?.bank_routing_code ?? null,
+      iban: bankDetails?.iban ?? null,
+      payPeriodStart: record.pay_period_start,
+      payPeriodEnd: record.pay_period_end,
+      netPay: Number(record.net_pay),
+      fixedSalary: Number(record.fixed_salary),
+      leaveDays: Number(details?.unpaid_leave_days || 0) + Number(details?.half_pay_leave_days || 0),
+    };
+    return {
+      ...line,
+      recordId: record.id,
+      empNumber: record.employees.employee_id,
+      issues: validateSalaryLine(line),
+    };
+  });
+
+  const employerIssues = validateEmployerSettings(employer);
+  const invalidLines = lines.filter((line) => line.issues.length > 0);
+  const total = lines.reduce((sum, line) => sum + line.netPay, 0);
+  const canExport =
+    lines.length > 0 && invalidLines.length === 0 && employerIssues.length === 0;
+
+  const handleExport = () => {
+    const createdAt = new Date();
+    const contents = buildSifFile(lines, employer, monthStart, createdAt);
+    const blob = new Blob([contents], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = getSifFileName(employer, createdAt);
+    a.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "SIF Exported",
+      description: `${lines.length} salaries totalling AED ${total.toFixed(2)}`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            WPS Salary File (SIF)
+          </DialogTitle>
+          <DialogDescription>
+            Exports processed and paid payroll records for the period as a Wage Protection
+            System salary information file for upload to the bank.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="grid gap-2">
+            <Label htmlFor="wps_period">Salary Month</Label>
+            <Input
+              id="wps_period"
+              type="month"
+              value={periodMonth}
+              onChange={(e) => e.target.value && setPeriodMonth(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="wps_employer_id">Employer ID (MOHRE)</Label>
+            <Input
+              id="wps_employer_id"
+              value={employer.employer_id}
+              onChange={(e) => setEmployer({ ...employer, employer_id: e.target.value.trim() })}
+              placeholder="13 digits"
+              maxLength={13}
+              className="font-mono"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="wps_employer_routing">Employer Bank Routing Code</Label>
+            <Input
+              id="wps_employer_routing"
+              value={employer.employer_routing_code}
+              onChange={(e) => setEmployer({ ...employer, employer_routing_code: e.target.value.trim() })}
+              placeholder="9 digits"
+              maxLength={9}
+              className="font-mono"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="wps_employer_reference">Reference (optional)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="wps_employer_reference"
+                value={employer.employer_reference}
+                onChange={(e) => setEmployer({ ...employer, employer_reference: e.target.value })}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => saveSettingsMutation.mutate()}
+                disabled={saveSettingsMutation.isPending}
+                title="Save employer details"
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {employerIssues.length > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            {employerIssues.join(". ")}
+          </div>
+        )}
+
+        {draftCount > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            {draftCount} draft record{draftCount === 1 ? " is" : "s are"} excluded. Finalize the payroll run to include them.
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Labour Card</TableHead>
+                <TableHead>IBAN</TableHead>
+                <TableHead className="text-right">Net Pay</TableHead>
+                <TableHead>Check</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : lines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    No processed payroll records for this month
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lines.map((line) => (
+                  <TableRow key={line.recordId}>
+                    <TableCell>
+                      <div className="font-medium">{line.employeeName}</div>
+                      <div className="text-xs text-muted-foreground">{line.empNumber}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{line.labourCardNumber || "-"}</TableCell>
+                    <TableCell className="font-mono text-xs">{line.iban || "-"}</TableCell>
+                    <TableCell className="text-right">{line.netPay.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {line.issues.length === 0 ? (
+                        <Badge variant="default" className="gap-1">
+                          <CheckCircle className="h-3 w-3" />
+                          Ready
+                        </Badge>
+                      ) : (
+                        <div className="space-y-1">
+                          {line.issues.map((issue) => (
+                            <div key={issue} className="flex items-center gap-1 text-xs text-destructive">
+                              <AlertTriangle className="h-3 w-3" />
+                              {issue}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {invalidLines.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Update the missing bank details in User Management, then export again.
+          </p>
+        )}
+
+        <DialogFooter>
+          <div className="mr-auto text-sm text-muted-foreground self-center">
+            {lines.length} salaries · AED {total.toFixed(2)}
+          </div>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleExport} disabled={!canExport}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Download SIF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
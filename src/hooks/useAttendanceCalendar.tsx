@@ -1,16 +1,40 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchHolidayMap } from '@/lib/holidays';
+import { fetchShiftAssignments, getAssignmentKey } from '@/lib/shifts';
+import { LeaveDurationType } from '@/lib/leaveDuration';
+import {
+  classifyAttendanceDays,
+  fetchAttendanceRules,
+  findViolation,
+  isCountedViolation,
+  LatenessConsequence
+} from '@/lib/attendanceRules';
 import { startOfMonth, endOfMonth, format, eachDayOfInterval, isAfter, isBefore, parseISO } from 'date-fns';
 
 export interface DayStatus {
   date: string;
-  status: 'present' | 'late' | 'absent' | 'future' | 'non-working';
+  status: 'present' | 'late' | 'absent' | 'future' | 'non-working' | 'holiday' | 'leave';
   clockInTime: string | null;
   clockOutTime: string | null;
   totalHours: number | null;
   isLate: boolean;
   minutesLate?: number;
+  // Lateness tier, and whether the monthly late allowance forgave the late arrival
+  lateTier?: string;
+  lateConsequence?: LatenessConsequence;
+  lateWithinAllowance?: boolean;
   notes?: string;
+  holidayName?: string;
+  shiftName?: string;
+  attendanceId?: string;
+  breakMinutes?: number;
+  leaveType?: string;
+  leaveDuration?: LeaveDurationType;
+  // Hours covered by partial-day leave, and the minimum hours left to work after it
+  leaveHours?: number;
+  requiredHours?: number;
+  isShortHours?: boolean;
 }
 
 export interface BreachInfo {
@@ -62,10 +86,33 @@ export function useAttendanceCalendar(employeeId: string | undefined, selectedMo
 
         if (scheduleError) throw scheduleError;
 
+        // Fetch employee division to resolve applicable public holidays
+        const { data: employee, error: employeeError } = await supabase
+          .from('employees')
+          .select('division')
+          .eq('id', employeeId)
+          .maybeSingle();
+
+        if (employeeError) throw employeeError;
+
         // Fetch attendance for the month
         const monthStart = startOfMonth(selectedMonth);
         const monthEnd = endOfMonth(selectedMonth);
-        
+
+        const holidays = await fetchHolidayMap(
+          format(monthStart, 'yyyy-MM-dd'),
+          format(monthEnd, 'yyyy-MM-dd'),
+          employee?.division
+        );
+
+        const shiftAssignments = await fetchShiftAssignments(
+          format(monthStart, 'yyyy-MM-dd'),
+          format(monthEnd, 'yyyy-MM-dd'),
+          [employeeId]
+        );
+
+        const rules = await fetchAttendanceRules();
+
         const { data: attendance, error: attendanceError } = await supabase
           .from('attendance')
           .select('*')
@@ -76,6 +123,16 @@ export function useAttendanceCalendar(employeeId: string | undefined, selectedMo
 
         if (attendanceError) throw attendanceError;
 
+        const { data: leaves, error: leavesError } = await supabase
+          .from('leave_requests')
+          .select('start_date, end_date, duration_type, duration_hours, leave_types(name)')
+          .eq('employee_id', employeeId)
+          .eq('status', 'approved')
+          .lte('start_date', format(monthEnd, 'yyyy-MM-dd'))
+          .gte('end_date', format(monthStart, 'yyyy-MM-dd'));
+
+        if (leavesError) throw leavesError;
+
         // Build attendance map
         const attendanceMap = new Map<string, any>();
         attendance?.forEach(record => {
@@ -88,6 +145,28 @@ export function useAttendanceCalendar(employeeId: string | undefined, selectedMo
         const today = new Date();
         today.setHours(0, 0, 0, 0);
 
+        // Past days are classified together so earlier late arrivals use up the monthly allowance
+        const classifications = new Map(
+          classifyAttendanceDays(
+            daysInMonth
+              .filter(day => !isAfter(day, today))
+              .map(day => {
+                const dateStr = format(day, 'yyyy-MM-dd');
+                // Rostered shifts override the fixed schedule for the days they cover
+                const assignment = shiftAssignments.get(getAssignmentKey(employeeId, dateStr));
+                return {
+                  date: dateStr,
+                  schedule,
+                  shift: assignment ? assignment.shift_templates : undefined,
+                  isHoliday: holidays.has(dateStr),
+                  leave: leaves?.find(l => dateStr >= l.start_date && dateStr <= l.end_date),
+                  attendance: attendanceMap.get(dateStr) ?? null,
+                };
+              }),
+            rules
+          ).map(classification => [classification.date, classification])
+        );
+
         for (const day of daysInMonth) {
           const dateStr = format(day, 'yyyy-MM-dd');
           const dayDate = new Date(day);
@@ -106,67 +185,71 @@ export function useAttendanceCalendar(employeeId: string | undefined, selectedMo
             continue;
           }
 
-          // Check if working day
-          const dayName = format(day, 'EEEE');
-          // Default working days: Monday-Saturday (Sunday is weekend)
-          const defaultWorkingDays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-          const isWorkingDay = schedule?.working_days?.includes(dayName) ?? defaultWorkingDays.includes(dayName);
+          const attendanceRecord = attendanceMap.get(dateStr);
+          const holidayName = holidays.get(dateStr);
+          const leave = leaves?.find(l => dateStr >= l.start_date && dateStr <= l.end_date);
+          const leaveDuration = leave?.duration_type as LeaveDurationType | undefined;
+          const leaveType = leave?.leave_types?.name;
+          const shift = shiftAssignments.get(getAssignmentKey(employeeId, dateStr))?.shift_templates;
+          const classification = classifications.get(dateStr)!;
+          const emptyDay = {
+            date: dateStr,
+            clockInTime: null,
+            clockOutTime: null,
+            totalHours: null,
+            isLate: false,
+          };
 
-          if (!isWorkingDay) {
-            dayStatusMap.set(dateStr, {
-              date: dateStr,
-              status: 'non-working',
-              clockInTime: null,
-              clockOutTime: null,
-              totalHours: null,
-              isLate: false,
-            });
+          if (classification.kind === 'non_working') {
+            dayStatusMap.set(dateStr, { ...emptyDay, status: 'non-working' });
             continue;
           }
 
-          const attendanceRecord = attendanceMap.get(dateStr);
+          if (classification.kind === 'leave') {
+            dayStatusMap.set(dateStr, { ...emptyDay, status: 'leave', leaveType, leaveDuration });
+            continue;
+          }
+
+          // Public holidays are never absences; clock-ins on a holiday are still shown
+          if (classification.kind === 'holiday' && !attendanceRecord?.clock_in_time) {
+            dayStatusMap.set(dateStr, { ...emptyDay, status: 'holiday', holidayName });
+            continue;
+          }
 
-          if (!attendanceRecord || !attendanceRecord.clock_in_time) {
-            // Absent
+          if (findViolation(classification, 'absent')) {
             dayStatusMap.set(dateStr, {
-              date: dateStr,
+              ...emptyDay,
               status: 'absent',
-              clockInTime: null,
-              clockOutTime: null,
-              totalHours: null,
-              isLate: false,
+              leaveType,
+              leaveDuration,
+              leaveHours: leave ? classification.leaveHours : undefined,
             });
             continue;
           }
 
-          // Check if late
-          const clockInTime = new Date(attendanceRecord.clock_in_time);
-          let isLate = false;
-          let minutesLate = 0;
-
-          if (schedule?.start_time) {
-            const [hours, minutes] = schedule.start_time.split(':');
-            const scheduledTime = new Date(clockInTime);
-            scheduledTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-            
-            // Add 15-minute grace period
-            scheduledTime.setMinutes(scheduledTime.getMinutes() + 15);
-            
-            if (clockInTime > scheduledTime) {
-              isLate = true;
-              minutesLate = Math.floor((clockInTime.getTime() - scheduledTime.getTime()) / 60000);
-            }
-          }
+          const late = findViolation(classification, 'late');
 
           dayStatusMap.set(dateStr, {
             date: dateStr,
-            status: isLate ? 'late' : 'present',
+            status: late && isCountedViolation(late) ? 'late' : 'present',
             clockInTime: attendanceRecord.clock_in_time,
             clockOutTime: attendanceRecord.clock_out_time,
             totalHours: attendanceRecord.total_hours,
-            isLate,
-            minutesLate: isLate ? minutesLate : undefined,
+            isLate: !!late,
+            minutesLate: late?.minutes,
+            lateTier: late?.tier?.name,
+            lateConsequence: late?.tier?.consequence,
+            lateWithinAllowance: late?.withinAllowance,
             notes: attendanceRecord.notes,
+            holidayName,
+            shiftName: shift?.name,
+            attendanceId: attendanceRecord.id,
+            breakMinutes: attendanceRecord.break_duration_minutes || 0,
+            leaveType,
+            leaveDuration,
+            leaveHours: leave ? classification.leaveHours : undefined,
+            requiredHours: classification.kind === 'working' ? classification.requiredHours : undefined,
+            isShortHours: !!findViolation(classification, 'incomplete_hours'),
           });
         }
 
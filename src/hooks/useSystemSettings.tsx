@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { useToast } from './use-toast';
+import { AttendanceRulesConfig, AttendanceRulesSetting, fetchAttendanceRules } from '@/lib/attendanceRules';
 
 interface DeductionSettings {
   hours: number;
@@ -84,3 +86,55 @@ export const useSystemSettings = () => {
     getDeductionInHours,
   };
 };
+
+export const useAttendanceRulesSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ['system-settings', 'attendance_rules'],
+    queryFn: fetchAttendanceRules,
+  });
+
+  const updateRules = useMutation({
+    mutationFn: async (newRules: AttendanceRulesConfig) => {
+      const settingValue: AttendanceRulesSetting = {
+        late_grace_minutes: newRules.lateGraceMinutes,
+        early_grace_minutes: newRules.earlyGraceMinutes,
+        lateness_tiers: newRules.latenessTiers,
+        monthly_late_allowance: newRules.monthlyLateAllowance,
+      };
+
+      const { error } = await supabase
+        .from('system_settings')
+        .upsert({
+          setting_key: 'attendance_rules',
+          setting_value: settingValue as unknown as Json,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'setting_key' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['system-settings'] });
+      toast({
+        title: 'Settings Updated',
+        description: 'Lateness rules have been saved successfully.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update settings: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    rules,
+    isLoading,
+    updateRules: updateRules.mutate,
+    isSaving: updateRules.isPending,
+  };
+};
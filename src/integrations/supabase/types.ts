@@ -41,10 +41,190 @@ export type Database = {
         }
         Relationships: []
       }
+      approval_chain_steps: {
+        Row: {
+          approver_employee_id: string | null
+          approver_role: Database["public"]["Enums"]["app_role"] | null
+          approver_type: string
+          chain_id: string
+          created_at: string
+          id: string
+          label: string
+          step_order: number
+        }
+        Insert: {
+          approver_employee_id?: string | null
+          approver_role?: Database["public"]["Enums"]["app_role"] | null
+          approver_type: string
+          chain_id: string
+          created_at?: string
+          id?: string
+          label: string
+          step_order: number
+        }
+        Update: {
+          approver_employee_id?: string | null
+          approver_role?: Database["public"]["Enums"]["app_role"] | null
+          approver_type?: string
+          chain_id?: string
+          created_at?: string
+          id?: string
+          label?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chain_steps_approver_employee_id_fkey"
+            columns: ["approver_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_chain_steps_approver_employee_id_fkey"
+            columns: ["approver_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_chain_steps_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_chains: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          division: string | null
+          exception_type: string | null
+          id: string
+          is_active: boolean
+          leave_type_id: string | null
+          min_days: number | null
+          name: string
+          priority: number
+          request_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          division?: string | null
+          exception_type?: string | null
+          id?: string
+          is_active?: boolean
+          leave_type_id?: string | null
+          min_days?: number | null
+          name: string
+          priority?: number
+          request_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          division?: string | null
+          exception_type?: string | null
+          id?: string
+          is_active?: boolean
+          leave_type_id?: string | null
+          min_days?: number | null
+          name?: string
+          priority?: number
+          request_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chains_leave_type_id_fkey"
+            columns: ["leave_type_id"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_delegations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          delegate_employee_id: string
+          delegator_employee_id: string
+          end_date: string
+          id: string
+          is_active: boolean
+          reason: string | null
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          delegate_employee_id: string
+          delegator_employee_id: string
+          end_date: string
+          id?: string
+          is_active?: boolean
+          reason?: string | null
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          delegate_employee_id?: string
+          delegator_employee_id?: string
+          end_date?: string
+          id?: string
+          is_active?: boolean
+          reason?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_delegations_delegate_employee_id_fkey"
+            columns: ["delegate_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_delegations_delegate_employee_id_fkey"
+            columns: ["delegate_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_delegations_delegator_employee_id_fkey"
+            columns: ["delegator_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_delegations_delegator_employee_id_fkey"
+            columns: ["delegator_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance: {
         Row: {
           break_duration_minutes: number | null
           clock_in_time: string | null
+          clock_out_ip_address: unknown
           clock_out_time: string | null
           created_at: string | null
           date: string
@@ -60,6 +240,7 @@ export type Database = {
         Insert: {
           break_duration_minutes?: number | null
           clock_in_time?: string | null
+          clock_out_ip_address?: unknown
           clock_out_time?: string | null
           created_at?: string | null
           date: string
@@ -75,6 +256,7 @@ export type Database = {
         Update: {
           break_duration_minutes?: number | null
           clock_in_time?: string | null
+          clock_out_ip_address?: unknown
           clock_out_time?: string | null
           created_at?: string | null
           date?: string
@@ -212,6 +394,67 @@ export type Database = {
           },
         ]
       }
+      attendance_sessions: {
+        Row: {
+          attendance_id: string
+          created_at: string
+          employee_id: string
+          end_ip_address: unknown
+          end_time: string | null
+          id: string
+          session_type: string
+          start_ip_address: unknown
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          attendance_id: string
+          created_at?: string
+          employee_id: string
+          end_ip_address?: unknown
+          end_time?: string | null
+          id?: string
+          session_type?: string
+          start_ip_address?: unknown
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          attendance_id?: string
+          created_at?: string
+          employee_id?: string
+          end_ip_address?: unknown
+          end_time?: string | null
+          id?: string
+          session_type?: string
+          start_ip_address?: unknown
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_sessions_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_test_records: {
         Row: {
           break_duration_minutes: number | null
@@ -281,9 +524,58 @@ export type Database = {
           },
         ]
       }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          employee_id: string
+          feed_type: string
+          id: string
+          last_accessed_at: string | null
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          employee_id: string
+          feed_type: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string
+          feed_type?: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feeds_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       divisions: {
         Row: {
           created_at: string | null
+          emirate: string | null
           id: string
           is_active: boolean | null
           name: string
@@ -291,6 +583,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          emirate?: string | null
           id?: string
           is_active?: boolean | null
           name: string
@@ -298,6 +591,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          emirate?: string | null
           id?: string
           is_active?: boolean | null
           name?: string
@@ -305,6 +599,74 @@ export type Database = {
         }
         Relationships: []
       }
+      document_expiry_reminders: {
+        Row: {
+          days_before: number
+          document_id: string
+          expiry_date: string
+          id: string
+          reminder_type: string
+          sent_at: string
+        }
+        Insert: {
+          days_before?: number
+          document_id: string
+          expiry_date: string
+          id?: string
+          reminder_type: string
+          sent_at?: string
+        }
+        Update: {
+          days_before?: number
+          document_id?: string
+          expiry_date?: string
+          id?: string
+          reminder_type?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_expiry_reminders_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "staff_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_reminder_policies: {
+        Row: {
+          created_at: string
+          document_type: string
+          escalate_on_expiry: boolean
+          id: string
+          is_active: boolean
+          reminder_days: number[]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          document_type: string
+          escalate_on_expiry?: boolean
+          id?: string
+          is_active?: boolean
+          reminder_days?: number[]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          document_type?: string
+          escalate_on_expiry?: boolean
+          id?: string
+          is_active?: boolean
+          reminder_days?: number[]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       email_logs: {
         Row: {
           content: string
@@ -338,25 +700,240 @@ export type Database = {
         }
         Relationships: []
       }
-      employee_leave_balances: {
+      employee_bank_details: {
         Row: {
-          allocated_days: number
-          auto_calculated: boolean | null
+          bank_routing_code: string | null
           created_at: string
           employee_id: string
-          id: string
-          leave_type_id: string
-          service_months_at_allocation: number | null
+          iban: string | null
+          labour_card_number: string | null
           updated_at: string
-          used_days: number
-          year: number
         }
         Insert: {
-          allocated_days?: number
-          auto_calculated?: boolean | null
+          bank_routing_code?: string | null
           created_at?: string
           employee_id: string
-          id?: string
+          iban?: string | null
+          labour_card_number?: string | null
+          updated_at?: string
+        }
+        Update: {
+          bank_routing_code?: string | null
+          created_at?: string
+          employee_id?: string
+          iban?: string | null
+          labour_card_number?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_bank_details_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: true
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_bank_details_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: true
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_checklist_tasks: {
+        Row: {
+          category: string
+          checklist_id: string
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          description: string | null
+          document_id: string | null
+          document_type: string | null
+          due_date: string
+          employee_id: string
+          id: string
+          last_reminded_at: string | null
+          notes: string | null
+          owner_employee_id: string | null
+          owner_type: string
+          sort_order: number
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          checklist_id: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          description?: string | null
+          document_id?: string | null
+          document_type?: string | null
+          due_date: string
+          employee_id: string
+          id?: string
+          last_reminded_at?: string | null
+          notes?: string | null
+          owner_employee_id?: string | null
+          owner_type: string
+          sort_order?: number
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          checklist_id?: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          description?: string | null
+          document_id?: string | null
+          document_type?: string | null
+          due_date?: string
+          employee_id?: string
+          id?: string
+          last_reminded_at?: string | null
+          notes?: string | null
+          owner_employee_id?: string | null
+          owner_type?: string
+          sort_order?: number
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_checklist_tasks_checklist_id_fkey"
+            columns: ["checklist_id"]
+            isOneToOne: false
+            referencedRelation: "employee_checklists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_checklist_tasks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "staff_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_checklist_tasks_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_checklist_tasks_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_checklist_tasks_owner_employee_id_fkey"
+            columns: ["owner_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_checklist_tasks_owner_employee_id_fkey"
+            columns: ["owner_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_checklists: {
+        Row: {
+          anchor_date: string
+          checklist_type: string
+          completed_at: string | null
+          created_at: string
+          employee_id: string
+          id: string
+          name: string
+          started_by: string | null
+          status: string
+          template_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          anchor_date: string
+          checklist_type: string
+          completed_at?: string | null
+          created_at?: string
+          employee_id: string
+          id?: string
+          name: string
+          started_by?: string | null
+          status?: string
+          template_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          anchor_date?: string
+          checklist_type?: string
+          completed_at?: string | null
+          created_at?: string
+          employee_id?: string
+          id?: string
+          name?: string
+          started_by?: string | null
+          status?: string
+          template_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_checklists_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_checklists_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_checklists_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "lifecycle_checklist_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_leave_balances: {
+        Row: {
+          allocated_days: number
+          auto_calculated: boolean | null
+          created_at: string
+          employee_id: string
+          id: string
+          leave_type_id: string
+          service_months_at_allocation: number | null
+          updated_at: string
+          used_days: number
+          year: number
+        }
+        Insert: {
+          allocated_days?: number
+          auto_calculated?: boolean | null
+          created_at?: string
+          employee_id: string
+          id?: string
           leave_type_id: string
           service_months_at_allocation?: number | null
           updated_at?: string
@@ -380,6 +957,7 @@ export type Database = {
       employees: {
         Row: {
           created_at: string | null
+          default_delegate_id: string | null
           deleted_at: string | null
           deleted_by: string | null
           department: string
@@ -402,6 +980,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          default_delegate_id?: string | null
           deleted_at?: string | null
           deleted_by?: string | null
           department: string
@@ -424,6 +1003,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          default_delegate_id?: string | null
           deleted_at?: string | null
           deleted_by?: string | null
           department?: string
@@ -445,6 +1025,20 @@ export type Database = {
           wfh_enabled?: boolean
         }
         Relationships: [
+          {
+            foreignKeyName: "employees_default_delegate_id_fkey"
+            columns: ["default_delegate_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employees_default_delegate_id_fkey"
+            columns: ["default_delegate_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "employees_manager_id_fkey"
             columns: ["manager_id"]
@@ -461,6 +1055,66 @@ export type Database = {
           },
         ]
       }
+      final_settlements: {
+        Row: {
+          calculation_details: Json
+          created_at: string
+          created_by: string | null
+          employee_id: string
+          gratuity_amount: number
+          id: string
+          last_working_day: string
+          leave_encashment_amount: number
+          leave_encashment_days: number
+          statement_pdf_url: string | null
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          calculation_details?: Json
+          created_at?: string
+          created_by?: string | null
+          employee_id: string
+          gratuity_amount?: number
+          id?: string
+          last_working_day: string
+          leave_encashment_amount?: number
+          leave_encashment_days?: number
+          statement_pdf_url?: string | null
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          calculation_details?: Json
+          created_at?: string
+          created_by?: string | null
+          employee_id?: string
+          gratuity_amount?: number
+          id?: string
+          last_working_day?: string
+          leave_encashment_amount?: number
+          leave_encashment_days?: number
+          statement_pdf_url?: string | null
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "final_settlements_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: true
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "final_settlements_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: true
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       in_app_notifications: {
         Row: {
           action_url: string | null
@@ -521,68 +1175,283 @@ export type Database = {
           },
         ]
       }
-      leave_requests: {
+      leave_accrual_policies: {
         Row: {
-          created_at: string | null
-          employee_id: string | null
-          end_date: string
+          accrual_method: string
+          accrue_during_probation: boolean
+          annual_entitlement: number | null
+          carry_forward_expiry_months: number | null
+          carry_forward_max_days: number
+          created_at: string
           id: string
-          is_first_hajj: boolean | null
-          leave_type_id: string | null
-          medical_certificate_url: string | null
-          payment_type: string | null
-          reason: string | null
-          relationship: string | null
-          review_comments: string | null
-          reviewed_at: string | null
-          reviewed_by: string | null
-          start_date: string
-          status: string
-          total_days: number
-          updated_at: string | null
+          is_active: boolean
+          leave_type_id: string
+          prorate_joiners: boolean
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          employee_id?: string | null
-          end_date: string
+          accrual_method?: string
+          accrue_during_probation?: boolean
+          annual_entitlement?: number | null
+          carry_forward_expiry_months?: number | null
+          carry_forward_max_days?: number
+          created_at?: string
           id?: string
-          is_first_hajj?: boolean | null
-          leave_type_id?: string | null
-          medical_certificate_url?: string | null
-          payment_type?: string | null
-          reason?: string | null
-          relationship?: string | null
-          review_comments?: string | null
-          reviewed_at?: string | null
-          reviewed_by?: string | null
-          start_date: string
-          status?: string
-          total_days: number
-          updated_at?: string | null
+          is_active?: boolean
+          leave_type_id: string
+          prorate_joiners?: boolean
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          employee_id?: string | null
-          end_date?: string
+          accrual_method?: string
+          accrue_during_probation?: boolean
+          annual_entitlement?: number | null
+          carry_forward_expiry_months?: number | null
+          carry_forward_max_days?: number
+          created_at?: string
           id?: string
-          is_first_hajj?: boolean | null
-          leave_type_id?: string | null
-          medical_certificate_url?: string | null
-          payment_type?: string | null
-          reason?: string | null
-          relationship?: string | null
-          review_comments?: string | null
-          reviewed_at?: string | null
-          reviewed_by?: string | null
-          start_date?: string
-          status?: string
-          total_days?: number
-          updated_at?: string | null
+          is_active?: boolean
+          leave_type_id?: string
+          prorate_joiners?: boolean
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "leave_requests_employee_id_fkey"
-            columns: ["employee_id"]
+            foreignKeyName: "leave_accrual_policies_leave_type_id_fkey"
+            columns: ["leave_type_id"]
+            isOneToOne: true
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_balance_transactions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          days: number
+          effective_date: string
+          employee_id: string
+          id: string
+          leave_request_id: string | null
+          leave_type_id: string
+          notes: string | null
+          reference: string | null
+          transaction_type: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          days: number
+          effective_date: string
+          employee_id: string
+          id?: string
+          leave_request_id?: string | null
+          leave_type_id: string
+          notes?: string | null
+          reference?: string | null
+          transaction_type: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          days?: number
+          effective_date?: string
+          employee_id?: string
+          id?: string
+          leave_request_id?: string | null
+          leave_type_id?: string
+          notes?: string | null
+          reference?: string | null
+          transaction_type?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_balance_transactions_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_transactions_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_transactions_leave_request_id_fkey"
+            columns: ["leave_request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_transactions_leave_type_id_fkey"
+            columns: ["leave_type_id"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_request_changes: {
+        Row: {
+          change_type: string
+          created_at: string
+          employee_id: string
+          id: string
+          leave_request_id: string
+          new_end_date: string | null
+          new_start_date: string | null
+          new_total_days: number | null
+          original_end_date: string
+          original_start_date: string
+          original_total_days: number
+          reason: string
+          requested_by: string | null
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          change_type: string
+          created_at?: string
+          employee_id: string
+          id?: string
+          leave_request_id: string
+          new_end_date?: string | null
+          new_start_date?: string | null
+          new_total_days?: number | null
+          original_end_date: string
+          original_start_date: string
+          original_total_days: number
+          reason: string
+          requested_by?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          change_type?: string
+          created_at?: string
+          employee_id?: string
+          id?: string
+          leave_request_id?: string
+          new_end_date?: string | null
+          new_start_date?: string | null
+          new_total_days?: number | null
+          original_end_date?: string
+          original_start_date?: string
+          original_total_days?: number
+          reason?: string
+          requested_by?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_request_changes_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_request_changes_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_request_changes_leave_request_id_fkey"
+            columns: ["leave_request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_requests: {
+        Row: {
+          created_at: string | null
+          duration_hours: number | null
+          duration_type: string
+          employee_id: string | null
+          end_date: string
+          id: string
+          is_first_hajj: boolean | null
+          leave_type_id: string | null
+          medical_certificate_url: string | null
+          payment_type: string | null
+          reason: string | null
+          relationship: string | null
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          total_days: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          duration_hours?: number | null
+          duration_type?: string
+          employee_id?: string | null
+          end_date: string
+          id?: string
+          is_first_hajj?: boolean | null
+          leave_type_id?: string | null
+          medical_certificate_url?: string | null
+          payment_type?: string | null
+          reason?: string | null
+          relationship?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: string
+          total_days: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          duration_hours?: number | null
+          duration_type?: string
+          employee_id?: string | null
+          end_date?: string
+          id?: string
+          is_first_hajj?: boolean | null
+          leave_type_id?: string | null
+          medical_certificate_url?: string | null
+          payment_type?: string | null
+          reason?: string | null
+          relationship?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: string
+          total_days?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_employee_id_fkey"
+            columns: ["employee_id"]
             isOneToOne: false
             referencedRelation: "employee_directory"
             referencedColumns: ["id"]
@@ -644,162 +1513,691 @@ export type Database = {
         }
         Relationships: []
       }
-      password_reset_tokens: {
+      lifecycle_checklist_templates: {
         Row: {
-          created_at: string | null
-          expires_at: string
+          checklist_type: string
+          created_at: string
+          created_by: string | null
+          department: string | null
+          description: string | null
+          division: string | null
           id: string
-          token: string
-          used_at: string | null
-          user_id: string
+          is_active: boolean
+          name: string
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          expires_at: string
+          checklist_type: string
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description?: string | null
+          division?: string | null
           id?: string
-          token: string
-          used_at?: string | null
-          user_id: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          expires_at?: string
+          checklist_type?: string
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description?: string | null
+          division?: string | null
           id?: string
-          token?: string
-          used_at?: string | null
-          user_id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
         }
         Relationships: []
       }
-      payroll_records: {
+      lifecycle_template_tasks: {
         Row: {
-          allowances: number
+          category: string
           created_at: string
-          created_by: string | null
-          deductions_insurance: number
-          deductions_other: number
-          deductions_pension: number
-          deductions_tax: number
-          employee_id: string
-          fixed_salary: number
-          gross_pay: number
+          description: string | null
+          document_type: string | null
+          due_offset_days: number
+          id: string
+          owner_employee_id: string | null
+          owner_type: string
+          sort_order: number
+          template_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          document_type?: string | null
+          due_offset_days?: number
+          id?: string
+          owner_employee_id?: string | null
+          owner_type?: string
+          sort_order?: number
+          template_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          document_type?: string | null
+          due_offset_days?: number
+          id?: string
+          owner_employee_id?: string | null
+          owner_type?: string
+          sort_order?: number
+          template_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lifecycle_template_tasks_owner_employee_id_fkey"
+            columns: ["owner_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lifecycle_template_tasks_owner_employee_id_fkey"
+            columns: ["owner_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lifecycle_template_tasks_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "lifecycle_checklist_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_requests: {
+        Row: {
+          admin_comments: string | null
+          amount: number | null
+          attendance_id: string | null
+          created_at: string
+          date: string
+          day_type: string
+          employee_id: string
+          id: string
+          multiplier: number
+          overtime_hours: number
+          payroll_record_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          scheduled_hours: number
+          status: string
+          updated_at: string
+          worked_hours: number
+        }
+        Insert: {
+          admin_comments?: string | null
+          amount?: number | null
+          attendance_id?: string | null
+          created_at?: string
+          date: string
+          day_type: string
+          employee_id: string
+          id?: string
+          multiplier: number
+          overtime_hours: number
+          payroll_record_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scheduled_hours: number
+          status?: string
+          updated_at?: string
+          worked_hours: number
+        }
+        Update: {
+          admin_comments?: string | null
+          amount?: number | null
+          attendance_id?: string | null
+          created_at?: string
+          date?: string
+          day_type?: string
+          employee_id?: string
+          id?: string
+          multiplier?: number
+          overtime_hours?: number
+          payroll_record_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scheduled_hours?: number
+          status?: string
+          updated_at?: string
+          worked_hours?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overtime_requests_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_requests_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_requests_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_requests_payroll_record_id_fkey"
+            columns: ["payroll_record_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      password_reset_tokens: {
+        Row: {
+          created_at: string | null
+          expires_at: string
+          id: string
+          token: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          token: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          token?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payroll_records: {
+        Row: {
+          allowances: number
+          calculation_details: Json | null
+          created_at: string
+          created_by: string | null
+          deductions_attendance: number
+          deductions_insurance: number
+          deductions_other: number
+          deductions_pension: number
+          deductions_tax: number
+          deductions_unpaid_leave: number
+          employee_id: string
+          fixed_salary: number
+          gross_pay: number
+          id: string
+          net_pay: number
+          notes: string | null
+          overtime_pay: number
+          pay_period_end: string
+          pay_period_start: string
+          payment_date: string
+          payroll_run_id: string | null
+          payslip_pdf_url: string | null
+          status: string
+          total_deductions: number
+          updated_at: string
+          variable_salary: number
+        }
+        Insert: {
+          allowances?: number
+          calculation_details?: Json | null
+          created_at?: string
+          created_by?: string | null
+          deductions_attendance?: number
+          deductions_insurance?: number
+          deductions_other?: number
+          deductions_pension?: number
+          deductions_tax?: number
+          deductions_unpaid_leave?: number
+          employee_id: string
+          fixed_salary?: number
+          gross_pay?: number
+          id?: string
+          net_pay?: number
+          notes?: string | null
+          overtime_pay?: number
+          pay_period_end: string
+          pay_period_start: string
+          payment_date: string
+          payroll_run_id?: string | null
+          payslip_pdf_url?: string | null
+          status?: string
+          total_deductions?: number
+          updated_at?: string
+          variable_salary?: number
+        }
+        Update: {
+          allowances?: number
+          calculation_details?: Json | null
+          created_at?: string
+          created_by?: string | null
+          deductions_attendance?: number
+          deductions_insurance?: number
+          deductions_other?: number
+          deductions_pension?: number
+          deductions_tax?: number
+          deductions_unpaid_leave?: number
+          employee_id?: string
+          fixed_salary?: number
+          gross_pay?: number
+          id?: string
+          net_pay?: number
+          notes?: string | null
+          overtime_pay?: number
+          pay_period_end?: string
+          pay_period_start?: string
+          payment_date?: string
+          payroll_run_id?: string | null
+          payslip_pdf_url?: string | null
+          status?: string
+          total_deductions?: number
+          updated_at?: string
+          variable_salary?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_records_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_records_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_records_payroll_run_id_fkey"
+            columns: ["payroll_run_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_runs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          finalized_at: string | null
+          finalized_by: string | null
+          id: string
+          notes: string | null
+          pay_period_end: string
+          pay_period_start: string
+          payment_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          finalized_at?: string | null
+          finalized_by?: string | null
+          id?: string
+          notes?: string | null
+          pay_period_end: string
+          pay_period_start: string
+          payment_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          finalized_at?: string | null
+          finalized_by?: string | null
+          id?: string
+          notes?: string | null
+          pay_period_end?: string
+          pay_period_start?: string
+          payment_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          department: string | null
+          email: string
+          full_name: string
+          hire_date: string | null
+          id: string
+          phone: string | null
+          position: string | null
+          role: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          department?: string | null
+          email: string
+          full_name: string
+          hire_date?: string | null
+          id?: string
+          phone?: string | null
+          position?: string | null
+          role: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          department?: string | null
+          email?: string
+          full_name?: string
+          hire_date?: string | null
+          id?: string
+          phone?: string | null
+          position?: string | null
+          role?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      public_holidays: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          divisions: string[] | null
+          emirate: string | null
+          end_date: string | null
+          holiday_date: string
+          id: string
+          is_active: boolean
+          is_recurring: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          divisions?: string[] | null
+          emirate?: string | null
+          end_date?: string | null
+          holiday_date: string
+          id?: string
+          is_active?: boolean
+          is_recurring?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          divisions?: string[] | null
+          emirate?: string | null
+          end_date?: string | null
+          holiday_date?: string
+          id?: string
+          is_active?: boolean
+          is_recurring?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      request_approval_steps: {
+        Row: {
+          acted_at: string | null
+          acted_by: string | null
+          acted_by_employee_id: string | null
+          acted_on_behalf_of: string | null
+          approver_employee_id: string | null
+          approver_role: Database["public"]["Enums"]["app_role"] | null
+          approver_type: string
+          chain_id: string | null
+          comments: string | null
+          created_at: string
+          employee_id: string
+          id: string
+          label: string
+          request_id: string
+          request_type: string
+          status: string
+          step_order: number
+          updated_at: string
+        }
+        Insert: {
+          acted_at?: string | null
+          acted_by?: string | null
+          acted_by_employee_id?: string | null
+          acted_on_behalf_of?: string | null
+          approver_employee_id?: string | null
+          approver_role?: Database["public"]["Enums"]["app_role"] | null
+          approver_type: string
+          chain_id?: string | null
+          comments?: string | null
+          created_at?: string
+          employee_id: string
+          id?: string
+          label: string
+          request_id: string
+          request_type: string
+          status?: string
+          step_order: number
+          updated_at?: string
+        }
+        Update: {
+          acted_at?: string | null
+          acted_by?: string | null
+          acted_by_employee_id?: string | null
+          acted_on_behalf_of?: string | null
+          approver_employee_id?: string | null
+          approver_role?: Database["public"]["Enums"]["app_role"] | null
+          approver_type?: string
+          chain_id?: string | null
+          comments?: string | null
+          created_at?: string
+          employee_id?: string
+          id?: string
+          label?: string
+          request_id?: string
+          request_type?: string
+          status?: string
+          step_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_approval_steps_acted_by_employee_id_fkey"
+            columns: ["acted_by_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_acted_by_employee_id_fkey"
+            columns: ["acted_by_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_acted_on_behalf_of_fkey"
+            columns: ["acted_on_behalf_of"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_acted_on_behalf_of_fkey"
+            columns: ["acted_on_behalf_of"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_approver_employee_id_fkey"
+            columns: ["approver_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_approver_employee_id_fkey"
+            columns: ["approver_employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_approval_steps_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_assignments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          employee_id: string
           id: string
-          net_pay: number
           notes: string | null
-          pay_period_end: string
-          pay_period_start: string
-          payment_date: string
-          payslip_pdf_url: string | null
-          status: string
-          total_deductions: number
+          shift_date: string
+          shift_template_id: string | null
           updated_at: string
-          variable_salary: number
         }
         Insert: {
-          allowances?: number
           created_at?: string
           created_by?: string | null
-          deductions_insurance?: number
-          deductions_other?: number
-          deductions_pension?: number
-          deductions_tax?: number
           employee_id: string
-          fixed_salary?: number
-          gross_pay?: number
           id?: string
-          net_pay?: number
           notes?: string | null
-          pay_period_end: string
-          pay_period_start: string
-          payment_date: string
-          payslip_pdf_url?: string | null
-          status?: string
-          total_deductions?: number
+          shift_date: string
+          shift_template_id?: string | null
           updated_at?: string
-          variable_salary?: number
         }
         Update: {
-          allowances?: number
           created_at?: string
           created_by?: string | null
-          deductions_insurance?: number
-          deductions_other?: number
-          deductions_pension?: number
-          deductions_tax?: number
           employee_id?: string
-          fixed_salary?: number
-          gross_pay?: number
           id?: string
-          net_pay?: number
           notes?: string | null
-          pay_period_end?: string
-          pay_period_start?: string
-          payment_date?: string
-          payslip_pdf_url?: string | null
-          status?: string
-          total_deductions?: number
+          shift_date?: string
+          shift_template_id?: string | null
           updated_at?: string
-          variable_salary?: number
         }
         Relationships: [
           {
-            foreignKeyName: "payroll_records_employee_id_fkey"
+            foreignKeyName: "shift_assignments_employee_id_fkey"
             columns: ["employee_id"]
             isOneToOne: false
             referencedRelation: "employee_directory"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payroll_records_employee_id_fkey"
+            foreignKeyName: "shift_assignments_employee_id_fkey"
             columns: ["employee_id"]
             isOneToOne: false
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shift_assignments_shift_template_id_fkey"
+            columns: ["shift_template_id"]
+            isOneToOne: false
+            referencedRelation: "shift_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      shift_templates: {
         Row: {
-          avatar_url: string | null
-          created_at: string | null
-          department: string | null
-          email: string
-          full_name: string
-          hire_date: string | null
+          code: string
+          color: string
+          created_at: string
+          crosses_midnight: boolean | null
+          description: string | null
+          end_time: string
           id: string
-          phone: string | null
-          position: string | null
-          role: string
-          updated_at: string | null
-          user_id: string | null
+          is_active: boolean
+          minimum_hours: number
+          name: string
+          start_time: string
+          updated_at: string
         }
         Insert: {
-          avatar_url?: string | null
-          created_at?: string | null
-          department?: string | null
-          email: string
-          full_name: string
-          hire_date?: string | null
+          code: string
+          color?: string
+          created_at?: string
+          description?: string | null
+          end_time: string
           id?: string
-          phone?: string | null
-          position?: string | null
-          role: string
-          updated_at?: string | null
-          user_id?: string | null
+          is_active?: boolean
+          minimum_hours?: number
+          name: string
+          start_time: string
+          updated_at?: string
         }
         Update: {
-          avatar_url?: string | null
-          created_at?: string | null
-          department?: string | null
-          email?: string
-          full_name?: string
-          hire_date?: string | null
+          code?: string
+          color?: string
+          created_at?: string
+          description?: string | null
+          end_time?: string
           id?: string
-          phone?: string | null
-          position?: string | null
-          role?: string
-          updated_at?: string | null
-          user_id?: string | null
+          is_active?: boolean
+          minimum_hours?: number
+          name?: string
+          start_time?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -814,12 +2212,17 @@ export type Database = {
           id: string
           issue_date: string | null
           notes: string | null
-          notification_sent_30_days: boolean | null
-          notification_sent_7_days: boolean | null
-          notification_sent_90_days: boolean | null
+          previous_version_id: string | null
+          rejection_reason: string | null
+          renewal_in_progress: boolean
+          renewal_started_at: string | null
+          renewal_started_by: string | null
           status: string
           updated_at: string
           uploaded_by: string
+          verified_at: string | null
+          verified_by: string | null
+          version_number: number
         }
         Insert: {
           created_at?: string
@@ -831,12 +2234,17 @@ export type Database = {
           id?: string
           issue_date?: string | null
           notes?: string | null
-          notification_sent_30_days?: boolean | null
-          notification_sent_7_days?: boolean | null
-          notification_sent_90_days?: boolean | null
+          previous_version_id?: string | null
+          rejection_reason?: string | null
+          renewal_in_progress?: boolean
+          renewal_started_at?: string | null
+          renewal_started_by?: string | null
           status?: string
           updated_at?: string
           uploaded_by: string
+          verified_at?: string | null
+          verified_by?: string | null
+          version_number?: number
         }
         Update: {
           created_at?: string
@@ -848,12 +2256,17 @@ export type Database = {
           id?: string
           issue_date?: string | null
           notes?: string | null
-          notification_sent_30_days?: boolean | null
-          notification_sent_7_days?: boolean | null
-          notification_sent_90_days?: boolean | null
+          previous_version_id?: string | null
+          rejection_reason?: string | null
+          renewal_in_progress?: boolean
+          renewal_started_at?: string | null
+          renewal_started_by?: string | null
           status?: string
           updated_at?: string
           uploaded_by?: string
+          verified_at?: string | null
+          verified_by?: string | null
+          version_number?: number
         }
         Relationships: [
           {
@@ -870,8 +2283,51 @@ export type Database = {
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "staff_documents_previous_version_id_fkey"
+            columns: ["previous_version_id"]
+            isOneToOne: false
+            referencedRelation: "staff_documents"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      staffing_rules: {
+        Row: {
+          block_submission: boolean
+          created_at: string
+          created_by: string | null
+          department: string
+          division: string | null
+          id: string
+          is_active: boolean
+          minimum_present: number
+          updated_at: string
+        }
+        Insert: {
+          block_submission?: boolean
+          created_at?: string
+          created_by?: string | null
+          department: string
+          division?: string | null
+          id?: string
+          is_active?: boolean
+          minimum_present: number
+          updated_at?: string
+        }
+        Update: {
+          block_submission?: boolean
+          created_at?: string
+          created_by?: string | null
+          department?: string
+          division?: string | null
+          id?: string
+          is_active?: boolean
+          minimum_present?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       system_settings: {
         Row: {
           description: string | null
@@ -1068,6 +2524,31 @@ export type Database = {
       }
     }
     Functions: {
+      act_on_approval: {
+        Args: {
+          p_comments?: string
+          p_decision: string
+          p_request_id: string
+          p_request_type: string
+        }
+        Returns: string
+      }
+      act_on_leave_change: {
+        Args: { p_change_id: string; p_comments?: string; p_decision: string }
+        Returns: string
+      }
+      advance_request_approval: {
+        Args: { p_request_id: string; p_request_type: string }
+        Returns: boolean
+      }
+      apply_leave_request_change: {
+        Args: { p_change_id: string }
+        Returns: undefined
+      }
+      apply_overtime_to_payroll: {
+        Args: { p_payroll_record_id: string }
+        Returns: number
+      }
       auto_allocate_leave_balances: {
         Args: { p_year: number }
         Returns: undefined
@@ -1082,6 +2563,31 @@ export type Database = {
         }
         Returns: Json
       }
+      calculate_daily_overtime: {
+        Args: {
+          p_date: string
+          p_employee_id: string
+          p_worked_hours: number
+        }
+        Returns: {
+          day_type: string
+          multiplier: number
+          overtime_hours: number
+          scheduled_hours: number
+        }[]
+      }
+      calculate_gratuity: {
+        Args: { p_as_of?: string; p_employee_id: string }
+        Returns: Json
+      }
+      calculate_leave_days: {
+        Args: {
+          p_employee_id: string
+          p_end_date: string
+          p_start_date: string
+        }
+        Returns: number
+      }
       calculate_leave_entitlement: {
         Args: {
           p_employee_id: string
@@ -1090,6 +2596,44 @@ export type Database = {
         }
         Returns: number
       }
+      calculate_overtime_pay: {
+        Args: {
+          p_employee_id: string
+          p_end_date: string
+          p_fixed_salary: number
+          p_start_date: string
+        }
+        Returns: number
+      }
+      calculate_partial_leave_days: {
+        Args: {
+          p_date: string
+          p_duration_hours?: number
+          p_duration_type: string
+          p_employee_id: string
+        }
+        Returns: number
+      }
+      calculate_payroll_breakdown: {
+        Args: {
+          p_employee_id: string
+          p_end_date: string
+          p_start_date: string
+        }
+        Returns: Json
+      }
+      can_act_on_approval_step: {
+        Args: { p_step_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      can_review_leave_change: {
+        Args: { p_leave_request_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      create_final_settlement: {
+        Args: { p_employee_id: string; p_last_working_day: string }
+        Returns: string
+      }
       create_in_app_notification: {
         Args: {
           p_action_url?: string
@@ -1103,7 +2647,115 @@ export type Database = {
         }
         Returns: string
       }
+      finalize_payroll_run: { Args: { p_run_id: string }; Returns: number }
+      find_reporting_cycles: {
+        Args: never
+        Returns: {
+          employee_id: string
+          full_name: string
+          manager_id: string
+        }[]
+      }
+      generate_payroll_run: { Args: { p_run_id: string }; Returns: number }
+      get_active_delegate: {
+        Args: { p_date?: string; p_employee_id: string }
+        Returns: string
+      }
+      get_calendar_feed_token: {
+        Args: { p_feed_type: string; p_regenerate?: boolean }
+        Returns: string
+      }
+      get_delegating_employees: {
+        Args: { p_user_id: string }
+        Returns: string[]
+      }
+      get_document_versions: {
+        Args: { p_document_id: string }
+        Returns: {
+          created_at: string
+          document_name: string
+          expiry_date: string
+          file_url: string
+          id: string
+          issue_date: string
+          notes: string
+          status: string
+          uploaded_by: string
+          uploaded_by_name: string
+          version_number: number
+        }[]
+      }
       get_employee_id_from_user: { Args: { _user_id: string }; Returns: string }
+      get_employee_shift: {
+        Args: { p_date: string; p_employee_id: string }
+        Returns: {
+          end_at: string
+          is_working: boolean
+          minimum_hours: number
+          shift_name: string
+          shift_template_id: string
+          source: string
+          start_at: string
+        }[]
+      }
+      get_leave_coverage: {
+        Args: {
+          p_employee_id: string
+          p_end_date: string
+          p_exclude_request_id?: string
+          p_start_date: string
+        }
+        Returns: {
+          available: number
+          block_submission: boolean
+          coverage_date: string
+          department: string
+          minimum_present: number
+          on_leave: number
+          team_size: number
+        }[]
+      }
+      get_my_pending_approvals: {
+        Args: { p_request_type: string }
+        Returns: string[]
+      }
+      get_partial_leave_hours: {
+        Args: { p_date: string; p_employee_id: string }
+        Returns: number
+      }
+      get_public_holidays: {
+        Args: {
+          p_division?: string
+          p_end_date: string
+          p_start_date: string
+        }
+        Returns: {
+          emirate: string
+          holiday_date: string
+          holiday_id: string
+          name: string
+        }[]
+      }
+      get_team_leave_calendar: {
+        Args: {
+          p_department?: string
+          p_division?: string
+          p_end_date: string
+          p_start_date: string
+        }
+        Returns: {
+          department: string
+          division: string
+          duration_type: string
+          employee_id: string
+          end_date: string
+          entry_type: string
+          full_name: string
+          leave_type: string
+          start_date: string
+          status: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1111,15 +2763,114 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_biometric_attendance: {
+        Args: {
+          p_days: Json
+          p_dry_run?: boolean
+          p_replace_conflicts?: boolean
+        }
+        Returns: {
+          attendance_date: string
+          employee_id: string
+          existing_clock_in: string
+          existing_clock_out: string
+          outcome: string
+        }[]
+      }
+      instantiate_lifecycle_checklists: {
+        Args: {
+          p_anchor_date: string
+          p_checklist_type: string
+          p_employee_id: string
+          p_started_by?: string
+        }
+        Returns: number
+      }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_ip_allowed: { Args: { p_ip_address: unknown }; Returns: boolean }
       is_probation_completed: {
         Args: { p_employee_id: string }
         Returns: boolean
       }
+      is_request_approver: {
+        Args: { p_request_id: string; p_request_type: string; p_user_id: string }
+        Returns: boolean
+      }
+      move_checklist_anchor: {
+        Args: {
+          p_anchor_date: string
+          p_checklist_type: string
+          p_employee_id: string
+        }
+        Returns: undefined
+      }
+      notify_approval_step: { Args: { p_step_id: string }; Returns: undefined }
+      refresh_leave_balance: {
+        Args: { p_employee_id: string; p_leave_type_id: string; p_year: number }
+        Returns: undefined
+      }
+      request_leave_change: {
+        Args: {
+          p_change_type: string
+          p_leave_request_id: string
+          p_new_end_date?: string
+          p_new_start_date?: string
+          p_reason: string
+        }
+        Returns: {
+          change_type: string
+          created_at: string
+          employee_id: string
+          id: string
+          leave_request_id: string
+          new_end_date: string | null
+          new_start_date: string | null
+          new_total_days: number | null
+          original_end_date: string
+          original_start_date: string
+          original_total_days: number
+          reason: string
+          requested_by: string | null
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      review_overtime_request: {
+        Args: { p_comments?: string; p_decision: string; p_request_id: string }
+        Returns: undefined
+      }
+      review_staff_document: {
+        Args: { p_approve: boolean; p_document_id: string; p_reason?: string }
+        Returns: undefined
+      }
+      run_leave_accrual: {
+        Args: { p_as_of?: string; p_employee_id?: string }
+        Returns: number
+      }
+      send_checklist_task_reminders: { Args: never; Returns: number }
       send_notification_email: {
         Args: { p_html_content: string; p_subject: string; p_to_email: string }
         Returns: Json
       }
+      set_default_delegate: {
+        Args: { p_delegate_employee_id?: string }
+        Returns: undefined
+      }
+      start_employee_checklists: {
+        Args: {
+          p_anchor_date?: string
+          p_checklist_type: string
+          p_employee_id: string
+        }
+        Returns: number
+      }
+      update_checklist_task: {
+        Args: { p_notes?: string; p_status: string; p_task_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "staff" | "manager"
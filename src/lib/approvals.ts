@@ -0,0 +1,115 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ApprovalRequestType = 'leave' | 'exception';
+export type ApproverType = 'line_manager' | 'role' | 'employee';
+
+export interface RequestApprovalStep {
+  id: string;
+  request_id: string;
+  step_order: number;
+  label: string;
+  approver_type: ApproverType;
+  approver_role: 'admin' | 'manager' | 'staff' | null;
+  approver_employee_id: string | null;
+  status: 'waiting' | 'pending' | 'approved' | 'rejected' | 'skipped';
+  acted_at: string | null;
+  acted_by_employee_id: string | null;
+  // Set when a delegate acted for the step's approver
+  acted_on_behalf_of: string | null;
+  comments: string | null;
+  acted_by_name?: string;
+  on_behalf_of_name?: string;
+}
+
+export const APPROVER_TYPE_LABELS: Record<ApproverType, string> = {
+  line_manager: 'Line Manager',
+  role: 'Role',
+  employee: 'Specific Employee',
+};
+
+/**
+ * Fetch the approval steps of several requests
+ * @returns Map of request id to its steps in order (requests without a chain are absent)
+ */
+export async function fetchApprovalSteps(
+  requestType: ApprovalRequestType,
+  requestIds: string[]
+): Promise<Map<string, RequestApprovalStep[]>> {
+  const stepsByRequest = new Map<string, RequestApprovalStep[]>();
+  if (requestIds.length === 0) return stepsByRequest;
+
+  const { data, error } = await supabase
+    .from('request_approval_steps')
+    .select('id, request_id, step_order, label, approver_type, approver_role, approver_employee_id, status, acted_at, acted_by_employee_id, acted_on_behalf_of, comments')
+    .eq('request_type', requestType)
+    .in('request_id', requestIds)
+    .order('step_order', { ascending: true });
+
+  if (error) throw error;
+
+  const steps = (data || []) as RequestApprovalStep[];
+
+  // Names for the audit trail of steps that were acted on
+  const actorIds = [...new Set(steps.flatMap(step => [step.acted_by_employee_id, step.acted_on_behalf_of]).filter(Boolean))];
+  if (actorIds.length > 0) {
+    const { data: actors } = await supabase
+      .from('employees')
+      .select('id, full_name')
+      .in('id', actorIds);
+
+    const names = new Map((actors || []).map(actor => [actor.id, actor.full_name]));
+    steps.forEach(step => {
+      step.acted_by_name = names.get(step.acted_by_employee_id);
+      step.on_behalf_of_name = names.get(step.acted_on_behalf_of);
+    });
+  }
+
+  steps.forEach(step => {
+    const requestSteps = stepsByRequest.get(step.request_id) || [];
+    requestSteps.push(step);
+    stepsByRequest.set(step.request_id, requestSteps);
+  });
+
+  return stepsByRequest;
+}
+
+/**
+ * Ids of requests waiting for the signed-in user, either as the approver of the current
+ * step (or line manager, when there is no chain) or as the approver's active delegate
+ */
+export async function fetchMyPendingApprovals(requestType: ApprovalRequestType): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_my_pending_approvals', {
+    p_request_type: requestType,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Approve or reject a request at its current step
+ * @returns The request's resulting status: 'pending' while later steps remain, otherwise the final decision
+ */
+export async function actOnApproval(
+  requestType: ApprovalRequestType,
+  requestId: string,
+  decision: 'approved' | 'rejected',
+  comments?: string
+): Promise<'pending' | 'approved' | 'rejected'> {
+  const { data, error } = await supabase.rpc('act_on_approval', {
+    p_request_type: requestType,
+    p_request_id: requestId,
+    p_decision: decision,
+    p_comments: comments || null,
+  });
+
+  if (error) throw error;
+  return data as 'pending' | 'approved' | 'rejected';
+}
+
+/**
+ * The step a pending request is currently waiting on
+ */
+export function getCurrentStep(steps: RequestApprovalStep[] | undefined): RequestApprovalStep | undefined {
+  return steps?.find(step => step.status === 'pending');
+}
@@ -0,0 +1,26 @@
+/**
+ * Attendance rules, shared with the edge functions so the app and the emails classify days alike
+ * The implementation lives in supabase/functions/_shared/attendanceRules.ts
+ */
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AttendanceRulesConfig,
+  AttendanceRulesSetting,
+  attendanceRulesFromSetting
+} from '../../supabase/functions/_shared/attendanceRules.ts';
+
+export * from '../../supabase/functions/_shared/attendanceRules.ts';
+
+/**
+ * Fetch the grace windows, lateness tiers and monthly late allowance (defaults when unset)
+ */
+export async function fetchAttendanceRules(): Promise<AttendanceRulesConfig> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', 'attendance_rules')
+    .maybeSingle();
+
+  if (error) throw error;
+  return attendanceRulesFromSetting(data?.setting_value as Partial<AttendanceRulesSetting> | null);
+}
@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface AttendanceSession {
+  id: string;
+  attendance_id: string;
+  session_type: 'work' | 'break';
+  start_time: string;
+  end_time: string | null;
+}
+
+/**
+ * Fetch the punch log (work sessions and breaks) for one attendance day, oldest first
+ * @param attendanceId - attendance.id of the day
+ */
+export async function fetchAttendanceSessions(attendanceId: string): Promise<AttendanceSession[]> {
+  const { data, error } = await supabase
+    .from('attendance_sessions')
+    .select('id, attendance_id, session_type, start_time, end_time')
+    .eq('attendance_id', attendanceId)
+    .order('start_time', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(session => ({
+    ...session,
+    session_type: session.session_type as AttendanceSession['session_type'],
+  }));
+}
+
+/**
+ * Length of a session in minutes; open sessions run until now
+ */
+export function getSessionMinutes(session: AttendanceSession): number {
+  const end = session.end_time ? new Date(session.end_time) : new Date();
+  return Math.max(0, Math.round((end.getTime() - new Date(session.start_time).getTime()) / 60000));
+}
@@ -0,0 +1,419 @@
+import { fromZonedTime } from 'date-fns-tz';
+import { isValid, parse } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { ImportSheet } from '@/lib/employeeImport';
+import { formatInGST, GST_TIMEZONE } from '@/lib/timezone';
+
+// What a punch means; 'unknown' punches alternate between clock-in and clock-out
+export type PunchKind = 'in' | 'out' | 'break_start' | 'break_end' | 'unknown';
+
+export type BiometricImportOutcome = 'created' | 'duplicate' | 'conflict' | 'replaced';
+
+export interface PunchColumns {
+  userId: number;
+  // Either a combined date-time column, or separate date and time columns
+  dateTime?: number;
+  date?: number;
+  time?: number;
+  state?: number;
+  name?: number;
+}
+
+export interface Punch {
+  rowNumber: number;
+  deviceUserId: string;
+  deviceName: string;
+  time: Date;
+  kind: PunchKind;
+}
+
+export interface PunchIssue {
+  rowNumber: number | null;
+  deviceUserId: string;
+  message: string;
+}
+
+export interface ImportSession {
+  session_type: 'work' | 'break';
+  start_time: string;
+  end_time: string | null;
+}
+
+export interface AttendanceDay {
+  employee_id: string;
+  employee_name: string;
+  staff_id: string;
+  date: string;
+  sessions: ImportSession[];
+  punchCount: number;
+  total_hours: number | null;
+  break_minutes: number;
+  warnings: string[];
+}
+
+export interface UnmatchedDeviceUser {
+  deviceUserId: string;
+  deviceName: string;
+  punchCount: number;
+}
+
+export interface ParsedPunchLog {
+  days: AttendanceDay[];
+  issues: PunchIssue[];
+  // Device users with no employee of that staff ID
+  unmatchedUsers: UnmatchedDeviceUser[];
+  duplicatePunches: number;
+}
+
+export interface BiometricDayOutcome {
+  employee_id: string;
+  attendance_date: string;
+  outcome: BiometricImportOutcome;
+  existing_clock_in: string | null;
+  existing_clock_out: string | null;
+}
+
+interface StaffMember {
+  id: string;
+  staff_id: string | null;
+  full_name: string;
+}
+
+// Header names used by ZKTeco BioTime, ZKTime and the standalone terminals' USB exports
+const COLUMN_ALIASES: Record<keyof PunchColumns, string[]> = {
+  userId: ['id', 'ac-no.', 'ac-no', 'ac no', 'user id', 'userid', 'enroll number', 'enrollnumber', 'emp no.', 'emp no', 'personnel id', 'badge number', 'staff id'],
+  dateTime: ['date time', 'datetime', 'date/time', 'check time', 'checktime', 'punch time', 'verify time'],
+  date: ['date', 'punch date'],
+  time: ['time'],
+  state: ['punch state', 'state', 'check type', 'checktype', 'in/out', 'status', 'att state'],
+  name: ['full name', 'name', 'employee name', 'first name'],
+};
+
+const STATE_KINDS: [RegExp, PunchKind][] = [
+  [/^(check[\s-]?in|c\/in|in|overtime in|ot in|i|0|4)$/, 'in'],
+  [/^(check[\s-]?out|c\/out|overtime out|ot out|o|1|5)$/, 'out'],
+  [/^(break[\s-]?out|out|2)$/, 'break_start'],
+  [/^(break[\s-]?in|out back|3)$/, 'break_end'],
+];
+
+// Repeated scans of the same finger within this window count as one punch
+const DUPLICATE_PUNCH_SECONDS = 60;
+// A clock-out this soon after an open clock-in closes it even past midnight (overnight shifts)
+const MAX_SHIFT_HOURS = 16;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Terminals drop leading zeros, so "32" on the device is staff ID "0032"
+const normalizeUserId = (value: string) => (/^\d+$/.test(value) ? String(Number(value)) : value.trim().toLowerCase());
+
+const toDateKey = (date: Date) => formatInGST(date, 'yyyy-MM-dd');
+
+const parsePunchKind = (state: string): PunchKind => {
+  const normalized = state.trim().toLowerCase();
+  return STATE_KINDS.find(([pattern]) => pattern.test(normalized))?.[1] ?? 'unknown';
+};
+
+const parseDate = (value: string): string | null => {
+  for (const pattern of ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'yyyy/MM/dd', 'MM/dd/yyyy']) {
+    const date = parse(value, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1990) {
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    }
+  }
+  return null;
+};
+
+const parseTime = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || Number(match[2]) > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}:${match[3] || '00'}`;
+};
+
+// Device clocks are set to UAE time
+const parsePunchTime = (date: string, time: string): Date | null => {
+  const day = parseDate(date);
+  const clock = parseTime(time);
+  if (!day || !clock) return null;
+  return fromZonedTime(`${day}T${clock}`, GST_TIMEZONE);
+};
+
+/**
+ * Find the header row and the punch columns of a device export
+ * Exports often start with a title block, so the first row that names a user ID column and
+ * a time column is taken as the header.
+ * @returns The header row index and columns, or null when the sheet is not a punch log
+ */
+export function detectPunchColumns(cells: string[][]): { headerRow: number; columns: PunchColumns } | null {
+  for (let rowIndex = 0; rowIndex < Math.min(cells.length, 20); rowIndex++) {
+    const headers = cells[rowIndex].map(normalizeHeader);
+    // Aliases are in order of preference, e.g. "Full Name" over "First Name"
+    const find = (field: keyof PunchColumns) =>
+      COLUMN_ALIASES[field].map(alias => headers.indexOf(alias)).find(index => index >= 0);
+
+    const userId = find('userId');
+    const dateTime = find('dateTime');
+    const date = find('date');
+    const time = find('time');
+    if (userId === undefined || (dateTime === undefined && time === undefined)) continue;
+
+    // Without a date column the time column holds the full date and time
+    const combined = dateTime ?? (date === undefined ? time : undefined);
+    return {
+      headerRow: rowIndex,
+      columns: {
+        userId,
+        dateTime: combined,
+        date: combined === undefined ? date : undefined,
+        time: combined === undefined ? time : undefined,
+        state: find('state'),
+        name: find('name'),
+      },
+    };
+  }
+  return null;
+}
+
+/**
+ * Read punches from the sheet below its header row
+ * Rows that cannot be read are reported as issues rather than failing the file.
+ */
+export function readPunches(cells: string[][], headerRow: number, columns: PunchColumns): { punches: Punch[]; issues: PunchIssue[] } {
+  const punches: Punch[] = [];
+  const issues: PunchIssue[] = [];
+
+  cells.slice(headerRow + 1).forEach((row, index) => {
+    const rowNumber = headerRow + index + 2;
+    const value = (column?: number) => (column === undefined ? '' : (row[column] || '').trim());
+    const deviceUserId = value(columns.userId);
+    if (!deviceUserId && row.every(cell => !cell)) return;
+
+    if (!deviceUserId) {
+      issues.push({ rowNumber, deviceUserId: '', message: 'No user ID' });
+      return;
+    }
+
+    let time: Date | null;
+    if (columns.dateTime !== undefined) {
+      const [datePart, ...timeParts] = value(columns.dateTime).split(/[\sT]+/);
+      time = parsePunchTime(datePart, timeParts.join(' '));
+    } else {
+      time = parsePunchTime(value(columns.date), value(columns.time));
+    }
+
+    if (!time) {
+      issues.push({ rowNumber, deviceUserId, message: 'Date or time could not be read' });
+      return;
+    }
+
+    punches.push({
+      rowNumber,
+      deviceUserId,
+      deviceName: value(columns.name),
+      time,
+      kind: columns.state === undefined ? 'unknown' : parsePunchKind(value(columns.state)),
+    });
+  });
+
+  return { punches, issues };
+}
+
+const sessionMinutes = (session: ImportSession) =>
+  session.end_time ? (new Date(session.end_time).getTime() - new Date(session.start_time).getTime()) / 60000 : 0;
+
+/**
+ * Collapse one employee's punches into attendance days of work sessions and breaks
+ * Punches with a state follow it; punches without one alternate between clock-in and
+ * clock-out within the day. Totals mirror calculate_attendance_hours in the database.
+ */
+export function collapsePunches(employee: StaffMember, punches: Punch[]): { days: AttendanceDay[]; issues: PunchIssue[] } {
+  const issues: PunchIssue[] = [];
+  const days = new Map<string, AttendanceDay>();
+  const sorted = [...punches].sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  let day: AttendanceDay | null = null;
+  let openWork: ImportSession | null = null;
+  let openBreak: ImportSession | null = null;
+
+  const startDay = (punch: Punch) => {
+    const date = toDateKey(punch.time);
+    if (!days.has(date)) {
+      days.set(date, {
+        employee_id: employee.id,
+        employee_name: employee.full_name,
+        staff_id: employee.staff_id || '',
+        date,
+        sessions: [],
+        punchCount: 0,
+        total_hours: null,
+        break_minutes: 0,
+        warnings: [],
+      });
+    }
+    return days.get(date)!;
+  };
+
+  for (const punch of sorted) {
+    const iso = punch.time.toISOString();
+    const withinShift = openWork && (punch.time.getTime() - new Date(openWork.start_time).getTime()) / 3600000 <= MAX_SHIFT_HOURS;
+
+    // A punch on a new day starts a new day unless it closes an overnight shift
+    if (!day || (day.date !== toDateKey(punch.time) && !(withinShift && punch.kind !== 'in' && punch.kind !== 'break_start'))) {
+      if (openWork && day) day.warnings.push('No clock-out');
+      if (openBreak && day) {
+        day.sessions = day.sessions.filter(s => s !== openBreak);
+        day.warnings.push('Break without an end was dropped');
+      }
+      openWork = null;
+      openBreak = null;
+      day = startDay(punch);
+    }
+    day.punchCount++;
+
+    const kind = punch.kind === 'unknown' ? (openWork ? 'out' : 'in') : punch.kind;
+
+    if (kind === 'in') {
+      if (openWork) {
+        issues.push({ rowNumber: punch.rowNumber, deviceUserId: punch.deviceUserId, message: 'Clock-in while already clocked in was ignored' });
+        continue;
+      }
+      openWork = { session_type: 'work', start_time: iso, end_time: null };
+      day.sessions.push(openWork);
+    } else if (kind === 'out') {
+      if (openBreak) {
+        openBreak.end_time = iso;
+        openBreak = null;
+      }
+      if (openWork) {
+        openWork.end_time = iso;
+        openWork = null;
+      } else {
+        // Clocking out again moves the end of the last session, as in attendance-clock
+        const lastWork = [...day.sessions].reverse().find(s => s.session_type === 'work');
+        if (lastWork) {
+          lastWork.end_time = iso;
+        } else {
+          issues.push({ rowNumber: punch.rowNumber, deviceUserId: punch.deviceUserId, message: 'Clock-out without a clock-in was ignored' });
+        }
+      }
+    } else if (kind === 'break_start') {
+      if (!openWork || openBreak) {
+        issues.push({ rowNumber: punch.rowNumber, deviceUserId: punch.deviceUserId, message: 'Break start outside a work session was ignored' });
+        continue;
+      }
+      openBreak = { session_type: 'break', start_time: iso, end_time: null };
+      day.sessions.push(openBreak);
+    } else if (kind === 'break_end') {
+      if (!openBreak) {
+        issues.push({ rowNumber: punch.rowNumber, deviceUserId: punch.deviceUserId, message: 'Break end without a break start was ignored' });
+        continue;
+      }
+      openBreak.end_time = iso;
+      openBreak = null;
+    }
+  }
+
+  if (day && openWork) day.warnings.push('No clock-out');
+  if (day && openBreak) {
+    const dropped = openBreak;
+    day.sessions = day.sessions.filter(s => s !== dropped);
+    day.warnings.push('Break without an end was dropped');
+  }
+
+  const result = [...days.values()].filter(d => d.sessions.some(s => s.session_type === 'work'));
+  for (const attendanceDay of result) {
+    const work = attendanceDay.sessions.filter(s => s.session_type === 'work');
+    const breaks = attendanceDay.sessions.filter(s => s.session_type === 'break' && s.end_time);
+    attendanceDay.break_minutes = Math.round(breaks.reduce((sum, s) => sum + sessionMinutes(s), 0));
+    attendanceDay.total_hours = work.some(s => !s.end_time)
+      ? null
+      : Math.max(work.reduce((sum, s) => sum + sessionMinutes(s), 0) - attendanceDay.break_minutes, 0) / 60;
+  }
+
+  return { days: result, issues };
+}
+
+/**
+ * Turn a device export into attendance days, matching device user IDs to employees.staff_id
+ */
+export async function parsePunchLog(sheet: ImportSheet): Promise<ParsedPunchLog> {
+  const cells = [sheet.headers, ...sheet.rows];
+  const detected = detectPunchColumns(cells);
+  if (!detected) {
+    throw new Error('No punch log found. The sheet needs a user ID column (such as "ID" or "AC-No.") and a time column.');
+  }
+
+  const { data: employees, error } = await supabase
+    .from('employees')
+    .select('id, staff_id, full_name')
+    .not('staff_id', 'is', null);
+
+  if (error) throw error;
+
+  const employeesByUserId = new Map((employees || []).map(e => [normalizeUserId(e.staff_id!), e]));
+  const { punches, issues } = readPunches(cells, detected.headerRow, detected.columns);
+
+  // Drop repeated scans before collapsing
+  const punchesByUser = new Map<string, Punch[]>();
+  let duplicatePunches = 0;
+  for (const punch of [...punches].sort((a, b) => a.time.getTime() - b.time.getTime())) {
+    const key = normalizeUserId(punch.deviceUserId);
+    const userPunches = punchesByUser.get(key) || [];
+    const previous = userPunches[userPunches.length - 1];
+    if (previous && (punch.time.getTime() - previous.time.getTime()) / 1000 < DUPLICATE_PUNCH_SECONDS && (previous.kind === punch.kind || punch.kind === 'unknown')) {
+      duplicatePunches++;
+      continue;
+    }
+    punchesByUser.set(key, [...userPunches, punch]);
+  }
+
+  const days: AttendanceDay[] = [];
+  const unmatchedUsers: UnmatchedDeviceUser[] = [];
+  for (const [key, userPunches] of punchesByUser) {
+    const employee = employeesByUserId.get(key);
+    if (!employee) {
+      unmatchedUsers.push({
+        deviceUserId: userPunches[0].deviceUserId,
+        deviceName: userPunches[0].deviceName,
+        punchCount: userPunches.length,
+      });
+      continue;
+    }
+    const collapsed = collapsePunches(employee, userPunches);
+    days.push(...collapsed.days);
+    issues.push(...collapsed.issues);
+  }
+
+  days.sort((a, b) => a.date.localeCompare(b.date) || a.employee_name.localeCompare(b.employee_name));
+  return { days, issues, unmatchedUsers, duplicatePunches };
+}
+
+/**
+ * Compare the days with existing attendance (dry run) or save them
+ * Saving happens in one transaction, so a failure leaves attendance untouched.
+ * @param replaceConflicts - Replace the punch log of days that already have different punches
+ */
+export async function importBiometricAttendance(
+  days: AttendanceDay[],
+  dryRun: boolean,
+  replaceConflicts: boolean
+): Promise<BiometricDayOutcome[]> {
+  const { data, error } = await supabase.rpc('import_biometric_attendance', {
+    p_days: days.map(day => ({
+      employee_id: day.employee_id,
+      date: day.date,
+      sessions: day.sessions.map(s => ({ session_type: s.session_type, start_time: s.start_time, end_time: s.end_time })),
+    })),
+    p_dry_run: dryRun,
+    p_replace_conflicts: replaceConflicts,
+  });
+
+  if (error) throw error;
+  return (data || []) as BiometricDayOutcome[];
+}
+
+export const getDayKey = (employeeId: string, date: string) => `${employeeId}:${date}`;
@@ -0,0 +1,25 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Same project as src/integrations/supabase/client.ts, which is generated and keeps its URL private
+const SUPABASE_URL = 'https://ixblicchtdnqzeyrfqhi.supabase.co';
+
+export type CalendarFeedType = 'personal' | 'team';
+
+/**
+ * Subscription URL of the current user's calendar feed, created on first use
+ * @param regenerate - Replace the secret token; calendars subscribed to the old URL stop updating
+ */
+export async function getCalendarFeedUrl(feedType: CalendarFeedType, regenerate = false): Promise<string> {
+  const { data: token, error } = await supabase.rpc('get_calendar_feed_token', {
+    p_feed_type: feedType,
+    p_regenerate: regenerate,
+  });
+
+  if (error) throw error;
+  return `${SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
+
+// Opens the URL in the desktop calendar app as a subscription rather than a one-off import
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
@@ -0,0 +1,616 @@
+import readXlsxFile from 'read-excel-file';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { isValid, parse } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { checkReportingLine, OrgEmployee, setEmployeeManager } from '@/lib/orgChart';
+import { todayInGST } from '@/lib/timezone';
+
+export type ImportField =
+  | 'employee_id'
+  | 'staff_id'
+  | 'full_name'
+  | 'email'
+  | 'role'
+  | 'division'
+  | 'department'
+  | 'position'
+  | 'hire_date'
+  | 'status'
+  | 'manager'
+  | 'start_time'
+  | 'end_time'
+  | 'working_days'
+  | 'minimum_daily_hours';
+
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'employee_id', label: 'Employee ID', aliases: ['employee id', 'emp id'] },
+  { field: 'staff_id', label: 'Staff ID', aliases: ['staff id', 'staff no', 'staff number'] },
+  { field: 'full_name', label: 'Full Name', aliases: ['full name', 'name', 'employee name'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'email address', 'e-mail'] },
+  { field: 'role', label: 'Role', aliases: ['role', 'access role'] },
+  { field: 'division', label: 'Division', aliases: ['division'] },
+  { field: 'department', label: 'Department', aliases: ['department', 'dept'] },
+  { field: 'position', label: 'Position', aliases: ['position', 'job title', 'title', 'designation'] },
+  { field: 'hire_date', label: 'Hire Date', aliases: ['hire date', 'joining date', 'date of joining', 'start date'] },
+  { field: 'status', label: 'Status', aliases: ['status'] },
+  { field: 'manager', label: 'Manager', aliases: ['manager', 'line manager', 'reports to', 'manager id', 'manager email'] },
+  { field: 'start_time', label: 'Shift Start', aliases: ['shift start', 'start time', 'work start'] },
+  { field: 'end_time', label: 'Shift End', aliases: ['shift end', 'end time', 'work end'] },
+  { field: 'working_days', label: 'Working Days', aliases: ['working days', 'work days', 'days'] },
+  { field: 'minimum_daily_hours', label: 'Minimum Daily Hours', aliases: ['minimum daily hours', 'min hours', 'daily hours'] },
+];
+
+// Invite-user needs these; updates keep the current value for any blank cell
+const REQUIRED_FOR_INVITE: ImportField[] = ['staff_id', 'full_name', 'email', 'division', 'department', 'position'];
+
+const ROLES = ['admin', 'manager', 'staff'];
+const STATUSES = ['active', 'inactive'];
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+// Matches the default in WorkScheduleManagement
+const DEFAULT_WORKING_DAYS = WEEKDAYS.slice(0, 6);
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ExistingEmployee {
+  id: string;
+  user_id: string | null;
+  employee_id: string;
+  staff_id: string | null;
+  full_name: string;
+  email: string;
+  division: string | null;
+  department: string;
+  position: string;
+  hire_date: string;
+  status: string;
+  manager_id: string | null;
+  role: string;
+  schedule: ExistingSchedule | null;
+}
+
+interface ExistingSchedule {
+  id: string;
+  start_time: string;
+  end_time: string;
+  working_days: string[] | null;
+  minimum_daily_hours: number;
+}
+
+export interface ScheduleValues {
+  start_time: string;
+  end_time: string;
+  working_days: string[];
+  minimum_daily_hours: number;
+}
+
+export interface ValidatedImportRow {
+  // Spreadsheet row number, counting the header as row 1
+  rowNumber: number;
+  action: 'invite' | 'update';
+  existing: ExistingEmployee | null;
+  // Values to save, with blanks already filled from the existing record
+  values: {
+    staff_id: string;
+    full_name: string;
+    email: string;
+    role: string;
+    division: string;
+    department: string;
+    position: string;
+    hire_date: string;
+    status: string;
+  };
+  // employees.id, or the row number of a new hire in the same file; undefined keeps the current manager
+  manager?: { employeeId: string } | { rowNumber: number };
+  schedule: ScheduleValues | null;
+  errors: string[];
+}
+
+export interface ImportResult {
+  rowNumber: number;
+  action: 'invite' | 'update';
+  full_name: string;
+  email: string;
+  employee_id: string | null;
+  status: 'success' | 'partial' | 'failed' | 'skipped';
+  message: string;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  // Excel date and time cells arrive as UTC dates holding the wall-clock value
+  if (cell instanceof Date) {
+    const [date, time] = cell.toISOString().split(/[T.]/);
+    // Time-only cells fall on Excel's 1899-12-30 epoch
+    if (cell.getUTCFullYear() < 1901) return time;
+    return time === '00:00:00' ? date : `${date} ${time}`;
+  }
+  return String(cell).trim();
+};
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Read the first sheet of an .xlsx file, or a .csv file
+ * Rows with no values at all are dropped.
+ */
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  let cells: string[][];
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    // Excel prefixes UTF-8 CSV exports with a byte order mark
+    cells = parseCsv((await file.text()).replace(/^\uFEFF/, '')).map(row => row.map(cellToString));
+  } else {
+    cells = (await readXlsxFile(file)).map(row => row.map(cellToString));
+  }
+
+  const [headers = [], ...rows] = cells;
+  return {
+    headers,
+    rows: rows.filter(row => row.some(value => value !== '')),
+  };
+}
+
+/**
+ * Match spreadsheet headers to employee fields by name
+ */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ImportColumnMapping = {};
+  for (const { field, label, aliases } of IMPORT_FIELDS) {
+    const index = normalized.findIndex(header => header === normalizeHeader(label) || aliases.includes(header));
+    if (index >= 0) mapping[field] = index;
+  }
+  return mapping;
+}
+
+/**
+ * Employees with their role and active work schedule, used to validate and merge import rows
+ */
+export async function fetchExistingEmployees(): Promise<ExistingEmployee[]> {
+  const [employeesResult, rolesResult, schedulesResult] = await Promise.all([
+    supabase
+      .from('employees')
+      .select('id, user_id, employee_id, staff_id, full_name, email, division, department, position, hire_date, status, manager_id')
+      .neq('status', 'deleted'),
+    supabase.from('user_roles').select('user_id, role'),
+    supabase
+      .from('work_schedules')
+      .select('id, employee_id, start_time, end_time, working_days, minimum_daily_hours')
+      .eq('is_active', true),
+  ]);
+
+  if (employeesResult.error) throw employeesResult.error;
+  if (rolesResult.error) throw rolesResult.error;
+  if (schedulesResult.error) throw schedulesResult.error;
+
+  const roleByUser = new Map((rolesResult.data || []).map(r => [r.user_id, r.role as string]));
+  const scheduleByEmployee = new Map((schedulesResult.data || []).map(s => [s.employee_id, s]));
+
+  return (employeesResult.data || []).map(employee => ({
+    ...employee,
+    role: (employee.user_id && roleByUser.get(employee.user_id)) || 'staff',
+    schedule: scheduleByEmployee.get(employee.id) || null,
+  }));
+}
+
+const normalizeStaffId = (value: string) => (/^\d{1,4}$/.test(value) ? value.padStart(4, '0') : value);
+
+const parseImportDate = (value: string): string | null => {
+  for (const pattern of ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy']) {
+    const date = parse(value, pattern, new Date());
+    if (isValid(date)) {
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    }
+  }
+  return null;
+};
+
+const parseImportTime = (value: string): string | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+const parseWorkingDays = (value: string): string[] | null => {
+  const days = value.split(/[,;/]+/).map(day => day.trim().toLowerCase()).filter(Boolean);
+  const matched = days.map(day => WEEKDAYS.find(weekday => weekday.toLowerCase().startsWith(day.slice(0, 3))));
+  if (matched.length === 0 || matched.some(day => !day)) return null;
+  return WEEKDAYS.filter(weekday => matched.includes(weekday));
+};
+
+/**
+ * Check every row and decide whether it invites a new user or updates an existing one
+ * Rows with an Employee ID update that employee; rows without one are invited. Errors are
+ * collected per row so the whole file can be reviewed before anything is saved.
+ */
+export function validateImportRows(
+  sheet: ImportSheet,
+  mapping: ImportColumnMapping,
+  existingEmployees: ExistingEmployee[]
+): ValidatedImportRow[] {
+  const byEmployeeId = new Map(existingEmployees.map(e => [e.employee_id.toLowerCase(), e]));
+  const byStaffId = new Map(existingEmployees.filter(e => e.staff_id).map(e => [e.staff_id!, e]));
+  const byEmail = new Map(existingEmployees.map(e => [e.email.toLowerCase(), e]));
+  const today = todayInGST();
+
+  const cell = (row: string[], field: ImportField) =>
+    mapping[field] === undefined ? '' : (row[mapping[field]!] || '').trim();
+
+  const validated: ValidatedImportRow[] = sheet.rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const employeeId = cell(row, 'employee_id');
+    const existing = employeeId ? byEmployeeId.get(employeeId.toLowerCase()) || null : null;
+
+    if (employeeId && !existing) {
+      errors.push(`No employee with Employee ID ${employeeId}`);
+    }
+
+    if (!employeeId) {
+      for (const field of REQUIRED_FOR_INVITE) {
+        if (!cell(row, field)) {
+          errors.push(`${IMPORT_FIELDS.find(f => f.field === field)!.label} is required for new employees`);
+        }
+      }
+    }
+
+    const staffId = normalizeStaffId(cell(row, 'staff_id')) || existing?.staff_id || '';
+    if (staffId && !/^\d{4}$/.test(staffId)) {
+      errors.push('Staff ID must be 4 digits (e.g., 0032)');
+    } else if (staffId && byStaffId.has(staffId) && byStaffId.get(staffId)!.id !== existing?.id) {
+      errors.push(`Staff ID ${staffId} is already used by ${byStaffId.get(staffId)!.full_name}`);
+    }
+
+    const email = (cell(row, 'email') || existing?.email || '').toLowerCase();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.push(`${email} is not a valid email address`);
+    } else if (email && byEmail.has(email) && byEmail.get(email)!.id !== existing?.id) {
+      errors.push(
+        existing
+          ? `${email} already belongs to ${byEmail.get(email)!.full_name}`
+          : `${email} already belongs to ${byEmail.get(email)!.full_name}; add their Employee ID to update them`
+      );
+    }
+
+    const role = cell(row, 'role').toLowerCase() || existing?.role || 'staff';
+    if (!ROLES.includes(role)) {
+      errors.push(`Role must be one of ${ROLES.join(', ')}`);
+    }
+
+    let hireDate = existing?.hire_date || today;
+    if (cell(row, 'hire_date')) {
+      const parsed = parseImportDate(cell(row, 'hire_date'));
+      if (!parsed) {
+        errors.push('Hire date must be YYYY-MM-DD or DD/MM/YYYY');
+      } else if (parsed > today) {
+        errors.push('Hire date cannot be in the future');
+      } else {
+        hireDate = parsed;
+      }
+    }
+
+    const status = cell(row, 'status').toLowerCase() || existing?.status || 'active';
+    if (!STATUSES.includes(status)) {
+      errors.push(`Status must be one of ${STATUSES.join(', ')}`);
+    } else if (!existing && status !== 'active') {
+      errors.push('New employees are always invited as active');
+    }
+
+    let schedule: ScheduleValues | null = null;
+    const scheduleCells = (['start_time', 'end_time', 'working_days'] as ImportField[]).map(f => cell(row, f));
+    if (scheduleCells.some(Boolean)) {
+      const [startCell, endCell, daysCell, hoursCell] = scheduleCells;
+      const startTime = startCell ? parseImportTime(startCell) : existing?.schedule?.start_time.slice(0, 5) ?? null;
+      const endTime = endCell ? parseImportTime(endCell) : existing?.schedule?.end_time.slice(0, 5) ?? null;
+      const workingDays = daysCell ? parseWorkingDays(daysCell) : existing?.schedule?.working_days || DEFAULT_WORKING_DAYS;
+      const minimumHours = hoursCell ? Number(hoursCell) : existing?.schedule?.minimum_daily_hours ?? 8;
+
+      if (!startTime || !endTime) {
+        errors.push('Shift start and end must be HH:MM');
+      } else if (startTime >= endTime) {
+        errors.push('Shift end must be after shift start');
+      }
+      if (!workingDays) {
+        errors.push('Working days must be day names separated by commas (e.g., Monday, Tuesday)');
+      }
+      if (Number.isNaN(minimumHours) || minimumHours <= 0 || minimumHours > 24) {
+        errors.push('Minimum daily hours must be between 0 and 24');
+      }
+
+      if (startTime && endTime && workingDays) {
+        schedule = { start_time: startTime, end_time: endTime, working_days: workingDays, minimum_daily_hours: minimumHours };
+      }
+    }
+
+    return {
+      rowNumber,
+      action: existing || employeeId ? 'update' : 'invite',
+      existing,
+      values: {
+        staff_id: staffId,
+        full_name: cell(row, 'full_name') || existing?.full_name || '',
+        email,
+        role,
+        division: cell(row, 'division') || existing?.division || '',
+        department: cell(row, 'department') || existing?.department || '',
+        position: cell(row, 'position') || existing?.position || '',
+        hire_date: hireDate,
+        status,
+      },
+      schedule,
+      errors,
+    };
+  });
+
+  // Staff IDs and emails must also be unique within the file
+  for (const field of ['staff_id', 'email'] as const) {
+    const seen = new Map<string, number>();
+    for (const row of validated) {
+      const value = row.values[field];
+      if (!value) continue;
+      if (seen.has(value)) {
+        row.errors.push(`${field === 'email' ? 'Email' : 'Staff ID'} ${value} is also on row ${seen.get(value)}`);
+      } else {
+        seen.set(value, row.rowNumber);
+      }
+    }
+  }
+
+  // Managers can be existing employees or new hires further up or down the file
+  validated.forEach((row, index) => {
+    const reference = cell(sheet.rows[index], 'manager');
+    if (!reference) return;
+
+    const lowered = reference.toLowerCase();
+    const inFile = validated.find(other =>
+      other !== row && (other.values.email === lowered || other.values.staff_id === normalizeStaffId(reference))
+    );
+    const existingManager = byEmployeeId.get(lowered) || byStaffId.get(normalizeStaffId(reference)) || byEmail.get(lowered);
+
+    if (inFile && !inFile.existing) {
+      row.manager = { rowNumber: inFile.rowNumber };
+    } else if (existingManager) {
+      if (existingManager.id === row.existing?.id) {
+        row.errors.push('An employee cannot report to themselves');
+      } else {
+        row.manager = { employeeId: existingManager.id };
+      }
+    } else {
+      row.errors.push(`Manager ${reference} does not match any employee ID, staff ID or email`);
+    }
+  });
+
+  // Check the reporting lines the import would produce as a whole, using temporary ids for new hires
+  const rowKey = (rowNumber: number) => `row-${rowNumber}`;
+  const projected = new Map<string, OrgEmployee>(existingEmployees.map(e => [e.id, { ...e }]));
+  for (const row of validated) {
+    const id = row.existing?.id || rowKey(row.rowNumber);
+    projected.set(id, {
+      ...(projected.get(id) || { id, manager_id: null }),
+      full_name: row.values.full_name,
+      position: row.values.position,
+      department: row.values.department,
+      division: row.values.division,
+      status: row.values.status,
+    } as OrgEmployee);
+  }
+  const managerIdOf = (row: ValidatedImportRow) =>
+    row.manager && ('employeeId' in row.manager ? row.manager.employeeId : rowKey(row.manager.rowNumber));
+  for (const row of validated) {
+    if (row.manager) projected.get(row.existing?.id || rowKey(row.rowNumber))!.manager_id = managerIdOf(row)!;
+  }
+  const projectedEmployees = [...projected.values()];
+  for (const row of validated) {
+    if (!row.manager || row.errors.length > 0) continue;
+    const problem = checkReportingLine(projectedEmployees, row.existing?.id || rowKey(row.rowNumber), managerIdOf(row)!);
+    if (problem) row.errors.push(problem);
+  }
+
+  return validated;
+}
+
+// Edge functions reject with a non-2xx response whose body carries the reason
+const invokeEmployeeFunction = async (name: 'invite-user' | 'update-user', body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response = await error.context.json().catch(() => null);
+      if (response?.error) throw new Error(response.error);
+    }
+    throw error;
+  }
+  return data;
+};
+
+const saveSchedule = async (employeeId: string, schedule: ScheduleValues, existingScheduleId?: string) => {
+  const { error } = existingScheduleId
+    ? await supabase.from('work_schedules').update(schedule).eq('id', existingScheduleId)
+    : await supabase.from('work_schedules').insert({ ...schedule, employee_id: employeeId, is_active: true });
+  if (error) throw error;
+};
+
+/**
+ * Invite the new rows and update the existing ones, one at a time
+ * Managers are assigned once every row is saved, so a new hire can report to someone
+ * hired in the same file. Rows with validation errors are skipped.
+ * @param onProgress - Called after each row with the number of rows processed
+ */
+export async function runEmployeeImport(
+  rows: ValidatedImportRow[],
+  onProgress?: (processed: number) => void
+): Promise<ImportResult[]> {
+  const results = new Map<number, ImportResult>();
+  const savedIds = new Map<number, string>();
+
+  for (const [index, row] of rows.entries()) {
+    const result: ImportResult = {
+      rowNumber: row.rowNumber,
+      action: row.action,
+      full_name: row.values.full_name,
+      email: row.values.email,
+      employee_id: row.existing?.employee_id || null,
+      status: 'success',
+      message: row.action === 'invite' ? 'Invited' : 'Updated',
+    };
+    results.set(row.rowNumber, result);
+
+    if (row.errors.length > 0) {
+      result.status = 'skipped';
+      result.message = row.errors.join('; ');
+      onProgress?.(index + 1);
+      continue;
+    }
+
+    try {
+      if (row.action === 'invite') {
+        const data = await invokeEmployeeFunction('invite-user', { ...row.values });
+        const { data: employee, error } = await supabase
+          .from('employees')
+          .select('id, employee_id')
+          .eq('user_id', data.user_id)
+          .single();
+        if (error) throw error;
+        savedIds.set(row.rowNumber, employee.id);
+        result.employee_id = employee.employee_id;
+      } else {
+        // update-user replaces the manager, so send the current one; new managers are set below
+        await invokeEmployeeFunction('update-user', {
+          ...row.values,
+          employee_id: row.existing!.id,
+          manager_id: row.existing!.manager_id,
+        });
+        savedIds.set(row.rowNumber, row.existing!.id);
+      }
+
+      if (row.schedule) {
+        try {
+          await saveSchedule(savedIds.get(row.rowNumber)!, row.schedule, row.existing?.schedule?.id);
+        } catch (error) {
+          result.status = 'partial';
+          result.message += `, but the work schedule was not saved: ${error instanceof Error ? error.message : 'unknown error'}`;
+        }
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.message = error instanceof Error ? error.message : 'Failed to save employee';
+    }
+    onProgress?.(index + 1);
+  }
+
+  for (const row of rows) {
+    const employeeId = savedIds.get(row.rowNumber);
+    if (!employeeId || !row.manager) continue;
+
+    const result = results.get(row.rowNumber)!;
+    let managerId: string | undefined;
+    if ('employeeId' in row.manager) {
+      managerId = row.manager.employeeId;
+    } else {
+      managerId = savedIds.get(row.manager.rowNumber);
+      if (!managerId) {
+        result.status = 'partial';
+        result.message += `, but the manager was not set because row ${row.manager.rowNumber} failed`;
+        continue;
+      }
+    }
+    if (managerId === row.existing?.manager_id) continue;
+
+    try {
+      await setEmployeeManager(employeeId, managerId);
+    } catch (error) {
+      result.status = 'partial';
+      result.message += `, but the manager was not set: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+  }
+
+  return [...results.values()];
+}
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One line per row of the import with its outcome
+ */
+export function buildImportReport(results: ImportResult[]): string {
+  const lines = [
+    ['Row', 'Action', 'Employee ID', 'Full Name', 'Email', 'Result', 'Message'],
+    ...results.map(r => [String(r.rowNumber), r.action, r.employee_id || '', r.full_name, r.email, r.status, r.message]),
+  ];
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\n');
+}
+
+/**
+ * Current employees in the import layout, to edit and upload again
+ */
+export function buildImportTemplate(employees: ExistingEmployee[]): string {
+  const managerById = new Map(employees.map(e => [e.id, e.employee_id]));
+  const lines = [
+    IMPORT_FIELDS.map(f => f.label),
+    ...employees.map(e => [
+      e.employee_id,
+      e.staff_id || '',
+      e.full_name,
+      e.email,
+      e.role,
+      e.division || '',
+      e.department,
+      e.position,
+      e.hire_date,
+      e.status,
+      (e.manager_id && managerById.get(e.manager_id)) || '',
+      e.schedule?.start_time.slice(0, 5) || '',
+      e.schedule?.end_time.slice(0, 5) || '',
+      e.schedule?.working_days?.join(', ') || '',
+      e.schedule ? String(e.schedule.minimum_daily_hours) : '',
+    ]),
+  ];
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\n');
+}
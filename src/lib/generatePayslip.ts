@@ -11,18 +11,23 @@ interface PayslipData {
   paymentDate: string;
   fixedSalary: number;
   variableSalary: number;
+  // Portion of variableSalary that is approved overtime
+  overtimePay?: number;
   allowances: number;
   grossPay: number;
   deductionsTax: number;
   deductionsInsurance: number;
   deductionsPension: number;
   deductionsOther: number;
+  deductionsUnpaidLeave?: number;
+  deductionsAttendance?: number;
   totalDeductions: number;
   netPay: number;
 }
 
 export const generatePayslipPDF = (data: PayslipData): Blob => {
   const doc = new jsPDF();
+  const overtimePay = data.overtimePay || 0;
   const pageWidth = doc.internal.pageSize.getWidth();
 
   // Company Header
@@ -100,7 +105,8 @@ export const generatePayslipPDF = (data: PayslipData): Blob => {
     head: [["Earnings", "Amount (AED)"]],
     body: [
       ["Fixed Salary", data.fixedSalary.toFixed(2)],
-      ["Variable Salary", data.variableSalary.toFixed(2)],
+      ["Variable Salary", (data.variableSalary - overtimePay).toFixed(2)],
+      ...(overtimePay > 0 ? [["Overtime", overtimePay.toFixed(2)]] : []),
       ["Allowances", data.allowances.toFixed(2)],
     ],
     foot: [["Gross Pay", data.grossPay.toFixed(2)]],
@@ -134,6 +140,8 @@ export const generatePayslipPDF = (data: PayslipData): Blob => {
       ["Insurance", data.deductionsInsurance.toFixed(2)],
       ["Pension", data.deductionsPension.toFixed(2)],
       ["Other Deductions", data.deductionsOther.toFixed(2)],
+      ...(data.deductionsUnpaidLeave ? [["Unpaid Leave", data.deductionsUnpaidLeave.toFixed(2)]] : []),
+      ...(data.deductionsAttendance ? [["Absences & Short Hours", data.deductionsAttendance.toFixed(2)]] : []),
     ],
     foot: [["Total Deductions", data.totalDeductions.toFixed(2)]],
     theme: "striped",
@@ -0,0 +1,183 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+
+interface SettlementData {
+  employeeName: string;
+  employeeId: string;
+  email: string;
+  department: string;
+  position: string;
+  hireDate: string;
+  lastWorkingDay: string;
+  basicSalary: number;
+  dailyWage: number;
+  totalDays: number;
+  unpaidLeaveDays: number;
+  serviceYears: number;
+  eligible: boolean;
+  gratuityDays: number;
+  gratuityAmount: number;
+  capped: boolean;
+  leaveEncashmentDays: number;
+  leaveEncashmentAmount: number;
+  totalAmount: number;
+}
+
+// jspdf-autotable records the last table's position on the document
+type AutoTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+export const generateSettlementPDF = (data: SettlementData): Blob => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Company Header
+  doc.setFillColor(59, 130, 246);
+  doc.rect(0, 0, pageWidth, 40, "F");
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(24);
+  doc.setFont("helvetica", "bold");
+  doc.text("HR Flow", pageWidth / 2, 20, { align: "center" });
+
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "normal");
+  doc.text("Final Settlement Statement", pageWidth / 2, 30, { align: "center" });
+
+  doc.setTextColor(0, 0, 0);
+
+  // Employee Information Section
+  let yPos = 55;
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text("Employee Information", 20, yPos);
+
+  yPos += 10;
+  doc.setFontSize(10);
+
+  const employeeInfo = [
+    ["Employee Name:", data.employeeName],
+    ["Employee ID:", data.employeeId],
+    ["Email:", data.email],
+    ["Department:", data.department],
+    ["Position:", data.position],
+    ["Date of Joining:", format(new Date(data.hireDate), "MMM dd, yyyy")],
+    ["Last Working Day:", format(new Date(data.lastWorkingDay), "MMM dd, yyyy")],
+  ];
+
+  employeeInfo.forEach(([label, value]) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(label, 20, yPos);
+    doc.setFont("helvetica", "normal");
+    doc.text(value, 70, yPos);
+    yPos += 7;
+  });
+
+  // Service Section
+  yPos += 8;
+  autoTable(doc, {
+    startY: yPos,
+    head: [["Service", "Value"]],
+    body: [
+      ["Total Period (days)", data.totalDays.toString()],
+      ["Unpaid Leave Excluded (days)", data.unpaidLeaveDays.toString()],
+      ["Qualifying Service (years)", data.serviceYears.toFixed(2)],
+      ["Basic Salary (AED / month)", data.basicSalary.toFixed(2)],
+      ["Daily Wage (AED)", data.dailyWage.toFixed(2)],
+    ],
+    theme: "striped",
+    headStyles: {
+      fillColor: [59, 130, 246],
+      textColor: [255, 255, 255],
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 10,
+    },
+    columnStyles: {
+      0: { cellWidth: 100 },
+      1: { halign: "right", cellWidth: 70 },
+    },
+  });
+
+  // Settlement Section
+  yPos = (doc as AutoTableDoc).lastAutoTable.finalY + 15;
+  autoTable(doc, {
+    startY: yPos,
+    head: [["Settlement", "Amount (AED)"]],
+    body: [
+      [
+        data.eligible
+          ? `End of Service Gratuity (${data.gratuityDays.toFixed(2)} days${data.capped ? ", capped at 2 years' wage" : ""})`
+          : "End of Service Gratuity (less than 1 year of service)",
+        data.gratuityAmount.toFixed(2),
+      ],
+      [
+        `Annual Leave Encashment (${data.leaveEncashmentDays.toFixed(2)} days)`,
+        data.leaveEncashmentAmount.toFixed(2),
+      ],
+    ],
+    foot: [["Total Settlement", data.totalAmount.toFixed(2)]],
+    theme: "striped",
+    headStyles: {
+      fillColor: [59, 130, 246],
+      textColor: [255, 255, 255],
+      fontStyle: "bold",
+    },
+    footStyles: {
+      fillColor: [243, 244, 246],
+      textColor: [0, 0, 0],
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 10,
+    },
+    columnStyles: {
+      0: { cellWidth: 100 },
+      1: { halign: "right", cellWidth: 70 },
+    },
+  });
+
+  // Total Section - Highlighted Box
+  yPos = (doc as AutoTableDoc).lastAutoTable.finalY + 15;
+  doc.setFillColor(34, 197, 94);
+  doc.roundedRect(20, yPos, pageWidth - 40, 25, 5, 5, "F");
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("TOTAL PAYABLE", 30, yPos + 10);
+  doc.setFontSize(18);
+  doc.text(
+    `AED ${data.totalAmount.toFixed(2)}`,
+    pageWidth - 30,
+    yPos + 15,
+    { align: "right" }
+  );
+
+  // Footer
+  yPos += 40;
+  doc.setTextColor(107, 114, 128);
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    "Gratuity calculated per UAE Federal Decree-Law No. 33 of 2021: 21 days' basic wage per year for the",
+    pageWidth / 2,
+    yPos,
+    { align: "center" }
+  );
+  doc.text(
+    "first five years and 30 days per year thereafter. Final salary for the period is paid through payroll.",
+    pageWidth / 2,
+    yPos + 5,
+    { align: "center" }
+  );
+  doc.text(
+    `Generated on ${format(new Date(), "MMM dd, yyyy HH:mm")}`,
+    pageWidth / 2,
+    yPos + 12,
+    { align: "center" }
+  );
+
+  return doc.output("blob");
+};
@@ -0,0 +1,113 @@
+import { supabase } from '@/integrations/supabase/client';
+import { generateSettlementPDF } from '@/lib/generateSettlement';
+
+/**
+ * End-of-service gratuity as calculated by the calculate_gratuity database function
+ */
+export interface GratuityBreakdown {
+  basic_salary: number;
+  daily_wage: number;
+  hire_date: string;
+  as_of: string;
+  total_days: number;
+  unpaid_leave_days: number;
+  service_days: number;
+  service_years: number;
+  // Gratuity is only payable after one year of continuous service
+  eligible: boolean;
+  gratuity_days: number;
+  gratuity_amount: number;
+  // True when the amount was limited to two years' wage
+  capped: boolean;
+}
+
+export interface SettlementEmployee {
+  id: string;
+  employee_id: string;
+  full_name: string;
+  email?: string;
+  department: string;
+  position: string;
+}
+
+/**
+ * Fetch the gratuity accrued by an employee
+ * @param employeeId - employees.id
+ * @param asOf - Date in YYYY-MM-DD format (defaults to today in GST)
+ */
+export async function fetchGratuity(employeeId: string, asOf?: string): Promise<GratuityBreakdown> {
+  const { data, error } = await supabase.rpc('calculate_gratuity', {
+    p_employee_id: employeeId,
+    p_as_of: asOf,
+  });
+
+  if (error) throw error;
+  return data as unknown as GratuityBreakdown;
+}
+
+/**
+ * Calculate an employee's final settlement, generate the statement PDF and store it
+ * alongside their payslips. Re-running replaces the previous statement.
+ * @param employee - The departing employee
+ * @param lastWorkingDay - Date in YYYY-MM-DD format
+ * @returns The statement PDF
+ */
+export async function createFinalSettlement(
+  employee: SettlementEmployee,
+  lastWorkingDay: string
+): Promise<Blob> {
+  const { data: settlementId, error: rpcError } = await supabase.rpc('create_final_settlement', {
+    p_employee_id: employee.id,
+    p_last_working_day: lastWorkingDay,
+  });
+
+  if (rpcError) throw rpcError;
+
+  const { data: settlement, error } = await supabase
+    .from('final_settlements')
+    .select('*')
+    .eq('id', settlementId)
+    .single();
+
+  if (error) throw error;
+
+  const gratuity = settlement.calculation_details as unknown as GratuityBreakdown;
+  const pdfBlob = generateSettlementPDF({
+    employeeName: employee.full_name,
+    employeeId: employee.employee_id,
+    email: employee.email || '',
+    department: employee.department,
+    position: employee.position,
+    hireDate: gratuity.hire_date,
+    lastWorkingDay: settlement.last_working_day,
+    basicSalary: gratuity.basic_salary,
+    dailyWage: gratuity.daily_wage,
+    totalDays: gratuity.total_days,
+    unpaidLeaveDays: gratuity.unpaid_leave_days,
+    serviceYears: gratuity.service_years,
+    eligible: gratuity.eligible,
+    gratuityDays: gratuity.gratuity_days,
+    gratuityAmount: Number(settlement.gratuity_amount),
+    capped: gratuity.capped,
+    leaveEncashmentDays: Number(settlement.leave_encashment_days),
+    leaveEncashmentAmount: Number(settlement.leave_encashment_amount),
+    totalAmount: Number(settlement.total_amount),
+  });
+
+  // The employee's own folder comes first so the payslip read policy lets them open it
+  const filePath = `${employee.id}/settlements/${employee.employee_id}_final_settlement.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from('payslip-documents')
+    .upload(filePath, pdfBlob, { upsert: true });
+
+  if (uploadError) throw uploadError;
+
+  const { error: updateError } = await supabase
+    .from('final_settlements')
+    .update({ statement_pdf_url: filePath })
+    .eq('id', settlement.id);
+
+  if (updateError) throw updateError;
+
+  return pdfBlob;
+}
@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const EMIRATES = [
+  { value: 'abu_dhabi', label: 'Abu Dhabi' },
+  { value: 'dubai', label: 'Dubai' },
+  { value: 'sharjah', label: 'Sharjah' },
+  { value: 'ajman', label: 'Ajman' },
+  { value: 'umm_al_quwain', label: 'Umm Al Quwain' },
+  { value: 'ras_al_khaimah', label: 'Ras Al Khaimah' },
+  { value: 'fujairah', label: 'Fujairah' },
+] as const;
+
+export function getEmirateLabel(emirate: string | null | undefined): string {
+  if (!emirate) return 'Federal';
+  return EMIRATES.find(e => e.value === emirate)?.label || emirate;
+}
+
+/**
+ * Fetch public holidays applicable to a division, keyed by YYYY-MM-DD date
+ * @param startDate - Range start in YYYY-MM-DD format
+ * @param endDate - Range end in YYYY-MM-DD format (inclusive)
+ * @param division - Employee division name (null applies federal, company-wide holidays only)
+ * @returns Map of date string to holiday name
+ */
+export async function fetchHolidayMap(
+  startDate: string,
+  endDate: string,
+  division: string | null | undefined
+): Promise<Map<string, string>> {
+  const { data, error } = await supabase.rpc('get_public_holidays', {
+    p_start_date: startDate,
+    p_end_date: endDate,
+    p_division: division ?? undefined,
+  });
+
+  if (error) throw error;
+
+  const holidays = new Map<string, string>();
+  data?.forEach(holiday => {
+    holidays.set(holiday.holiday_date, holiday.name);
+  });
+  return holidays;
+}
+
+/**
+ * Fetch public holidays for several divisions at once
+ * @returns Map of division (null = none) to that division's date → holiday name map
+ */
+export async function fetchHolidayMapsByDivision(
+  startDate: string,
+  endDate: string,
+  divisions: (string | null | undefined)[]
+): Promise<Map<string | null, Map<string, string>>> {
+  const uniqueDivisions = [...new Set(divisions.map(division => division ?? null))];
+  const holidayMaps = await Promise.all(
+    uniqueDivisions.map(division => fetchHolidayMap(startDate, endDate, division))
+  );
+  return new Map(uniqueDivisions.map((division, index) => [division, holidayMaps[index]]));
+}
@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import { todayInGST } from '@/lib/timezone';
+
+export type LeaveTransactionType = 'accrual' | 'carry_forward' | 'expiry' | 'debit' | 'reversal' | 'adjustment';
+
+export interface LeaveTransaction {
+  id: string;
+  transaction_type: LeaveTransactionType;
+  // Positive adds to the balance, negative takes from it
+  days: number;
+  effective_date: string;
+  leave_request_id: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export const TRANSACTION_TYPE_LABELS: Record<LeaveTransactionType, string> = {
+  accrual: 'Accrual',
+  carry_forward: 'Carried Forward',
+  expiry: 'Expired',
+  debit: 'Leave Taken',
+  reversal: 'Leave Reversed',
+  adjustment: 'Adjustment',
+};
+
+/**
+ * Fetch the ledger entries behind one leave balance, oldest first
+ * @param employeeId - employees.id
+ * @param leaveTypeId - leave_types.id
+ * @param year - Balance year
+ */
+export async function fetchLeaveLedger(
+  employeeId: string,
+  leaveTypeId: string,
+  year: number
+): Promise<LeaveTransaction[]> {
+  const { data, error } = await supabase
+    .from('leave_balance_transactions')
+    .select('id, transaction_type, days, effective_date, leave_request_id, notes, created_at')
+    .eq('employee_id', employeeId)
+    .eq('leave_type_id', leaveTypeId)
+    .eq('year', year)
+    .order('effective_date', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as LeaveTransaction[];
+}
+
+/**
+ * Record a manual correction to a balance
+ * @param days - Days to add (negative to deduct)
+ * @param notes - Why the balance was adjusted
+ */
+export async function addLeaveAdjustment(
+  employeeId: string,
+  leaveTypeId: string,
+  year: number,
+  days: number,
+  notes: string
+): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('leave_balance_transactions')
+    .insert({
+      employee_id: employeeId,
+      leave_type_id: leaveTypeId,
+      year,
+      transaction_type: 'adjustment',
+      days,
+      effective_date: todayInGST(),
+      notes,
+      created_by: user?.id,
+    });
+
+  if (error) throw error;
+}
@@ -0,0 +1,136 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type LeaveChangeType = 'cancel' | 'amend';
+export type LeaveChangeStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface LeaveRequestChange {
+  id: string;
+  leave_request_id: string;
+  employee_id: string;
+  change_type: LeaveChangeType;
+  original_start_date: string;
+  original_end_date: string;
+  original_total_days: number;
+  // Amendments only
+  new_start_date: string | null;
+  new_end_date: string | null;
+  new_total_days: number | null;
+  reason: string;
+  status: LeaveChangeStatus;
+  review_comments: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface LeaveChangeToReview extends LeaveRequestChange {
+  leave_request: {
+    id: string;
+    employee_id: string;
+    start_date: string;
+    end_date: string;
+    total_days: number;
+    employee: { full_name: string; department: string | null } | null;
+    leave_type: { name: string } | null;
+  } | null;
+}
+
+export const LEAVE_CHANGE_TYPE_LABELS: Record<LeaveChangeType, string> = {
+  cancel: 'Cancellation',
+  amend: 'Amendment',
+};
+
+/**
+ * Ask to cancel or amend a leave request
+ * Cancelling a pending request, or any change made by an admin, takes effect immediately;
+ * otherwise the change waits for the line manager, a chain approver or an admin.
+ * @param newStartDate - New start in YYYY-MM-DD format (amendments only)
+ * @param newEndDate - New end in YYYY-MM-DD format (amendments only)
+ */
+export async function requestLeaveChange(
+  leaveRequestId: string,
+  changeType: LeaveChangeType,
+  reason: string,
+  newStartDate?: string,
+  newEndDate?: string
+): Promise<LeaveRequestChange> {
+  const { data, error } = await supabase.rpc('request_leave_change', {
+    p_leave_request_id: leaveRequestId,
+    p_change_type: changeType,
+    p_reason: reason,
+    p_new_start_date: newStartDate,
+    p_new_end_date: newEndDate,
+  });
+
+  if (error) throw error;
+  return data as LeaveRequestChange;
+}
+
+/**
+ * Approve or reject a pending change, or withdraw one's own
+ * On approval the leave request is updated and its balance restored or charged the difference.
+ */
+export async function actOnLeaveChange(
+  changeId: string,
+  decision: 'approved' | 'rejected' | 'withdrawn',
+  comments?: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc('act_on_leave_change', {
+    p_change_id: changeId,
+    p_decision: decision,
+    p_comments: comments,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Fetch the change history of several leave requests
+ * @returns Map of leave request id to its changes, newest first
+ */
+export async function fetchLeaveChanges(requestIds: string[]): Promise<Map<string, LeaveRequestChange[]>> {
+  const changesByRequest = new Map<string, LeaveRequestChange[]>();
+  if (requestIds.length === 0) return changesByRequest;
+
+  const { data, error } = await supabase
+    .from('leave_request_changes')
+    .select('*')
+    .in('leave_request_id', requestIds)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  for (const change of (data || []) as LeaveRequestChange[]) {
+    const changes = changesByRequest.get(change.leave_request_id) || [];
+    changes.push(change);
+    changesByRequest.set(change.leave_request_id, changes);
+  }
+
+  return changesByRequest;
+}
+
+/**
+ * Pending changes to other employees' leave that the current user can review
+ */
+export async function fetchLeaveChangesToReview(ownEmployeeId?: string): Promise<LeaveChangeToReview[]> {
+  let query = supabase
+    .from('leave_request_changes')
+    .select(`
+      *,
+      leave_request:leave_requests(
+        id, employee_id, start_date, end_date, total_days,
+        employee:employees!leave_requests_employee_id_fkey(full_name, department),
+        leave_type:leave_types(name)
+      )
+    `)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (ownEmployeeId) {
+    query = query.neq('employee_id', ownEmployeeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as LeaveChangeToReview[];
+}
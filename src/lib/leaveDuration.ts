@@ -0,0 +1,29 @@
+export type LeaveDurationType = 'full_day' | 'half_day_am' | 'half_day_pm' | 'hours';
+
+export const LEAVE_DURATION_LABELS: Record<LeaveDurationType, string> = {
+  full_day: 'Full day(s)',
+  half_day_am: 'Half day (morning)',
+  half_day_pm: 'Half day (afternoon)',
+  hours: 'Hours',
+};
+
+export function isPartialLeave(durationType: string | null | undefined): boolean {
+  return !!durationType && durationType !== 'full_day';
+}
+
+/**
+ * Human readable length of a leave request, e.g. "3 days", "Half day (morning)", "2.5 hours"
+ */
+export function formatLeaveDuration(request: {
+  duration_type?: string | null;
+  duration_hours?: number | null;
+  total_days: number;
+}): string {
+  if (request.duration_type === 'hours') {
+    return `${request.duration_hours} ${request.duration_hours === 1 ? 'hour' : 'hours'} (${request.total_days} day)`;
+  }
+  if (request.duration_type === 'half_day_am' || request.duration_type === 'half_day_pm') {
+    return LEAVE_DURATION_LABELS[request.duration_type];
+  }
+  return `${request.total_days} ${request.total_days === 1 ? 'day' : 'days'}`;
+}
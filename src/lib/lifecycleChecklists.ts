@@ -0,0 +1,197 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ChecklistType = 'onboarding' | 'offboarding';
+export type ChecklistStatus = 'open' | 'completed' | 'cancelled';
+export type ChecklistTaskCategory = 'document' | 'asset' | 'account' | 'settlement' | 'other';
+export type ChecklistTaskOwnerType = 'admin' | 'manager' | 'employee' | 'person';
+export type ChecklistTaskStatus = 'pending' | 'done' | 'skipped';
+
+export interface ChecklistTemplateTask {
+  id: string;
+  template_id: string;
+  title: string;
+  description: string | null;
+  category: ChecklistTaskCategory;
+  // For document tasks: the staff document type that completes the task when uploaded
+  document_type: string | null;
+  owner_type: ChecklistTaskOwnerType;
+  // Owner of 'person' tasks
+  owner_employee_id: string | null;
+  // Days after the hire date / last working day; negative = before it
+  due_offset_days: number;
+  sort_order: number;
+}
+
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  checklist_type: ChecklistType;
+  // null = every department / division
+  department: string | null;
+  division: string | null;
+  is_active: boolean;
+  tasks: ChecklistTemplateTask[];
+}
+
+export interface ChecklistTask {
+  id: string;
+  checklist_id: string;
+  employee_id: string;
+  title: string;
+  description: string | null;
+  category: ChecklistTaskCategory;
+  document_type: string | null;
+  owner_type: ChecklistTaskOwnerType;
+  // null = HR
+  owner_employee_id: string | null;
+  due_date: string;
+  status: ChecklistTaskStatus;
+  notes: string | null;
+  completed_at: string | null;
+  sort_order: number;
+  owner: { full_name: string } | null;
+}
+
+export interface EmployeeChecklist {
+  id: string;
+  employee_id: string;
+  checklist_type: ChecklistType;
+  name: string;
+  // Hire date or last working day the due dates are counted from
+  anchor_date: string;
+  status: ChecklistStatus;
+  completed_at: string | null;
+  created_at: string;
+  employee: { id: string; full_name: string; department: string | null; status: string } | null;
+  tasks: ChecklistTask[];
+}
+
+export interface MyChecklistTask extends ChecklistTask {
+  employee: { id: string; full_name: string; department: string | null } | null;
+  checklist: { name: string; checklist_type: ChecklistType; status: ChecklistStatus } | null;
+}
+
+export const CHECKLIST_TYPE_LABELS: Record<ChecklistType, string> = {
+  onboarding: 'Onboarding',
+  offboarding: 'Offboarding',
+};
+
+export const CHECKLIST_ANCHOR_LABELS: Record<ChecklistType, string> = {
+  onboarding: 'hire date',
+  offboarding: 'last working day',
+};
+
+export const TASK_CATEGORY_LABELS: Record<ChecklistTaskCategory, string> = {
+  document: 'Document to collect',
+  asset: 'Asset',
+  account: 'Account',
+  settlement: 'Final settlement',
+  other: 'Other',
+};
+
+export const TASK_OWNER_LABELS: Record<ChecklistTaskOwnerType, string> = {
+  admin: 'HR',
+  manager: 'Line manager',
+  employee: 'Employee',
+  person: 'Specific person',
+};
+
+const CHECKLIST_TASK_SELECT = '*, owner:employees!employee_checklist_tasks_owner_employee_id_fkey(full_name)';
+
+const sortTasks = <T extends ChecklistTask>(tasks: T[]) =>
+  [...tasks].sort((a, b) => a.due_date.localeCompare(b.due_date) || a.sort_order - b.sort_order);
+
+/**
+ * Checklist templates with their tasks, in task order
+ */
+export async function fetchChecklistTemplates(): Promise<ChecklistTemplate[]> {
+  const { data, error } = await supabase
+    .from('lifecycle_checklist_templates')
+    .select('*, tasks:lifecycle_template_tasks(*)')
+    .order('checklist_type')
+    .order('name');
+
+  if (error) throw error;
+  return ((data || []) as ChecklistTemplate[]).map(template => ({
+    ...template,
+    tasks: [...template.tasks].sort((a, b) => a.sort_order - b.sort_order || a.due_offset_days - b.due_offset_days),
+  }));
+}
+
+/**
+ * Checklists visible to the current user: all for admins, otherwise their own, their reports'
+ * and those they own a task in
+ * @param employeeId - Only this employee's checklists (all statuses); otherwise open ones
+ */
+export async function fetchEmployeeChecklists(employeeId?: string): Promise<EmployeeChecklist[]> {
+  let query = supabase
+    .from('employee_checklists')
+    .select(`*, employee:employees!employee_checklists_employee_id_fkey(id, full_name, department, status), tasks:employee_checklist_tasks(${CHECKLIST_TASK_SELECT})`)
+    .order('created_at', { ascending: false });
+
+  query = employeeId ? query.eq('employee_id', employeeId) : query.eq('status', 'open');
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return ((data || []) as EmployeeChecklist[]).map(checklist => ({
+    ...checklist,
+    tasks: sortTasks(checklist.tasks),
+  }));
+}
+
+/**
+ * Pending tasks of open checklists owned by an employee, soonest due first
+ * @param includeHrTasks - Also tasks owned by HR (for admins)
+ */
+export async function fetchMyChecklistTasks(employeeId: string, includeHrTasks: boolean): Promise<MyChecklistTask[]> {
+  const { data, error } = await supabase
+    .from('employee_checklist_tasks')
+    .select(`${CHECKLIST_TASK_SELECT}, employee:employees!employee_checklist_tasks_employee_id_fkey(id, full_name, department), checklist:employee_checklists!inner(name, checklist_type, status)`)
+    .eq('status', 'pending')
+    .eq('checklist.status', 'open')
+    .or(includeHrTasks ? `owner_employee_id.eq.${employeeId},owner_employee_id.is.null` : `owner_employee_id.eq.${employeeId}`);
+
+  if (error) throw error;
+  return sortTasks((data || []) as MyChecklistTask[]);
+}
+
+/**
+ * Start the matching onboarding or offboarding checklists for an employee (admins only)
+ * Templates already open for them are skipped.
+ * @param anchorDate - Hire date / last working day in YYYY-MM-DD format (default: hire date / today)
+ * @returns The number of checklists started
+ */
+export async function startEmployeeChecklists(
+  employeeId: string,
+  checklistType: ChecklistType,
+  anchorDate?: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('start_employee_checklists', {
+    p_employee_id: employeeId,
+    p_checklist_type: checklistType,
+    p_anchor_date: anchorDate,
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Mark a task done or skipped, or reopen it (task owner or admin)
+ */
+export async function updateChecklistTask(taskId: string, status: ChecklistTaskStatus, notes?: string): Promise<void> {
+  const { error } = await supabase.rpc('update_checklist_task', {
+    p_task_id: taskId,
+    p_status: status,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Who a task is waiting on, e.g. "HR" or the owner's name
+ */
+export const taskOwnerName = (task: ChecklistTask) => task.owner?.full_name || 'HR';
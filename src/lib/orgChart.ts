@@ -0,0 +1,143 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface OrgEmployee {
+  id: string;
+  full_name: string;
+  position: string;
+  department: string;
+  division: string | null;
+  manager_id: string | null;
+  status: string;
+}
+
+export interface OrgNode {
+  employee: OrgEmployee;
+  children: OrgNode[];
+  // Direct and indirect reports
+  headcount: number;
+}
+
+export interface ReportingCycleMember {
+  employee_id: string;
+  full_name: string;
+  manager_id: string;
+}
+
+/**
+ * Every employee with their reporting line, including inactive ones so stale lines show up
+ */
+export async function fetchOrgEmployees(): Promise<OrgEmployee[]> {
+  const { data, error } = await supabase
+    .from('employees')
+    .select('id, full_name, position, department, division, manager_id, status')
+    .order('full_name');
+
+  if (error) throw error;
+  return (data || []) as OrgEmployee[];
+}
+
+/**
+ * Employees whose chain of managers leads back to themselves
+ */
+export async function fetchReportingCycles(): Promise<ReportingCycleMember[]> {
+  const { data, error } = await supabase.rpc('find_reporting_cycles');
+
+  if (error) throw error;
+  return (data || []) as ReportingCycleMember[];
+}
+
+/**
+ * Change who an employee reports to (admins only)
+ * The database rejects cycles and inactive managers; checkReportingLine gives the same answer
+ * up front so a drop can be refused without a round trip.
+ * @param managerId - employees.id of the new manager (null = top of the organization)
+ */
+export async function setEmployeeManager(employeeId: string, managerId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('employees')
+    .update({ manager_id: managerId })
+    .eq('id', employeeId);
+
+  if (error) throw error;
+}
+
+/**
+ * Why an employee cannot report to a manager, or null when the reporting line is valid
+ */
+export function checkReportingLine(
+  employees: OrgEmployee[],
+  employeeId: string,
+  managerId: string | null
+): string | null {
+  if (!managerId) return null;
+  if (managerId === employeeId) return 'An employee cannot report to themselves';
+
+  const byId = new Map(employees.map(e => [e.id, e]));
+  const manager = byId.get(managerId);
+  if (!manager || manager.status !== 'active') return 'Employees can only report to an active manager';
+
+  // Walk up from the new manager; reaching the employee means they would manage their own manager
+  const seen = new Set<string>();
+  let current: OrgEmployee | undefined = manager;
+  while (current && !seen.has(current.id)) {
+    if (current.id === employeeId) {
+      return `This reporting line would create a cycle: ${byId.get(employeeId)?.full_name} already manages ${manager.full_name}`;
+    }
+    seen.add(current.id);
+    current = current.manager_id ? byId.get(current.manager_id) : undefined;
+  }
+  return null;
+}
+
+/**
+ * Build reporting trees from a flat employee list
+ * @param rootIds - Employees at the top of each tree
+ * @param includeChild - Restricts which reports are followed, e.g. to one division
+ */
+export function buildOrgTrees(
+  employees: OrgEmployee[],
+  rootIds: string[],
+  includeChild: (employee: OrgEmployee) => boolean = () => true
+): OrgNode[] {
+  const byId = new Map(employees.map(e => [e.id, e]));
+  const reportsByManager = new Map<string, OrgEmployee[]>();
+  for (const employee of employees) {
+    if (!employee.manager_id) continue;
+    reportsByManager.set(employee.manager_id, [...(reportsByManager.get(employee.manager_id) || []), employee]);
+  }
+
+  // The visited set keeps a bad reporting line from recursing forever
+  const visited = new Set<string>();
+  const build = (employee: OrgEmployee): OrgNode => {
+    visited.add(employee.id);
+    const children = (reportsByManager.get(employee.id) || [])
+      .filter(report => !visited.has(report.id) && includeChild(report))
+      .map(build);
+    return {
+      employee,
+      children,
+      headcount: children.reduce((sum, child) => sum + 1 + child.headcount, 0),
+    };
+  };
+
+  return rootIds
+    .map(id => byId.get(id))
+    .filter((employee): employee is OrgEmployee => !!employee && !visited.has(employee.id))
+    .map(build);
+}
+
+/**
+ * Count direct and indirect reports of every employee across the whole organization
+ */
+export function countReports(employees: OrgEmployee[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const countNode = (node: OrgNode) => {
+    counts.set(node.employee.id, node.headcount);
+    node.children.forEach(countNode);
+  };
+  const rootIds = employees
+    .filter(e => !e.manager_id || !employees.some(m => m.id === e.manager_id))
+    .map(e => e.id);
+  buildOrgTrees(employees, rootIds).forEach(countNode);
+  return counts;
+}
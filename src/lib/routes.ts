@@ -0,0 +1,29 @@
+/**
+ * Paths of every section and entity page, so links and notification action URLs agree
+ * with the routes declared in App.tsx
+ */
+
+export const ROUTES = {
+  dashboard: '/',
+  profile: '/profile',
+  myAttendance: '/my-attendance',
+  leaves: '/leaves',
+  payroll: '/payroll',
+  teamAttendance: '/team-attendance',
+  documents: '/documents',
+  settings: '/settings',
+  orgChart: '/org-chart',
+  checklists: '/checklists',
+} as const;
+
+// A Leave Management tile, e.g. /leaves/team-calendar
+export const leaveSectionPath = (section: string) => `${ROUTES.leaves}/${section}`;
+
+// A Settings tab, e.g. /settings/holidays
+export const settingsTabPath = (tab: string) => `${ROUTES.settings}/${tab}`;
+
+export const leaveRequestPath = (id: string) => `/leave/${id}`;
+
+export const exceptionPath = (id: string) => `/exceptions/${id}`;
+
+export const employeePath = (id: string) => `/employees/${id}`;
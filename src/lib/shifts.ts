@@ -0,0 +1,103 @@
+import { addHours } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { supabase } from '@/integrations/supabase/client';
+import { GST_TIMEZONE } from '@/lib/timezone';
+
+export interface ShiftTemplate {
+  id: string;
+  name: string;
+  code: string;
+  start_time: string;
+  end_time: string;
+  crosses_midnight: boolean | null;
+  minimum_hours: number;
+  color: string;
+  description: string | null;
+  is_active: boolean;
+}
+
+export interface ShiftAssignment {
+  id: string;
+  employee_id: string;
+  shift_date: string;
+  // null = rostered day off
+  shift_template_id: string | null;
+  notes: string | null;
+  shift_templates: ShiftTemplate | null;
+}
+
+/**
+ * Fetch the shift template library, ordered by start time
+ * @param activeOnly - Skip templates that have been retired
+ */
+export async function fetchShiftTemplates(activeOnly = false): Promise<ShiftTemplate[]> {
+  let query = supabase
+    .from('shift_templates')
+    .select('*')
+    .order('start_time', { ascending: true });
+
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Fetch roster entries for a date range
+ * @param startDate - Range start in YYYY-MM-DD format
+ * @param endDate - Range end in YYYY-MM-DD format (inclusive)
+ * @param employeeIds - Limit to these employees (omit for everyone visible to the caller)
+ * @returns Map keyed by `${employeeId}|${shiftDate}`
+ */
+export async function fetchShiftAssignments(
+  startDate: string,
+  endDate: string,
+  employeeIds?: string[]
+): Promise<Map<string, ShiftAssignment>> {
+  let query = supabase
+    .from('shift_assignments')
+    .select('id, employee_id, shift_date, shift_template_id, notes, shift_templates(*)')
+    .gte('shift_date', startDate)
+    .lte('shift_date', endDate);
+
+  if (employeeIds) {
+    query = query.in('employee_id', employeeIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const assignments = new Map<string, ShiftAssignment>();
+  (data || []).forEach(assignment => {
+    assignments.set(getAssignmentKey(assignment.employee_id, assignment.shift_date), assignment);
+  });
+  return assignments;
+}
+
+export function getAssignmentKey(employeeId: string, date: string): string {
+  return `${employeeId}|${date}`;
+}
+
+/**
+ * Resolve a shift's start and end as absolute times
+ * @param date - Day the shift starts (the attendance date) in YYYY-MM-DD format
+ * @param startTime - Shift start in HH:MM or HH:MM:SS format (GST)
+ * @param endTime - Shift end in HH:MM or HH:MM:SS format (GST); not after startTime = next day
+ */
+export function getShiftWindow(date: string, startTime: string, endTime: string): { start: Date; end: Date } {
+  const start = fromZonedTime(`${date}T${startTime}`, GST_TIMEZONE);
+  const end = fromZonedTime(`${date}T${endTime}`, GST_TIMEZONE);
+  // GST has no daylight saving, so the next day is always 24 hours later
+  return { start, end: end <= start ? addHours(end, 24) : end };
+}
+
+/**
+ * Format a TIME column value (HH:MM:SS) as HH:MM
+ */
+export function formatShiftTime(time: string): string {
+  return time.slice(0, 5);
+}
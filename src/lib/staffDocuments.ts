@@ -0,0 +1,195 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Staff document types (staff_documents.document_type)
+ */
+export const DOCUMENT_TYPES = [
+  { value: 'emirates_id', label: 'Emirates ID' },
+  { value: 'passport', label: 'Passport' },
+  { value: 'visa', label: 'Visa' },
+  { value: 'driving_license', label: 'Driving License' },
+  { value: 'work_permit', label: 'Work Permit' },
+  { value: 'health_card', label: 'Health Card' },
+  { value: 'insurance_card', label: 'Insurance Card' },
+  { value: 'other', label: 'Other' }
+];
+
+export const documentTypeLabel = (value: string) =>
+  DOCUMENT_TYPES.find(type => type.value === value)?.label || value;
+
+// staff_documents.status: pending_verification = uploaded by the employee and waiting for HR;
+// renewed = replaced by a later version
+export const DOCUMENT_STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  pending_verification: 'Awaiting verification',
+  rejected: 'Rejected',
+  renewed: 'Renewed',
+};
+
+export const documentStatusLabel = (status: string) => DOCUMENT_STATUS_LABELS[status] || status;
+
+export interface OwnStaffDocument {
+  id: string;
+  document_type: string;
+  document_name: string;
+  file_url: string;
+  issue_date: string | null;
+  expiry_date: string | null;
+  status: string;
+  rejection_reason: string | null;
+  version_number: number;
+  previous_version_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Upload a document file to the hr-documents bucket
+ * @param folder - Employees must upload into a folder named after their user id
+ */
+export async function uploadStaffDocumentFile(file: File, folder: string): Promise<string> {
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${Date.now()}_${Math.random().toString(36).substring(2)}.${fileExt}`;
+  const filePath = `${folder}/${fileName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('hr-documents')
+    .upload(filePath, file);
+
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('hr-documents')
+    .getPublicUrl(filePath);
+
+  return publicUrl;
+}
+
+/**
+ * An employee's current, pending and rejected documents (renewed versions are in each history)
+ */
+export async function fetchEmployeeDocuments(employeeId: string): Promise<OwnStaffDocument[]> {
+  const { data, error } = await supabase
+    .from('staff_documents')
+    .select('id, document_type, document_name, file_url, issue_date, expiry_date, status, rejection_reason, version_number, previous_version_id, created_at')
+    .eq('employee_id', employeeId)
+    .neq('status', 'renewed')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Approve or reject (with a reason) a document an employee uploaded
+ */
+export async function reviewStaffDocument(documentId: string, approve: boolean, reason?: string) {
+  const { error } = await supabase.rpc('review_staff_document', {
+    p_document_id: documentId,
+    p_approve: approve,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+}
+
+export interface DocumentReminderPolicy {
+  id?: string;
+  document_type: string;
+  // Days before the expiry date a reminder goes out, largest first
+  reminder_days: number[];
+  // Email HR when a document of this type expires without being renewed
+  escalate_on_expiry: boolean;
+  is_active: boolean;
+}
+
+// Schedule used for document types without a policy
+export const DEFAULT_REMINDER_DAYS = [90, 30, 7];
+
+/**
+ * Reminder policies for every document type, falling back to the default schedule
+ */
+export async function fetchDocumentReminderPolicies(): Promise<DocumentReminderPolicy[]> {
+  const { data, error } = await supabase
+    .from('document_reminder_policies')
+    .select('id, document_type, reminder_days, escalate_on_expiry, is_active');
+
+  if (error) throw error;
+
+  return DOCUMENT_TYPES.map(type => {
+    const policy = data?.find(p => p.document_type === type.value);
+    return policy
+      ? { ...policy, reminder_days: [...policy.reminder_days].sort((a, b) => b - a) }
+      : { document_type: type.value, reminder_days: DEFAULT_REMINDER_DAYS, escalate_on_expiry: true, is_active: true };
+  });
+}
+
+export async function saveDocumentReminderPolicy(policy: DocumentReminderPolicy, updatedBy?: string) {
+  const { error } = await supabase
+    .from('document_reminder_policies')
+    .upsert({
+      document_type: policy.document_type,
+      reminder_days: policy.reminder_days,
+      escalate_on_expiry: policy.escalate_on_expiry,
+      is_active: policy.is_active,
+      updated_by: updatedBy ?? null
+    }, { onConflict: 'document_type' });
+
+  if (error) throw error;
+}
+
+/**
+ * Parse a reminder schedule typed as e.g. "60, 30, 14, 7, 1"
+ * @throws Error when an entry is not a whole number of days above zero
+ */
+export function parseReminderDays(text: string): number[] {
+  const entries = text.split(',').map(entry => entry.trim()).filter(Boolean);
+  const days = entries.map(entry => Number(entry));
+
+  if (days.some(day => !Number.isInteger(day) || day < 1)) {
+    throw new Error('Reminder days must be whole numbers above zero, separated by commas');
+  }
+
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+/**
+ * Mark a document as being renewed (pausing its expiry reminders until the new one is uploaded),
+ * or clear the mark
+ */
+export async function setDocumentRenewal(documentId: string, inProgress: boolean, startedBy?: string) {
+  const { error } = await supabase
+    .from('staff_documents')
+    .update({
+      renewal_in_progress: inProgress,
+      renewal_started_at: inProgress ? new Date().toISOString() : null,
+      renewal_started_by: inProgress ? startedBy ?? null : null
+    })
+    .eq('id', documentId);
+
+  if (error) throw error;
+}
+
+export interface DocumentVersion {
+  id: string;
+  version_number: number;
+  document_name: string;
+  file_url: string;
+  issue_date: string | null;
+  expiry_date: string | null;
+  // active = the current version; renewed = replaced by a later version (read-only)
+  status: string;
+  notes: string | null;
+  created_at: string;
+  uploaded_by: string;
+  uploaded_by_name: string | null;
+}
+
+/**
+ * Every version in a document's renewal chain, oldest first
+ */
+export async function fetchDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+  const { data, error } = await supabase.rpc('get_document_versions', { p_document_id: documentId });
+
+  if (error) throw error;
+  return data || [];
+}
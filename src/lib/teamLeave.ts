@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TeamCalendarEntry {
+  employee_id: string;
+  full_name: string;
+  department: string | null;
+  division: string | null;
+  entry_type: 'leave' | 'wfh';
+  status: 'approved' | 'pending';
+  // Hidden (null) from staff
+  leave_type: string | null;
+  start_date: string;
+  end_date: string;
+  duration_type: string;
+}
+
+export interface LeaveCoverageDay {
+  coverage_date: string;
+  department: string;
+  team_size: number;
+  on_leave: number;
+  available: number;
+  minimum_present: number;
+  block_submission: boolean;
+}
+
+/**
+ * Fetch approved and pending leave and WFH days of a team
+ * @param startDate - Range start in YYYY-MM-DD format
+ * @param endDate - Range end in YYYY-MM-DD format (inclusive)
+ * @param department - Department name (ignored for staff, who only see their own)
+ * @param division - Division name (null = every division)
+ */
+export async function fetchTeamLeaveCalendar(
+  startDate: string,
+  endDate: string,
+  department: string | null,
+  division: string | null
+): Promise<TeamCalendarEntry[]> {
+  const { data, error } = await supabase.rpc('get_team_leave_calendar', {
+    p_start_date: startDate,
+    p_end_date: endDate,
+    p_department: department ?? undefined,
+    p_division: division ?? undefined,
+  });
+
+  if (error) throw error;
+  return (data || []) as TeamCalendarEntry[];
+}
+
+/**
+ * Staffing on each working day of a leave, assuming it is granted
+ * @param excludeRequestId - leave_requests.id being assessed, so it is not counted twice
+ * @returns One entry per working day covered by a staffing rule (empty when there is no rule)
+ */
+export async function fetchLeaveCoverage(
+  employeeId: string,
+  startDate: string,
+  endDate: string,
+  excludeRequestId?: string
+): Promise<LeaveCoverageDay[]> {
+  const { data, error } = await supabase.rpc('get_leave_coverage', {
+    p_employee_id: employeeId,
+    p_start_date: startDate,
+    p_end_date: endDate,
+    p_exclude_request_id: excludeRequestId,
+  });
+
+  if (error) throw error;
+  return (data || []) as LeaveCoverageDay[];
+}
+
+export function getCoverageShortfalls(days: LeaveCoverageDay[]): LeaveCoverageDay[] {
+  return days.filter(day => day.available < day.minimum_present);
+}
@@ -1,5 +1,5 @@
 import { toZonedTime, fromZonedTime, format as formatTz } from 'date-fns-tz';
-import { format } from 'date-fns';
+import { format, subDays } from 'date-fns';
 
 // Gulf Standard Time (UAE) - UTC+4
 export const GST_TIMEZONE = 'Asia/Dubai';
@@ -19,6 +19,13 @@ export function todayInGST(): string {
   return format(gstNow, 'yyyy-MM-dd');
 }
 
+/**
+ * Get yesterday's date in GST as YYYY-MM-DD string
+ */
+export function yesterdayInGST(): string {
+  return format(subDays(nowInGST(), 1), 'yyyy-MM-dd');
+}
+
 /**
  * Convert any date to GST timezone
  */
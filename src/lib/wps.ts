@@ -0,0 +1,171 @@
+import { format, parseISO, differenceInCalendarDays } from 'date-fns';
+
+/**
+ * UAE Wage Protection System (WPS) Salary Information File (SIF) helpers.
+ * A SIF holds one EDR (employee detail) row per salary followed by a single SCR
+ * (salary control) row, comma separated, one record per line.
+ */
+
+export interface WpsEmployerSettings {
+  employer_id: string;
+  employer_routing_code: string;
+  employer_reference: string;
+}
+
+export interface WpsSalaryLine {
+  employeeName: string;
+  labourCardNumber: string | null;
+  routingCode: string | null;
+  iban: string | null;
+  payPeriodStart: string;
+  payPeriodEnd: string;
+  netPay: number;
+  fixedSalary: number;
+  leaveDays: number;
+}
+
+export const DEFAULT_WPS_SETTINGS: WpsEmployerSettings = {
+  employer_id: '',
+  employer_routing_code: '',
+  employer_reference: '',
+};
+
+/**
+ * Strip spaces and upper-case an IBAN as typed by a user
+ */
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Validate a UAE IBAN: AE + 2 check digits + 19 digit BBAN, with a valid ISO 13616 checksum
+ */
+export function isValidUaeIban(iban: string): boolean {
+  const value = normalizeIban(iban);
+  if (!/^AE\d{21}$/.test(value)) return false;
+
+  // Move the country code and check digits to the end and convert letters to numbers (A=10 ... Z=35)
+  const rearranged = (value.slice(4) + value.slice(0, 4)).replace(/[A-Z]/g, ch => (ch.charCodeAt(0) - 55).toString());
+  let remainder = 0;
+  for (const digit of rearranged) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Bank routing (agent) codes are 9 digits
+ */
+export function isValidRoutingCode(code: string): boolean {
+  return /^\d{9}$/.test(code);
+}
+
+/**
+ * The MOHRE personal number printed on the labour card is 14 digits
+ */
+export function isValidLabourCardNumber(value: string): boolean {
+  return /^\d{14}$/.test(value);
+}
+
+/**
+ * The MOHRE employer establishment ID is 13 digits
+ */
+export function isValidEmployerId(value: string): boolean {
+  return /^\d{13}$/.test(value);
+}
+
+/**
+ * List the problems that would make the bank reject a salary line
+ */
+export function validateSalaryLine(line: WpsSalaryLine): string[] {
+  const issues: string[] = [];
+  if (!line.labourCardNumber) {
+    issues.push('Missing labour card / personal number');
+  } else if (!isValidLabourCardNumber(line.labourCardNumber)) {
+    issues.push('Labour card / personal number must be 14 digits');
+  }
+  if (!line.iban) {
+    issues.push('Missing IBAN');
+  } else if (!isValidUaeIban(line.iban)) {
+    issues.push('IBAN is not a valid UAE IBAN');
+  }
+  if (!line.routingCode) {
+    issues.push('Missing bank routing code');
+  } else if (!isValidRoutingCode(line.routingCode)) {
+    issues.push('Bank routing code must be 9 digits');
+  }
+  if (line.netPay <= 0) {
+    issues.push('Net pay must be greater than zero');
+  }
+  return issues;
+}
+
+export function validateEmployerSettings(settings: WpsEmployerSettings): string[] {
+  const issues: string[] = [];
+  if (!isValidEmployerId(settings.employer_id)) {
+    issues.push('Employer establishment ID must be 13 digits');
+  }
+  if (!isValidRoutingCode(settings.employer_routing_code)) {
+    issues.push('Employer bank routing code must be 9 digits');
+  }
+  return issues;
+}
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+/**
+ * Build the SIF file contents.
+ * The amount transferred is the net pay: it is reported as the fixed component up to the
+ * fixed salary, with anything above that (overtime, allowances) as the variable component.
+ * @param lines - Salary lines that passed validateSalaryLine
+ * @param settings - Employer identifiers for the SCR record
+ * @param salaryMonth - Any date in the salary month
+ * @param createdAt - File creation time (defaults to now)
+ */
+export function buildSifFile(
+  lines: WpsSalaryLine[],
+  settings: WpsEmployerSettings,
+  salaryMonth: Date,
+  createdAt: Date = new Date()
+): string {
+  const records = lines.map(line => {
+    const fixed = Math.min(line.fixedSalary, line.netPay);
+    const variable = line.netPay - fixed;
+    const days = differenceInCalendarDays(parseISO(line.payPeriodEnd), parseISO(line.payPeriodStart)) + 1;
+    return [
+      'EDR',
+      line.labourCardNumber,
+      line.routingCode,
+      normalizeIban(line.iban || ''),
+      line.payPeriodStart,
+      line.payPeriodEnd,
+      days,
+      formatAmount(fixed),
+      formatAmount(variable),
+      line.leaveDays,
+    ].join(',');
+  });
+
+  const total = lines.reduce((sum, line) => sum + line.netPay, 0);
+  records.push([
+    'SCR',
+    settings.employer_id,
+    settings.employer_routing_code,
+    format(createdAt, 'yyyy-MM-dd'),
+    format(createdAt, 'HHmm'),
+    format(salaryMonth, 'MMyyyy'),
+    lines.length,
+    formatAmount(total),
+    'AED',
+    settings.employer_reference,
+  ].join(','));
+
+  return records.join('\r\n') + '\r\n';
+}
+
+/**
+ * SIF files are named after the employer ID and creation time: EEEEEEEEEEEEEYYMMDDHHMMSS.SIF
+ */
+export function getSifFileName(settings: WpsEmployerSettings, createdAt: Date = new Date()): string {
+  return `${settings.employer_id}${format(createdAt, 'yyMMddHHmmss')}.SIF`;
+}
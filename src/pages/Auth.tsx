@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,6 +16,7 @@ import { Users, Lock, Mail, User, KeyRound } from "lucide-react";
 export const Auth = () => {
   const { user, profile, signIn, signUp, loading } = useAuth();
   const { toast } = useToast();
+  const location = useLocation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Form states
@@ -50,7 +51,7 @@ export const Auth = () => {
 
   // Only redirect if user exists AND profile is loaded
   if (user && profile) {
-    return <Navigate to="/" replace />;
+    return <Navigate to={(location.state as { from?: string } | null)?.from || "/"} replace />;
   }
 
   const handleSignIn = async (e: React.FormEvent) => {
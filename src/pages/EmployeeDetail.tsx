@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { employeePath, leaveRequestPath, ROUTES } from "@/lib/routes";
+import { formatLeaveDuration } from "@/lib/leaveDuration";
+import { EmployeeChecklists } from "@/components/EmployeeChecklists";
+
+interface EmployeeRecord {
+  id: string;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  department: string;
+  division: string | null;
+  position: string;
+  employee_id: string;
+  staff_id: string | null;
+  hire_date: string;
+  probation_end_date: string | null;
+  status: string;
+  manager_id: string | null;
+}
+
+interface RecentLeave {
+  id: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  total_days: number;
+  duration_type: string;
+  duration_hours: number | null;
+  leave_type: { name: string } | null;
+}
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : '-');
+
+/**
+ * An employee's record for admins and managers (/employees/:id)
+ */
+const EmployeeDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [employee, setEmployee] = useState<EmployeeRecord | null>(null);
+  const [manager, setManager] = useState<{ id: string; full_name: string } | null>(null);
+  const [recentLeave, setRecentLeave] = useState<RecentLeave[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEmployee = async () => {
+      if (!id) return;
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('employees')
+          .select('id, full_name, email, phone, department, division, position, employee_id, staff_id, hire_date, probation_end_date, status, manager_id')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+        setEmployee(data);
+        if (!data) return;
+
+        const [managerResult, leaveResult] = await Promise.all([
+          data.manager_id
+            ? supabase.from('employees').select('id, full_name').eq('id', data.manager_id).maybeSingle()
+            : Promise.resolve({ data: null }),
+          supabase
+            .from('leave_requests')
+            .select('id, status, start_date, end_date, total_days, duration_type, duration_hours, leave_type:leave_types(name)')
+            .eq('employee_id', data.id)
+            .order('start_date', { ascending: false })
+            .limit(10),
+        ]);
+
+        setManager(managerResult.data);
+        setRecentLeave((leaveResult.data || []) as RecentLeave[]);
+      } catch (error) {
+        console.error('Error fetching employee:', error);
+        setEmployee(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEmployee();
+  }, [id]);
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 py-8 space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to={ROUTES.teamAttendance}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Team Attendance
+        </Link>
+      </Button>
+
+      {loading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading...</div>
+      ) : !employee ? (
+        <div className="text-center py-8 text-muted-foreground">
+          This employee does not exist or you do not have access to their record.
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{employee.full_name}</CardTitle>
+                  <CardDescription>{employee.position} • {employee.department}</CardDescription>
+                </div>
+                <Badge variant="outline" className="capitalize">{employee.status}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="font-medium">Employee ID</p>
+                  <p className="text-muted-foreground">{employee.staff_id || employee.employee_id}</p>
+                </div>
+                <div>
+                  <p className="font-medium">Division</p>
+                  <p className="text-muted-foreground">{employee.division || '-'}</p>
+                </div>
+                <div>
+                  <p className="font-medium">Email</p>
+                  <p className="text-muted-foreground">{employee.email}</p>
+                </div>
+                <div>
+                  <p className="font-medium">Phone</p>
+                  <p className="text-muted-foreground">{employee.phone || '-'}</p>
+                </div>
+                <div>
+                  <p className="font-medium">Hire Date</p>
+                  <p className="text-muted-foreground">{formatDate(employee.hire_date)}</p>
+                </div>
+                <div>
+                  <p className="font-medium">Probation Ends</p>
+                  <p className="text-muted-foreground">{formatDate(employee.probation_end_date)}</p>
+                </div>
+                <div>
+                  <p className="font-medium">Line Manager</p>
+                  <p className="text-muted-foreground">
+                    {manager ? (
+                      <Link to={employeePath(manager.id)} className="hover:underline">{manager.full_name}</Link>
+                    ) : '-'}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Recent Leave</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {recentLeave.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No leave requests</p>
+              ) : (
+                <div className="space-y-2">
+                  {recentLeave.map(leave => (
+                    <Link
+                      key={leave.id}
+                      to={leaveRequestPath(leave.id)}
+                      className="flex items-center justify-between rounded-md border p-3 text-sm hover:bg-muted/50"
+                    >
+                      <span>
+                        {leave.leave_type?.name || 'Leave'} · {formatDate(leave.start_date)} - {formatDate(leave.end_date)} ({formatLeaveDuration(leave)})
+                      </span>
+                      <Badge variant="outline" className="capitalize">{leave.status}</Badge>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <EmployeeChecklists employeeId={employee.id} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EmployeeDetail;
@@ -8,6 +8,8 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { ArrowLeft, Edit } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { format } from "date-fns";
+import { fetchGratuity, GratuityBreakdown } from "@/lib/gratuity";
+import { MyDocuments } from "@/components/MyDocuments";
 
 interface EmployeeData {
   id: string;
@@ -31,6 +33,7 @@ export default function EmployeeProfile({ embedded = false }: EmployeeProfilePro
   const navigate = useNavigate();
   const [employee, setEmployee] = useState<EmployeeData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [gratuity, setGratuity] = useState<GratuityBreakdown | null>(null);
 
   useEffect(() => {
     const fetchEmployeeData = async () => {
@@ -45,6 +48,12 @@ export default function EmployeeProfile({ embedded = false }: EmployeeProfilePro
 
         if (error) throw error;
         setEmployee(data);
+
+        try {
+          setGratuity(await fetchGratuity(data.id));
+        } catch (gratuityError) {
+          console.error("Error fetching gratuity:", gratuityError);
+        }
       } catch (error) {
         console.error("Error fetching employee data:", error);
       } finally {
@@ -253,6 +262,61 @@ export default function EmployeeProfile({ embedded = false }: EmployeeProfilePro
               </div>
             </AccordionContent>
           </AccordionItem>
+
+          {/* Documents Section */}
+          <AccordionItem value="documents" className="bg-card rounded-lg border">
+            <AccordionTrigger className="px-6 py-4 hover:no-underline">
+              <span className="text-xl font-semibold">Documents</span>
+            </AccordionTrigger>
+            <AccordionContent className="px-6 pb-6">
+              <MyDocuments employeeId={employee.id} />
+            </AccordionContent>
+          </AccordionItem>
+
+          {/* End of Service Gratuity Section */}
+          {gratuity && (
+            <AccordionItem value="gratuity" className="bg-card rounded-lg border">
+              <AccordionTrigger className="px-6 py-4 hover:no-underline">
+                <span className="text-xl font-semibold">End of Service Gratuity</span>
+              </AccordionTrigger>
+              <AccordionContent className="px-6 pb-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Accrued Gratuity</p>
+                    <p className="text-sm text-muted-foreground">
+                      AED {gratuity.gratuity_amount.toFixed(2)}
+                      {gratuity.capped && " (capped at 2 years' wage)"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Qualifying Service</p>
+                    <p className="text-sm text-muted-foreground">
+                      {gratuity.service_years.toFixed(2)} years
+                      {gratuity.unpaid_leave_days > 0 &&
+                        ` (excludes ${gratuity.unpaid_leave_days} unpaid leave days)`}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Entitlement</p>
+                    <p className="text-sm text-muted-foreground">
+                      {gratuity.gratuity_days.toFixed(2)} days of basic wage
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">As Of</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(gratuity.as_of), "MM/dd/yy")}
+                    </p>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-4">
+                  {gratuity.eligible
+                    ? "21 days' basic wage per year for the first five years of service and 30 days per year after that."
+                    : "Gratuity becomes payable after one year of continuous service."}
+                </p>
+              </AccordionContent>
+            </AccordionItem>
+          )}
         </Accordion>
       </div>
     </div>
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ApprovalProgress } from "@/components/ApprovalProgress";
+import { fetchApprovalSteps, RequestApprovalStep } from "@/lib/approvals";
+import { employeePath, leaveSectionPath } from "@/lib/routes";
+import { useAuth } from "@/hooks/useAuth";
+
+interface ExceptionRecord {
+  id: string;
+  employee_id: string;
+  exception_type: string;
+  status: string;
+  target_date: string | null;
+  reason: string;
+  duration_hours: number | null;
+  proposed_clock_in_time: string | null;
+  proposed_clock_out_time: string | null;
+  admin_comments: string | null;
+  document_url: string | null;
+  created_at: string;
+  employee: { full_name: string; department: string } | null;
+}
+
+const EXCEPTION_TYPE_LABELS: Record<string, string> = {
+  short_permission_personal: 'Short Permission (Personal)',
+  short_permission_official: 'Short Permission (Official)',
+  wfh: 'Work from Home (WFH)',
+  missed_clock_in: 'Missed Clock In',
+  missed_clock_out: 'Missed Clock Out',
+  wrong_time: 'Wrong Clock Time',
+  late_arrival: 'Late Arrival (Legacy)',
+  early_departure: 'Early Departure (Legacy)',
+};
+
+/**
+ * A single attendance exception, reached from notifications and shared links (/exceptions/:id)
+ */
+const ExceptionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile } = useAuth();
+  const [exception, setException] = useState<ExceptionRecord | null>(null);
+  const [steps, setSteps] = useState<RequestApprovalStep[] | undefined>();
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchException = async () => {
+      if (!id) return;
+      setLoading(true);
+      try {
+        // Row level security decides who can see the exception
+        const { data, error } = await supabase
+          .from('attendance_exceptions')
+          .select(`
+            id, employee_id, exception_type, status, target_date, reason, duration_hours,
+            proposed_clock_in_time, proposed_clock_out_time, admin_comments, document_url, created_at
+          `)
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+          setException(null);
+          return;
+        }
+
+        const [employeeResult, stepsByRequest] = await Promise.all([
+          supabase.from('employees').select('full_name, department').eq('id', data.employee_id).maybeSingle(),
+          fetchApprovalSteps('exception', [data.id]),
+        ]);
+
+        setException({ ...data, employee: employeeResult.data });
+        setSteps(stepsByRequest.get(data.id));
+      } catch (error) {
+        console.error('Error fetching attendance exception:', error);
+        setException(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchException();
+  }, [id]);
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 py-8 space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to={leaveSectionPath('absences')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Absences
+        </Link>
+      </Button>
+
+      {loading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading...</div>
+      ) : !exception ? (
+        <div className="text-center py-8 text-muted-foreground">
+          This attendance exception does not exist or you do not have access to it.
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>{EXCEPTION_TYPE_LABELS[exception.exception_type] || exception.exception_type}</CardTitle>
+                <CardDescription>
+                  {profile?.role === 'staff' ? (
+                    exception.employee?.full_name
+                  ) : (
+                    <Link to={employeePath(exception.employee_id)} className="hover:underline">
+                      {exception.employee?.full_name}
+                    </Link>
+                  )}
+                  {exception.employee?.department && ` • ${exception.employee.department}`}
+                </CardDescription>
+              </div>
+              <Badge variant="outline" className="capitalize">{exception.status}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="font-medium">Date</p>
+                <p className="text-muted-foreground">
+                  {exception.target_date ? format(parseISO(exception.target_date), 'MMM d, yyyy') : '-'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Submitted</p>
+                <p className="text-muted-foreground">{format(new Date(exception.created_at), 'MMM d, yyyy')}</p>
+              </div>
+              {exception.duration_hours && (
+                <div>
+                  <p className="font-medium">Duration</p>
+                  <p className="text-muted-foreground">{exception.duration_hours} hour(s)</p>
+                </div>
+              )}
+              {(exception.proposed_clock_in_time || exception.proposed_clock_out_time) && (
+                <div>
+                  <p className="font-medium">Proposed Times</p>
+                  <p className="text-muted-foreground">
+                    {exception.proposed_clock_in_time && `Clock In: ${format(new Date(exception.proposed_clock_in_time), 'HH:mm')} `}
+                    {exception.proposed_clock_out_time && `Clock Out: ${format(new Date(exception.proposed_clock_out_time), 'HH:mm')}`}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <p className="font-medium">Reason</p>
+              <p className="text-muted-foreground">{exception.reason}</p>
+            </div>
+
+            {exception.document_url && (
+              <a href={exception.document_url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                View supporting document
+              </a>
+            )}
+
+            {exception.admin_comments && (
+              <div>
+                <p className="font-medium">Admin Comments</p>
+                <p className="text-muted-foreground">{exception.admin_comments}</p>
+              </div>
+            )}
+
+            <ApprovalProgress steps={steps} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ExceptionDetail;
@@ -1,24 +1,27 @@
 import { useState } from "react";
-import { Navigate } from "react-router-dom";
-import { Dashboard } from "@/components/Dashboard";
-import { AdminDashboard } from "@/components/AdminDashboard";
-import { LeaveManagement } from "@/components/LeaveManagement";
+import { Navigate, Outlet, useLocation, useNavigate } from "react-router-dom";
 import { Navigation } from "@/components/ui/navigation";
 import { Breadcrumb, BreadcrumbList, BreadcrumbItem, BreadcrumbLink, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
 import { Button } from "@/components/ui/button";
-import { Users, Calendar, Settings, BarChart, Menu, X, RefreshCw, FileText, ClipboardList, Home, User, Wallet } from "lucide-react";
-import { DocumentManagement } from "@/components/DocumentManagement";
-import { TeamAttendanceReport } from "@/components/TeamAttendanceReport";
-import { SettingsManagement } from "@/components/SettingsManagement";
-import { PersonalAttendanceReport } from "@/components/PersonalAttendanceReport";
-import { PayrollManagement } from "@/components/PayrollManagement";
-import EmployeeProfile from "@/pages/EmployeeProfile";
+import { Users, Calendar, Settings, BarChart, Menu, X, RefreshCw, FileText, ClipboardList, Home, User, Wallet, Network, ListChecks } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import { ROUTES } from "@/lib/routes";
 
+// Entity pages reached by link rather than from the sidebar
+const DETAIL_PAGE_LABELS: Record<string, string> = {
+  leave: 'Leave Request',
+  exceptions: 'Attendance Exception',
+  employees: 'Employee',
+};
+
+/**
+ * App shell: sidebar, breadcrumb and mobile navigation around the routed section (see App.tsx)
+ */
 const Index = () => {
   const { user, profile, loading, signOut, refreshProfile } = useAuth();
-  const [activeTab, setActiveTab] = useState('dashboard');
+  const location = useLocation();
+  const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -37,7 +40,8 @@ const Index = () => {
 
   // Only redirect to auth if we're sure there's no user (loading is complete)
   if (!loading && !user) {
-    return <Navigate to="/auth" replace />;
+    // Come back to the linked page after signing in
+    return <Navigate to="/auth" replace state={{ from: location.pathname + location.search }} />;
   }
 
   // Show loading while profile is being fetched
@@ -54,27 +58,36 @@ const Index = () => {
     );
   }
 
+  // Role checks here must match the RequireRole guards on the routes in App.tsx
   const navigationItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: BarChart },
-    { id: 'profile', label: 'Profile', icon: User },
-    { id: 'my-attendance', label: 'My Attendance', icon: ClipboardList },
-    { id: 'leaves', label: 'Leave Management', icon: Calendar },
-    { id: 'payroll', label: 'Payroll', icon: Wallet },
+    { id: 'dashboard', label: 'Dashboard', icon: BarChart, href: ROUTES.dashboard },
+    { id: 'profile', label: 'Profile', icon: User, href: ROUTES.profile },
+    { id: 'my-attendance', label: 'My Attendance', icon: ClipboardList, href: ROUTES.myAttendance },
+    { id: 'leaves', label: 'Leave Management', icon: Calendar, href: ROUTES.leaves },
+    { id: 'payroll', label: 'Payroll', icon: Wallet, href: ROUTES.payroll },
+    { id: 'org-chart', label: 'Org Chart', icon: Network, href: ROUTES.orgChart },
+    { id: 'checklists', label: 'Checklists', icon: ListChecks, href: ROUTES.checklists },
     ...(profile?.role === 'admin' || profile?.role === 'manager' ? [
-      { id: 'attendance', label: 'Team Attendance', icon: FileText },
-      { id: 'documents', label: 'Staff Documents', icon: FileText },
+      { id: 'attendance', label: 'Team Attendance', icon: FileText, href: ROUTES.teamAttendance },
+      { id: 'documents', label: 'Staff Documents', icon: FileText, href: ROUTES.documents },
     ] : []),
     ...(profile?.role === 'admin' ? [
-      { id: 'settings', label: 'Settings', icon: Settings }
+      { id: 'settings', label: 'Settings', icon: Settings, href: ROUTES.settings }
     ] : [])
   ];
 
+  // The section is the first path segment, e.g. /leaves/team-calendar belongs to /leaves
+  const section = `/${location.pathname.split('/')[1] || ''}`;
+  const activeItem = navigationItems.find(item => item.href === section);
+  const isDashboard = section === ROUTES.dashboard;
+
   const getCurrentPageLabel = () => {
-    return navigationItems.find(item => item.id === activeTab)?.label || 'Dashboard';
+    return activeItem?.label || DETAIL_PAGE_LABELS[section.slice(1)] || 'Dashboard';
   };
 
   const handleNavigationClick = (itemId: string) => {
-    setActiveTab(itemId);
+    const item = navigationItems.find(navItem => navItem.id === itemId);
+    if (item) navigate(item.href);
     setSidebarOpen(false); // Close mobile sidebar on navigation
   };
 
@@ -120,7 +133,7 @@ const Index = () => {
           <div className="flex-1 p-6">
             <Navigation
               items={navigationItems}
-              activeItem={activeTab}
+              activeItem={activeItem?.id || ''}
               onItemClick={handleNavigationClick}
             />
           </div>
@@ -168,7 +181,7 @@ const Index = () => {
 
       {/* Main content */}
       <div className="lg:ml-64">
-        {activeTab !== 'dashboard' && (
+        {!isDashboard && (
           <header className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b">
             <div className="container mx-auto px-4 sm:px-6 py-4">
               <div className="flex items-center justify-between">
@@ -187,7 +200,7 @@ const Index = () => {
                       <BreadcrumbItem>
                         <BreadcrumbLink 
                           className="cursor-pointer"
-                          onClick={() => setActiveTab('dashboard')}
+                          onClick={() => navigate(ROUTES.dashboard)}
                         >
                           <Home className="h-4 w-4" />
                         </BreadcrumbLink>
@@ -206,67 +219,9 @@ const Index = () => {
 
         <main className={cn(
           "min-h-screen",
-          activeTab !== 'dashboard' && "pb-20 lg:pb-8"
+          !isDashboard && "pb-20 lg:pb-8"
         )}>
-          {activeTab === 'dashboard' && (
-            <Dashboard 
-              userRole={profile.role} 
-              currentUser={{
-                name: profile.full_name || profile.email.split('@')[0],
-                email: profile.email,
-                avatar: profile.avatar_url
-              }}
-              userProfile={{
-                user_id: profile.user_id,
-                email: profile.email,
-                full_name: profile.full_name || profile.email.split('@')[0]
-              }}
-              onLogout={signOut}
-              onNavigate={handleNavigationClick}
-            />
-          )}
-
-          {activeTab === 'leaves' && (
-            <div className="container mx-auto px-4 sm:px-6 py-8">
-              <AdminDashboard userRole={profile.role} />
-            </div>
-          )}
-
-          {activeTab === 'my-attendance' && (
-            <div className="container mx-auto px-4 sm:px-6 py-8">
-              <PersonalAttendanceReport />
-            </div>
-          )}
-
-          {activeTab === 'attendance' && (
-            <div className="container mx-auto px-4 sm:px-6 py-8">
-              <TeamAttendanceReport />
-            </div>
-          )}
-
-          {activeTab === 'documents' && (
-            <div className="container mx-auto px-4 sm:px-6 py-8">
-              <DocumentManagement />
-            </div>
-          )}
-
-          {activeTab === 'settings' && (
-            <div className="container mx-auto px-4 sm:px-6 py-8">
-              <SettingsManagement userRole={profile.role} />
-            </div>
-          )}
-
-          {activeTab === 'profile' && (
-            <div className="container mx-auto px-4 sm:px-6 py-8">
-              <EmployeeProfile embedded={true} />
-            </div>
-          )}
-
-          {activeTab === 'payroll' && (
-            <div className="container mx-auto px-4 sm:px-6 py-8">
-              <PayrollManagement />
-            </div>
-          )}
+          <Outlet />
         </main>
       </div>
 
@@ -275,7 +230,7 @@ const Index = () => {
         <div className="container mx-auto px-4">
           <Navigation
             items={navigationItems}
-            activeItem={activeTab}
+            activeItem={activeItem?.id || ''}
             onItemClick={handleNavigationClick}
             orientation="horizontal"
             className="flex flex-row space-y-0 space-x-0 py-2"
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ApprovalProgress } from "@/components/ApprovalProgress";
+import { LeaveCoverageWarning } from "@/components/LeaveCoverageWarning";
+import { fetchApprovalSteps, RequestApprovalStep } from "@/lib/approvals";
+import { fetchLeaveChanges, LEAVE_CHANGE_TYPE_LABELS, LeaveRequestChange } from "@/lib/leaveChanges";
+import { formatLeaveDuration, isPartialLeave } from "@/lib/leaveDuration";
+import { employeePath, leaveSectionPath } from "@/lib/routes";
+import { useAuth } from "@/hooks/useAuth";
+
+interface LeaveRequestRecord {
+  id: string;
+  employee_id: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  total_days: number;
+  duration_type: string;
+  duration_hours: number | null;
+  reason: string | null;
+  review_comments: string | null;
+  payment_type: string | null;
+  created_at: string | null;
+  employee: { full_name: string; department: string } | null;
+  leave_type: { name: string } | null;
+}
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : '');
+
+/**
+ * A single leave request, reached from notifications and shared links (/leave/:id)
+ */
+const LeaveRequestDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile } = useAuth();
+  const [request, setRequest] = useState<LeaveRequestRecord | null>(null);
+  const [steps, setSteps] = useState<RequestApprovalStep[] | undefined>();
+  const [changes, setChanges] = useState<LeaveRequestChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRequest = async () => {
+      if (!id) return;
+      setLoading(true);
+      try {
+        // Row level security decides who can see the request
+        const { data, error } = await supabase
+          .from('leave_requests')
+          .select(`
+            id, employee_id, status, start_date, end_date, total_days, duration_type, duration_hours,
+            reason, review_comments, payment_type, created_at,
+            employee:employees!leave_requests_employee_id_fkey(full_name, department),
+            leave_type:leave_types(name)
+          `)
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+        setRequest(data as LeaveRequestRecord | null);
+
+        if (data) {
+          const [stepsByRequest, changesByRequest] = await Promise.all([
+            fetchApprovalSteps('leave', [data.id]),
+            fetchLeaveChanges([data.id]),
+          ]);
+          setSteps(stepsByRequest.get(data.id));
+          setChanges(changesByRequest.get(data.id) || []);
+        }
+      } catch (error) {
+        console.error('Error fetching leave request:', error);
+        setRequest(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRequest();
+  }, [id]);
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 py-8 space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to={leaveSectionPath('leave-requests')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Leave Requests
+        </Link>
+      </Button>
+
+      {loading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading...</div>
+      ) : !request ? (
+        <div className="text-center py-8 text-muted-foreground">
+          This leave request does not exist or you do not have access to it.
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>{request.leave_type?.name || 'Leave'}</CardTitle>
+                <CardDescription>
+                  {profile?.role === 'staff' ? (
+                    request.employee?.full_name
+                  ) : (
+                    <Link to={employeePath(request.employee_id)} className="hover:underline">
+                      {request.employee?.full_name}
+                    </Link>
+                  )}
+                  {request.employee?.department && ` • ${request.employee.department}`}
+                </CardDescription>
+              </div>
+              <Badge variant="outline" className="capitalize">{request.status}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="font-medium">Dates</p>
+                <p className="text-muted-foreground">
+                  {isPartialLeave(request.duration_type)
+                    ? formatDate(request.start_date)
+                    : `${formatDate(request.start_date)} - ${formatDate(request.end_date)}`}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Duration</p>
+                <p className="text-muted-foreground">{formatLeaveDuration(request)}</p>
+              </div>
+              <div>
+                <p className="font-medium">Submitted</p>
+                <p className="text-muted-foreground">{request.created_at ? format(new Date(request.created_at), 'MMM d, yyyy') : '-'}</p>
+              </div>
+              {request.payment_type && (
+                <div>
+                  <p className="font-medium">Pay</p>
+                  <p className="text-muted-foreground capitalize">{request.payment_type.replace('_', ' ')}</p>
+                </div>
+              )}
+            </div>
+
+            {request.reason && (
+              <div>
+                <p className="font-medium">Reason</p>
+                <p className="text-muted-foreground">{request.reason}</p>
+              </div>
+            )}
+
+            {request.review_comments && (
+              <div>
+                <p className="font-medium">Review Comments</p>
+                <p className="text-muted-foreground">{request.review_comments}</p>
+              </div>
+            )}
+
+            {request.status === 'pending' && !isPartialLeave(request.duration_type) && (
+              <LeaveCoverageWarning
+                employeeId={request.employee_id}
+                startDate={request.start_date}
+                endDate={request.end_date}
+                requestId={request.id}
+              />
+            )}
+
+            <ApprovalProgress steps={steps} />
+
+            {changes.length > 0 && (
+              <div className="space-y-2 border-t pt-4">
+                <p className="font-medium">Changes</p>
+                {changes.map(change => (
+                  <div key={change.id} className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                    <span>{formatDate(change.created_at.split('T')[0])}</span>
+                    <span>
+                      {LEAVE_CHANGE_TYPE_LABELS[change.change_type]}
+                      {change.change_type === 'amend' && `: ${formatDate(change.new_start_date)} - ${formatDate(change.new_end_date)}`}
+                    </span>
+                    <Badge variant="outline" className="text-xs">{change.status}</Badge>
+                    <span className="italic">{change.reason}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default LeaveRequestDetail;
@@ -0,0 +1,103 @@
+import { useNavigate } from "react-router-dom";
+import { Dashboard } from "@/components/Dashboard";
+import { AdminDashboard } from "@/components/AdminDashboard";
+import { DocumentManagement } from "@/components/DocumentManagement";
+import { TeamAttendanceReport } from "@/components/TeamAttendanceReport";
+import { SettingsManagement } from "@/components/SettingsManagement";
+import { PersonalAttendanceReport } from "@/components/PersonalAttendanceReport";
+import { PayrollManagement } from "@/components/PayrollManagement";
+import { OrgChart } from "@/components/OrgChart";
+import { LifecycleChecklists } from "@/components/LifecycleChecklists";
+import EmployeeProfile from "@/pages/EmployeeProfile";
+import { useAuth } from "@/hooks/useAuth";
+
+// Sections rendered inside the Index shell; the shell only renders once the profile is loaded
+
+const SectionContainer = ({ children }: { children: React.ReactNode }) => (
+  <div className="container mx-auto px-4 sm:px-6 py-8">
+    {children}
+  </div>
+);
+
+export const DashboardSection = () => {
+  const { profile, signOut } = useAuth();
+  const navigate = useNavigate();
+
+  return (
+    <Dashboard
+      userRole={profile.role}
+      currentUser={{
+        name: profile.full_name || profile.email.split('@')[0],
+        email: profile.email,
+        avatar: profile.avatar_url
+      }}
+      userProfile={{
+        user_id: profile.user_id,
+        email: profile.email,
+        full_name: profile.full_name || profile.email.split('@')[0]
+      }}
+      onLogout={signOut}
+      onNavigate={navigate}
+    />
+  );
+};
+
+export const LeavesSection = () => {
+  const { profile } = useAuth();
+  return (
+    <SectionContainer>
+      <AdminDashboard userRole={profile.role} />
+    </SectionContainer>
+  );
+};
+
+export const MyAttendanceSection = () => (
+  <SectionContainer>
+    <PersonalAttendanceReport />
+  </SectionContainer>
+);
+
+export const TeamAttendanceSection = () => (
+  <SectionContainer>
+    <TeamAttendanceReport />
+  </SectionContainer>
+);
+
+export const DocumentsSection = () => (
+  <SectionContainer>
+    <DocumentManagement />
+  </SectionContainer>
+);
+
+export const SettingsSection = () => {
+  const { profile } = useAuth();
+  return (
+    <SectionContainer>
+      <SettingsManagement userRole={profile.role} />
+    </SectionContainer>
+  );
+};
+
+export const ProfileSection = () => (
+  <SectionContainer>
+    <EmployeeProfile embedded={true} />
+  </SectionContainer>
+);
+
+export const PayrollSection = () => (
+  <SectionContainer>
+    <PayrollManagement />
+  </SectionContainer>
+);
+
+export const OrgChartSection = () => (
+  <SectionContainer>
+    <OrgChart />
+  </SectionContainer>
+);
+
+export const ChecklistsSection = () => (
+  <SectionContainer>
+    <LifecycleChecklists />
+  </SectionContainer>
+);
@@ -0,0 +1,86 @@
+/**
+ * Approver lookups for Deno edge functions
+ * A manager's mail goes to their delegate while one is active (see get_active_delegate)
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { todayInGST } from './timezone.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Resolve who is currently handling an approver's approvals
+ * @param supabase - Service role Supabase client
+ * @param approverId - employees.id of the approver
+ * @param date - Date in YYYY-MM-DD format (defaults to today in GST)
+ * @returns employees.id of their active delegate, or of the approver themselves
+ */
+export async function resolveApprover(
+  supabase: SupabaseClient,
+  approverId: string,
+  date: string = todayInGST()
+): Promise<string> {
+  const { data: delegateId, error } = await supabase.rpc('get_active_delegate', {
+    p_employee_id: approverId,
+    p_date: date,
+  });
+
+  if (error) {
+    console.error('Error resolving approval delegate:', error);
+    return approverId;
+  }
+
+  return (delegateId as string | null) || approverId;
+}
+
+/**
+ * Emails to copy on an employee's notifications: their line manager (or the manager's
+ * delegate), falling back to all admins when there is no manager email
+ * @param employeeId - employees.id of the employee the notification is about
+ * @param supabase - Service role Supabase client
+ */
+export async function getManagerOrAdminEmails(employeeId: string, supabase: SupabaseClient): Promise<string[]> {
+  try {
+    const { data: employee } = await supabase
+      .from('employees')
+      .select('manager_id, email')
+      .eq('id', employeeId)
+      .single();
+
+    if (employee?.manager_id) {
+      const approverId = await resolveApprover(supabase, employee.manager_id);
+      const { data: approver } = await supabase
+        .from('employees')
+        .select('email')
+        .eq('id', approverId)
+        .single();
+
+      if (approver?.email && approver.email !== employee.email) {
+        return [approver.email];
+      }
+    }
+
+    // If no manager or manager has no email, get all admin emails from user_roles table
+    const { data: adminRoles } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('role', 'admin');
+
+    if (adminRoles && adminRoles.length > 0) {
+      const adminUserIds = adminRoles.map((ar: { user_id: string }) => ar.user_id);
+      const { data: adminEmployees } = await supabase
+        .from('employees')
+        .select('email')
+        .in('user_id', adminUserIds);
+
+      return adminEmployees
+        ?.map((a: { email: string | null }) => a.email)
+        .filter((email: string | null): email is string => !!email && email !== employee?.email) || [];
+    }
+
+    return [];
+  } catch (error) {
+    console.error('Error fetching manager/admin emails:', error);
+    return [];
+  }
+}
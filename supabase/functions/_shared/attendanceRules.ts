@@ -0,0 +1,452 @@
+/**
+ * Attendance rules shared by the web app (via src/lib/attendanceRules.ts) and the Deno edge functions
+ * Classifies one employee's day against their schedule or rostered shift, public holidays, approved
+ * leave and submitted exceptions, so every screen, email and report agrees on what is late, early,
+ * absent or short. Callers fetch the data; this module must stay free of runtime-specific imports.
+ */
+
+import { formatTimeInGST, parseScheduledTimeAsUTC } from './timezone.ts';
+
+export type AttendanceViolationType = 'absent' | 'late' | 'early' | 'missed_clock_out' | 'incomplete_hours';
+
+// working = the employee was due to work; the other kinds never carry violations
+export type AttendanceDayKind = 'working' | 'non_working' | 'holiday' | 'leave';
+
+// What a late arrival in a tier leads to: recorded only, a notice to the employee, or a notice
+// copied to their manager
+export type LatenessConsequence = 'record' | 'notify' | 'escalate';
+
+export interface LatenessTier {
+  name: string;
+  // Upper bound in minutes late (inclusive); null = no upper bound
+  up_to_minutes: number | null;
+  consequence: LatenessConsequence;
+}
+
+export interface AttendanceRulesConfig {
+  // Minutes after the scheduled start before a clock-in counts as late
+  lateGraceMinutes: number;
+  // Minutes before the scheduled end a clock-out may be without counting as early
+  earlyGraceMinutes: number;
+  // Ascending by up_to_minutes; a late arrival falls in the first tier it fits
+  latenessTiers: LatenessTier[];
+  // Late arrivals each calendar month that are forgiven before lateness counts
+  monthlyLateAllowance: number;
+}
+
+// The attendance_rules system setting, as stored
+export interface AttendanceRulesSetting {
+  late_grace_minutes: number;
+  early_grace_minutes: number;
+  lateness_tiers: LatenessTier[];
+  monthly_late_allowance: number;
+}
+
+export const DEFAULT_ATTENDANCE_RULES: AttendanceRulesConfig = {
+  lateGraceMinutes: 15,
+  earlyGraceMinutes: 0,
+  latenessTiers: [
+    { name: 'Minor', up_to_minutes: 30, consequence: 'record' },
+    { name: 'Moderate', up_to_minutes: 60, consequence: 'notify' },
+    { name: 'Severe', up_to_minutes: null, consequence: 'escalate' },
+  ],
+  monthlyLateAllowance: 0,
+};
+
+export const LATENESS_CONSEQUENCE_LABELS: Record<LatenessConsequence, string> = {
+  record: 'Recorded only',
+  notify: 'Employee notified',
+  escalate: 'Escalated to manager',
+};
+
+// Used when an employee has neither a schedule with working days nor a roster entry
+export const DEFAULT_WORKING_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_MINIMUM_HOURS = 8;
+
+// Exception types that answer each violation, e.g. a WFH request explains a missing clock-in
+export const VIOLATION_EXCEPTION_TYPES: Record<AttendanceViolationType, string[]> = {
+  absent: ['absent', 'wfh', 'official_business', 'missed_clock_in'],
+  late: ['late_arrival'],
+  early: ['early_departure'],
+  missed_clock_out: ['missed_clock_out'],
+  incomplete_hours: ['short_permission_personal', 'short_permission_official'],
+};
+
+export const VIOLATION_LABELS: Record<AttendanceViolationType, string> = {
+  absent: 'Absent',
+  late: 'Late Arrival',
+  early: 'Early Departure',
+  missed_clock_out: 'Missed Clock-Out',
+  incomplete_hours: 'Incomplete Hours',
+};
+
+export interface DaySchedule {
+  start_time: string | null;
+  end_time: string | null;
+  minimum_daily_hours?: number | null;
+  working_days?: string[] | null;
+}
+
+export interface DayShift {
+  start_time: string;
+  end_time: string;
+  minimum_hours: number | null;
+}
+
+export interface DayLeave {
+  duration_type: string | null;
+  duration_hours: number | null;
+}
+
+export interface DayAttendance {
+  clock_in_time: string | null;
+  clock_out_time: string | null;
+  total_hours: number | null;
+}
+
+export interface DayException {
+  exception_type: string | null;
+  status: string | null;
+}
+
+export interface AttendanceDayInput {
+  // Attendance date (the day the shift starts) in YYYY-MM-DD format
+  date: string;
+  // The employee's active fixed work schedule, if any
+  schedule: DaySchedule | null;
+  // Roster entry for the day: undefined = not rostered, null = rostered day off
+  shift?: DayShift | null;
+  isHoliday?: boolean;
+  // Approved leave covering the day
+  leave?: DayLeave | null;
+  attendance: DayAttendance | null;
+  // Exception requests for the day; rejected ones are ignored
+  exceptions?: DayException[];
+  // Reference time for days still in progress (default: now)
+  now?: Date;
+}
+
+export interface AttendanceViolation {
+  type: AttendanceViolationType;
+  // Minutes late or early, measured from the scheduled start / end
+  minutes?: number;
+  // For late arrivals: the tier the lateness falls in, and whether the monthly allowance forgives it
+  tier?: LatenessTier;
+  withinAllowance?: boolean;
+  // The scheduled start / end and the clock-in / clock-out the violation was measured on
+  scheduledAt?: Date;
+  actualAt?: Date;
+  // For incomplete hours
+  totalHours?: number;
+  requiredHours?: number;
+  // The pending or approved exception request covering the violation, if any
+  exception?: DayException;
+}
+
+// Violation details as shown in attendance emails and stored in the notification logs (times in GST)
+export interface AttendanceViolationDetails {
+  late_hours?: number;
+  early_hours?: number;
+  late_tier?: string;
+  total_hours?: number;
+  minimum_hours?: number;
+  clock_in_time?: string;
+  clock_out_time?: string;
+  scheduled_start?: string;
+  scheduled_end?: string;
+}
+
+export interface AttendanceDayClassification {
+  date: string;
+  kind: AttendanceDayKind;
+  // Scheduled start and end of the day as UTC timestamps (null without start / end times)
+  window: { start: Date; end: Date } | null;
+  // Working hours partial-day leave covers, and the minimum hours left to work after it
+  leaveHours: number;
+  requiredHours: number;
+  violations: AttendanceViolation[];
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Weekday name of a YYYY-MM-DD date, e.g. "Monday"
+ */
+export function getDateDayName(date: string): string {
+  return DAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Resolve the start and end of a shift as UTC timestamps
+ * @param dateString - Day the shift starts (the attendance date) in YYYY-MM-DD format
+ * @param startTime - Shift start in HH:MM or HH:MM:SS format (GST)
+ * @param endTime - Shift end in HH:MM or HH:MM:SS format (GST); not after startTime = next day
+ */
+export function getShiftWindow(dateString: string, startTime: string, endTime: string): { start: Date; end: Date } {
+  const start = parseScheduledTimeAsUTC(dateString, startTime);
+  const end = parseScheduledTimeAsUTC(dateString, endTime);
+  if (end <= start) {
+    end.setUTCDate(end.getUTCDate() + 1);
+  }
+  return { start, end };
+}
+
+// Hours after an overnight shift's scheduled end that a still-open session can be clocked out
+export const OVERNIGHT_CLOCK_OUT_WINDOW_HOURS = 4;
+
+/**
+ * Whether a punch after midnight belongs to yesterday's shift: only when that shift crosses
+ * midnight and is still running, or ended within the clock-out window while a session is open.
+ * A session left open on any other day is a missed clock-out and today starts a new record.
+ * @param shift - Yesterday's shift as returned by get_employee_shift
+ * @param today - Today's date in YYYY-MM-DD format (GST)
+ * @param hasOpenSession - Yesterday's attendance still has a work session open
+ */
+export function isOvernightShiftPunch(
+  shift: { is_working: boolean; end_at: string | null } | null | undefined,
+  today: string,
+  hasOpenSession: boolean,
+  now: Date = new Date()
+): boolean {
+  if (!shift?.is_working || !shift.end_at) return false;
+
+  const end = new Date(shift.end_at);
+  if (end <= parseScheduledTimeAsUTC(today, '00:00')) return false;
+
+  const windowMs = hasOpenSession ? OVERNIGHT_CLOCK_OUT_WINDOW_HOURS * 60 * 60 * 1000 : 0;
+  return now.getTime() <= end.getTime() + windowMs;
+}
+
+/**
+ * Working hours a partial-day leave covers, matching get_partial_leave_hours
+ */
+function partialLeaveHours(leave: DayLeave | null | undefined, minimumHours: number): number {
+  if (!leave || !leave.duration_type || leave.duration_type === 'full_day') return 0;
+  if (leave.duration_type === 'hours') return leave.duration_hours || 0;
+  return minimumHours / 2;
+}
+
+/**
+ * Convert the attendance_rules system setting to a rules config, filling gaps with the defaults
+ */
+export function attendanceRulesFromSetting(setting: Partial<AttendanceRulesSetting> | null | undefined): AttendanceRulesConfig {
+  return {
+    lateGraceMinutes: setting?.late_grace_minutes ?? DEFAULT_ATTENDANCE_RULES.lateGraceMinutes,
+    earlyGraceMinutes: setting?.early_grace_minutes ?? DEFAULT_ATTENDANCE_RULES.earlyGraceMinutes,
+    latenessTiers: [...(setting?.lateness_tiers ?? DEFAULT_ATTENDANCE_RULES.latenessTiers)].sort(
+      (a, b) => (a.up_to_minutes ?? Infinity) - (b.up_to_minutes ?? Infinity)
+    ),
+    monthlyLateAllowance: setting?.monthly_late_allowance ?? DEFAULT_ATTENDANCE_RULES.monthlyLateAllowance,
+  };
+}
+
+/**
+ * The tier a number of minutes late falls in (none when no tiers are configured)
+ */
+export function getLatenessTier(minutesLate: number, config: AttendanceRulesConfig): LatenessTier | undefined {
+  return config.latenessTiers.find(tier => tier.up_to_minutes === null || minutesLate <= tier.up_to_minutes);
+}
+
+const minutesBetween = (from: Date, to: Date) => Math.floor((to.getTime() - from.getTime()) / 60000);
+
+/**
+ * Classify one employee's attendance day
+ * A rostered shift overrides the fixed schedule. Partial-day leave moves the expected arrival
+ * (morning half day) or departure (afternoon half day) and lowers the minimum hours; hourly leave
+ * may be taken at either end of the day.
+ */
+export function classifyAttendanceDay(
+  input: AttendanceDayInput,
+  config: AttendanceRulesConfig = DEFAULT_ATTENDANCE_RULES
+): AttendanceDayClassification {
+  const { date, schedule, shift, leave, attendance } = input;
+  const minimumHours = shift?.minimum_hours ?? schedule?.minimum_daily_hours ?? DEFAULT_MINIMUM_HOURS;
+  const startTime = shift ? shift.start_time : schedule?.start_time;
+  const endTime = shift ? shift.end_time : schedule?.end_time;
+  const window = startTime && endTime ? getShiftWindow(date, startTime, endTime) : null;
+  const leaveHours = partialLeaveHours(leave, minimumHours);
+  const requiredHours = Math.max(minimumHours - leaveHours, 0);
+
+  const result = (kind: AttendanceDayKind, violations: AttendanceViolation[] = []): AttendanceDayClassification => ({
+    date,
+    kind,
+    window,
+    leaveHours,
+    requiredHours,
+    violations,
+  });
+
+  const isWorkingDay = shift !== undefined
+    ? !!shift
+    : (schedule?.working_days?.length ? schedule.working_days : DEFAULT_WORKING_DAYS).includes(getDateDayName(date));
+
+  if (!isWorkingDay) return result('non_working');
+  if (input.isHoliday) return result('holiday');
+  if (leave?.duration_type === 'full_day') return result('leave');
+
+  const exceptions = (input.exceptions || []).filter(exception => exception.status !== 'rejected');
+  const violation = (type: AttendanceViolationType, details: Omit<AttendanceViolation, 'type' | 'exception'> = {}) => ({
+    type,
+    ...details,
+    exception: exceptions.find(exception => VIOLATION_EXCEPTION_TYPES[type].includes(exception.exception_type || '')),
+  });
+
+  if (!attendance?.clock_in_time) {
+    return result('working', [violation('absent')]);
+  }
+
+  const violations: AttendanceViolation[] = [];
+  const clockIn = new Date(attendance.clock_in_time);
+  const clockOut = attendance.clock_out_time ? new Date(attendance.clock_out_time) : null;
+
+  if (window) {
+    const leaveMinutes = Math.round(leaveHours * 60);
+
+    const expectedStart = new Date(window.start);
+    if (leave?.duration_type === 'half_day_am' || leave?.duration_type === 'hours') {
+      expectedStart.setUTCMinutes(expectedStart.getUTCMinutes() + leaveMinutes);
+    }
+    const minutesLate = minutesBetween(expectedStart, clockIn);
+    if (minutesLate > config.lateGraceMinutes) {
+      violations.push(violation('late', {
+        minutes: minutesLate,
+        tier: getLatenessTier(minutesLate, config),
+        scheduledAt: expectedStart,
+        actualAt: clockIn,
+      }));
+    }
+
+    const expectedEnd = new Date(window.end);
+    if (leave?.duration_type === 'half_day_pm' || leave?.duration_type === 'hours') {
+      expectedEnd.setUTCMinutes(expectedEnd.getUTCMinutes() - leaveMinutes);
+    }
+    if (clockOut) {
+      const minutesEarly = minutesBetween(clockOut, expectedEnd);
+      if (minutesEarly > config.earlyGraceMinutes) {
+        violations.push(violation('early', { minutes: minutesEarly, scheduledAt: expectedEnd, actualAt: clockOut }));
+      }
+    } else if ((input.now ?? new Date()) > window.end) {
+      violations.push(violation('missed_clock_out', { scheduledAt: window.end, actualAt: clockIn }));
+    }
+  }
+
+  if (clockOut && (attendance.total_hours ?? 0) < requiredHours) {
+    violations.push(violation('incomplete_hours', { totalHours: attendance.total_hours ?? 0, requiredHours }));
+  }
+
+  return result('working', violations);
+}
+
+/**
+ * Classify a run of one employee's days and apply the monthly late allowance
+ * Pass every day from the start of the month (of the first day reported on) so earlier late
+ * arrivals use up the allowance; days before the reporting period can be dropped afterwards.
+ */
+export function classifyAttendanceDays(
+  inputs: AttendanceDayInput[],
+  config: AttendanceRulesConfig = DEFAULT_ATTENDANCE_RULES
+): AttendanceDayClassification[] {
+  const classifications = inputs
+    .map(input => classifyAttendanceDay(input, config))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const lateCounts = new Map<string, number>();
+  for (const classification of classifications) {
+    const late = findViolation(classification, 'late');
+    if (!late) continue;
+
+    const month = classification.date.slice(0, 7);
+    const count = (lateCounts.get(month) ?? 0) + 1;
+    lateCounts.set(month, count);
+    late.withinAllowance = count <= config.monthlyLateAllowance;
+  }
+
+  return classifications;
+}
+
+/**
+ * Whether a violation counts against the employee (late arrivals within the allowance do not)
+ */
+export function isCountedViolation(violation: AttendanceViolation): boolean {
+  return !violation.withinAllowance;
+}
+
+/**
+ * Whether a violation goes into attendance notices: counted, and not a late arrival in a
+ * record-only tier
+ */
+export function requiresNotice(violation: AttendanceViolation): boolean {
+  return isCountedViolation(violation) && violation.tier?.consequence !== 'record';
+}
+
+/**
+ * Whether a late arrival is in a tier that is escalated to the employee's manager
+ */
+export function isEscalated(violation: AttendanceViolation): boolean {
+  return isCountedViolation(violation) && violation.tier?.consequence === 'escalate';
+}
+
+/**
+ * First day of the month of a YYYY-MM-DD date, where the monthly late allowance starts
+ */
+export function startOfMonthDate(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * Every YYYY-MM-DD date from startDate to endDate (inclusive)
+ */
+export function listDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let d = new Date(`${startDate}T00:00:00Z`); d.toISOString().slice(0, 10) <= endDate; d.setUTCDate(d.getUTCDate() + 1)) {
+    dates.push(d.toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/**
+ * The violation of a type in a classification, if any
+ */
+export function findViolation(
+  classification: AttendanceDayClassification,
+  type: AttendanceViolationType
+): AttendanceViolation | undefined {
+  return classification.violations.find(violation => violation.type === type);
+}
+
+const roundHours = (hours = 0) => Math.round(hours * 100) / 100;
+const formatTime = (date?: Date) => (date ? formatTimeInGST(date) : undefined);
+
+/**
+ * Email / log details of a violation, with hours rounded to 2 decimals and times formatted in GST
+ */
+export function getViolationDetails(violation: AttendanceViolation): AttendanceViolationDetails {
+  switch (violation.type) {
+    case 'late':
+      return {
+        late_hours: roundHours((violation.minutes ?? 0) / 60),
+        late_tier: violation.tier?.name,
+        clock_in_time: formatTime(violation.actualAt),
+        scheduled_start: formatTime(violation.scheduledAt),
+      };
+    case 'early':
+      return {
+        early_hours: roundHours((violation.minutes ?? 0) / 60),
+        clock_out_time: formatTime(violation.actualAt),
+        scheduled_end: formatTime(violation.scheduledAt),
+      };
+    case 'missed_clock_out':
+      return {
+        clock_in_time: formatTime(violation.actualAt),
+        scheduled_end: formatTime(violation.scheduledAt),
+      };
+    case 'incomplete_hours':
+      return {
+        total_hours: roundHours(violation.totalHours),
+        minimum_hours: roundHours(violation.requiredHours),
+      };
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Attendance rules settings lookup for Deno edge functions
+ * The rules themselves live in attendanceRules.ts, shared with the web app
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { AttendanceRulesConfig, AttendanceRulesSetting, attendanceRulesFromSetting } from './attendanceRules.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Fetch the grace windows, lateness tiers and monthly late allowance (defaults when unset)
+ * @param supabase - Service role Supabase client
+ */
+export async function fetchAttendanceRules(supabase: SupabaseClient): Promise<AttendanceRulesConfig> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', 'attendance_rules')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching attendance rules:', error);
+    throw error;
+  }
+
+  return attendanceRulesFromSetting(
+    (data as { setting_value: Partial<AttendanceRulesSetting> } | null)?.setting_value
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Public holiday lookups for Deno edge functions
+ * Holidays are resolved per division through the get_public_holidays RPC
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Fetch applicable holiday dates for each division in a date range
+ * @param supabase - Service role Supabase client
+ * @param startDate - Range start in YYYY-MM-DD format
+ * @param endDate - Range end in YYYY-MM-DD format (inclusive)
+ * @param divisions - Division names to resolve (null = employees without a division)
+ * @returns Map of division name ('' for none) to a set of YYYY-MM-DD holiday dates
+ */
+export async function fetchHolidayDatesByDivision(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string,
+  divisions: (string | null)[]
+): Promise<Map<string, Set<string>>> {
+  const result = new Map<string, Set<string>>();
+  const uniqueDivisions = Array.from(new Set(divisions.map(d => d || '')));
+
+  for (const division of uniqueDivisions) {
+    const { data, error } = await supabase.rpc('get_public_holidays', {
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_division: division || null,
+    });
+
+    if (error) {
+      console.error(`Error fetching public holidays for division "${division}":`, error);
+      throw error;
+    }
+
+    result.set(division, new Set((data || []).map((h: { holiday_date: string }) => h.holiday_date)));
+  }
+
+  return result;
+}
+
+export function getHolidayDates(
+  holidaysByDivision: Map<string, Set<string>>,
+  division: string | null | undefined
+): Set<string> {
+  return holidaysByDivision.get(division || '') || new Set();
+}
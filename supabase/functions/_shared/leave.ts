@@ -0,0 +1,51 @@
+/**
+ * Approved leave lookups for Deno edge functions
+ * Full-day leave excuses the whole day; partial-day leave (half day or hours) counts towards
+ * the day's minimum hours (see get_partial_leave_hours)
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface ApprovedLeave {
+  employee_id: string;
+  start_date: string;
+  end_date: string;
+  duration_type: 'full_day' | 'half_day_am' | 'half_day_pm' | 'hours';
+  duration_hours: number | null;
+}
+
+/**
+ * Fetch approved leave overlapping a date range
+ * @param supabase - Service role Supabase client
+ * @param startDate - Range start in YYYY-MM-DD format
+ * @param endDate - Range end in YYYY-MM-DD format (inclusive)
+ */
+export async function fetchApprovedLeaves(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<ApprovedLeave[]> {
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select('employee_id, start_date, end_date, duration_type, duration_hours')
+    .eq('status', 'approved')
+    .lte('start_date', endDate)
+    .gte('end_date', startDate);
+
+  if (error) {
+    console.error('Error fetching approved leave:', error);
+    throw error;
+  }
+
+  return (data || []) as ApprovedLeave[];
+}
+
+export function getApprovedLeave(
+  leaves: ApprovedLeave[],
+  employeeId: string,
+  date: string
+): ApprovedLeave | undefined {
+  return leaves.find(l => l.employee_id === employeeId && date >= l.start_date && date <= l.end_date);
+}
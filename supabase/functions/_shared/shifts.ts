@@ -0,0 +1,64 @@
+/**
+ * Shift roster lookups for Deno edge functions
+ * A rostered shift overrides the employee's fixed work schedule for that day
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+export { getShiftWindow } from './attendanceRules.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface ShiftTemplate {
+  id: string;
+  name: string;
+  code: string;
+  start_time: string;
+  end_time: string;
+  crosses_midnight: boolean;
+  minimum_hours: number;
+}
+
+export interface ShiftAssignment {
+  employee_id: string;
+  shift_date: string;
+  // null = rostered day off
+  shift_templates: ShiftTemplate | null;
+}
+
+/**
+ * Fetch roster entries for a date range
+ * @param supabase - Service role Supabase client
+ * @param startDate - Range start in YYYY-MM-DD format
+ * @param endDate - Range end in YYYY-MM-DD format (inclusive)
+ * @returns Map keyed by `${employeeId}|${shiftDate}`
+ */
+export async function fetchShiftAssignments(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, ShiftAssignment>> {
+  const { data, error } = await supabase
+    .from('shift_assignments')
+    .select('employee_id, shift_date, shift_templates(id, name, code, start_time, end_time, crosses_midnight, minimum_hours)')
+    .gte('shift_date', startDate)
+    .lte('shift_date', endDate);
+
+  if (error) {
+    console.error('Error fetching shift assignments:', error);
+    throw error;
+  }
+
+  const result = new Map<string, ShiftAssignment>();
+  for (const assignment of (data || []) as ShiftAssignment[]) {
+    result.set(`${assignment.employee_id}|${assignment.shift_date}`, assignment);
+  }
+  return result;
+}
+
+export function getShiftAssignment(
+  assignments: Map<string, ShiftAssignment>,
+  employeeId: string,
+  date: string
+): ShiftAssignment | undefined {
+  return assignments.get(`${employeeId}|${date}`);
+}
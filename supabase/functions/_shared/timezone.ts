@@ -71,7 +71,16 @@ export function getDayName(date: Date): string {
   return days[date.getDay()];
 }
 
-export function isWorkingDay(date: Date, workingDays: string[]): boolean {
+/**
+ * Check whether a date is a working day for a schedule
+ * @param date - Date to check (its UTC calendar date is used for holiday lookup)
+ * @param workingDays - Schedule working day names (empty = all days except Sunday)
+ * @param holidayDates - Optional set of YYYY-MM-DD public holiday dates to exclude
+ */
+export function isWorkingDay(date: Date, workingDays: string[], holidayDates?: Set<string>): boolean {
+  if (holidayDates?.has(date.toISOString().split('T')[0])) {
+    return false;
+  }
   if (!workingDays || workingDays.length === 0) {
     // Default: All days except Sunday
     return date.getDay() !== 0;
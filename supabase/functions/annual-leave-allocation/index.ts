@@ -22,10 +22,11 @@ serve(async (req) => {
     const { year } = await req.json().catch(() => ({ year: new Date().getFullYear() }));
     const targetYear = year || new Date().getFullYear();
 
-    console.log(`Starting annual leave allocation for year ${targetYear}`);
+    console.log(`Starting leave accrual for year ${targetYear}`);
 
-    // Call the auto_allocate_leave_balances function
-    const { data, error } = await supabase.rpc('auto_allocate_leave_balances', {
+    // Runs the accrual engine up to today (or the end of a past year); periods already
+    // posted to the ledger are skipped, so this is safe to call repeatedly
+    const { error } = await supabase.rpc('auto_allocate_leave_balances', {
       p_year: targetYear
     });
 
@@ -0,0 +1,390 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { todayInGST, yesterdayInGST } from '../_shared/timezone.ts';
+import { isOvernightShiftPunch } from '../_shared/attendanceRules.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+type ClockAction = 'clock-in' | 'clock-out' | 'break-start' | 'break-end';
+
+interface ClockRequest {
+  action: ClockAction;
+}
+
+interface AttendanceSession {
+  id: string;
+  session_type: 'work' | 'break';
+  start_time: string;
+  end_time: string | null;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const CLOCK_ACTIONS: ClockAction[] = ['clock-in', 'clock-out', 'break-start', 'break-end'];
+
+type RejectionReason =
+  | 'unauthorized'
+  | 'invalid_action'
+  | 'employee_not_found'
+  | 'employee_inactive'
+  | 'ip_unknown'
+  | 'ip_not_allowed'
+  | 'already_clocked_in'
+  | 'not_clocked_in'
+  | 'already_on_break'
+  | 'not_on_break';
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const reject = (reason: RejectionReason, message: string, status: number, extra: Record<string, unknown> = {}) => {
+  console.log(`Clock request rejected (${reason}): ${message}`);
+  return jsonResponse({ success: false, reason, error: message, ...extra }, status);
+};
+
+// The platform proxy sets cf-connecting-ip and appends the real client address to x-forwarded-for.
+// Earlier x-forwarded-for entries come from the caller and can be forged, so only the last hop counts.
+function getClientIp(req: Request): string | null {
+  const candidate = req.headers.get('cf-connecting-ip')?.trim() ||
+    req.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return candidate && isIpAddress(candidate) ? candidate : null;
+}
+
+function isIpAddress(value: string): boolean {
+  const ipv4 = value.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) return ipv4.slice(1).every(octet => Number(octet) <= 255);
+  return value.includes(':') && /^[0-9a-f:.]+$/i.test(value);
+}
+
+async function fetchSessions(supabase: SupabaseClient, attendanceId: string): Promise<AttendanceSession[]> {
+  const { data, error } = await supabase
+    .from('attendance_sessions')
+    .select('id, session_type, start_time, end_time')
+    .eq('attendance_id', attendanceId)
+    .order('start_time', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+async function closeSession(supabase: SupabaseClient, sessionId: string, endTime: string, clientIp: string) {
+  const { error } = await supabase
+    .from('attendance_sessions')
+    .update({ end_time: endTime, end_ip_address: clientIp })
+    .eq('id', sessionId);
+
+  if (error) throw error;
+}
+
+// Punches belong to the day the shift started. After midnight, a shift that crosses midnight keeps
+// recording against yesterday's attendance while it runs, and an open session can still be clocked
+// out shortly after its end. Any other session left open yesterday is a missed clock-out: it stays
+// open (so the day is reported as such) and today starts a new record.
+async function resolveAttendanceDate(supabase: SupabaseClient, employeeId: string): Promise<string> {
+  const yesterday = yesterdayInGST();
+  const today = todayInGST();
+
+  const { data: previous, error: previousError } = await supabase
+    .from('attendance')
+    .select('id')
+    .eq('employee_id', employeeId)
+    .eq('date', yesterday)
+    .maybeSingle();
+
+  if (previousError) throw previousError;
+
+  const previousSessions = previous ? await fetchSessions(supabase, previous.id) : [];
+  const hasOpenSession = previousSessions.some(s => s.session_type === 'work' && !s.end_time);
+
+  const { data: shifts, error: shiftError } = await supabase
+    .rpc('get_employee_shift', { p_employee_id: employeeId, p_date: yesterday });
+
+  if (shiftError) throw shiftError;
+
+  if (isOvernightShiftPunch(shifts?.[0], today, hasOpenSession)) {
+    return yesterday;
+  }
+
+  if (hasOpenSession) {
+    console.log(`Employee ${employeeId} did not clock out on ${yesterday}; recording against ${today}`);
+  }
+
+  return today;
+}
+
+// Day totals are recalculated by database triggers once the sessions change
+async function buildDayResponse(supabase: SupabaseClient, attendanceId: string, extra: Record<string, unknown>) {
+  const { data: attendance, error } = await supabase
+    .from('attendance')
+    .select('id, date, clock_in_time, clock_out_time, total_hours, break_duration_minutes')
+    .eq('id', attendanceId)
+    .single();
+
+  if (error) throw error;
+
+  return {
+    attendance_id: attendance.id,
+    clock_in_time: attendance.clock_in_time,
+    clock_out_time: attendance.clock_out_time,
+    total_hours: attendance.total_hours,
+    break_duration_minutes: attendance.break_duration_minutes,
+    date: attendance.date,
+    sessions: await fetchSessions(supabase, attendanceId),
+    ...extra,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    // Identify the caller from their JWT; the employee is never taken from the request body
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return reject('unauthorized', 'No authorization header', 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return reject('unauthorized', 'Unauthorized', 401);
+    }
+
+    const { action } = await req.json() as ClockRequest;
+    if (!CLOCK_ACTIONS.includes(action)) {
+      return reject('invalid_action', `Action must be one of ${CLOCK_ACTIONS.join(', ')}`, 400);
+    }
+
+    const { data: employee, error: employeeError } = await supabase
+      .from('employees')
+      .select('id, full_name, status, wfh_enabled')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (employeeError) throw employeeError;
+
+    if (!employee) {
+      return reject('employee_not_found', 'Employee record not found. Please contact admin.', 404);
+    }
+
+    if (employee.status !== 'active') {
+      return reject('employee_inactive', 'Your employee account is not active', 403);
+    }
+
+    // Validate the network the punch comes from
+    const clientIp = getClientIp(req);
+    if (!clientIp) {
+      return reject('ip_unknown', 'Could not determine your network address', 400);
+    }
+
+    const { data: isAllowed, error: ipError } = await supabase
+      .rpc('is_ip_allowed', { p_ip_address: clientIp });
+
+    if (ipError) {
+      // invalid_text_representation: the address did not cast to INET
+      if (ipError.code === '22P02') {
+        return reject('ip_unknown', 'Could not determine your network address', 400);
+      }
+      console.error('Error validating IP address:', ipError);
+      throw ipError;
+    }
+
+    // Off-network punches are only accepted for employees enabled for work from home
+    const isWfh = !isAllowed;
+    if (isWfh && !employee.wfh_enabled) {
+      return reject(
+        'ip_not_allowed',
+        'You are not connected to an approved office network. Please clock in from the office or ask HR to enable work from home.',
+        403,
+        { ip: clientIp }
+      );
+    }
+
+    const attendanceDate = await resolveAttendanceDate(supabase, employee.id);
+    const now = new Date().toISOString();
+
+    const { data: existing, error: existingError } = await supabase
+      .from('attendance')
+      .select('id, clock_in_time, clock_out_time, clock_out_ip_address, is_wfh')
+      .eq('employee_id', employee.id)
+      .eq('date', attendanceDate)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    let sessions: AttendanceSession[] = existing
+      ? await fetchSessions(supabase, existing.id)
+      : [];
+
+    // Days punched before the session log existed (or created by an approved exception) get their
+    // clock times carried over as the first work session so they are not lost
+    if (existing?.clock_in_time && !sessions.some(s => s.session_type === 'work')) {
+      const { error: seedError } = await supabase.from('attendance_sessions').insert({
+        attendance_id: existing.id,
+        employee_id: employee.id,
+        session_type: 'work',
+        start_time: existing.clock_in_time,
+        end_time: existing.clock_out_time,
+        end_ip_address: existing.clock_out_ip_address,
+      });
+      if (seedError) throw seedError;
+      sessions = await fetchSessions(supabase, existing.id);
+    }
+
+    const openWork = sessions.find(s => s.session_type === 'work' && !s.end_time);
+    const openBreak = sessions.find(s => s.session_type === 'break' && !s.end_time);
+
+    if (action === 'clock-in') {
+      if (openWork) {
+        return reject('already_clocked_in', 'You are already clocked in', 409);
+      }
+
+      let attendanceId = existing?.id;
+
+      if (!existing) {
+        const { data: created, error: createError } = await supabase
+          .from('attendance')
+          .insert({
+            employee_id: employee.id,
+            date: attendanceDate,
+            status: 'present',
+            is_wfh: isWfh,
+            ip_address: clientIp,
+          })
+          .select('id')
+          .single();
+
+        if (createError) {
+          if (createError.code === '23505') {
+            return reject('already_clocked_in', 'You are already clocked in', 409);
+          }
+          throw createError;
+        }
+        attendanceId = created.id;
+      } else if (!existing.clock_in_time || (isWfh && !existing.is_wfh)) {
+        // A row may already exist without a clock-in (e.g. created by an approved exception)
+        const { error: flagError } = await supabase
+          .from('attendance')
+          .update({
+            status: 'present',
+            is_wfh: isWfh || !!existing.is_wfh,
+            ...(existing.clock_in_time ? {} : { ip_address: clientIp }),
+          })
+          .eq('id', existing.id);
+
+        if (flagError) throw flagError;
+      }
+
+      const { error: sessionError } = await supabase.from('attendance_sessions').insert({
+        attendance_id: attendanceId,
+        employee_id: employee.id,
+        session_type: 'work',
+        start_time: now,
+        start_ip_address: clientIp,
+      });
+
+      if (sessionError) {
+        if (sessionError.code === '23505') {
+          return reject('already_clocked_in', 'You are already clocked in', 409);
+        }
+        throw sessionError;
+      }
+
+      console.log(`${employee.full_name} clocked in from ${clientIp}${isWfh ? ' (WFH)' : ''}`);
+
+      return jsonResponse({
+        success: true,
+        data: await buildDayResponse(supabase, attendanceId!, { clock_in_time: now, is_wfh: isWfh }),
+      }, 200);
+    }
+
+    if (!existing || sessions.length === 0) {
+      return reject('not_clocked_in', 'No clock-in record found for today', 404);
+    }
+
+    if (action === 'break-start') {
+      if (!openWork) {
+        return reject('not_clocked_in', 'Clock in before starting a break', 409);
+      }
+      if (openBreak) {
+        return reject('already_on_break', 'You are already on a break', 409);
+      }
+
+      const { error: breakError } = await supabase.from('attendance_sessions').insert({
+        attendance_id: existing.id,
+        employee_id: employee.id,
+        session_type: 'break',
+        start_time: now,
+        start_ip_address: clientIp,
+      });
+
+      if (breakError) {
+        if (breakError.code === '23505') {
+          return reject('already_on_break', 'You are already on a break', 409);
+        }
+        throw breakError;
+      }
+
+      console.log(`${employee.full_name} started a break`);
+
+      return jsonResponse({
+        success: true,
+        data: await buildDayResponse(supabase, existing.id, { break_start_time: now }),
+      }, 200);
+    }
+
+    if (action === 'break-end') {
+      if (!openBreak) {
+        return reject('not_on_break', 'You are not on a break', 409);
+      }
+
+      await closeSession(supabase, openBreak.id, now, clientIp);
+
+      console.log(`${employee.full_name} ended a break`);
+
+      return jsonResponse({
+        success: true,
+        data: await buildDayResponse(supabase, existing.id, { break_end_time: now }),
+      }, 200);
+    }
+
+    // Clock-out closes the open work session (and any break still running). Without an open
+    // session the employee is off the clock, so there is nothing to end.
+    if (!openWork) {
+      return reject('not_clocked_in', 'You are not clocked in', 409);
+    }
+
+    if (openBreak) {
+      await closeSession(supabase, openBreak.id, now, clientIp);
+    }
+
+    await closeSession(supabase, openWork.id, now, clientIp);
+
+    const { error: clockOutIpError } = await supabase
+      .from('attendance')
+      .update({ clock_out_ip_address: clientIp })
+      .eq('id', existing.id);
+
+    if (clockOutIpError) throw clockOutIpError;
+
+    console.log(`${employee.full_name} clocked out from ${clientIp}${isWfh ? ' (WFH)' : ''}`);
+
+    return jsonResponse({
+      success: true,
+      data: await buildDayResponse(supabase, existing.id, { clock_out_time: now }),
+    }, 200);
+  } catch (error) {
+    console.error('Error in attendance-clock:', error);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
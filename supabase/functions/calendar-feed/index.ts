@@ -0,0 +1,285 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { todayInGST } from '../_shared/timezone.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Calendar apps poll the feed; publish a window around today rather than the whole history
+const PAST_DAYS = 180;
+const FUTURE_DAYS = 365;
+
+const DURATION_LABELS: Record<string, string> = {
+  half_day_am: 'half day, morning',
+  half_day_pm: 'half day, afternoon',
+};
+
+interface CalendarFeed {
+  id: string;
+  employee_id: string;
+  feed_type: 'personal' | 'team';
+}
+
+interface FeedEvent {
+  uid: string;
+  summary: string;
+  // All-day events; endDate is inclusive
+  startDate: string;
+  endDate: string;
+}
+
+interface LeaveRow {
+  id: string;
+  start_date: string;
+  end_date: string;
+  duration_type: string;
+  duration_hours: number | null;
+  leave_type: { name: string } | null;
+  employee: { full_name: string } | null;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545: content lines longer than 75 octets are folded onto continuation lines
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  // Split on code points so a multi-byte character is never cut in half
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (octets + size > 75) {
+      chunks.push(chunk);
+      chunk = ' ';
+      octets = 1;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n');
+}
+
+function buildCalendar(name: string, events: FeedEvent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HRFlow//Leave Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Asia/Dubai',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@hrflow`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${event.startDate.replace(/-/g, '')}`,
+      // DTEND of an all-day event is exclusive
+      `DTEND;VALUE=DATE:${addDays(event.endDate, 1).replace(/-/g, '')}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function describeLeave(leave: LeaveRow): string {
+  const name = leave.leave_type?.name || 'Leave';
+  if (leave.duration_type === 'hours') return `${name} (${leave.duration_hours}h)`;
+  const label = DURATION_LABELS[leave.duration_type];
+  return label ? `${name} (${label})` : name;
+}
+
+async function fetchApprovedLeave(
+  supabase: SupabaseClient,
+  employeeIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<LeaveRow[]> {
+  if (employeeIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select(`
+      id, start_date, end_date, duration_type, duration_hours,
+      leave_type:leave_types(name),
+      employee:employees!leave_requests_employee_id_fkey(full_name)
+    `)
+    .in('employee_id', employeeIds)
+    .eq('status', 'approved')
+    .lte('start_date', endDate)
+    .gte('end_date', startDate)
+    .order('start_date', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as LeaveRow[];
+}
+
+async function buildPersonalEvents(
+  supabase: SupabaseClient,
+  employee: { id: string; division: string | null },
+  startDate: string,
+  endDate: string
+): Promise<FeedEvent[]> {
+  const [leaves, wfhResult, holidaysResult] = await Promise.all([
+    fetchApprovedLeave(supabase, [employee.id], startDate, endDate),
+    supabase
+      .from('attendance_exceptions')
+      .select('id, target_date')
+      .eq('employee_id', employee.id)
+      .eq('exception_type', 'wfh')
+      .eq('status', 'approved')
+      .gte('target_date', startDate)
+      .lte('target_date', endDate),
+    supabase.rpc('get_public_holidays', {
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_division: employee.division,
+    }),
+  ]);
+
+  if (wfhResult.error) throw wfhResult.error;
+  if (holidaysResult.error) throw holidaysResult.error;
+
+  const events: FeedEvent[] = leaves.map(leave => ({
+    uid: `leave-${leave.id}`,
+    summary: describeLeave(leave),
+    startDate: leave.start_date,
+    endDate: leave.end_date,
+  }));
+
+  for (const wfh of wfhResult.data || []) {
+    events.push({
+      uid: `wfh-${wfh.id}`,
+      summary: 'Working from home',
+      startDate: wfh.target_date,
+      endDate: wfh.target_date,
+    });
+  }
+
+  for (const holiday of holidaysResult.data || []) {
+    events.push({
+      uid: `holiday-${holiday.holiday_id}-${holiday.holiday_date}`,
+      summary: `Public holiday: ${holiday.name}`,
+      startDate: holiday.holiday_date,
+      endDate: holiday.holiday_date,
+    });
+  }
+
+  return events;
+}
+
+async function buildTeamEvents(
+  supabase: SupabaseClient,
+  managerId: string,
+  startDate: string,
+  endDate: string
+): Promise<FeedEvent[]> {
+  const { data: reports, error } = await supabase
+    .from('employees')
+    .select('id')
+    .eq('manager_id', managerId)
+    .eq('status', 'active');
+
+  if (error) throw error;
+
+  const leaves = await fetchApprovedLeave(supabase, (reports || []).map(r => r.id), startDate, endDate);
+  return leaves.map(leave => ({
+    uid: `team-leave-${leave.id}`,
+    summary: `${leave.employee?.full_name || 'Team member'}: ${describeLeave(leave)}`,
+    startDate: leave.start_date,
+    endDate: leave.end_date,
+  }));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Calendar apps cannot send headers, so the secret token travels in the URL
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return new Response('Missing token', { status: 400, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('id, employee_id, feed_type')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) {
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+    }
+
+    const { employee_id: employeeId, feed_type: feedType } = feed as CalendarFeed;
+
+    const { data: employee, error: employeeError } = await supabase
+      .from('employees')
+      .select('id, full_name, division, status')
+      .eq('id', employeeId)
+      .single();
+
+    if (employeeError) throw employeeError;
+    if (employee.status !== 'active') {
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+    }
+
+    const today = todayInGST();
+    const startDate = addDays(today, -PAST_DAYS);
+    const endDate = addDays(today, FUTURE_DAYS);
+
+    const events = feedType === 'team'
+      ? await buildTeamEvents(supabase, employee.id, startDate, endDate)
+      : await buildPersonalEvents(supabase, employee, startDate, endDate);
+
+    await supabase
+      .from('calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    const calendarName = feedType === 'team' ? `${employee.full_name}'s team leave` : `${employee.full_name} - leave`;
+    console.log(`Serving ${feedType} calendar feed for ${employee.full_name} (${events.length} events)`);
+
+    return new Response(buildCalendar(calendarName, events), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="leave.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response('Failed to build calendar feed', { status: 500, headers: corsHeaders });
+  }
+});
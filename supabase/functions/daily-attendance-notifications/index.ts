@@ -1,7 +1,22 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.55.0";
 import { Resend } from "npm:resend@2.0.0";
-import { nowInGST, yesterdayInGST, formatTimeInGST, parseScheduledTimeAsUTC, getDayName, isWorkingDay } from '../_shared/timezone.ts';
+import { yesterdayInGST, getDayName } from '../_shared/timezone.ts';
+import { fetchHolidayDatesByDivision, getHolidayDates } from '../_shared/holidays.ts';
+import { fetchShiftAssignments, getShiftAssignment } from '../_shared/shifts.ts';
+import { getManagerOrAdminEmails } from '../_shared/approvers.ts';
+import { fetchApprovedLeaves, getApprovedLeave } from '../_shared/leave.ts';
+import {
+  AttendanceViolationDetails,
+  AttendanceViolationType,
+  classifyAttendanceDays,
+  getViolationDetails,
+  isEscalated,
+  listDates,
+  requiresNotice,
+  startOfMonthDate
+} from '../_shared/attendanceRules.ts';
+import { fetchAttendanceRules } from '../_shared/attendanceSettings.ts';
 
 // CORS headers
 const corsHeaders = {
@@ -9,63 +24,9 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-async function getManagerOrAdminEmails(employeeId: string, supabase: any): Promise<string[]> {
-  try {
-    // First try to get the employee's manager
-    const { data: employee } = await supabase
-      .from('employees')
-      .select('manager_id, email')
-      .eq('id', employeeId)
-      .single();
-    
-    if (employee?.manager_id) {
-      // Get manager's email
-      const { data: manager } = await supabase
-        .from('employees')
-        .select('email')
-        .eq('id', employee.manager_id)
-        .single();
-      
-      if (manager?.email && manager.email !== employee.email) {
-        return [manager.email];
-      }
-    }
-    
-    // If no manager or manager has no email, get all admin emails from user_roles table
-    const { data: adminRoles } = await supabase
-      .from('user_roles')
-      .select('user_id')
-      .eq('role', 'admin');
-    
-    if (adminRoles && adminRoles.length > 0) {
-      const adminUserIds = adminRoles.map((ar: any) => ar.user_id);
-      const { data: adminEmployees } = await supabase
-        .from('employees')
-        .select('email')
-        .in('user_id', adminUserIds);
-      
-      return adminEmployees?.map((a: any) => a.email).filter((email: string) => email && email !== employee?.email) || [];
-    }
-    
-    return [];
-  } catch (error) {
-    console.error('Error fetching manager/admin emails:', error);
-    return [];
-  }
-}
-
 interface AttendanceIssue {
-  type: 'late' | 'early' | 'absent' | 'incomplete_hours';
-  details: {
-    late_hours?: number;
-    early_hours?: number;
-    total_hours?: number;
-    minimum_hours?: number;
-    clock_in_time?: string;
-    clock_out_time?: string;
-    scheduled_start?: string;
-    scheduled_end?: string;
-  };
+  type: AttendanceViolationType;
+  details: AttendanceViolationDetails;
 }
 
 interface EmployeeNotification {
@@ -74,6 +35,8 @@ interface EmployeeNotification {
   employee_name: string;
   email: string;
   issues: AttendanceIssue[];
+  // Copy the manager: anything other than a late arrival, or lateness in an escalated tier
+  escalate: boolean;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -94,7 +57,7 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Processing attendance notifications for ${targetDate} (GST)`);
 
-    // Fetch all active employees with their work schedules
+    // Fetch all active employees with their work schedules; rostered employees may have none
     const { data: employees, error: empError } = await supabase
       .from('employees')
       .select(`
@@ -102,7 +65,8 @@ const handler = async (req: Request): Promise<Response> => {
         user_id,
         full_name,
         email,
-        work_schedules!inner(
+        division,
+        work_schedules(
           start_time,
           end_time,
           minimum_daily_hours,
@@ -120,11 +84,16 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Found ${employees?.length || 0} active employees`);
 
-    // Fetch attendance records for target date
+    // Earlier late arrivals this month use up the monthly late allowance, so the month so far is classified
+    const monthStart = startOfMonthDate(targetDate);
+    const attendanceRules = await fetchAttendanceRules(supabase);
+
+    // Fetch attendance records for the month up to the target date
     const { data: attendanceRecords, error: attError } = await supabase
       .from('attendance')
       .select('*')
-      .eq('date', targetDate);
+      .gte('date', monthStart)
+      .lte('date', targetDate);
 
     if (attError) {
       console.error('Error fetching attendance:', attError);
@@ -133,6 +102,24 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Found ${attendanceRecords?.length || 0} attendance records`);
 
+    const attendanceMap = new Map(
+      (attendanceRecords || []).map(record => [`${record.employee_id}|${record.date}`, record])
+    );
+
+    // Resolve public holidays for each division so nobody is flagged absent on a holiday
+    const holidaysByDivision = await fetchHolidayDatesByDivision(
+      supabase,
+      monthStart,
+      targetDate,
+      (employees || []).map(e => e.division)
+    );
+
+    // Rostered shifts override the fixed schedule; a night shift is checked against the day it started
+    const shiftAssignments = await fetchShiftAssignments(supabase, monthStart, targetDate);
+
+    // Nobody is flagged on a day of approved leave; partial-day leave counts towards the minimum hours
+    const approvedLeaves = await fetchApprovedLeaves(supabase, monthStart, targetDate);
+
     const notifications: EmployeeNotification[] = [];
 
     // Process each employee
@@ -141,80 +128,48 @@ const handler = async (req: Request): Promise<Response> => {
         ? employee.work_schedules[0] 
         : employee.work_schedules;
       
-      if (!schedule) {
+      const assignment = getShiftAssignment(shiftAssignments, employee.id, targetDate);
+
+      if (!assignment && !schedule) {
         console.log(`No schedule found for employee ${employee.full_name}`);
         continue;
       }
 
-      // Check if yesterday was a working day for this employee
+      // Classify yesterday with the shared attendance rules
       const yesterdayDate = new Date(targetDate + "T00:00:00Z");
-      if (!isWorkingDay(yesterdayDate, schedule.working_days || [])) {
-        console.log(`Skipping ${employee.full_name} - ${getDayName(yesterdayDate)} is not a working day`);
+      const holidayDates = getHolidayDates(holidaysByDivision, employee.division);
+      const days = classifyAttendanceDays(
+        listDates(monthStart, targetDate).map(date => {
+          const dayAssignment = getShiftAssignment(shiftAssignments, employee.id, date);
+          return {
+            date,
+            schedule: schedule ?? null,
+            shift: dayAssignment ? dayAssignment.shift_templates : undefined,
+            isHoliday: holidayDates.has(date),
+            leave: getApprovedLeave(approvedLeaves, employee.id, date),
+            attendance: attendanceMap.get(`${employee.id}|${date}`) ?? null,
+          };
+        }),
+        attendanceRules
+      );
+      const day = days[days.length - 1];
+
+      if (day.kind !== 'working') {
+        const reason = day.kind === 'holiday'
+          ? 'a public holiday'
+          : day.kind === 'leave'
+            ? 'a day of approved leave'
+            : assignment ? 'a rostered day off' : 'not a working day';
+        console.log(`Skipping ${employee.full_name} - ${getDayName(yesterdayDate)} is ${reason}`);
         continue;
       }
 
-      const attendance = attendanceRecords?.find(a => a.employee_id === employee.id);
-      const issues: AttendanceIssue[] = [];
-
-      if (!attendance || !attendance.clock_in_time) {
-        // Employee was absent
-        issues.push({
-          type: 'absent',
-          details: {}
-        });
-      } else {
-        // Check for late check-in
-        const clockInTimeUTC = new Date(attendance.clock_in_time); // Keep as UTC
-        const scheduledStartUTC = parseScheduledTimeAsUTC(targetDate, schedule.start_time);
-        
-        if (clockInTimeUTC > scheduledStartUTC) {
-          const lateMs = clockInTimeUTC.getTime() - scheduledStartUTC.getTime();
-          const lateHours = lateMs / (1000 * 60 * 60);
-          
-          issues.push({
-            type: 'late',
-            details: {
-              late_hours: Math.round(lateHours * 100) / 100,
-              clock_in_time: formatTimeInGST(clockInTimeUTC),      // Display in GST
-              scheduled_start: formatTimeInGST(scheduledStartUTC)  // Display in GST
-            }
-          });
-        }
-
-        // Check for early check-out
-        if (attendance.clock_out_time) {
-          const clockOutTimeUTC = new Date(attendance.clock_out_time); // Keep as UTC
-          const scheduledEndUTC = parseScheduledTimeAsUTC(targetDate, schedule.end_time);
-          
-          if (clockOutTimeUTC < scheduledEndUTC) {
-            const earlyMs = scheduledEndUTC.getTime() - clockOutTimeUTC.getTime();
-            const earlyHours = earlyMs / (1000 * 60 * 60);
-            
-            issues.push({
-              type: 'early',
-              details: {
-                early_hours: Math.round(earlyHours * 100) / 100,
-                clock_out_time: formatTimeInGST(clockOutTimeUTC),  // Display in GST
-                scheduled_end: formatTimeInGST(scheduledEndUTC)    // Display in GST
-              }
-            });
-          }
-        }
-
-        // Check for incomplete hours
-        const totalHours = attendance.total_hours || 0;
-        const minimumHours = schedule.minimum_daily_hours || 8;
-        
-        if (totalHours < minimumHours) {
-          issues.push({
-            type: 'incomplete_hours',
-            details: {
-              total_hours: Math.round(totalHours * 100) / 100,
-              minimum_hours: minimumHours
-            }
-          });
-        }
-      }
+      // Late arrivals in a record-only tier or within the monthly allowance are not notified
+      const noticeViolations = day.violations.filter(requiresNotice);
+      const issues: AttendanceIssue[] = noticeViolations.map(violation => ({
+        type: violation.type,
+        details: getViolationDetails(violation)
+      }));
 
       // If any issues found, queue notification
       if (issues.length > 0) {
@@ -223,7 +178,8 @@ const handler = async (req: Request): Promise<Response> => {
           user_id: employee.user_id,
           employee_name: employee.full_name,
           email: employee.email,
-          issues
+          issues,
+          escalate: noticeViolations.some(violation => violation.type !== 'late' || isEscalated(violation))
         });
       }
     }
@@ -246,8 +202,10 @@ const handler = async (req: Request): Promise<Response> => {
           notification.issues
         );
 
-        // Get CC emails (manager or admin)
-        const ccEmails = await getManagerOrAdminEmails(notification.employee_id, supabase);
+        // Get CC emails (manager or admin) unless the notice is only about minor lateness
+        const ccEmails = notification.escalate
+          ? await getManagerOrAdminEmails(notification.employee_id, supabase)
+          : [];
 
         const emailPayload: any = {
           from: "HRFlow <noreply@amanacorporate.com>",
@@ -278,7 +236,7 @@ const handler = async (req: Request): Promise<Response> => {
               issues: notification.issues.map(i => i.type)
             },
             p_action_url: '/',
-            p_priority: 'high'
+            p_priority: notification.escalate ? 'high' : 'normal'
           });
           console.log(`In-app notification created for ${notification.email}`);
         } catch (notifError) {
@@ -371,7 +329,7 @@ function generateAttendanceEmailHTML(
           <li style="margin-bottom: 15px;">
             <strong style="color: #dc2626;">Late Check-in:</strong> 
             You clocked in at <strong>${issue.details.clock_in_time}</strong>, 
-            which was <strong>${issue.details.late_hours} hours</strong> late.
+            which was <strong>${issue.details.late_hours} hours</strong> late${issue.details.late_tier ? ` (${issue.details.late_tier})` : ''}.
             <br><small style="color: #666;">Scheduled: ${issue.details.scheduled_start}</small>
           </li>
         `;
@@ -395,6 +353,15 @@ function generateAttendanceEmailHTML(
           </li>
         `;
         break;
+      case 'missed_clock_out':
+        issuesList += `
+          <li style="margin-bottom: 15px;">
+            <strong style="color: #ca8a04;">Missed Clock-out:</strong> 
+            You clocked in at <strong>${issue.details.clock_in_time}</strong> but did not clock out.
+            <br><small style="color: #666;">Scheduled end: ${issue.details.scheduled_end}</small>
+          </li>
+        `;
+        break;
       case 'incomplete_hours':
         issuesList += `
           <li style="margin-bottom: 15px;">
@@ -1,7 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from 'npm:resend@4.0.0';
-import { todayInGST, toGST } from '../_shared/timezone.ts';
+import { todayInGST } from '../_shared/timezone.ts';
+import { getManagerOrAdminEmails } from '../_shared/approvers.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,48 +10,61 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-async function getManagerOrAdminEmails(employeeId: string, supabase: any): Promise<string[]> {
-  try {
-    // First try to get the employee's manager
-    const { data: employee } = await supabase
-      .from('employees')
-      .select('manager_id, email')
-      .eq('id', employeeId)
-      .single();
-    
-    if (employee?.manager_id) {
-      // Get manager's email
-      const { data: manager } = await supabase
-        .from('employees')
-        .select('email')
-        .eq('id', employee.manager_id)
-        .single();
-      
-      if (manager?.email && manager.email !== employee.email) {
-        return [manager.email];
-      }
-    }
-    
-    // If no manager or manager has no email, get all admin emails from user_roles table
-    const { data: adminRoles } = await supabase
-      .from('user_roles')
-      .select('user_id')
-      .eq('role', 'admin');
-    
-    if (adminRoles && adminRoles.length > 0) {
-      const adminUserIds = adminRoles.map((ar: any) => ar.user_id);
-      const { data: adminEmployees } = await supabase
-        .from('employees')
-        .select('email')
-        .in('user_id', adminUserIds);
-      
-      return adminEmployees?.map((a: any) => a.email).filter((email: string) => email && email !== employee?.email) || [];
-    }
-    
-    return [];
-  } catch (error) {
-    console.error('Error fetching manager/admin emails:', error);
-    return [];
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface ExpiringDocument {
+  id: string;
+  employee_id: string;
+  document_type: string;
+  document_name: string;
+  file_url: string;
+  expiry_date: string;
+  renewal_in_progress: boolean;
+  renewal_started_at: string | null;
+  employees?: { full_name: string } | null;
+}
+
+interface ReminderPolicy {
+  document_type: string;
+  // Days before expiry a reminder goes out
+  reminder_days: number[];
+  escalate_on_expiry: boolean;
+  is_active: boolean;
+}
+
+const DEFAULT_POLICY: Omit<ReminderPolicy, 'document_type'> = {
+  reminder_days: [90, 30, 7],
+  escalate_on_expiry: true,
+  is_active: true,
+};
+
+const documentTypeMap: Record<string, string> = {
+  'emirates_id': 'Emirates ID',
+  'passport': 'Passport',
+  'visa': 'Visa',
+  'driving_license': 'Driving License',
+  'work_permit': 'Work Permit',
+  'health_card': 'Health Card',
+  'insurance_card': 'Insurance Card',
+  'other': 'Other Document'
+};
+
+// Whole days from one YYYY-MM-DD date to another
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+async function logReminder(supabase: SupabaseClient, document: ExpiringDocument, reminderType: 'reminder' | 'expired', daysBefore: number) {
+  const { error } = await supabase
+    .from('document_expiry_reminders')
+    .insert({
+      document_id: document.id,
+      expiry_date: document.expiry_date,
+      reminder_type: reminderType,
+      days_before: daysBefore
+    });
+
+  if (error) {
+    console.error(`Failed to log ${reminderType} for document ${document.id}:`, error);
   }
 }
 
@@ -69,65 +83,56 @@ const handler = async (req: Request): Promise<Response> => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
-    // Calculate dates in GST
-    const today = toGST(new Date());
-    const in7Days = new Date(today.getTime() + (7 * 24 * 60 * 60 * 1000));
-    const in30Days = new Date(today.getTime() + (30 * 24 * 60 * 60 * 1000));
-    const in90Days = new Date(today.getTime() + (90 * 24 * 60 * 60 * 1000));
+    const today = todayInGST();
 
-    // Get documents expiring in 7 days (not yet notified)
-    const { data: docs7Days, error: error7 } = await supabaseServiceRole
-      .from('staff_documents')
-      .select(`
-        *,
-        employees!inner(full_name, email, user_id),
-        profiles!employees_user_id_fkey(email as admin_email, role)
-      `)
-      .eq('status', 'active')
-      .lte('expiry_date', in7Days.toISOString().split('T')[0])
-      .eq('notification_sent_7_days', false)
-      .not('expiry_date', 'is', null);
+    // Reminder schedule per document type; types without a policy keep the default schedule
+    const { data: policies, error: policiesError } = await supabaseServiceRole
+      .from('document_reminder_policies')
+      .select('document_type, reminder_days, escalate_on_expiry, is_active');
 
-    // Get documents expiring in 30 days (not yet notified)
-    const { data: docs30Days, error: error30 } = await supabaseServiceRole
-      .from('staff_documents')
-      .select(`
-        *,
-        employees!inner(full_name, email, user_id),
-        profiles!employees_user_id_fkey(email as admin_email, role)
-      `)
-      .eq('status', 'active')
-      .lte('expiry_date', in30Days.toISOString().split('T')[0])
-      .gt('expiry_date', in7Days.toISOString().split('T')[0])
-      .eq('notification_sent_30_days', false)
-      .not('expiry_date', 'is', null);
+    if (policiesError) {
+      throw new Error(`Database query failed: ${policiesError.message}`);
+    }
 
-    // Get documents expiring in 90 days (not yet notified)
-    const { data: docs90Days, error: error90 } = await supabaseServiceRole
+    const policyMap = new Map<string, ReminderPolicy>(
+      (policies || []).map((policy: ReminderPolicy) => [policy.document_type, policy])
+    );
+
+    const { data: documents, error: documentsError } = await supabaseServiceRole
       .from('staff_documents')
       .select(`
         *,
-        employees!inner(full_name, email, user_id),
-        profiles!employees_user_id_fkey(email as admin_email, role)
+        employees!inner(full_name, email, user_id)
       `)
       .eq('status', 'active')
-      .lte('expiry_date', in90Days.toISOString().split('T')[0])
-      .gt('expiry_date', in30Days.toISOString().split('T')[0])
-      .eq('notification_sent_90_days', false)
       .not('expiry_date', 'is', null);
 
-    if (error7 || error30 || error90) {
-      throw new Error(`Database query failed: ${error7?.message || error30?.message || error90?.message}`);
+    if (documentsError) {
+      throw new Error(`Database query failed: ${documentsError.message}`);
+    }
+
+    console.log(`Found ${documents?.length || 0} active documents with an expiry date`);
+
+    // Reminders already sent, keyed by document, expiry date and schedule step
+    const { data: sentReminders, error: sentError } = await supabaseServiceRole
+      .from('document_expiry_reminders')
+      .select('document_id, expiry_date, reminder_type, days_before')
+      .in('document_id', (documents || []).map(doc => doc.id));
+
+    if (sentError) {
+      throw new Error(`Database query failed: ${sentError.message}`);
     }
 
-    console.log(`Found ${docs7Days?.length || 0} documents expiring in 7 days`);
-    console.log(`Found ${docs30Days?.length || 0} documents expiring in 30 days`);
-    console.log(`Found ${docs90Days?.length || 0} documents expiring in 90 days`);
+    const reminderKey = (documentId: string, expiryDate: string, type: string, daysBefore: number) =>
+      `${documentId}|${expiryDate}|${type}|${daysBefore}`;
+    const sentKeys = new Set(
+      (sentReminders || []).map(r => reminderKey(r.document_id, r.expiry_date, r.reminder_type, r.days_before))
+    );
 
     // Get admin emails for notifications
     const { data: adminProfiles, error: adminError } = await supabaseServiceRole
       .from('profiles')
-      .select('email')
+      .select('user_id, email')
       .eq('role', 'admin');
 
     if (adminError) {
@@ -138,63 +143,54 @@ const handler = async (req: Request): Promise<Response> => {
     console.log(`Found ${adminEmails.length} admin emails for notifications`);
 
     let notificationsSent = 0;
-
-    // Process 7-day notifications
-    if (docs7Days && docs7Days.length > 0) {
-      for (const doc of docs7Days) {
-        await sendExpiryNotification(doc, 7, adminEmails, supabaseServiceRole);
-        
-        // Update notification status
-        await supabaseServiceRole
-          .from('staff_documents')
-          .update({ notification_sent_7_days: true })
-          .eq('id', doc.id);
-          
-        notificationsSent++;
+    let escalationsSent = 0;
+    let paused = 0;
+
+    for (const doc of documents || []) {
+      const policy = policyMap.get(doc.document_type) ?? DEFAULT_POLICY;
+      const daysUntilExpiry = daysBetween(today, doc.expiry_date);
+
+      if (daysUntilExpiry < 0) {
+        // Expired: HR is told once per expiry date, even while a renewal is in progress
+        const key = reminderKey(doc.id, doc.expiry_date, 'expired', 0);
+        if (!policy.escalate_on_expiry || sentKeys.has(key)) continue;
+
+        await sendExpiredEscalation(doc, adminProfiles || [], supabaseServiceRole);
+        await logReminder(supabaseServiceRole, doc, 'expired', 0);
+        escalationsSent++;
+        continue;
       }
-    }
 
-    // Process 30-day notifications
-    if (docs30Days && docs30Days.length > 0) {
-      for (const doc of docs30Days) {
-        await sendExpiryNotification(doc, 30, adminEmails, supabaseServiceRole);
-        
-        // Update notification status
-        await supabaseServiceRole
-          .from('staff_documents')
-          .update({ notification_sent_30_days: true })
-          .eq('id', doc.id);
-          
-        notificationsSent++;
-      }
-    }
+      if (!policy.is_active) continue;
 
-    // Process 90-day notifications
-    if (docs90Days && docs90Days.length > 0) {
-      for (const doc of docs90Days) {
-        await sendExpiryNotification(doc, 90, adminEmails, supabaseServiceRole);
-        
-        // Update notification status
-        await supabaseServiceRole
-          .from('staff_documents')
-          .update({ notification_sent_90_days: true })
-          .eq('id', doc.id);
-          
-        notificationsSent++;
+      // The nearest step of the schedule the document has reached; earlier steps it skipped past
+      // (e.g. uploaded close to expiry) are not sent late
+      const step = [...policy.reminder_days]
+        .sort((a, b) => a - b)
+        .find(days => daysUntilExpiry <= days);
+      if (step === undefined || sentKeys.has(reminderKey(doc.id, doc.expiry_date, 'reminder', step))) continue;
+
+      if (doc.renewal_in_progress) {
+        paused++;
+        continue;
       }
+
+      await sendExpiryNotification(doc, daysUntilExpiry, adminEmails, supabaseServiceRole);
+      await logReminder(supabaseServiceRole, doc, 'reminder', step);
+      notificationsSent++;
     }
 
-    console.log(`Sent ${notificationsSent} expiry notifications`);
+    console.log(`Sent ${notificationsSent} expiry notifications and ${escalationsSent} expiry escalations; ${paused} paused for renewal`);
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: `Processed expiry notifications. Sent ${notificationsSent} notifications.`,
+        message: `Processed expiry notifications. Sent ${notificationsSent} notifications and ${escalationsSent} escalations.`,
         stats: {
-          docs7Days: docs7Days?.length || 0,
-          docs30Days: docs30Days?.length || 0,
-          docs90Days: docs90Days?.length || 0,
-          notificationsSent
+          documentsChecked: documents?.length || 0,
+          notificationsSent,
+          escalationsSent,
+          pausedForRenewal: paused
         }
       }),
       {
@@ -224,17 +220,6 @@ async function sendExpiryNotification(
   adminEmails: string[],
   supabase: any
 ) {
-  const documentTypeMap: Record<string, string> = {
-    'emirates_id': 'Emirates ID',
-    'passport': 'Passport',
-    'visa': 'Visa',
-    'driving_license': 'Driving License',
-    'work_permit': 'Work Permit',
-    'health_card': 'Health Card',
-    'insurance_card': 'Insurance Card',
-    'other': 'Other Document'
-  };
-
   const documentTypeName = documentTypeMap[document.document_type] || document.document_type;
   const employeeName = document.employees?.full_name || 'Unknown Employee';
   const expiryDate = new Date(document.expiry_date).toLocaleDateString();
@@ -424,4 +409,116 @@ async function sendExpiryNotification(
   }
 }
 
+async function sendExpiredEscalation(
+  document: ExpiringDocument,
+  admins: { user_id: string; email: string }[],
+  supabase: SupabaseClient
+) {
+  const documentTypeName = documentTypeMap[document.document_type] || document.document_type;
+  const employeeName = document.employees?.full_name || 'Unknown Employee';
+  const expiryDate = new Date(document.expiry_date).toLocaleDateString();
+  const renewalNote = document.renewal_in_progress
+    ? `A renewal has been in progress since ${new Date(document.renewal_started_at!).toLocaleDateString()}; upload the new document once it is issued.`
+    : 'No renewal has been recorded for this document.';
+
+  const subject = `[ESCALATION] Document Expired: ${documentTypeName} - ${employeeName}`;
+
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background-color: #f8d7da; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+        <h2 style="color: #721c24; margin: 0 0 10px 0;">⛔ Document Expired</h2>
+        <p style="margin: 0; color: #721c24;">Escalation from HRFlow System</p>
+      </div>
+
+      <div style="background-color: white; padding: 20px; border: 1px solid #dee2e6; border-radius: 8px;">
+        <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px;">
+          <tr>
+            <td style="padding: 8px 0; font-weight: bold; color: #495057;">Employee:</td>
+            <td style="padding: 8px 0; color: #6c757d;">${employeeName}</td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0; font-weight: bold; color: #495057;">Document Type:</td>
+            <td style="padding: 8px 0; color: #6c757d;">${documentTypeName}</td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0; font-weight: bold; color: #495057;">Document Name:</td>
+            <td style="padding: 8px 0; color: #6c757d;">${document.document_name}</td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0; font-weight: bold; color: #495057;">Expired On:</td>
+            <td style="padding: 8px 0; color: #dc3545; font-weight: bold;">${expiryDate}</td>
+          </tr>
+        </table>
+
+        <div style="background-color: #fff3cd; color: #856404; padding: 15px; border-radius: 5px; margin-bottom: 20px;">
+          ${renewalNote}
+        </div>
+
+        <div style="text-align: center; margin-top: 30px;">
+          <a href="${document.file_url}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+            View Document
+          </a>
+        </div>
+
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #dee2e6;">
+
+        <p style="text-align: center; color: #6c757d; font-size: 14px; margin: 0;">
+          This is an automated notification from the HRFlow Document Management System.<br>
+          Generated on ${new Date().toLocaleString()}
+        </p>
+      </div>
+    </div>
+  `;
+
+  const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
+
+  for (const admin of admins) {
+    try {
+      const { error } = await resend.emails.send({
+        from: 'HRFlow <noreply@amanacorporate.com>',
+        to: [admin.email],
+        subject,
+        html: htmlContent,
+      });
+
+      await supabase.from('email_logs').insert(error ? {
+        to_email: admin.email,
+        subject,
+        content: htmlContent,
+        status: 'failed',
+        error_message: error.message
+      } : {
+        to_email: admin.email,
+        subject,
+        content: htmlContent,
+        status: 'sent',
+        sent_at: new Date().toISOString()
+      });
+
+      if (error) {
+        console.error(`Failed to send expiry escalation to ${admin.email}:`, error);
+      }
+
+      await supabase.rpc('create_in_app_notification', {
+        p_user_id: admin.user_id,
+        p_employee_id: document.employee_id,
+        p_notification_type: 'document_expiry',
+        p_title: 'Document Expired',
+        p_message: `${employeeName}'s ${documentTypeName} (${document.document_name}) expired on ${expiryDate}`,
+        p_metadata: {
+          document_id: document.id,
+          document_name: document.document_name,
+          document_type: document.document_type,
+          expiry_date: document.expiry_date,
+          renewal_in_progress: document.renewal_in_progress
+        },
+        p_action_url: '/documents',
+        p_priority: 'urgent'
+      });
+    } catch (error) {
+      console.error(`Exception sending expiry escalation to ${admin.email}:`, error);
+    }
+  }
+}
+
 serve(handler);
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
 import { Resend } from 'npm:resend@4.0.0';
+import { getManagerOrAdminEmails } from '../_shared/approvers.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,69 +9,33 @@ const corsHeaders = {
 };
 
 interface EmailNotificationRequest {
-  type: 'attendance_exception' | 'leave_request' | 'test_email';
-  action: 'submitted' | 'approved' | 'rejected' | 'sent';
-  recipientEmail: string;
-  recipientName: string;
+  type: 'attendance_exception' | 'leave_request' | 'overtime_request' | 'test_email';
+  // change_requested (leave_request only) goes to the employee's approver, not recipientEmail
+  action: 'submitted' | 'approved' | 'rejected' | 'sent' | 'change_requested';
+  recipientEmail?: string;
+  recipientName?: string;
   submitterName: string;
   employeeId?: string;
+  // leave_requests.id or attendance_exceptions.id, linked from the in-app notification
+  requestId?: string;
   details: {
     exceptionType?: string;
     leaveType?: string;
     startDate?: string;
     endDate?: string;
     reason?: string;
+    overtimeDate?: string;
+    overtimeHours?: number;
     adminComments?: string;
     subject?: string;
     message?: string;
+    // Leave cancellation / amendment
+    changeType?: 'cancel' | 'amend';
+    newStartDate?: string;
+    newEndDate?: string;
   };
 }
 
-async function getManagerOrAdminEmails(employeeId: string, supabase: any): Promise<string[]> {
-  try {
-    // First try to get the employee's manager
-    const { data: employee } = await supabase
-      .from('employees')
-      .select('manager_id, email')
-      .eq('id', employeeId)
-      .single();
-    
-    if (employee?.manager_id) {
-      // Get manager's email
-      const { data: manager } = await supabase
-        .from('employees')
-        .select('email')
-        .eq('id', employee.manager_id)
-        .single();
-      
-      if (manager?.email && manager.email !== employee.email) {
-        return [manager.email];
-      }
-    }
-    
-    // If no manager or manager has no email, get all admin emails from user_roles table
-    const { data: adminRoles } = await supabase
-      .from('user_roles')
-      .select('user_id')
-      .eq('role', 'admin');
-    
-    if (adminRoles && adminRoles.length > 0) {
-      const adminUserIds = adminRoles.map((ar: any) => ar.user_id);
-      const { data: adminEmployees } = await supabase
-        .from('employees')
-        .select('email')
-        .in('user_id', adminUserIds);
-      
-      return adminEmployees?.map((a: any) => a.email).filter((email: string) => email && email !== employee?.email) || [];
-    }
-    
-    return [];
-  } catch (error) {
-    console.error('Error fetching manager/admin emails:', error);
-    return [];
-  }
-}
-
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -83,7 +48,7 @@ const handler = async (req: Request): Promise<Response> => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { type, action, recipientEmail, recipientName, submitterName, employeeId, details }: EmailNotificationRequest = await req.json();
+    const { type, action, recipientEmail, recipientName, submitterName, employeeId, requestId, details }: EmailNotificationRequest = await req.json();
 
     // Generate email content based on type and action
     let subject = '';
@@ -119,6 +84,36 @@ const handler = async (req: Request): Promise<Response> => {
           ${details.adminComments ? `<p><strong>Admin Comments:</strong> ${details.adminComments}</p>` : ''}
         `;
       }
+    } else if (type === 'leave_request' && details.changeType) {
+      const changeLabel = details.changeType === 'cancel' ? 'Cancellation' : 'Amendment';
+      const requestedChange = details.changeType === 'cancel'
+        ? '<p><strong>Requested Change:</strong> Cancel the leave</p>'
+        : `<p><strong>New Dates:</strong> ${details.newStartDate} to ${details.newEndDate}</p>`;
+
+      if (action === 'change_requested') {
+        subject = `Leave ${changeLabel} Requested`;
+        htmlContent = `
+          <h2>Leave ${changeLabel} Request</h2>
+          <p><strong>${submitterName}</strong> has asked to change an approved leave.</p>
+          <p><strong>Leave Type:</strong> ${details.leaveType}</p>
+          <p><strong>Approved Dates:</strong> ${details.startDate} to ${details.endDate}</p>
+          ${requestedChange}
+          <p><strong>Reason:</strong> ${details.reason}</p>
+          <p>Please review this request in the Leave Requests page.</p>
+        `;
+      } else {
+        subject = `Leave ${changeLabel} ${action.charAt(0).toUpperCase() + action.slice(1)}`;
+        htmlContent = `
+          <h2>Leave ${changeLabel} ${action.charAt(0).toUpperCase() + action.slice(1)}</h2>
+          <p>Dear ${recipientName},</p>
+          <p>Your request to change your leave has been <strong>${action}</strong>.</p>
+          <p><strong>Leave Type:</strong> ${details.leaveType}</p>
+          <p><strong>Approved Dates:</strong> ${details.startDate} to ${details.endDate}</p>
+          ${requestedChange}
+          ${action === 'approved' ? '<p>Your leave balance has been updated.</p>' : ''}
+          ${details.adminComments ? `<p><strong>Admin Comments:</strong> ${details.adminComments}</p>` : ''}
+        `;
+      }
     } else if (type === 'leave_request') {
       subject = `Leave Request ${action.charAt(0).toUpperCase() + action.slice(1)}`;
       
@@ -144,20 +139,37 @@ const handler = async (req: Request): Promise<Response> => {
           ${details.adminComments ? `<p><strong>Admin Comments:</strong> ${details.adminComments}</p>` : ''}
         `;
       }
+    } else if (type === 'overtime_request') {
+      subject = `Overtime ${action.charAt(0).toUpperCase() + action.slice(1)}`;
+      htmlContent = `
+        <h2>Overtime ${action.charAt(0).toUpperCase() + action.slice(1)}</h2>
+        <p>Dear ${recipientName},</p>
+        <p>Your overtime for <strong>${details.overtimeDate}</strong> has been <strong>${action}</strong>.</p>
+        <p><strong>Overtime Hours:</strong> ${details.overtimeHours}</p>
+        ${action === 'approved' ? '<p>Approved overtime will be included in your next payroll.</p>' : ''}
+        ${details.adminComments ? `<p><strong>Comments:</strong> ${details.adminComments}</p>` : ''}
+      `;
     }
 
-    // Get CC emails (manager or admin)
+    // Get CC emails (manager or admin). A change request is addressed to them directly.
+    let toEmails = recipientEmail ? [recipientEmail] : [];
     let ccEmails: string[] = [];
-    if (employeeId) {
+    if (employeeId && action === 'change_requested') {
+      toEmails = await getManagerOrAdminEmails(employeeId, supabase);
+    } else if (employeeId) {
       ccEmails = await getManagerOrAdminEmails(employeeId, supabase);
     }
 
+    if (toEmails.length === 0) {
+      throw new Error('No recipient for this notification');
+    }
+
     // Send email via Resend
     const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
     
     const emailPayload: any = {
       from: 'HRFlow <noreply@amanacorporate.com>',
-      to: [recipientEmail],
+      to: toEmails,
       subject: subject,
       html: htmlContent,
     };
@@ -174,7 +186,7 @@ const handler = async (req: Request): Promise<Response> => {
       
       // Log to database for audit trail
       await supabase.from('email_logs').insert({
-        to_email: recipientEmail,
+        to_email: toEmails.join(', '),
         subject: subject,
         content: htmlContent,
         status: 'failed',
@@ -198,7 +210,7 @@ const handler = async (req: Request): Promise<Response> => {
     
     // Log successful email to database
     await supabase.from('email_logs').insert({
-      to_email: recipientEmail,
+      to_email: toEmails.join(', '),
       subject: subject,
       content: htmlContent,
       status: 'sent',
@@ -239,6 +251,22 @@ const handler = async (req: Request): Promise<Response> => {
               actionUrl = '/';
               priority = 'high';
             }
+          } else if (type === 'leave_request' && details.changeType) {
+            notificationType = 'leave_request';
+            const changeLabel = details.changeType === 'cancel' ? 'Cancellation' : 'Amendment';
+            const changeMessage = details.changeType === 'cancel'
+              ? `cancel your ${details.leaveType} from ${details.startDate} to ${details.endDate}`
+              : `move your ${details.leaveType} to ${details.newStartDate} - ${details.newEndDate}`;
+            if (action === 'change_requested') {
+              notificationTitle = `Leave ${changeLabel} Requested`;
+              notificationMessage = `Your request to ${changeMessage} is pending review`;
+              actionUrl = '/';
+            } else if (action === 'approved' || action === 'rejected') {
+              notificationTitle = `Leave ${changeLabel} ${action === 'approved' ? 'Approved' : 'Rejected'}`;
+              notificationMessage = `Your request to ${changeMessage} has been ${action}`;
+              actionUrl = '/';
+              priority = 'high';
+            }
           } else if (type === 'leave_request') {
             notificationType = 'leave_request';
             if (action === 'submitted') {
@@ -256,6 +284,26 @@ const handler = async (req: Request): Promise<Response> => {
               actionUrl = '/';
               priority = 'high';
             }
+          } else if (type === 'overtime_request') {
+            notificationType = 'overtime_request';
+            if (action === 'approved') {
+              notificationTitle = 'Overtime Approved';
+              notificationMessage = `Your ${details.overtimeHours}h of overtime on ${details.overtimeDate} has been approved`;
+              actionUrl = '/';
+              priority = 'high';
+            } else if (action === 'rejected') {
+              notificationTitle = 'Overtime Rejected';
+              notificationMessage = `Your ${details.overtimeHours}h of overtime on ${details.overtimeDate} has been rejected`;
+              actionUrl = '/';
+              priority = 'high';
+            }
+          }
+
+          // Deep link to the request (see src/lib/routes.ts)
+          if (requestId && type === 'leave_request') {
+            actionUrl = `/leave/${requestId}`;
+          } else if (requestId && type === 'attendance_exception') {
+            actionUrl = `/exceptions/${requestId}`;
           }
 
           if (notificationTitle) {
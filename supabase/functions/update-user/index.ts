@@ -20,6 +20,9 @@ interface UpdateUserRequest {
   manager_id?: string;
   deleted_at?: string;
   deleted_by?: string;
+  labour_card_number?: string | null;
+  iban?: string | null;
+  bank_routing_code?: string | null;
 }
 
 serve(async (req) => {
@@ -73,7 +76,10 @@ serve(async (req) => {
       hire_date,
       manager_id,
       deleted_at,
-      deleted_by
+      deleted_by,
+      labour_card_number,
+      iban,
+      bank_routing_code
     }: UpdateUserRequest = await req.json();
 
     console.log('Updating user:', { employee_id, email, staff_id });
@@ -94,6 +100,18 @@ serve(async (req) => {
       throw new Error('Staff ID must be 4 digits');
     }
 
+    // Validate WPS payroll fields if provided (empty values clear them)
+    const normalizedIban = iban ? iban.replace(/\s+/g, '').toUpperCase() : iban;
+    if (labour_card_number && !/^\d{14}$/.test(labour_card_number)) {
+      throw new Error('Labour card / personal number must be 14 digits');
+    }
+    if (normalizedIban && !/^AE\d{21}$/.test(normalizedIban)) {
+      throw new Error('IBAN must be a UAE IBAN (AE followed by 21 digits)');
+    }
+    if (bank_routing_code && !/^\d{9}$/.test(bank_routing_code)) {
+      throw new Error('Bank routing code must be 9 digits');
+    }
+
     // Check if staff_id is unique (if changed)
     const { data: existingStaffId } = await supabaseAdmin
       .from('employees')
@@ -167,6 +185,29 @@ serve(async (req) => {
       throw new Error('Failed to update employee data');
     }
 
+    // Only touch WPS bank details when the caller sent them (status toggles don't)
+    const bankDetails: Record<string, string | null> = {};
+    if (labour_card_number !== undefined) {
+      bankDetails.labour_card_number = labour_card_number || null;
+    }
+    if (iban !== undefined) {
+      bankDetails.iban = normalizedIban || null;
+    }
+    if (bank_routing_code !== undefined) {
+      bankDetails.bank_routing_code = bank_routing_code || null;
+    }
+
+    if (Object.keys(bankDetails).length > 0) {
+      const { error: bankDetailsError } = await supabaseAdmin
+        .from('employee_bank_details')
+        .upsert({ employee_id, ...bankDetails }, { onConflict: 'employee_id' });
+
+      if (bankDetailsError) {
+        console.error('Error updating bank details:', bankDetailsError);
+        throw new Error('Failed to update bank details');
+      }
+    }
+
     // Update profiles table
     const { error: updateProfileError } = await supabaseAdmin
       .from('profiles')
@@ -1,16 +1,23 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
 import { Resend } from "npm:resend@2.0.0";
-import { nowInGST, getDayName, isWorkingDay, formatTimeInGST } from '../_shared/timezone.ts';
-
-// Helper function to format time from database time string
-function formatTimeString(timeStr: string): string {
-  const [hours, minutes] = timeStr.split(':');
-  const hour = parseInt(hours);
-  const ampm = hour >= 12 ? 'PM' : 'AM';
-  const displayHour = hour % 12 || 12;
-  return `${displayHour}:${minutes} ${ampm}`;
-}
+import { nowInGST } from '../_shared/timezone.ts';
+import { fetchHolidayDatesByDivision, getHolidayDates } from '../_shared/holidays.ts';
+import { fetchShiftAssignments, getShiftAssignment } from '../_shared/shifts.ts';
+import { getManagerOrAdminEmails } from '../_shared/approvers.ts';
+import { fetchApprovedLeaves, getApprovedLeave } from '../_shared/leave.ts';
+import {
+  AttendanceViolationDetails,
+  AttendanceViolationType,
+  classifyAttendanceDays,
+  getDateDayName,
+  getViolationDetails,
+  listDates,
+  requiresNotice,
+  startOfMonthDate,
+  VIOLATION_LABELS
+} from '../_shared/attendanceRules.ts';
+import { fetchAttendanceRules } from '../_shared/attendanceSettings.ts';
 
 // CORS headers
 const corsHeaders = {
@@ -18,65 +25,10 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Helper function to get manager or admin emails for CC
-async function getManagerOrAdminEmails(employeeId: string, supabase: any): Promise<string[]> {
-  const ccEmails: string[] = [];
-
-  // First try to get manager's email
-  const { data: employee } = await supabase
-    .from('employees')
-    .select('manager_id, email')
-    .eq('id', employeeId)
-    .single();
-
-  if (employee?.manager_id) {
-    const { data: manager } = await supabase
-      .from('employees')
-      .select('email')
-      .eq('id', employee.manager_id)
-      .single();
-
-    if (manager?.email && manager.email !== employee.email) {
-      ccEmails.push(manager.email);
-    }
-  }
-
-  // If no manager email, get admin emails from user_roles table
-  if (ccEmails.length === 0) {
-    const { data: adminRoles } = await supabase
-      .from('user_roles')
-      .select('user_id')
-      .eq('role', 'admin');
-
-    if (adminRoles && adminRoles.length > 0) {
-      const adminUserIds = adminRoles.map((ar: any) => ar.user_id);
-      const { data: adminEmployees } = await supabase
-        .from('employees')
-        .select('email')
-        .in('user_id', adminUserIds);
-
-      if (adminEmployees) {
-        ccEmails.push(...adminEmployees.map((a: any) => a.email).filter((email: string) => email && email !== employee?.email));
-      }
-    }
-  }
-
-  return ccEmails;
-}
-
 // Data structures
 interface Issue {
-  type: 'absent' | 'late' | 'early' | 'missed_clock_in' | 'missed_clock_out' | 'incomplete_hours';
-  details: {
-    late_hours?: number;
-    early_hours?: number;
-    total_hours?: number;
-    minimum_hours?: number;
-    clock_in_time?: string;
-    clock_out_time?: string;
-    scheduled_start?: string;
-    scheduled_end?: string;
-  };
+  type: AttendanceViolationType;
+  details: AttendanceViolationDetails;
   exceptionSubmitted: boolean;
   exceptionType?: string;
   exceptionStatus?: string;
@@ -137,7 +89,13 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Processing week: ${weekStart.toISOString().split('T')[0]} to ${weekEnd.toISOString().split('T')[0]}`);
 
-    // Fetch active employees with their work schedules
+    // The monthly late allowance is used up from the 1st, so the month before the week is classified too
+    const weekStartDate = weekStart.toISOString().split('T')[0];
+    const weekEndDate = weekEnd.toISOString().split('T')[0];
+    const monthStart = startOfMonthDate(weekStartDate);
+    const rules = await fetchAttendanceRules(supabase);
+
+    // Fetch active employees with their work schedules; rostered employees may have none
     const { data: employees, error: employeesError } = await supabase
       .from('employees')
       .select(`
@@ -146,7 +104,8 @@ const handler = async (req: Request): Promise<Response> => {
         full_name,
         email,
         manager_id,
-        work_schedules!inner(
+        division,
+        work_schedules(
           start_time,
           end_time,
           minimum_daily_hours,
@@ -162,14 +121,14 @@ const handler = async (req: Request): Promise<Response> => {
       throw employeesError;
     }
 
-    console.log(`Found ${employees?.length || 0} active employees with schedules`);
+    console.log(`Found ${employees?.length || 0} active employees`);
 
-    // Fetch all attendance records for the week
+    // Fetch all attendance records from the start of the month to the end of the week
     const { data: attendanceRecords, error: attendanceError } = await supabase
       .from('attendance')
       .select('*')
-      .gte('date', weekStart.toISOString().split('T')[0])
-      .lte('date', weekEnd.toISOString().split('T')[0]);
+      .gte('date', monthStart)
+      .lte('date', weekEndDate);
 
     if (attendanceError) {
       console.error('Error fetching attendance:', attendanceError);
@@ -187,8 +146,8 @@ const handler = async (req: Request): Promise<Response> => {
     const { data: exceptions, error: exceptionsError } = await supabase
       .from('attendance_exceptions')
       .select('*')
-      .gte('target_date', weekStart.toISOString().split('T')[0])
-      .lte('target_date', weekEnd.toISOString().split('T')[0]);
+      .gte('target_date', weekStartDate)
+      .lte('target_date', weekEndDate);
 
     if (exceptionsError) {
       console.error('Error fetching exceptions:', exceptionsError);
@@ -205,133 +164,67 @@ const handler = async (req: Request): Promise<Response> => {
       exceptionMap.get(key).push(exception);
     });
 
+    // Days of approved leave are not reported; partial-day leave counts towards the minimum hours
+    const approvedLeaves = await fetchApprovedLeaves(supabase, monthStart, weekEndDate);
+
+    // Rostered shifts override the fixed schedule for the days they cover
+    const shiftAssignments = await fetchShiftAssignments(supabase, monthStart, weekEndDate);
+
+    // Resolve public holidays per division over the same range
+    const holidaysByDivision = await fetchHolidayDatesByDivision(
+      supabase,
+      monthStart,
+      weekEndDate,
+      (employees || []).map(e => e.division)
+    );
+
     // Process each employee
     const employeeReports: EmployeeReport[] = [];
     const notificationResults = { sent: 0, failed: 0, skipped: 0 };
 
     for (const employee of employees || []) {
-      const schedule = employee.work_schedules[0];
+      const schedule = Array.isArray(employee.work_schedules)
+        ? employee.work_schedules[0]
+        : employee.work_schedules;
+      const holidayDates = getHolidayDates(holidaysByDivision, employee.division);
       const dailyIssues: DailyIssue[] = [];
 
-      // Loop through each day of the week
-      for (let d = new Date(weekStart); d <= weekEnd; d.setDate(d.getDate() + 1)) {
-        const currentDate = new Date(d);
-        const dateStr = currentDate.toISOString().split('T')[0];
-        const dayName = getDayName(currentDate);
-
-        // Skip if not a working day for this employee
-        if (!isWorkingDay(currentDate, schedule.working_days)) {
-          continue;
-        }
-
-        const issues: Issue[] = [];
-        const attendanceKey = `${employee.id}-${dateStr}`;
-        const exceptionKey = `${employee.id}-${dateStr}`;
-        const attendance = attendanceMap.get(attendanceKey);
-        const submittedExceptions = exceptionMap.get(exceptionKey) || [];
-
-        // Helper to check if exception exists for a type
-        const hasException = (types: string[]) => {
-          return submittedExceptions.some((ex: any) => 
-            types.includes(ex.exception_type) && ex.status !== 'rejected'
-          );
-        };
-
-        // Check for absent
-        if (!attendance || !attendance.clock_in_time) {
-          const exceptionSubmitted = hasException(['absent', 'wfh', 'official_business']);
-          issues.push({
-            type: 'absent',
-            details: {},
-            exceptionSubmitted,
-            exceptionType: submittedExceptions.find((ex: any) => 
-              ['absent', 'wfh', 'official_business'].includes(ex.exception_type)
-            )?.exception_type,
-            exceptionStatus: submittedExceptions.find((ex: any) => 
-              ['absent', 'wfh', 'official_business'].includes(ex.exception_type)
-            )?.status
-          });
-        } else {
-          // Check for late arrival
-          const scheduledStart = new Date(`${dateStr}T${schedule.start_time}`);
-          const clockIn = new Date(attendance.clock_in_time);
-          
-          if (clockIn > scheduledStart) {
-            const lateHours = (clockIn.getTime() - scheduledStart.getTime()) / (1000 * 60 * 60);
-            const exceptionSubmitted = hasException(['late_arrival']);
-            issues.push({
-              type: 'late',
-              details: {
-                late_hours: lateHours,
-                clock_in_time: formatTimeInGST(clockIn),
-                scheduled_start: formatTimeString(schedule.start_time)
-              },
-              exceptionSubmitted,
-              exceptionType: submittedExceptions.find((ex: any) => ex.exception_type === 'late_arrival')?.exception_type,
-              exceptionStatus: submittedExceptions.find((ex: any) => ex.exception_type === 'late_arrival')?.status
-            });
-          }
-
-          // Check for missed clock-out
-          if (!attendance.clock_out_time) {
-            const exceptionSubmitted = hasException(['missed_clock_out']);
-            issues.push({
-              type: 'missed_clock_out',
-              details: {
-                clock_in_time: formatTimeInGST(clockIn)
-              },
-              exceptionSubmitted,
-              exceptionType: submittedExceptions.find((ex: any) => ex.exception_type === 'missed_clock_out')?.exception_type,
-              exceptionStatus: submittedExceptions.find((ex: any) => ex.exception_type === 'missed_clock_out')?.status
-            });
-          } else {
-            // Check for early departure
-            const scheduledEnd = new Date(`${dateStr}T${schedule.end_time}`);
-            const clockOut = new Date(attendance.clock_out_time);
-            
-            if (clockOut < scheduledEnd) {
-              const earlyHours = (scheduledEnd.getTime() - clockOut.getTime()) / (1000 * 60 * 60);
-              const exceptionSubmitted = hasException(['early_departure']);
-              issues.push({
-                type: 'early',
-                details: {
-                  early_hours: earlyHours,
-                  clock_out_time: formatTimeInGST(clockOut),
-                  scheduled_end: formatTimeString(schedule.end_time)
-                },
-                exceptionSubmitted,
-                exceptionType: submittedExceptions.find((ex: any) => ex.exception_type === 'early_departure')?.exception_type,
-                exceptionStatus: submittedExceptions.find((ex: any) => ex.exception_type === 'early_departure')?.status
-              });
-            }
-
-            // Check for incomplete hours
-            const totalHours = attendance.total_hours || 0;
-            if (totalHours < schedule.minimum_daily_hours) {
-              const exceptionSubmitted = hasException(['short_permission_personal', 'short_permission_official']);
-              issues.push({
-                type: 'incomplete_hours',
-                details: {
-                  total_hours: totalHours,
-                  minimum_hours: schedule.minimum_daily_hours
-                },
-                exceptionSubmitted,
-                exceptionType: submittedExceptions.find((ex: any) => 
-                  ['short_permission_personal', 'short_permission_official'].includes(ex.exception_type)
-                )?.exception_type,
-                exceptionStatus: submittedExceptions.find((ex: any) => 
-                  ['short_permission_personal', 'short_permission_official'].includes(ex.exception_type)
-                )?.status
-              });
-            }
-          }
-        }
+      // Without a schedule or roster entry there is nothing to measure a day against
+      const days = classifyAttendanceDays(
+        listDates(monthStart, weekEndDate)
+          .filter(date => schedule || getShiftAssignment(shiftAssignments, employee.id, date))
+          .map(date => {
+            const assignment = getShiftAssignment(shiftAssignments, employee.id, date);
+            return {
+              date,
+              schedule: schedule ?? null,
+              shift: assignment ? assignment.shift_templates : undefined,
+              isHoliday: holidayDates.has(date),
+              leave: getApprovedLeave(approvedLeaves, employee.id, date),
+              attendance: attendanceMap.get(`${employee.id}-${date}`) ?? null,
+              exceptions: exceptionMap.get(`${employee.id}-${date}`) || []
+            };
+          }),
+        rules
+      );
+
+      for (const day of days) {
+        if (day.date < weekStartDate) continue;
+
+        // Days off, public holidays, full days of leave and lates that need no notice are not reported
+        const issues: Issue[] = day.violations.filter(requiresNotice).map(violation => ({
+          type: violation.type,
+          details: getViolationDetails(violation),
+          exceptionSubmitted: !!violation.exception,
+          exceptionType: violation.exception?.exception_type ?? undefined,
+          exceptionStatus: violation.exception?.status ?? undefined
+        }));
 
         // Add to daily issues if there are any issues
         if (issues.length > 0) {
           dailyIssues.push({
-            date: dateStr,
-            dayName,
+            date: day.date,
+            dayName: getDateDayName(day.date),
             issues
           });
         }
@@ -498,30 +391,17 @@ function generateWeeklyReportEmailHTML(
       case 'absent': return '#ef4444'; // red
       case 'late': return '#f97316'; // orange
       case 'early': return '#f97316'; // orange
-      case 'missed_clock_in': return '#eab308'; // yellow
       case 'missed_clock_out': return '#eab308'; // yellow
       case 'incomplete_hours': return '#eab308'; // yellow
       default: return '#6b7280'; // gray
     }
   };
 
-  const getIssueLabel = (type: string): string => {
-    switch (type) {
-      case 'absent': return 'Absent';
-      case 'late': return 'Late Arrival';
-      case 'early': return 'Early Departure';
-      case 'missed_clock_in': return 'Missed Clock-In';
-      case 'missed_clock_out': return 'Missed Clock-Out';
-      case 'incomplete_hours': return 'Incomplete Hours';
-      default: return type;
-    }
-  };
-
   const formatIssueDetails = (issue: Issue): string => {
     const parts = [];
     
     if (issue.details.late_hours !== undefined) {
-      parts.push(`${issue.details.late_hours.toFixed(2)} hours late`);
+      parts.push(`${issue.details.late_hours.toFixed(2)} hours late${issue.details.late_tier ? ` (${issue.details.late_tier})` : ''}`);
       parts.push(`Clocked in: ${issue.details.clock_in_time}, Expected: ${issue.details.scheduled_start}`);
     }
     
@@ -546,7 +426,7 @@ function generateWeeklyReportEmailHTML(
       <div style="margin: 8px 0; padding: 10px; background-color: #f9fafb; border-radius: 6px; border-left: 4px solid ${getIssueColor(issue.type)};">
         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 6px;">
           <span style="font-weight: 600; color: ${getIssueColor(issue.type)};">
-            ${getIssueLabel(issue.type)}
+            ${VIOLATION_LABELS[issue.type]}
           </span>
           ${issue.exceptionSubmitted 
             ? `<span style="background-color: #10b981; color: white; padding: 3px 10px; border-radius: 12px; font-size: 12px; font-weight: 500;">✓ Applied</span>`
@@ -0,0 +1,125 @@
+-- Add emirate to divisions so emirate-specific holidays can be applied per division
+ALTER TABLE public.divisions
+ADD COLUMN IF NOT EXISTS emirate TEXT
+CHECK (emirate IS NULL OR emirate IN ('abu_dhabi', 'dubai', 'sharjah', 'ajman', 'umm_al_quwain', 'ras_al_khaimah', 'fujairah'));
+
+-- Create public_holidays table
+CREATE TABLE public.public_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  holiday_date DATE NOT NULL,
+  -- Inclusive last day for multi-day holidays (e.g. Eid). NULL means a single day.
+  end_date DATE,
+  -- Recurring holidays repeat on the same month/day every year (e.g. National Day)
+  is_recurring BOOLEAN NOT NULL DEFAULT false,
+  -- NULL means a federal holiday that applies across all emirates
+  emirate TEXT CHECK (emirate IS NULL OR emirate IN ('abu_dhabi', 'dubai', 'sharjah', 'ajman', 'umm_al_quwain', 'ras_al_khaimah', 'fujairah')),
+  -- NULL or empty means the holiday applies to every division
+  divisions TEXT[],
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT public_holidays_date_range_check CHECK (end_date IS NULL OR end_date >= holiday_date)
+);
+
+CREATE INDEX idx_public_holidays_dates ON public.public_holidays(holiday_date, end_date);
+CREATE INDEX idx_public_holidays_active ON public.public_holidays(is_active) WHERE is_active = true;
+
+-- Enable RLS
+ALTER TABLE public.public_holidays ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in needs holidays for calendars and leave day counting
+CREATE POLICY "Authenticated users can view public holidays"
+  ON public.public_holidays FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Only admins can manage holidays
+CREATE POLICY "Admins can manage public holidays"
+  ON public.public_holidays FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_public_holidays_updated_at
+  BEFORE UPDATE ON public.public_holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed fixed-date UAE federal holidays. Lunar holidays (Eid, Hijri New Year, Prophet's Birthday)
+-- move every year and are added by admins as one-off dates once officially announced.
+INSERT INTO public.public_holidays (name, holiday_date, end_date, is_recurring, description) VALUES
+  ('New Year''s Day', '2025-01-01', NULL, true, 'Federal holiday'),
+  ('Commemoration Day', '2025-12-01', NULL, true, 'Federal holiday'),
+  ('National Day', '2025-12-02', '2025-12-03', true, 'Federal holiday');
+
+-- Expand active holidays into individual dates within a range for a given division.
+-- Recurring holidays are projected into every year of the range; emirate-specific
+-- holidays only apply when the division belongs to that emirate.
+CREATE OR REPLACE FUNCTION public.get_public_holidays(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_division TEXT DEFAULT NULL
+)
+RETURNS TABLE (holiday_date DATE, holiday_id UUID, name TEXT, emirate TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH division_emirate AS (
+    SELECT d.emirate FROM divisions d WHERE d.name = p_division LIMIT 1
+  ),
+  occurrences AS (
+    SELECT h.id, h.name, h.emirate, h.divisions,
+           (h.holiday_date + make_interval(years => y.year - EXTRACT(YEAR FROM h.holiday_date)::int))::date AS start_date,
+           (COALESCE(h.end_date, h.holiday_date) + make_interval(years => y.year - EXTRACT(YEAR FROM h.holiday_date)::int))::date AS end_date
+    FROM public_holidays h
+    CROSS JOIN generate_series(
+      EXTRACT(YEAR FROM p_start_date)::int - 1,
+      EXTRACT(YEAR FROM p_end_date)::int
+    ) AS y(year)
+    WHERE h.is_active AND h.is_recurring
+    UNION ALL
+    SELECT h.id, h.name, h.emirate, h.divisions, h.holiday_date, COALESCE(h.end_date, h.holiday_date)
+    FROM public_holidays h
+    WHERE h.is_active AND NOT h.is_recurring
+  )
+  SELECT DISTINCT ON (d::date) d::date, o.id, o.name, o.emirate
+  FROM occurrences o
+  CROSS JOIN LATERAL generate_series(o.start_date, o.end_date, interval '1 day') AS d
+  WHERE d::date BETWEEN p_start_date AND p_end_date
+    AND (o.divisions IS NULL OR cardinality(o.divisions) = 0 OR p_division = ANY(o.divisions))
+    AND (o.emirate IS NULL OR o.emirate = (SELECT emirate FROM division_emirate))
+  ORDER BY d::date, o.emirate NULLS FIRST
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_holidays(DATE, DATE, TEXT) TO authenticated;
+
+-- Count chargeable leave days in a range, excluding public holidays that apply to the employee
+CREATE OR REPLACE FUNCTION public.calculate_leave_days(
+  p_employee_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    (p_end_date - p_start_date + 1) - (
+      SELECT COUNT(*)::int
+      FROM get_public_holidays(
+        p_start_date,
+        p_end_date,
+        (SELECT division FROM employees WHERE id = p_employee_id)
+      )
+    ),
+    0
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_leave_days(UUID, DATE, DATE) TO authenticated;
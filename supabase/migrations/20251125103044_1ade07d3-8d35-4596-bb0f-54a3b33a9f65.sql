@@ -0,0 +1,28 @@
+-- Clock-in/clock-out now goes through the attendance-clock edge function, which
+-- validates the caller's IP server-side. Employees can no longer write attendance directly.
+DROP POLICY IF EXISTS "Employees can insert their own attendance" ON public.attendance;
+DROP POLICY IF EXISTS "Employees can update their own attendance" ON public.attendance;
+
+-- Record where the clock-out punch came from as well
+ALTER TABLE public.attendance
+ADD COLUMN IF NOT EXISTS clock_out_ip_address INET;
+
+-- Check an IP against active allowed_ips entries. Entries may be single hosts
+-- (192.168.1.10) or CIDR ranges (192.168.1.0/24); inet containment handles both.
+CREATE OR REPLACE FUNCTION public.is_ip_allowed(p_ip_address INET)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM allowed_ips
+    WHERE is_active = true
+      AND p_ip_address <<= ip_address
+  )
+$$;
+
+-- Only the attendance-clock edge function checks IPs, through the service role
+REVOKE EXECUTE ON FUNCTION public.is_ip_allowed(INET) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,375 @@
+-- Overtime multipliers (UAE: at least +25% on normal days, +50% on rest days and public holidays)
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES (
+  'overtime_settings',
+  '{"enabled": true, "weekday_multiplier": 1.25, "rest_day_multiplier": 1.5, "holiday_multiplier": 1.5, "minimum_minutes": 30}'::jsonb,
+  'Overtime pay multipliers per day type and the minimum overtime (in minutes) before a request is raised'
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Create overtime_requests table (one per employee per day, raised automatically from attendance)
+CREATE TABLE public.overtime_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  attendance_id UUID REFERENCES public.attendance(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  worked_hours NUMERIC(5, 2) NOT NULL,
+  scheduled_hours NUMERIC(5, 2) NOT NULL,
+  overtime_hours NUMERIC(5, 2) NOT NULL,
+  day_type TEXT NOT NULL CHECK (day_type IN ('weekday', 'rest_day', 'holiday')),
+  multiplier NUMERIC(4, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  admin_comments TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- Set once the approved overtime has been paid through a payroll record
+  payroll_record_id UUID REFERENCES public.payroll_records(id) ON DELETE SET NULL,
+  amount NUMERIC(10, 2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_employee_overtime_date UNIQUE (employee_id, date)
+);
+
+CREATE INDEX idx_overtime_requests_status ON public.overtime_requests(status);
+CREATE INDEX idx_overtime_requests_payroll_record_id ON public.overtime_requests(payroll_record_id);
+
+ALTER TABLE public.overtime_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their own overtime"
+  ON public.overtime_requests FOR SELECT
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can view their team's overtime"
+  ON public.overtime_requests FOR SELECT
+  TO authenticated
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees
+      WHERE manager_id = public.get_employee_id_from_user(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can manage all overtime"
+  ON public.overtime_requests FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_overtime_requests_updated_at
+  BEFORE UPDATE ON public.overtime_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Track the overtime portion of variable_salary so it can be recalculated without touching manual amounts
+ALTER TABLE public.payroll_records
+ADD COLUMN overtime_pay NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Work out the overtime for one day of attendance.
+-- Public holidays and rest days (days outside the schedule's working_days) count every worked hour;
+-- on working days only the hours beyond minimum_daily_hours count. The daily break deduction applies first.
+CREATE OR REPLACE FUNCTION public.calculate_daily_overtime(
+  p_employee_id UUID,
+  p_date DATE,
+  p_worked_hours NUMERIC
+)
+RETURNS TABLE (scheduled_hours NUMERIC, overtime_hours NUMERIC, day_type TEXT, multiplier NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_deduction JSONB;
+  v_minimum_hours NUMERIC;
+  v_working_days TEXT[];
+  v_division TEXT;
+  v_worked NUMERIC;
+BEGIN
+  SELECT setting_value INTO v_settings FROM system_settings WHERE setting_key = 'overtime_settings';
+  SELECT setting_value INTO v_deduction FROM system_settings WHERE setting_key = 'daily_hours_deduction';
+
+  SELECT ws.minimum_daily_hours, ws.working_days
+  INTO v_minimum_hours, v_working_days
+  FROM work_schedules ws
+  WHERE ws.employee_id = p_employee_id AND ws.is_active
+  LIMIT 1;
+
+  -- As in the app, a schedule without working days works Monday to Saturday
+  v_working_days := COALESCE(
+    NULLIF(v_working_days, '{}'),
+    ARRAY['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  );
+
+  SELECT division INTO v_division FROM employees WHERE id = p_employee_id;
+
+  v_worked := COALESCE(p_worked_hours, 0);
+  IF COALESCE((v_deduction->>'enabled')::boolean, false) THEN
+    v_worked := GREATEST(
+      v_worked - COALESCE((v_deduction->>'hours')::numeric, 0) - COALESCE((v_deduction->>'minutes')::numeric, 0) / 60,
+      0
+    );
+  END IF;
+
+  scheduled_hours := COALESCE(v_minimum_hours, 8);
+
+  IF EXISTS (SELECT 1 FROM get_public_holidays(p_date, p_date, v_division)) THEN
+    day_type := 'holiday';
+    overtime_hours := v_worked;
+    multiplier := COALESCE((v_settings->>'holiday_multiplier')::numeric, 1.5);
+  ELSIF NOT (to_char(p_date, 'FMDay') = ANY(v_working_days)) THEN
+    day_type := 'rest_day';
+    overtime_hours := v_worked;
+    multiplier := COALESCE((v_settings->>'rest_day_multiplier')::numeric, 1.5);
+  ELSE
+    day_type := 'weekday';
+    overtime_hours := GREATEST(v_worked - scheduled_hours, 0);
+    multiplier := COALESCE((v_settings->>'weekday_multiplier')::numeric, 1.25);
+  END IF;
+
+  overtime_hours := ROUND(overtime_hours, 2);
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_daily_overtime(UUID, DATE, NUMERIC) TO authenticated;
+
+-- Raise (or refresh) a pending overtime request whenever a day's hours are known.
+-- Requests that have already been reviewed are left untouched.
+CREATE OR REPLACE FUNCTION public.sync_overtime_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_overtime RECORD;
+BEGIN
+  IF NEW.total_hours IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT setting_value INTO v_settings FROM system_settings WHERE setting_key = 'overtime_settings';
+  IF NOT COALESCE((v_settings->>'enabled')::boolean, true) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_overtime FROM calculate_daily_overtime(NEW.employee_id, NEW.date, NEW.total_hours);
+
+  IF v_overtime.overtime_hours > 0
+     AND v_overtime.overtime_hours * 60 >= COALESCE((v_settings->>'minimum_minutes')::numeric, 30) THEN
+    INSERT INTO overtime_requests (
+      employee_id, attendance_id, date, worked_hours, scheduled_hours, overtime_hours, day_type, multiplier
+    ) VALUES (
+      NEW.employee_id, NEW.id, NEW.date, ROUND(NEW.total_hours, 2), v_overtime.scheduled_hours,
+      v_overtime.overtime_hours, v_overtime.day_type, v_overtime.multiplier
+    )
+    ON CONFLICT (employee_id, date) DO UPDATE SET
+      attendance_id = EXCLUDED.attendance_id,
+      worked_hours = EXCLUDED.worked_hours,
+      scheduled_hours = EXCLUDED.scheduled_hours,
+      overtime_hours = EXCLUDED.overtime_hours,
+      day_type = EXCLUDED.day_type,
+      multiplier = EXCLUDED.multiplier
+    WHERE overtime_requests.status = 'pending';
+  ELSE
+    DELETE FROM overtime_requests
+    WHERE employee_id = NEW.employee_id AND date = NEW.date AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_overtime_request_trigger
+  AFTER INSERT OR UPDATE OF clock_in_time, clock_out_time ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_overtime_request();
+
+-- Approved overtime pay for a period that has not yet been paid through payroll.
+-- Hourly rate follows the UAE convention: monthly basic / 30 days / normal daily hours.
+CREATE OR REPLACE FUNCTION public.calculate_overtime_pay(
+  p_employee_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_fixed_salary NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR p_employee_id = get_employee_id_from_user(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized to view overtime pay for this employee';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(SUM(ROUND(o.overtime_hours * o.multiplier * p_fixed_salary / 30 / NULLIF(o.scheduled_hours, 0), 2)), 0)
+    FROM overtime_requests o
+    WHERE o.employee_id = p_employee_id
+      AND o.status = 'approved'
+      AND o.payroll_record_id IS NULL
+      AND o.date BETWEEN p_start_date AND p_end_date
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_overtime_pay(UUID, DATE, DATE, NUMERIC) TO authenticated;
+
+-- Recalculate the overtime included in a draft payroll record's variable_salary.
+-- Records that are processed or paid are never changed.
+CREATE OR REPLACE FUNCTION public.apply_overtime_to_payroll(p_payroll_record_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_record RECORD;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO v_record FROM payroll_records WHERE id = p_payroll_record_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF v_record.status <> 'draft' THEN
+    RETURN v_record.overtime_pay;
+  END IF;
+
+  -- Release requests that no longer belong to this record (rejected, or period/employee changed)
+  UPDATE overtime_requests
+  SET payroll_record_id = NULL, amount = NULL
+  WHERE payroll_record_id = p_payroll_record_id
+    AND (status <> 'approved'
+         OR employee_id <> v_record.employee_id
+         OR date NOT BETWEEN v_record.pay_period_start AND v_record.pay_period_end);
+
+  UPDATE overtime_requests
+  SET payroll_record_id = p_payroll_record_id,
+      amount = ROUND(overtime_hours * multiplier * v_record.fixed_salary / 30 / NULLIF(scheduled_hours, 0), 2)
+  WHERE employee_id = v_record.employee_id
+    AND status = 'approved'
+    AND date BETWEEN v_record.pay_period_start AND v_record.pay_period_end
+    AND (payroll_record_id IS NULL OR payroll_record_id = p_payroll_record_id);
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_total
+  FROM overtime_requests
+  WHERE payroll_record_id = p_payroll_record_id;
+
+  UPDATE payroll_records
+  SET variable_salary = variable_salary - overtime_pay + v_total,
+      overtime_pay = v_total
+  WHERE id = p_payroll_record_id;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Only run by the payroll and overtime triggers below
+REVOKE EXECUTE ON FUNCTION public.apply_overtime_to_payroll(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_payroll_overtime()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM apply_overtime_to_payroll(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_payroll_overtime_trigger
+  AFTER INSERT OR UPDATE OF employee_id, pay_period_start, pay_period_end, fixed_salary, status ON public.payroll_records
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_payroll_overtime();
+
+-- Move overtime in or out of the matching draft payroll record when a decision is made
+CREATE OR REPLACE FUNCTION public.apply_overtime_decision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payroll_record_id UUID;
+BEGIN
+  IF OLD.payroll_record_id IS NOT NULL THEN
+    PERFORM apply_overtime_to_payroll(OLD.payroll_record_id);
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    FOR v_payroll_record_id IN
+      SELECT id FROM payroll_records
+      WHERE employee_id = NEW.employee_id
+        AND status = 'draft'
+        AND NEW.date BETWEEN pay_period_start AND pay_period_end
+    LOOP
+      PERFORM apply_overtime_to_payroll(v_payroll_record_id);
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_overtime_decision_trigger
+  AFTER UPDATE OF status ON public.overtime_requests
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.apply_overtime_decision();
+
+-- Approve or reject a pending overtime request. Managers review their team's overtime only through
+-- here, so the calculated hours, multiplier and amount stay as the system worked them out.
+CREATE OR REPLACE FUNCTION public.review_overtime_request(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be approved or rejected';
+  END IF;
+
+  SELECT employee_id, status INTO v_request FROM overtime_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Overtime request not found';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    EXISTS (
+      SELECT 1 FROM employees
+      WHERE id = v_request.employee_id AND manager_id = get_employee_id_from_user(auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to review this overtime request';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Overtime request has already been reviewed';
+  END IF;
+
+  UPDATE overtime_requests
+  SET status = p_decision, admin_comments = p_comments, reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_overtime_request(UUID, TEXT, TEXT) TO authenticated;
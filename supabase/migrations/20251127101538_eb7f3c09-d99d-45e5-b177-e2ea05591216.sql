@@ -0,0 +1,143 @@
+-- Punch log: an attendance day can now hold several work sessions and breaks.
+-- attendance.clock_in_time / clock_out_time remain the first punch in and last punch out of the day.
+CREATE TABLE public.attendance_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendance_id UUID NOT NULL REFERENCES public.attendance(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  -- Breaks are taken inside an open work session and are subtracted from worked time
+  session_type TEXT NOT NULL DEFAULT 'work' CHECK (session_type IN ('work', 'break')),
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE,
+  start_ip_address INET,
+  end_ip_address INET,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT attendance_sessions_time_range_check CHECK (end_time IS NULL OR end_time >= start_time)
+);
+
+CREATE INDEX idx_attendance_sessions_attendance_id ON public.attendance_sessions(attendance_id, start_time);
+CREATE INDEX idx_attendance_sessions_employee_id ON public.attendance_sessions(employee_id);
+
+-- At most one open work session and one open break per day
+CREATE UNIQUE INDEX idx_attendance_sessions_one_open
+  ON public.attendance_sessions(attendance_id, session_type)
+  WHERE end_time IS NULL;
+
+ALTER TABLE public.attendance_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Punches are written by the attendance-clock edge function with the service role
+CREATE POLICY "Employees can view their own attendance sessions"
+  ON public.attendance_sessions FOR SELECT
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can view their team's attendance sessions"
+  ON public.attendance_sessions FOR SELECT
+  TO authenticated
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees
+      WHERE manager_id = public.get_employee_id_from_user(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can manage all attendance sessions"
+  ON public.attendance_sessions FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_attendance_sessions_updated_at
+  BEFORE UPDATE ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the punch log from existing single-session attendance
+INSERT INTO public.attendance_sessions (attendance_id, employee_id, session_type, start_time, end_time, start_ip_address, end_ip_address)
+SELECT id, employee_id, 'work', clock_in_time, clock_out_time, ip_address, clock_out_ip_address
+FROM public.attendance
+WHERE clock_in_time IS NOT NULL
+  AND employee_id IS NOT NULL
+  AND (clock_out_time IS NULL OR clock_out_time >= clock_in_time);
+
+-- Derive total_hours and break_duration_minutes from the punch log.
+-- When clock_in_time/clock_out_time no longer match the log (e.g. corrected through an
+-- approved exception) the simple clock-in to clock-out span is used instead.
+CREATE OR REPLACE FUNCTION public.calculate_attendance_hours()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_first_start TIMESTAMP WITH TIME ZONE;
+  v_last_end TIMESTAMP WITH TIME ZONE;
+  v_work_seconds NUMERIC;
+  v_break_seconds NUMERIC;
+BEGIN
+  -- Only calculate if both clock_in_time and clock_out_time are set
+  IF NEW.clock_in_time IS NOT NULL AND NEW.clock_out_time IS NOT NULL THEN
+    SELECT
+      MIN(start_time) FILTER (WHERE session_type = 'work'),
+      MAX(end_time) FILTER (WHERE session_type = 'work'),
+      COALESCE(SUM(EXTRACT(EPOCH FROM (end_time - start_time))) FILTER (WHERE session_type = 'work'), 0),
+      COALESCE(SUM(EXTRACT(EPOCH FROM (end_time - start_time))) FILTER (WHERE session_type = 'break'), 0)
+    INTO v_first_start, v_last_end, v_work_seconds, v_break_seconds
+    FROM attendance_sessions
+    WHERE attendance_id = NEW.id AND end_time IS NOT NULL;
+
+    IF v_first_start = NEW.clock_in_time AND v_last_end = NEW.clock_out_time THEN
+      NEW.break_duration_minutes = ROUND(v_break_seconds / 60);
+      NEW.total_hours = GREATEST(v_work_seconds - v_break_seconds, 0) / 3600;
+    ELSE
+      NEW.total_hours = EXTRACT(EPOCH FROM (NEW.clock_out_time - NEW.clock_in_time)) / 3600;
+    END IF;
+  END IF;
+
+  -- Set updated_at
+  NEW.updated_at = now();
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Keep the day's first clock-in and last clock-out in step with the punch log.
+-- clock_out_time stays empty while a work session is open.
+CREATE OR REPLACE FUNCTION public.sync_attendance_from_sessions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attendance_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_attendance_id := OLD.attendance_id;
+  ELSE
+    v_attendance_id := NEW.attendance_id;
+  END IF;
+
+  UPDATE attendance a
+  SET clock_in_time = s.first_start,
+      clock_out_time = CASE WHEN s.has_open_session THEN NULL ELSE s.last_end END
+  FROM (
+    SELECT MIN(start_time) AS first_start,
+           MAX(end_time) AS last_end,
+           bool_or(end_time IS NULL) AS has_open_session
+    FROM attendance_sessions
+    WHERE attendance_id = v_attendance_id AND session_type = 'work'
+  ) s
+  WHERE a.id = v_attendance_id
+    AND s.first_start IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_attendance_from_sessions_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_attendance_from_sessions();
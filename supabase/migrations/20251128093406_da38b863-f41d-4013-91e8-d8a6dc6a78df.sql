@@ -0,0 +1,208 @@
+-- Shift templates: reusable start/end times that rosters are built from.
+-- A shift whose end_time is not after its start_time finishes on the next calendar day.
+CREATE TABLE public.shift_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  code TEXT NOT NULL UNIQUE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  crosses_midnight BOOLEAN GENERATED ALWAYS AS (end_time <= start_time) STORED,
+  minimum_hours NUMERIC NOT NULL DEFAULT 8,
+  color TEXT NOT NULL DEFAULT '#3b82f6',
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.shift_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view shift templates"
+  ON public.shift_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shift templates"
+  ON public.shift_templates FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_shift_templates_updated_at
+  BEFORE UPDATE ON public.shift_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.shift_templates (name, code, start_time, end_time, minimum_hours, color, description) VALUES
+  ('Morning', 'M', '06:00', '14:00', 8, '#f59e0b', 'Early shift'),
+  ('Day', 'D', '09:00', '17:00', 8, '#3b82f6', 'Standard office hours'),
+  ('Night', 'N', '22:00', '06:00', 8, '#6366f1', 'Overnight shift ending the next morning');
+
+-- Roster: the shift an employee works on a given day. shift_date is the day the shift
+-- starts, which is also the attendance date the punches are recorded against.
+-- A row without a template is a rostered day off. Days without a row fall back to work_schedules.
+CREATE TABLE public.shift_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  shift_date DATE NOT NULL,
+  shift_template_id UUID REFERENCES public.shift_templates(id) ON DELETE CASCADE,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (employee_id, shift_date)
+);
+
+CREATE INDEX idx_shift_assignments_shift_date ON public.shift_assignments(shift_date);
+
+ALTER TABLE public.shift_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their own shift assignments"
+  ON public.shift_assignments FOR SELECT
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can view their team's shift assignments"
+  ON public.shift_assignments FOR SELECT
+  TO authenticated
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees
+      WHERE manager_id = public.get_employee_id_from_user(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can manage all shift assignments"
+  ON public.shift_assignments FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_shift_assignments_updated_at
+  BEFORE UPDATE ON public.shift_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resolve the shift an employee is expected to work on p_date (the attendance date).
+-- The rostered shift wins over the fixed work schedule; start_at/end_at are absolute
+-- timestamps in GST with end_at on the following day for overnight shifts.
+-- Returns no row when the employee has neither a roster entry nor an active schedule.
+CREATE OR REPLACE FUNCTION public.get_employee_shift(p_employee_id UUID, p_date DATE)
+RETURNS TABLE (
+  source TEXT,
+  shift_template_id UUID,
+  shift_name TEXT,
+  is_working BOOLEAN,
+  start_at TIMESTAMP WITH TIME ZONE,
+  end_at TIMESTAMP WITH TIME ZONE,
+  minimum_hours NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start TIME;
+  v_end TIME;
+  v_minimum NUMERIC;
+  v_working_days TEXT[];
+BEGIN
+  SELECT sa.shift_template_id, st.name, st.start_time, st.end_time, st.minimum_hours
+  INTO shift_template_id, shift_name, v_start, v_end, v_minimum
+  FROM shift_assignments sa
+  LEFT JOIN shift_templates st ON st.id = sa.shift_template_id
+  WHERE sa.employee_id = p_employee_id AND sa.shift_date = p_date;
+
+  IF FOUND THEN
+    source := 'roster';
+    is_working := shift_template_id IS NOT NULL;
+  ELSE
+    SELECT ws.start_time, ws.end_time, ws.minimum_daily_hours, ws.working_days
+    INTO v_start, v_end, v_minimum, v_working_days
+    FROM work_schedules ws
+    WHERE ws.employee_id = p_employee_id AND ws.is_active
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    source := 'schedule';
+    -- As in the app, a schedule without working days works Monday to Saturday
+    is_working := to_char(p_date, 'FMDay') = ANY(COALESCE(
+      NULLIF(v_working_days, '{}'),
+      ARRAY['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+    ));
+  END IF;
+
+  IF is_working THEN
+    start_at := (p_date + v_start) AT TIME ZONE 'Asia/Dubai';
+    end_at := (p_date + v_end + CASE WHEN v_end <= v_start THEN INTERVAL '1 day' ELSE INTERVAL '0' END)
+      AT TIME ZONE 'Asia/Dubai';
+    minimum_hours := v_minimum;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_employee_shift(UUID, DATE) TO authenticated;
+
+-- Overtime now follows the rostered shift: a rostered day off counts as a rest day and
+-- the template's minimum hours replace the fixed schedule's
+CREATE OR REPLACE FUNCTION public.calculate_daily_overtime(
+  p_employee_id UUID,
+  p_date DATE,
+  p_worked_hours NUMERIC
+)
+RETURNS TABLE (scheduled_hours NUMERIC, overtime_hours NUMERIC, day_type TEXT, multiplier NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_deduction JSONB;
+  v_shift RECORD;
+  v_division TEXT;
+  v_worked NUMERIC;
+BEGIN
+  SELECT setting_value INTO v_settings FROM system_settings WHERE setting_key = 'overtime_settings';
+  SELECT setting_value INTO v_deduction FROM system_settings WHERE setting_key = 'daily_hours_deduction';
+
+  SELECT * INTO v_shift FROM get_employee_shift(p_employee_id, p_date);
+
+  SELECT division INTO v_division FROM employees WHERE id = p_employee_id;
+
+  v_worked := COALESCE(p_worked_hours, 0);
+  IF COALESCE((v_deduction->>'enabled')::boolean, false) THEN
+    v_worked := GREATEST(
+      v_worked - COALESCE((v_deduction->>'hours')::numeric, 0) - COALESCE((v_deduction->>'minutes')::numeric, 0) / 60,
+      0
+    );
+  END IF;
+
+  scheduled_hours := COALESCE(v_shift.minimum_hours, 8);
+
+  IF EXISTS (SELECT 1 FROM get_public_holidays(p_date, p_date, v_division)) THEN
+    day_type := 'holiday';
+    overtime_hours := v_worked;
+    multiplier := COALESCE((v_settings->>'holiday_multiplier')::numeric, 1.5);
+  -- With neither a roster entry nor a schedule, the app's Monday to Saturday week applies
+  ELSIF NOT COALESCE(v_shift.is_working, to_char(p_date, 'FMDay') <> 'Sunday') THEN
+    day_type := 'rest_day';
+    overtime_hours := v_worked;
+    multiplier := COALESCE((v_settings->>'rest_day_multiplier')::numeric, 1.5);
+  ELSE
+    day_type := 'weekday';
+    overtime_hours := GREATEST(v_worked - scheduled_hours, 0);
+    multiplier := COALESCE((v_settings->>'weekday_multiplier')::numeric, 1.25);
+  END IF;
+
+  overtime_hours := ROUND(overtime_hours, 2);
+  RETURN NEXT;
+END;
+$$;
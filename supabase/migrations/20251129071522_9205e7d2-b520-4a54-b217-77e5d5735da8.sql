@@ -0,0 +1,332 @@
+-- Payroll runs: build draft payroll records for every active employee of a period from
+-- salary, leave and attendance, review them, then finalize the whole period at once.
+CREATE TABLE public.payroll_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pay_period_start DATE NOT NULL,
+  pay_period_end DATE NOT NULL,
+  payment_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'finalized')),
+  notes TEXT,
+  created_by UUID,
+  finalized_by UUID,
+  finalized_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT payroll_runs_period_check CHECK (pay_period_end >= pay_period_start),
+  CONSTRAINT unique_payroll_run_period UNIQUE (pay_period_start, pay_period_end)
+);
+
+ALTER TABLE public.payroll_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payroll runs"
+  ON public.payroll_runs FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_payroll_runs_updated_at
+  BEFORE UPDATE ON public.payroll_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Calculated deductions are kept apart from the manually entered ones so a run can be
+-- recalculated without overwriting what an admin typed
+ALTER TABLE public.payroll_records
+  ADD COLUMN payroll_run_id UUID REFERENCES public.payroll_runs(id) ON DELETE SET NULL,
+  ADD COLUMN deductions_unpaid_leave NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN deductions_attendance NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN calculation_details JSONB;
+
+CREATE INDEX idx_payroll_records_payroll_run_id ON public.payroll_records(payroll_run_id);
+
+-- The admin screen cancels records instead of deleting them
+ALTER TABLE public.payroll_records DROP CONSTRAINT IF EXISTS payroll_records_status_check;
+ALTER TABLE public.payroll_records
+  ADD CONSTRAINT payroll_records_status_check
+  CHECK (status IN ('draft', 'processed', 'paid', 'cancelled'));
+
+CREATE OR REPLACE FUNCTION public.calculate_payroll_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Calculate gross pay
+  NEW.gross_pay := NEW.fixed_salary + NEW.variable_salary + NEW.allowances;
+
+  -- Calculate total deductions
+  NEW.total_deductions := NEW.deductions_tax + NEW.deductions_insurance +
+                          NEW.deductions_pension + NEW.deductions_other +
+                          NEW.deductions_unpaid_leave + NEW.deductions_attendance;
+
+  -- Calculate net pay
+  NEW.net_pay := NEW.gross_pay - NEW.total_deductions;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Work out an employee's pay for a period from employees.salary (monthly):
+--   * salary is prorated for employees hired during the period
+--   * approved unpaid leave is deducted in full and half-pay leave at half the daily rate
+--   * working days without a clock-in (and without leave, a holiday or an approved WFH
+--     exception) are deducted as absences
+--   * hours short of the day's minimum are deducted at the hourly rate, after the
+--     daily_hours_deduction setting and approved short permissions
+-- The daily rate is salary / 30 and the hourly rate divides it by the day's minimum hours,
+-- matching calculate_overtime_pay. Only days up to yesterday (GST) are assessed.
+CREATE OR REPLACE FUNCTION public.calculate_payroll_breakdown(
+  p_employee_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee RECORD;
+  v_deduction JSONB;
+  v_daily_deduction NUMERIC := 0;
+  v_salary NUMERIC;
+  v_fixed_salary NUMERIC;
+  v_daily_rate NUMERIC;
+  v_period_days INTEGER;
+  v_employed_days INTEGER;
+  v_leave RECORD;
+  v_leave_days NUMERIC;
+  v_unpaid_days NUMERIC := 0;
+  v_half_pay_days NUMERIC := 0;
+  v_day DATE;
+  v_last_day DATE;
+  v_shift RECORD;
+  v_attendance RECORD;
+  v_minimum NUMERIC;
+  v_excused NUMERIC;
+  v_short NUMERIC;
+  v_absent_days INTEGER := 0;
+  v_short_hours NUMERIC := 0;
+  v_short_amount NUMERIC := 0;
+BEGIN
+  SELECT salary, division, hire_date INTO v_employee FROM employees WHERE id = p_employee_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  SELECT setting_value INTO v_deduction FROM system_settings WHERE setting_key = 'daily_hours_deduction';
+  IF COALESCE((v_deduction->>'enabled')::boolean, false) THEN
+    v_daily_deduction := COALESCE((v_deduction->>'hours')::numeric, 0) + COALESCE((v_deduction->>'minutes')::numeric, 0) / 60;
+  END IF;
+
+  v_salary := COALESCE(v_employee.salary, 0);
+  v_daily_rate := v_salary / 30;
+
+  v_period_days := p_end_date - p_start_date + 1;
+  v_employed_days := p_end_date - GREATEST(p_start_date, v_employee.hire_date) + 1;
+  v_fixed_salary := CASE
+    WHEN v_employed_days >= v_period_days THEN v_salary
+    WHEN v_employed_days <= 0 THEN 0
+    ELSE v_salary * v_employed_days / v_period_days
+  END;
+
+  FOR v_leave IN
+    SELECT start_date, end_date, payment_type
+    FROM leave_requests
+    WHERE employee_id = p_employee_id
+      AND status = 'approved'
+      AND payment_type IN ('unpaid', 'half_pay')
+      AND start_date <= p_end_date
+      AND end_date >= p_start_date
+  LOOP
+    v_leave_days := calculate_leave_days(
+      p_employee_id,
+      GREATEST(v_leave.start_date, p_start_date),
+      LEAST(v_leave.end_date, p_end_date)
+    );
+    IF v_leave.payment_type = 'unpaid' THEN
+      v_unpaid_days := v_unpaid_days + v_leave_days;
+    ELSE
+      v_half_pay_days := v_half_pay_days + v_leave_days;
+    END IF;
+  END LOOP;
+
+  v_last_day := LEAST(p_end_date, (NOW() AT TIME ZONE 'Asia/Dubai')::date - 1);
+
+  FOR v_day IN
+    SELECT d::date FROM generate_series(GREATEST(p_start_date, v_employee.hire_date), v_last_day, INTERVAL '1 day') d
+  LOOP
+    SELECT * INTO v_shift FROM get_employee_shift(p_employee_id, v_day);
+    CONTINUE WHEN NOT FOUND OR NOT v_shift.is_working;
+
+    CONTINUE WHEN EXISTS (SELECT 1 FROM get_public_holidays(v_day, v_day, v_employee.division));
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM leave_requests
+      WHERE employee_id = p_employee_id
+        AND status = 'approved'
+        AND v_day BETWEEN start_date AND end_date
+    );
+
+    SELECT clock_in_time, total_hours INTO v_attendance
+    FROM attendance
+    WHERE employee_id = p_employee_id AND date = v_day;
+
+    IF NOT FOUND OR v_attendance.clock_in_time IS NULL THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM attendance_exceptions
+        WHERE employee_id = p_employee_id
+          AND status = 'approved'
+          AND target_date = v_day
+          AND exception_type = 'wfh'
+      ) THEN
+        v_absent_days := v_absent_days + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    -- Open days are not assessed; late arrival / early departure exceptions excuse the whole day
+    CONTINUE WHEN v_attendance.total_hours IS NULL;
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM attendance_exceptions
+      WHERE employee_id = p_employee_id
+        AND status = 'approved'
+        AND target_date = v_day
+        AND exception_type IN ('late_arrival', 'early_departure')
+    );
+
+    SELECT COALESCE(SUM(duration_hours), 0) INTO v_excused
+    FROM attendance_exceptions
+    WHERE employee_id = p_employee_id
+      AND status = 'approved'
+      AND target_date = v_day
+      AND exception_type IN ('short_permission_personal', 'short_permission_official');
+
+    v_minimum := COALESCE(v_shift.minimum_hours, 8);
+    v_short := GREATEST(v_minimum - GREATEST(v_attendance.total_hours - v_daily_deduction, 0) - v_excused, 0);
+
+    IF v_short > 0 THEN
+      v_short_hours := v_short_hours + v_short;
+      v_short_amount := v_short_amount + v_short * v_daily_rate / v_minimum;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'salary', ROUND(v_salary, 2),
+    'fixed_salary', ROUND(v_fixed_salary, 2),
+    'daily_rate', ROUND(v_daily_rate, 2),
+    'employed_days', GREATEST(LEAST(v_employed_days, v_period_days), 0),
+    'period_days', v_period_days,
+    'unpaid_leave_days', v_unpaid_days,
+    'half_pay_leave_days', v_half_pay_days,
+    'absent_days', v_absent_days,
+    'short_hours', ROUND(v_short_hours, 2),
+    'deductions_unpaid_leave', ROUND((v_unpaid_days + v_half_pay_days / 2) * v_daily_rate, 2),
+    'deductions_attendance', ROUND(v_absent_days * v_daily_rate + v_short_amount, 2),
+    'assessed_until', v_last_day
+  );
+END;
+$$;
+
+-- Internal to payroll generation: exposes any employee's salary and deductions
+REVOKE EXECUTE ON FUNCTION public.calculate_payroll_breakdown(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- (Re)build the draft payroll records of a run for every active employee.
+-- Records already processed, paid or cancelled for the period are left untouched, and
+-- allowances and manual deductions typed on a draft survive recalculation.
+CREATE OR REPLACE FUNCTION public.generate_payroll_run(p_run_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run RECORD;
+  v_employee RECORD;
+  v_details JSONB;
+  v_count INTEGER := 0;
+  v_rows INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run payroll';
+  END IF;
+
+  SELECT * INTO v_run FROM payroll_runs WHERE id = p_run_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll run not found';
+  END IF;
+  IF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Payroll run has already been finalized';
+  END IF;
+
+  FOR v_employee IN
+    SELECT id FROM employees
+    WHERE status = 'active'
+      AND deleted_at IS NULL
+      AND hire_date <= v_run.pay_period_end
+  LOOP
+    v_details := calculate_payroll_breakdown(v_employee.id, v_run.pay_period_start, v_run.pay_period_end);
+
+    INSERT INTO payroll_records (
+      employee_id, pay_period_start, pay_period_end, payment_date, fixed_salary,
+      deductions_unpaid_leave, deductions_attendance, calculation_details,
+      payroll_run_id, status, created_by
+    ) VALUES (
+      v_employee.id, v_run.pay_period_start, v_run.pay_period_end, v_run.payment_date,
+      (v_details->>'fixed_salary')::numeric,
+      (v_details->>'deductions_unpaid_leave')::numeric,
+      (v_details->>'deductions_attendance')::numeric,
+      v_details, p_run_id, 'draft', auth.uid()
+    )
+    ON CONFLICT (employee_id, pay_period_start, pay_period_end) DO UPDATE SET
+      payment_date = EXCLUDED.payment_date,
+      fixed_salary = EXCLUDED.fixed_salary,
+      deductions_unpaid_leave = EXCLUDED.deductions_unpaid_leave,
+      deductions_attendance = EXCLUDED.deductions_attendance,
+      calculation_details = EXCLUDED.calculation_details,
+      payroll_run_id = EXCLUDED.payroll_run_id
+    WHERE payroll_records.status = 'draft';
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.generate_payroll_run(UUID) TO authenticated;
+
+-- Lock a reviewed run: its draft records become processed and can no longer be recalculated
+CREATE OR REPLACE FUNCTION public.finalize_payroll_run(p_run_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can finalize payroll';
+  END IF;
+
+  UPDATE payroll_runs
+  SET status = 'finalized', finalized_by = auth.uid(), finalized_at = NOW()
+  WHERE id = p_run_id AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll run not found or already finalized';
+  END IF;
+
+  UPDATE payroll_records
+  SET status = 'processed'
+  WHERE payroll_run_id = p_run_id AND status = 'draft';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.finalize_payroll_run(UUID) TO authenticated;
@@ -0,0 +1,41 @@
+-- Wage Protection System (WPS) details needed to pay salaries through the bank's SIF upload.
+-- Kept out of employees, which every signed-in user can read, so only HR and the employee see them.
+CREATE TABLE public.employee_bank_details (
+  employee_id UUID NOT NULL PRIMARY KEY REFERENCES public.employees(id) ON DELETE CASCADE,
+  labour_card_number TEXT,
+  iban TEXT,
+  bank_routing_code TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- 14-digit MOHRE personal number, UAE IBAN (AE + 21 digits) and 9-digit bank routing (agent) code
+  CONSTRAINT employee_bank_details_labour_card_number_check CHECK (labour_card_number IS NULL OR labour_card_number ~ '^\d{14}$'),
+  CONSTRAINT employee_bank_details_iban_check CHECK (iban IS NULL OR iban ~ '^AE\d{21}$'),
+  CONSTRAINT employee_bank_details_bank_routing_code_check CHECK (bank_routing_code IS NULL OR bank_routing_code ~ '^\d{9}$')
+);
+
+ALTER TABLE public.employee_bank_details ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage employee bank details"
+  ON public.employee_bank_details
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Employees can view their own bank details"
+  ON public.employee_bank_details
+  FOR SELECT
+  USING (employee_id = get_employee_id_from_user(auth.uid()));
+
+CREATE TRIGGER update_employee_bank_details_updated_at
+  BEFORE UPDATE ON public.employee_bank_details
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Employer identifiers for the SIF control (SCR) record
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES (
+  'wps_settings',
+  '{"employer_id": "", "employer_routing_code": "", "employer_reference": ""}'::jsonb,
+  'Wage Protection System employer establishment ID, employer bank routing code and reference used in SIF salary files'
+)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,185 @@
+-- End-of-service gratuity (UAE Federal Decree-Law No. 33 of 2021, Article 51):
+--   * no gratuity before one year of continuous service
+--   * 21 days' basic wage for each of the first five years and 30 days for each year after,
+--     pro-rated for part years
+--   * approved unpaid leave does not count towards service
+--   * the total is capped at two years' wage
+-- employees.salary is treated as the basic monthly wage and the daily wage is salary / 30,
+-- matching calculate_payroll_breakdown.
+CREATE OR REPLACE FUNCTION public.calculate_gratuity(
+  p_employee_id UUID,
+  p_as_of DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee RECORD;
+  v_as_of DATE;
+  v_leave RECORD;
+  v_unpaid_days NUMERIC := 0;
+  v_total_days INTEGER;
+  v_service_days NUMERIC;
+  v_service_years NUMERIC;
+  v_salary NUMERIC;
+  v_daily_wage NUMERIC;
+  v_gratuity_days NUMERIC := 0;
+  v_amount NUMERIC := 0;
+  v_cap NUMERIC;
+BEGIN
+  SELECT user_id, salary, hire_date INTO v_employee FROM employees WHERE id = p_employee_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR v_employee.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to view gratuity for this employee';
+  END IF;
+
+  v_as_of := COALESCE(p_as_of, (NOW() AT TIME ZONE 'Asia/Dubai')::date);
+  v_total_days := GREATEST(v_as_of - v_employee.hire_date + 1, 0);
+
+  FOR v_leave IN
+    SELECT start_date, end_date
+    FROM leave_requests
+    WHERE employee_id = p_employee_id
+      AND status = 'approved'
+      AND payment_type = 'unpaid'
+      AND start_date <= v_as_of
+      AND end_date >= v_employee.hire_date
+  LOOP
+    v_unpaid_days := v_unpaid_days + calculate_leave_days(
+      p_employee_id,
+      GREATEST(v_leave.start_date, v_employee.hire_date),
+      LEAST(v_leave.end_date, v_as_of)
+    );
+  END LOOP;
+
+  v_service_days := GREATEST(v_total_days - v_unpaid_days, 0);
+  v_service_years := v_service_days / 365.0;
+
+  v_salary := COALESCE(v_employee.salary, 0);
+  v_daily_wage := v_salary / 30;
+  v_cap := v_salary * 24;
+
+  IF v_service_years >= 1 THEN
+    v_gratuity_days := LEAST(v_service_years, 5) * 21 + GREATEST(v_service_years - 5, 0) * 30;
+    v_amount := LEAST(v_gratuity_days * v_daily_wage, v_cap);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'basic_salary', ROUND(v_salary, 2),
+    'daily_wage', ROUND(v_daily_wage, 2),
+    'hire_date', v_employee.hire_date,
+    'as_of', v_as_of,
+    'total_days', v_total_days,
+    'unpaid_leave_days', v_unpaid_days,
+    'service_days', v_service_days,
+    'service_years', ROUND(v_service_years, 2),
+    'eligible', v_service_years >= 1,
+    'gratuity_days', ROUND(v_gratuity_days, 2),
+    'gratuity_amount', ROUND(v_amount, 2),
+    'capped', v_service_years >= 1 AND v_gratuity_days * v_daily_wage > v_cap
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_gratuity(UUID, DATE) TO authenticated;
+
+-- Final settlement statement produced when an employee leaves
+CREATE TABLE public.final_settlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  last_working_day DATE NOT NULL,
+  gratuity_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  leave_encashment_days NUMERIC(6, 2) NOT NULL DEFAULT 0,
+  leave_encashment_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  calculation_details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  statement_pdf_url TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_employee_final_settlement UNIQUE (employee_id)
+);
+
+CREATE TRIGGER update_final_settlements_updated_at
+  BEFORE UPDATE ON public.final_settlements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.final_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their own final settlement"
+  ON public.final_settlements
+  FOR SELECT
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage final settlements"
+  ON public.final_settlements
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Calculate (or recalculate) an employee's final settlement: gratuity up to the last working
+-- day plus encashment of the unused annual leave balance for that year at the daily wage.
+CREATE OR REPLACE FUNCTION public.create_final_settlement(
+  p_employee_id UUID,
+  p_last_working_day DATE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_gratuity JSONB;
+  v_leave_days NUMERIC := 0;
+  v_encashment NUMERIC;
+  v_id UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can create final settlements';
+  END IF;
+
+  v_gratuity := calculate_gratuity(p_employee_id, p_last_working_day);
+
+  SELECT COALESCE(SUM(GREATEST(b.allocated_days - b.used_days, 0)), 0) INTO v_leave_days
+  FROM employee_leave_balances b
+  JOIN leave_types lt ON lt.id = b.leave_type_id
+  WHERE b.employee_id = p_employee_id
+    AND b.year = EXTRACT(YEAR FROM p_last_working_day)::integer
+    AND lt.name = 'Annual Leave';
+
+  v_encashment := ROUND(v_leave_days * (v_gratuity->>'daily_wage')::numeric, 2);
+
+  INSERT INTO final_settlements (
+    employee_id, last_working_day, gratuity_amount, leave_encashment_days,
+    leave_encashment_amount, total_amount, calculation_details, created_by
+  ) VALUES (
+    p_employee_id, p_last_working_day, (v_gratuity->>'gratuity_amount')::numeric, v_leave_days,
+    v_encashment, (v_gratuity->>'gratuity_amount')::numeric + v_encashment, v_gratuity, auth.uid()
+  )
+  ON CONFLICT (employee_id) DO UPDATE SET
+    last_working_day = EXCLUDED.last_working_day,
+    gratuity_amount = EXCLUDED.gratuity_amount,
+    leave_encashment_days = EXCLUDED.leave_encashment_days,
+    leave_encashment_amount = EXCLUDED.leave_encashment_amount,
+    total_amount = EXCLUDED.total_amount,
+    calculation_details = EXCLUDED.calculation_details,
+    statement_pdf_url = NULL,
+    created_by = EXCLUDED.created_by
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_final_settlement(UUID, DATE) TO authenticated;
@@ -0,0 +1,574 @@
+-- Configurable multi-level approval chains for leave requests and attendance exceptions.
+-- A chain applies to a request type, optionally narrowed by leave type / exception type,
+-- division and a minimum number of leave days. When a request is created the best matching
+-- chain is copied into request_approval_steps and each step must approve in order.
+-- Requests without a matching chain keep the single-step review by an admin or line manager.
+
+CREATE TABLE public.approval_chains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  request_type TEXT NOT NULL CHECK (request_type IN ('leave', 'exception')),
+  -- NULL filters match everything
+  leave_type_id UUID REFERENCES public.leave_types(id) ON DELETE CASCADE,
+  exception_type TEXT,
+  division TEXT,
+  -- Leave only: applies when the request is longer than this many days
+  min_days NUMERIC(5, 1),
+  -- Higher priority chains win when several match
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT approval_chain_filters_match_type CHECK (
+    (request_type = 'leave' AND exception_type IS NULL) OR
+    (request_type = 'exception' AND leave_type_id IS NULL AND min_days IS NULL)
+  )
+);
+
+CREATE TABLE public.approval_chain_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chain_id UUID NOT NULL REFERENCES public.approval_chains(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  -- line_manager: the requester's manager, role: anyone holding approver_role,
+  -- employee: a named approver (e.g. the finance officer)
+  approver_type TEXT NOT NULL CHECK (approver_type IN ('line_manager', 'role', 'employee')),
+  approver_role app_role,
+  approver_employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_chain_step_order UNIQUE (chain_id, step_order),
+  CONSTRAINT approval_step_role_required CHECK ((approver_type = 'role') = (approver_role IS NOT NULL)),
+  CONSTRAINT approval_step_employee_required CHECK ((approver_type = 'employee') = (approver_employee_id IS NOT NULL))
+);
+
+-- The chain as applied to one request; approvers are resolved when the request is created
+CREATE TABLE public.request_approval_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_type TEXT NOT NULL CHECK (request_type IN ('leave', 'exception')),
+  request_id UUID NOT NULL,
+  -- The requester
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  chain_id UUID REFERENCES public.approval_chains(id) ON DELETE SET NULL,
+  step_order INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  approver_type TEXT NOT NULL,
+  approver_role app_role,
+  approver_employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  -- waiting -> pending -> approved / rejected; skipped when the step has no approver
+  -- (e.g. no line manager) or an earlier step rejected the request
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'pending', 'approved', 'rejected', 'skipped')),
+  acted_by UUID,
+  acted_at TIMESTAMP WITH TIME ZONE,
+  comments TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_request_step_order UNIQUE (request_type, request_id, step_order)
+);
+
+CREATE INDEX idx_request_approval_steps_request ON public.request_approval_steps(request_type, request_id);
+CREATE INDEX idx_request_approval_steps_pending ON public.request_approval_steps(status) WHERE status = 'pending';
+
+CREATE TRIGGER update_approval_chains_updated_at
+  BEFORE UPDATE ON public.approval_chains
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_request_approval_steps_updated_at
+  BEFORE UPDATE ON public.request_approval_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.request_approval_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view approval chains"
+  ON public.approval_chains
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage approval chains"
+  ON public.approval_chains
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view approval chain steps"
+  ON public.approval_chain_steps
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage approval chain steps"
+  ON public.approval_chain_steps
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Whether a user is (or was) an approver on any step of a request. SECURITY DEFINER so
+-- policies on request_approval_steps can use it without recursing into themselves.
+-- Policies need it to stay executable, so it only answers for the caller or an admin.
+CREATE OR REPLACE FUNCTION public.is_request_approver(p_request_type TEXT, p_request_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (p_user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  AND EXISTS (
+    SELECT 1 FROM request_approval_steps
+    WHERE request_type = p_request_type
+      AND request_id = p_request_id
+      AND (approver_employee_id = get_employee_id_from_user(p_user_id)
+        OR has_role(p_user_id, approver_role))
+  )
+$$;
+
+-- Steps are only written by the functions below; these policies cover reading
+CREATE POLICY "Employees can view approval steps of their own requests"
+  ON public.request_approval_steps
+  FOR SELECT
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can view their team's approval steps"
+  ON public.request_approval_steps
+  FOR SELECT
+  TO authenticated
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees
+      WHERE manager_id = public.get_employee_id_from_user(auth.uid())
+    )
+  );
+
+CREATE POLICY "Approvers can view steps of requests assigned to them"
+  ON public.request_approval_steps
+  FOR SELECT
+  TO authenticated
+  USING (public.is_request_approver(request_type, request_id, auth.uid()));
+
+CREATE POLICY "Admins can manage all approval steps"
+  ON public.request_approval_steps
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Approvers named on a chain may not otherwise be able to see the request
+CREATE POLICY "Approvers can view leave requests assigned to them"
+  ON public.leave_requests
+  FOR SELECT
+  TO authenticated
+  USING (public.is_request_approver('leave', id, auth.uid()));
+
+CREATE POLICY "Approvers can view exceptions assigned to them"
+  ON public.attendance_exceptions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_request_approver('exception', id, auth.uid()));
+
+-- Whether a user may act on a step: its resolved approver, a holder of its role, or an admin.
+-- Nobody approves their own request through a role step.
+CREATE OR REPLACE FUNCTION public.can_act_on_approval_step(p_step_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step RECORD;
+  v_caller_employee_id UUID;
+BEGIN
+  SELECT * INTO v_step FROM request_approval_steps WHERE id = p_step_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF has_role(p_user_id, 'admin'::app_role) THEN
+    RETURN true;
+  END IF;
+
+  v_caller_employee_id := get_employee_id_from_user(p_user_id);
+
+  IF v_step.approver_employee_id IS NOT NULL THEN
+    RETURN v_step.approver_employee_id = v_caller_employee_id;
+  END IF;
+
+  RETURN v_step.approver_role IS NOT NULL
+    AND has_role(p_user_id, v_step.approver_role)
+    AND v_step.employee_id IS DISTINCT FROM v_caller_employee_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_act_on_approval_step(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Let the approvers of a step know it is waiting for them
+CREATE OR REPLACE FUNCTION public.notify_approval_step(p_step_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step RECORD;
+  v_requester_name TEXT;
+  v_user_id UUID;
+BEGIN
+  SELECT * INTO v_step FROM request_approval_steps WHERE id = p_step_id;
+  SELECT full_name INTO v_requester_name FROM employees WHERE id = v_step.employee_id;
+
+  FOR v_user_id IN
+    SELECT user_id FROM employees
+    WHERE id = v_step.approver_employee_id AND user_id IS NOT NULL
+    UNION
+    SELECT ur.user_id FROM user_roles ur
+    WHERE v_step.approver_employee_id IS NULL
+      AND ur.role = v_step.approver_role
+      AND ur.user_id IS DISTINCT FROM (SELECT user_id FROM employees WHERE id = v_step.employee_id)
+  LOOP
+    PERFORM create_in_app_notification(
+      v_user_id,
+      v_step.employee_id,
+      CASE v_step.request_type WHEN 'leave' THEN 'leave_request' ELSE 'exception_request' END,
+      'Approval Required',
+      format('%s''s %s request is waiting for your approval (%s)',
+        v_requester_name,
+        CASE v_step.request_type WHEN 'leave' THEN 'leave' ELSE 'attendance exception' END,
+        v_step.label),
+      jsonb_build_object('request_type', v_step.request_type, 'request_id', v_step.request_id, 'step', v_step.step_order),
+      '/',
+      'high'
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_approval_step(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Move a request to its next waiting step and notify that step's approvers.
+-- Returns false when no steps are left.
+CREATE OR REPLACE FUNCTION public.advance_request_approval(p_request_type TEXT, p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step_id UUID;
+BEGIN
+  SELECT id INTO v_step_id
+  FROM request_approval_steps
+  WHERE request_type = p_request_type
+    AND request_id = p_request_id
+    AND status = 'waiting'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF v_step_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE request_approval_steps SET status = 'pending' WHERE id = v_step_id;
+  PERFORM notify_approval_step(v_step_id);
+  RETURN true;
+END;
+$$;
+
+-- Only called from act_on_approval and the request triggers
+REVOKE EXECUTE ON FUNCTION public.advance_request_approval(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Copy the best matching chain onto a newly created request
+CREATE OR REPLACE FUNCTION public.initialize_request_approvals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_type TEXT;
+  v_request JSONB := to_jsonb(NEW);
+  v_employee RECORD;
+  v_chain_id UUID;
+BEGIN
+  v_request_type := CASE TG_TABLE_NAME WHEN 'leave_requests' THEN 'leave' ELSE 'exception' END;
+
+  IF NEW.status <> 'pending' OR NEW.employee_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, division, manager_id INTO v_employee FROM employees WHERE id = NEW.employee_id;
+
+  SELECT c.id INTO v_chain_id
+  FROM approval_chains c
+  WHERE c.is_active
+    AND c.request_type = v_request_type
+    AND (c.division IS NULL OR c.division = v_employee.division)
+    AND (c.leave_type_id IS NULL OR c.leave_type_id::text = v_request->>'leave_type_id')
+    AND (c.exception_type IS NULL OR c.exception_type = v_request->>'exception_type')
+    AND (c.min_days IS NULL OR (v_request->>'total_days')::numeric > c.min_days)
+    AND EXISTS (SELECT 1 FROM approval_chain_steps s WHERE s.chain_id = c.id)
+  ORDER BY c.priority DESC,
+    (c.leave_type_id IS NOT NULL)::int + (c.exception_type IS NOT NULL)::int +
+    (c.division IS NOT NULL)::int + (c.min_days IS NOT NULL)::int DESC,
+    c.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO request_approval_steps (
+    request_type, request_id, employee_id, chain_id, step_order, label,
+    approver_type, approver_role, approver_employee_id, status
+  )
+  SELECT
+    v_request_type, NEW.id, NEW.employee_id, v_chain_id, s.step_order, s.label,
+    s.approver_type, s.approver_role, r.approver_employee_id,
+    CASE
+      WHEN s.approver_type <> 'role' AND r.approver_employee_id IS NULL THEN 'skipped'
+      WHEN r.approver_employee_id = NEW.employee_id THEN 'skipped'
+      ELSE 'waiting'
+    END
+  FROM approval_chain_steps s
+  CROSS JOIN LATERAL (
+    SELECT CASE s.approver_type
+      WHEN 'line_manager' THEN v_employee.manager_id
+      ELSE s.approver_employee_id
+    END AS approver_employee_id
+  ) r
+  WHERE s.chain_id = v_chain_id;
+
+  -- If every step was skipped the request falls back to single-step review
+  IF NOT advance_request_approval(v_request_type, NEW.id) THEN
+    DELETE FROM request_approval_steps
+    WHERE request_type = v_request_type AND request_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER initialize_leave_request_approvals
+  AFTER INSERT ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.initialize_request_approvals();
+
+CREATE TRIGGER initialize_exception_approvals
+  AFTER INSERT ON public.attendance_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.initialize_request_approvals();
+
+-- Approve or reject a request at its current step. Returns the request's resulting status:
+-- 'pending' while further steps remain, otherwise the final decision.
+CREATE OR REPLACE FUNCTION public.act_on_approval(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_decision TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee_id UUID;
+  v_status TEXT;
+  v_step RECORD;
+  v_final TEXT;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be approved or rejected';
+  END IF;
+
+  IF p_request_type = 'leave' THEN
+    SELECT employee_id, status INTO v_employee_id, v_status FROM leave_requests WHERE id = p_request_id;
+  ELSIF p_request_type = 'exception' THEN
+    SELECT employee_id, status INTO v_employee_id, v_status FROM attendance_exceptions WHERE id = p_request_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown request type %', p_request_type;
+  END IF;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Request has already been reviewed';
+  END IF;
+
+  SELECT * INTO v_step
+  FROM request_approval_steps
+  WHERE request_type = p_request_type
+    AND request_id = p_request_id
+    AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    -- No chain: single-step review by an admin or the requester's line manager
+    IF NOT (
+      has_role(auth.uid(), 'admin'::app_role) OR
+      EXISTS (
+        SELECT 1 FROM employees
+        WHERE id = v_employee_id AND manager_id = get_employee_id_from_user(auth.uid())
+      )
+    ) THEN
+      RAISE EXCEPTION 'Not authorized to review this request';
+    END IF;
+    v_final := p_decision;
+  ELSE
+    IF NOT can_act_on_approval_step(v_step.id, auth.uid()) THEN
+      RAISE EXCEPTION 'This request is waiting for % approval', v_step.label;
+    END IF;
+
+    UPDATE request_approval_steps
+    SET status = p_decision, acted_by = auth.uid(), acted_at = NOW(), comments = p_comments
+    WHERE id = v_step.id;
+
+    IF p_decision = 'rejected' THEN
+      UPDATE request_approval_steps
+      SET status = 'skipped'
+      WHERE request_type = p_request_type AND request_id = p_request_id AND status = 'waiting';
+      v_final := 'rejected';
+    ELSIF advance_request_approval(p_request_type, p_request_id) THEN
+      RETURN 'pending';
+    ELSE
+      v_final := 'approved';
+    END IF;
+  END IF;
+
+  IF p_request_type = 'leave' THEN
+    UPDATE leave_requests
+    SET status = v_final, review_comments = p_comments, reviewed_at = NOW(), reviewed_by = auth.uid()
+    WHERE id = p_request_id;
+  ELSE
+    UPDATE attendance_exceptions
+    SET status = v_final, admin_comments = p_comments, reviewed_at = NOW(), reviewed_by = auth.uid()
+    WHERE id = p_request_id;
+  END IF;
+
+  RETURN v_final;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.act_on_approval(TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+-- Reviewers can still update requests directly through their existing policies, so the decision
+-- is held back while the chain has steps left. act_on_approval only sets the final status once
+-- every step has been approved or the rest skipped after a rejection.
+CREATE OR REPLACE FUNCTION public.enforce_request_approval_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_type TEXT := CASE TG_TABLE_NAME WHEN 'leave_requests' THEN 'leave' ELSE 'exception' END;
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND EXISTS (
+    SELECT 1 FROM request_approval_steps
+    WHERE request_type = v_request_type
+      AND request_id = NEW.id
+      AND status IN ('waiting', 'pending')
+  ) THEN
+    RAISE EXCEPTION 'This request has approval steps outstanding and can only be reviewed through its approval chain';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_leave_request_approval_chain
+  BEFORE UPDATE OF status ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_request_approval_chain();
+
+CREATE TRIGGER enforce_exception_approval_chain
+  BEFORE UPDATE OF status ON public.attendance_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_request_approval_chain();
+
+-- Correct the attendance day once an exception is approved. Done here rather than by the reviewer's
+-- browser, as line managers, role approvers and delegates cannot write attendance themselves.
+CREATE OR REPLACE FUNCTION public.apply_approved_exception()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attendance_id UUID;
+BEGIN
+  IF NEW.target_date IS NULL OR NEW.exception_type NOT IN (
+    'missed_clock_in', 'missed_clock_out', 'wrong_time', 'wfh',
+    'short_permission_personal', 'short_permission_official'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_attendance_id
+  FROM attendance
+  WHERE employee_id = NEW.employee_id AND date = NEW.target_date;
+
+  IF v_attendance_id IS NULL THEN
+    INSERT INTO attendance (employee_id, date, status, is_wfh, clock_in_time, clock_out_time, notes)
+    VALUES (
+      NEW.employee_id, NEW.target_date, 'present', NEW.exception_type = 'wfh',
+      NEW.proposed_clock_in_time, NEW.proposed_clock_out_time,
+      'Created via exception approval: ' || NEW.reason
+    );
+  ELSE
+    UPDATE attendance
+    SET is_wfh = is_wfh OR NEW.exception_type = 'wfh',
+        status = CASE WHEN NEW.exception_type = 'wfh' THEN 'present' ELSE status END,
+        clock_in_time = COALESCE(NEW.proposed_clock_in_time, clock_in_time),
+        clock_out_time = COALESCE(NEW.proposed_clock_out_time, clock_out_time),
+        notes = CASE
+          WHEN NEW.exception_type = 'wfh' THEN 'WFH approved: ' || NEW.reason
+          WHEN NEW.exception_type LIKE 'short_permission_%' THEN NEW.exception_type || ': ' || NEW.reason
+          ELSE notes
+        END
+    WHERE id = v_attendance_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_approved_exception_trigger
+  AFTER UPDATE OF status ON public.attendance_exceptions
+  FOR EACH ROW
+  WHEN (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+  EXECUTE FUNCTION public.apply_approved_exception();
+
+-- Requests whose current step is assigned to the caller (by name, line management or role)
+CREATE OR REPLACE FUNCTION public.get_my_pending_approvals(p_request_type TEXT)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.request_id
+  FROM request_approval_steps s
+  WHERE s.request_type = p_request_type
+    AND s.status = 'pending'
+    AND (
+      s.approver_employee_id = get_employee_id_from_user(auth.uid())
+      OR (
+        s.approver_employee_id IS NULL
+        AND has_role(auth.uid(), s.approver_role)
+        AND s.employee_id IS DISTINCT FROM get_employee_id_from_user(auth.uid())
+      )
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_pending_approvals(TEXT) TO authenticated;
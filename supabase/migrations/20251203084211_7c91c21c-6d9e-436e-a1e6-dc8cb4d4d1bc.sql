@@ -0,0 +1,455 @@
+-- Approval delegation: a manager hands their approvals to a colleague for a date range,
+-- or automatically to a standing default delegate while they are on approved leave
+
+CREATE TABLE public.approval_delegations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  delegator_employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  delegate_employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  -- Cleared when a delegation is cancelled; kept for the audit trail
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT approval_delegation_dates CHECK (end_date >= start_date),
+  CONSTRAINT approval_delegation_not_self CHECK (delegator_employee_id <> delegate_employee_id)
+);
+
+CREATE INDEX idx_approval_delegations_delegator ON public.approval_delegations(delegator_employee_id, start_date, end_date) WHERE is_active;
+CREATE INDEX idx_approval_delegations_delegate ON public.approval_delegations(delegate_employee_id) WHERE is_active;
+
+CREATE TRIGGER update_approval_delegations_updated_at
+  BEFORE UPDATE ON public.approval_delegations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.approval_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can manage their own delegations"
+  ON public.approval_delegations
+  FOR ALL
+  TO authenticated
+  USING (delegator_employee_id = public.get_employee_id_from_user(auth.uid()))
+  WITH CHECK (delegator_employee_id = public.get_employee_id_from_user(auth.uid()));
+
+CREATE POLICY "Delegates can view delegations to them"
+  ON public.approval_delegations
+  FOR SELECT
+  TO authenticated
+  USING (delegate_employee_id = public.get_employee_id_from_user(auth.uid()));
+
+CREATE POLICY "Admins can manage all delegations"
+  ON public.approval_delegations
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Who takes over an employee's approvals while they are on approved leave and have not
+-- set up a delegation for those dates
+ALTER TABLE public.employees
+  ADD COLUMN default_delegate_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  ADD CONSTRAINT employees_default_delegate_not_self CHECK (default_delegate_id <> id);
+
+-- Audit trail: who acted on a step, and whose approval they were exercising
+ALTER TABLE public.request_approval_steps
+  ADD COLUMN acted_by_employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  ADD COLUMN acted_on_behalf_of UUID REFERENCES public.employees(id) ON DELETE SET NULL;
+
+-- Employees cannot update their own employees row, so the default delegate is set (or,
+-- with no argument, cleared) through here
+CREATE OR REPLACE FUNCTION public.set_default_delegate(p_delegate_employee_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee_id UUID;
+BEGIN
+  v_employee_id := get_employee_id_from_user(auth.uid());
+  IF v_employee_id IS NULL THEN
+    RAISE EXCEPTION 'No employee record for the current user';
+  END IF;
+  IF p_delegate_employee_id = v_employee_id THEN
+    RAISE EXCEPTION 'You cannot delegate approvals to yourself';
+  END IF;
+
+  UPDATE employees SET default_delegate_id = p_delegate_employee_id WHERE id = v_employee_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_default_delegate(UUID) TO authenticated;
+
+-- The employee acting for an approver on a date: an explicit delegation covering it,
+-- otherwise their default delegate if they are on approved leave. NULL when nobody is.
+CREATE OR REPLACE FUNCTION public.get_active_delegate(p_employee_id UUID, p_date DATE DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date DATE;
+  v_delegate_id UUID;
+BEGIN
+  v_date := COALESCE(p_date, (NOW() AT TIME ZONE 'Asia/Dubai')::date);
+
+  SELECT d.delegate_employee_id INTO v_delegate_id
+  FROM approval_delegations d
+  JOIN employees e ON e.id = d.delegate_employee_id
+  WHERE d.delegator_employee_id = p_employee_id
+    AND d.is_active
+    AND v_date BETWEEN d.start_date AND d.end_date
+    AND e.status = 'active'
+  ORDER BY d.created_at DESC
+  LIMIT 1;
+
+  IF v_delegate_id IS NOT NULL THEN
+    RETURN v_delegate_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM leave_requests
+    WHERE employee_id = p_employee_id
+      AND status = 'approved'
+      AND v_date BETWEEN start_date AND end_date
+  ) THEN
+    SELECT e.default_delegate_id INTO v_delegate_id
+    FROM employees e
+    JOIN employees d ON d.id = e.default_delegate_id
+    WHERE e.id = p_employee_id AND d.status = 'active';
+  END IF;
+
+  RETURN v_delegate_id;
+END;
+$$;
+
+-- Used by the approval functions and by edge functions through the service role
+REVOKE EXECUTE ON FUNCTION public.get_active_delegate(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Employees whose approvals a user is currently exercising. Policies call it, so it stays
+-- executable but only answers for the caller or an admin.
+CREATE OR REPLACE FUNCTION public.get_delegating_employees(p_user_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id
+  FROM employees e
+  WHERE (
+      e.default_delegate_id = get_employee_id_from_user(p_user_id)
+      OR e.id IN (
+        SELECT delegator_employee_id FROM approval_delegations
+        WHERE delegate_employee_id = get_employee_id_from_user(p_user_id) AND is_active
+      )
+    )
+    AND get_active_delegate(e.id) = get_employee_id_from_user(p_user_id)
+    AND (p_user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_delegating_employees(UUID) TO authenticated;
+
+-- Delegates see what their delegators would see
+CREATE OR REPLACE FUNCTION public.is_request_approver(p_request_type TEXT, p_request_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (p_user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  AND EXISTS (
+    SELECT 1 FROM request_approval_steps
+    WHERE request_type = p_request_type
+      AND request_id = p_request_id
+      AND (approver_employee_id = get_employee_id_from_user(p_user_id)
+        OR approver_employee_id IN (SELECT get_delegating_employees(p_user_id))
+        OR has_role(p_user_id, approver_role))
+  )
+$$;
+
+CREATE POLICY "Delegates can view leave requests of their delegator's team"
+  ON public.leave_requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees
+      WHERE manager_id IN (SELECT public.get_delegating_employees(auth.uid()))
+    )
+  );
+
+CREATE POLICY "Delegates can view exceptions of their delegator's team"
+  ON public.attendance_exceptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees
+      WHERE manager_id IN (SELECT public.get_delegating_employees(auth.uid()))
+    )
+  );
+
+-- A step's resolved approver may also be acted for by their active delegate
+CREATE OR REPLACE FUNCTION public.can_act_on_approval_step(p_step_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step RECORD;
+  v_caller_employee_id UUID;
+BEGIN
+  SELECT * INTO v_step FROM request_approval_steps WHERE id = p_step_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF has_role(p_user_id, 'admin'::app_role) THEN
+    RETURN true;
+  END IF;
+
+  v_caller_employee_id := get_employee_id_from_user(p_user_id);
+
+  IF v_step.approver_employee_id IS NOT NULL THEN
+    RETURN v_step.approver_employee_id = v_caller_employee_id
+      OR (
+        get_active_delegate(v_step.approver_employee_id) = v_caller_employee_id
+        AND v_step.employee_id IS DISTINCT FROM v_caller_employee_id
+      );
+  END IF;
+
+  RETURN v_step.approver_role IS NOT NULL
+    AND has_role(p_user_id, v_step.approver_role)
+    AND v_step.employee_id IS DISTINCT FROM v_caller_employee_id;
+END;
+$$;
+
+-- Notifications for a named approver go to their delegate while one is active
+CREATE OR REPLACE FUNCTION public.notify_approval_step(p_step_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step RECORD;
+  v_requester_name TEXT;
+  v_approver_id UUID;
+  v_delegate_id UUID;
+  v_on_behalf_of TEXT;
+  v_user_id UUID;
+BEGIN
+  SELECT * INTO v_step FROM request_approval_steps WHERE id = p_step_id;
+  SELECT full_name INTO v_requester_name FROM employees WHERE id = v_step.employee_id;
+
+  v_approver_id := v_step.approver_employee_id;
+  IF v_approver_id IS NOT NULL THEN
+    v_delegate_id := get_active_delegate(v_approver_id);
+    IF v_delegate_id IS NOT NULL AND v_delegate_id IS DISTINCT FROM v_step.employee_id THEN
+      SELECT full_name INTO v_on_behalf_of FROM employees WHERE id = v_approver_id;
+      v_approver_id := v_delegate_id;
+    END IF;
+  END IF;
+
+  FOR v_user_id IN
+    SELECT user_id FROM employees
+    WHERE id = v_approver_id AND user_id IS NOT NULL
+    UNION
+    SELECT ur.user_id FROM user_roles ur
+    WHERE v_step.approver_employee_id IS NULL
+      AND ur.role = v_step.approver_role
+      AND ur.user_id IS DISTINCT FROM (SELECT user_id FROM employees WHERE id = v_step.employee_id)
+  LOOP
+    PERFORM create_in_app_notification(
+      v_user_id,
+      v_step.employee_id,
+      CASE v_step.request_type WHEN 'leave' THEN 'leave_request' ELSE 'exception_request' END,
+      'Approval Required',
+      format('%s''s %s request is waiting for your approval (%s%s)',
+        v_requester_name,
+        CASE v_step.request_type WHEN 'leave' THEN 'leave' ELSE 'attendance exception' END,
+        v_step.label,
+        CASE WHEN v_on_behalf_of IS NOT NULL THEN format(' on behalf of %s', v_on_behalf_of) ELSE '' END),
+      jsonb_build_object('request_type', v_step.request_type, 'request_id', v_step.request_id, 'step', v_step.step_order),
+      '/',
+      'high'
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_approval_step(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Record who acted and, when acting as a delegate, on whose behalf. Decisions on requests
+-- without a chain are recorded as a single line manager step when made by a delegate.
+CREATE OR REPLACE FUNCTION public.act_on_approval(
+  p_request_type TEXT,
+  p_request_id UUID,
+  p_decision TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee_id UUID;
+  v_manager_id UUID;
+  v_status TEXT;
+  v_step RECORD;
+  v_final TEXT;
+  v_caller_employee_id UUID;
+  v_on_behalf_of UUID;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be approved or rejected';
+  END IF;
+
+  IF p_request_type = 'leave' THEN
+    SELECT employee_id, status INTO v_employee_id, v_status FROM leave_requests WHERE id = p_request_id;
+  ELSIF p_request_type = 'exception' THEN
+    SELECT employee_id, status INTO v_employee_id, v_status FROM attendance_exceptions WHERE id = p_request_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown request type %', p_request_type;
+  END IF;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Request has already been reviewed';
+  END IF;
+
+  v_caller_employee_id := get_employee_id_from_user(auth.uid());
+
+  SELECT * INTO v_step
+  FROM request_approval_steps
+  WHERE request_type = p_request_type
+    AND request_id = p_request_id
+    AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    -- No chain: single-step review by an admin, the requester's line manager or their delegate
+    SELECT manager_id INTO v_manager_id FROM employees WHERE id = v_employee_id;
+
+    IF v_manager_id IS NOT NULL
+      AND v_manager_id IS DISTINCT FROM v_caller_employee_id
+      AND v_employee_id IS DISTINCT FROM v_caller_employee_id
+      AND get_active_delegate(v_manager_id) = v_caller_employee_id THEN
+      v_on_behalf_of := v_manager_id;
+    ELSIF NOT (
+      has_role(auth.uid(), 'admin'::app_role) OR
+      COALESCE(v_manager_id = v_caller_employee_id, false)
+    ) THEN
+      RAISE EXCEPTION 'Not authorized to review this request';
+    END IF;
+
+    IF v_on_behalf_of IS NOT NULL THEN
+      INSERT INTO request_approval_steps (
+        request_type, request_id, employee_id, step_order, label, approver_type,
+        approver_employee_id, status, acted_by, acted_by_employee_id, acted_on_behalf_of,
+        acted_at, comments
+      ) VALUES (
+        p_request_type, p_request_id, v_employee_id, 1, 'Line Manager', 'line_manager',
+        v_manager_id, p_decision, auth.uid(), v_caller_employee_id, v_on_behalf_of,
+        NOW(), p_comments
+      );
+    END IF;
+    v_final := p_decision;
+  ELSE
+    IF NOT can_act_on_approval_step(v_step.id, auth.uid()) THEN
+      RAISE EXCEPTION 'This request is waiting for % approval', v_step.label;
+    END IF;
+
+    IF v_step.approver_employee_id IS NOT NULL
+      AND v_step.approver_employee_id IS DISTINCT FROM v_caller_employee_id
+      AND get_active_delegate(v_step.approver_employee_id) = v_caller_employee_id THEN
+      v_on_behalf_of := v_step.approver_employee_id;
+    END IF;
+
+    UPDATE request_approval_steps
+    SET status = p_decision, acted_by = auth.uid(), acted_by_employee_id = v_caller_employee_id,
+        acted_on_behalf_of = v_on_behalf_of, acted_at = NOW(), comments = p_comments
+    WHERE id = v_step.id;
+
+    IF p_decision = 'rejected' THEN
+      UPDATE request_approval_steps
+      SET status = 'skipped'
+      WHERE request_type = p_request_type AND request_id = p_request_id AND status = 'waiting';
+      v_final := 'rejected';
+    ELSIF advance_request_approval(p_request_type, p_request_id) THEN
+      RETURN 'pending';
+    ELSE
+      v_final := 'approved';
+    END IF;
+  END IF;
+
+  IF p_request_type = 'leave' THEN
+    UPDATE leave_requests
+    SET status = v_final, review_comments = p_comments, reviewed_at = NOW(), reviewed_by = auth.uid()
+    WHERE id = p_request_id;
+  ELSE
+    UPDATE attendance_exceptions
+    SET status = v_final, admin_comments = p_comments, reviewed_at = NOW(), reviewed_by = auth.uid()
+    WHERE id = p_request_id;
+  END IF;
+
+  RETURN v_final;
+END;
+$$;
+
+-- Also covers requests without a chain waiting on the caller as line manager, and
+-- requests waiting on anyone whose approvals the caller is currently exercising
+CREATE OR REPLACE FUNCTION public.get_my_pending_approvals(p_request_type TEXT)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.request_id
+  FROM request_approval_steps s
+  WHERE s.request_type = p_request_type
+    AND s.status = 'pending'
+    AND (
+      s.approver_employee_id = get_employee_id_from_user(auth.uid())
+      OR (
+        s.approver_employee_id IN (SELECT get_delegating_employees(auth.uid()))
+        AND s.employee_id IS DISTINCT FROM get_employee_id_from_user(auth.uid())
+      )
+      OR (
+        s.approver_employee_id IS NULL
+        AND has_role(auth.uid(), s.approver_role)
+        AND s.employee_id IS DISTINCT FROM get_employee_id_from_user(auth.uid())
+      )
+    )
+  UNION
+  SELECT r.id
+  FROM (
+    SELECT id, employee_id, status FROM leave_requests WHERE p_request_type = 'leave'
+    UNION ALL
+    SELECT id, employee_id, status FROM attendance_exceptions WHERE p_request_type = 'exception'
+  ) r
+  JOIN employees e ON e.id = r.employee_id
+  WHERE r.status = 'pending'
+    AND NOT EXISTS (
+      SELECT 1 FROM request_approval_steps s
+      WHERE s.request_type = p_request_type AND s.request_id = r.id
+    )
+    AND r.employee_id IS DISTINCT FROM get_employee_id_from_user(auth.uid())
+    AND (
+      e.manager_id = get_employee_id_from_user(auth.uid())
+      OR e.manager_id IN (SELECT get_delegating_employees(auth.uid()))
+    )
+$$;
@@ -0,0 +1,422 @@
+-- Leave accrual engine: per leave type policies, an append-only ledger of every accrual,
+-- carry-forward, expiry, debit and adjustment, and balances derived from that ledger
+
+-- How each leave type is granted. Leave types without a policy are not tracked on the ledger.
+CREATE TABLE public.leave_accrual_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  leave_type_id UUID NOT NULL UNIQUE REFERENCES public.leave_types(id) ON DELETE CASCADE,
+  -- upfront: the year's entitlement is credited at once; monthly: 1/12 is credited each month
+  accrual_method TEXT NOT NULL DEFAULT 'upfront' CHECK (accrual_method IN ('upfront', 'monthly')),
+  -- NULL = statutory entitlement from calculate_leave_entitlement
+  annual_entitlement NUMERIC(6,2) CHECK (annual_entitlement >= 0),
+  -- When false nothing accrues before the month probation ends
+  accrue_during_probation BOOLEAN NOT NULL DEFAULT true,
+  -- Upfront only: scale the first year's entitlement by the months remaining from hire_date
+  -- (monthly accrual only ever credits months worked)
+  prorate_joiners BOOLEAN NOT NULL DEFAULT true,
+  carry_forward_max_days NUMERIC(6,2) NOT NULL DEFAULT 0 CHECK (carry_forward_max_days >= 0),
+  -- Carried-forward days not used within this many months of the new year expire; NULL = never
+  carry_forward_expiry_months INTEGER CHECK (carry_forward_expiry_months BETWEEN 1 AND 12),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_leave_accrual_policies_updated_at
+  BEFORE UPDATE ON public.leave_accrual_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.leave_accrual_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view leave accrual policies"
+  ON public.leave_accrual_policies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage leave accrual policies"
+  ON public.leave_accrual_policies
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Statutory entitlements already account for service length, so only Study Leave is pro-rated
+INSERT INTO public.leave_accrual_policies (leave_type_id, accrual_method, prorate_joiners, carry_forward_max_days, carry_forward_expiry_months)
+SELECT id,
+  CASE name WHEN 'Annual Leave' THEN 'monthly' ELSE 'upfront' END,
+  name = 'Study Leave',
+  CASE name WHEN 'Annual Leave' THEN 15 ELSE 0 END,
+  CASE name WHEN 'Annual Leave' THEN 3 END
+FROM public.leave_types
+WHERE name IN ('Annual Leave', 'Sick Leave', 'Maternity Leave', 'Parental Leave', 'Study Leave', 'Hajj Leave')
+ON CONFLICT (leave_type_id) DO NOTHING;
+
+-- Monthly accrual produces fractional days
+ALTER TABLE public.employee_leave_balances
+  ALTER COLUMN allocated_days TYPE NUMERIC(6,2),
+  ALTER COLUMN used_days TYPE NUMERIC(6,2);
+
+-- Positive days add to the balance, negative days take from it
+CREATE TABLE public.leave_balance_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  leave_type_id UUID NOT NULL REFERENCES public.leave_types(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('accrual', 'carry_forward', 'expiry', 'debit', 'reversal', 'adjustment')),
+  days NUMERIC(6,2) NOT NULL,
+  effective_date DATE NOT NULL,
+  leave_request_id UUID REFERENCES public.leave_requests(id) ON DELETE SET NULL,
+  -- Identifies the period an engine entry covers (e.g. '2025-03') so reruns do not duplicate it
+  reference TEXT,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_leave_transaction_reference UNIQUE (employee_id, leave_type_id, transaction_type, reference)
+);
+
+CREATE INDEX idx_leave_balance_transactions_balance ON public.leave_balance_transactions(employee_id, leave_type_id, year);
+CREATE INDEX idx_leave_balance_transactions_request ON public.leave_balance_transactions(leave_request_id);
+
+ALTER TABLE public.leave_balance_transactions ENABLE ROW LEVEL SECURITY;
+
+-- The ledger is append-only: corrections are further entries
+CREATE POLICY "Employees can view their own leave transactions"
+  ON public.leave_balance_transactions
+  FOR SELECT
+  USING (
+    employee_id IN (
+      SELECT id FROM public.employees WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all leave transactions"
+  ON public.leave_balance_transactions
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can add leave adjustments"
+  ON public.leave_balance_transactions
+  FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) AND transaction_type = 'adjustment');
+
+-- Recalculate a balance from its ledger entries
+CREATE OR REPLACE FUNCTION public.refresh_leave_balance(p_employee_id UUID, p_leave_type_id UUID, p_year INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO employee_leave_balances (employee_id, leave_type_id, year, allocated_days, used_days, auto_calculated)
+  SELECT
+    p_employee_id,
+    p_leave_type_id,
+    p_year,
+    COALESCE(SUM(days) FILTER (WHERE transaction_type IN ('accrual', 'carry_forward', 'expiry', 'adjustment')), 0),
+    COALESCE(-SUM(days) FILTER (WHERE transaction_type IN ('debit', 'reversal')), 0),
+    true
+  FROM leave_balance_transactions
+  WHERE employee_id = p_employee_id
+    AND leave_type_id = p_leave_type_id
+    AND year = p_year
+  ON CONFLICT (employee_id, leave_type_id, year)
+  DO UPDATE SET
+    allocated_days = EXCLUDED.allocated_days,
+    used_days = EXCLUDED.used_days,
+    auto_calculated = true,
+    updated_at = NOW();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_leave_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_leave_balance(NEW.employee_id, NEW.leave_type_id, NEW.year);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_leave_transaction_trigger
+  AFTER INSERT ON public.leave_balance_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_leave_transaction();
+
+-- Keep the ledger in step with a leave request: approved requests are debited against the
+-- year they start in; any change (cancellation, new dates, new type) reverses the earlier
+-- debit and charges again
+CREATE OR REPLACE FUNCTION public.record_leave_request_debit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_charged RECORD;
+  v_needs_charge BOOLEAN;
+  v_year INTEGER;
+  v_groups INTEGER;
+  v_matches BOOLEAN;
+BEGIN
+  v_year := EXTRACT(YEAR FROM NEW.start_date)::INTEGER;
+  v_needs_charge := NEW.status = 'approved'
+    AND NEW.total_days > 0
+    AND EXISTS (SELECT 1 FROM leave_accrual_policies WHERE leave_type_id = NEW.leave_type_id AND is_active);
+
+  SELECT COUNT(*), BOOL_AND(leave_type_id = NEW.leave_type_id AND year = v_year AND days = -NEW.total_days)
+  INTO v_groups, v_matches
+  FROM (
+    SELECT leave_type_id, year, SUM(days) AS days
+    FROM leave_balance_transactions
+    WHERE leave_request_id = NEW.id
+    GROUP BY leave_type_id, year
+    HAVING SUM(days) <> 0
+  ) charged;
+
+  -- Nothing to do when the ledger already matches the request
+  IF (v_needs_charge AND v_groups = 1 AND v_matches) OR (NOT v_needs_charge AND v_groups = 0) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_charged IN
+    SELECT leave_type_id, year, SUM(days) AS days
+    FROM leave_balance_transactions
+    WHERE leave_request_id = NEW.id
+    GROUP BY leave_type_id, year
+    HAVING SUM(days) <> 0
+  LOOP
+    INSERT INTO leave_balance_transactions (
+      employee_id, leave_type_id, year, transaction_type, days, effective_date, leave_request_id, notes
+    ) VALUES (
+      NEW.employee_id, v_charged.leave_type_id, v_charged.year, 'reversal', -v_charged.days,
+      (NOW() AT TIME ZONE 'Asia/Dubai')::date, NEW.id,
+      CASE WHEN NEW.status = 'approved' THEN 'Leave request changed' ELSE format('Leave request %s', NEW.status) END
+    );
+  END LOOP;
+
+  IF v_needs_charge THEN
+    INSERT INTO leave_balance_transactions (
+      employee_id, leave_type_id, year, transaction_type, days, effective_date, leave_request_id, notes
+    ) VALUES (
+      NEW.employee_id, NEW.leave_type_id, v_year, 'debit', -NEW.total_days,
+      NEW.start_date, NEW.id,
+      format('Leave %s to %s', to_char(NEW.start_date, 'DD Mon YYYY'), to_char(NEW.end_date, 'DD Mon YYYY'))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Run the accrual engine up to a date: carry forward last year's unused days, expire
+-- carried days past their deadline and credit the entitlement due so far. Safe to rerun;
+-- each period is only ever posted once. Returns the number of entries posted.
+CREATE OR REPLACE FUNCTION public.run_leave_accrual(p_as_of DATE DEFAULT NULL, p_employee_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_as_of DATE;
+  v_year INTEGER;
+  v_employee RECORD;
+  v_policy RECORD;
+  v_entitlement NUMERIC;
+  v_start DATE;
+  v_month DATE;
+  v_month_number INTEGER;
+  v_remaining NUMERIC;
+  v_carried NUMERIC;
+  v_used NUMERIC;
+  v_expiry_date DATE;
+  v_rows INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  -- Scheduled runs have no signed-in user
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run leave accrual';
+  END IF;
+
+  v_as_of := COALESCE(p_as_of, (NOW() AT TIME ZONE 'Asia/Dubai')::date);
+  v_year := EXTRACT(YEAR FROM v_as_of)::INTEGER;
+
+  FOR v_employee IN
+    SELECT id, hire_date, probation_end_date
+    FROM employees
+    WHERE status = 'active'
+      AND hire_date IS NOT NULL
+      AND hire_date <= v_as_of
+      AND (p_employee_id IS NULL OR id = p_employee_id)
+  LOOP
+    FOR v_policy IN
+      SELECT p.*, lt.name AS leave_type_name
+      FROM leave_accrual_policies p
+      JOIN leave_types lt ON lt.id = p.leave_type_id
+      WHERE p.is_active AND lt.is_active
+    LOOP
+      -- Carry forward last year's unused days, up to the cap
+      IF v_policy.carry_forward_max_days > 0 THEN
+        SELECT COALESCE(SUM(days), 0) INTO v_remaining
+        FROM leave_balance_transactions
+        WHERE employee_id = v_employee.id
+          AND leave_type_id = v_policy.leave_type_id
+          AND year = v_year - 1;
+
+        v_carried := LEAST(GREATEST(v_remaining, 0), v_policy.carry_forward_max_days);
+        IF v_carried > 0 THEN
+          INSERT INTO leave_balance_transactions (
+            employee_id, leave_type_id, year, transaction_type, days, effective_date, reference, notes
+          ) VALUES (
+            v_employee.id, v_policy.leave_type_id, v_year, 'carry_forward', v_carried,
+            make_date(v_year, 1, 1), v_year::text,
+            format('Carried forward from %s (%s unused, max %s)', v_year - 1, v_remaining, v_policy.carry_forward_max_days)
+          )
+          ON CONFLICT ON CONSTRAINT unique_leave_transaction_reference DO NOTHING;
+          GET DIAGNOSTICS v_rows = ROW_COUNT;
+          v_count := v_count + v_rows;
+        END IF;
+      END IF;
+
+      -- Expire carried days not used by the deadline; carried days are used first
+      IF v_policy.carry_forward_expiry_months IS NOT NULL THEN
+        v_expiry_date := (make_date(v_year, 1, 1) + make_interval(months => v_policy.carry_forward_expiry_months))::date;
+
+        IF v_as_of >= v_expiry_date THEN
+          SELECT
+            COALESCE(SUM(days) FILTER (WHERE transaction_type = 'carry_forward'), 0),
+            COALESCE(-SUM(days) FILTER (WHERE transaction_type IN ('debit', 'reversal') AND effective_date < v_expiry_date), 0)
+          INTO v_carried, v_used
+          FROM leave_balance_transactions
+          WHERE employee_id = v_employee.id
+            AND leave_type_id = v_policy.leave_type_id
+            AND year = v_year;
+
+          IF v_carried - v_used > 0 THEN
+            INSERT INTO leave_balance_transactions (
+              employee_id, leave_type_id, year, transaction_type, days, effective_date, reference, notes
+            ) VALUES (
+              v_employee.id, v_policy.leave_type_id, v_year, 'expiry', -(v_carried - v_used),
+              v_expiry_date, v_year::text,
+              format('Unused carried-forward days expired on %s', to_char(v_expiry_date, 'DD Mon YYYY'))
+            )
+            ON CONFLICT ON CONSTRAINT unique_leave_transaction_reference DO NOTHING;
+            GET DIAGNOSTICS v_rows = ROW_COUNT;
+            v_count := v_count + v_rows;
+          END IF;
+        END IF;
+      END IF;
+
+      v_entitlement := COALESCE(
+        v_policy.annual_entitlement,
+        calculate_leave_entitlement(v_employee.id, v_policy.leave_type_name, v_year)
+      );
+      CONTINUE WHEN v_entitlement <= 0;
+
+      -- First month that accrues: January, the hire month or the month probation ends
+      v_start := GREATEST(make_date(v_year, 1, 1), date_trunc('month', v_employee.hire_date)::date);
+      IF NOT v_policy.accrue_during_probation AND v_employee.probation_end_date IS NOT NULL THEN
+        v_start := GREATEST(v_start, date_trunc('month', v_employee.probation_end_date)::date);
+      END IF;
+      CONTINUE WHEN v_start > v_as_of;
+
+      IF v_policy.accrual_method = 'upfront' THEN
+        INSERT INTO leave_balance_transactions (
+          employee_id, leave_type_id, year, transaction_type, days, effective_date, reference, notes
+        ) VALUES (
+          v_employee.id, v_policy.leave_type_id, v_year, 'accrual',
+          CASE WHEN v_policy.prorate_joiners
+            THEN ROUND(v_entitlement * (13 - EXTRACT(MONTH FROM v_start)) / 12, 2)
+            ELSE v_entitlement
+          END,
+          v_start, v_year::text,
+          CASE WHEN v_policy.prorate_joiners AND EXTRACT(MONTH FROM v_start) > 1
+            THEN format('%s entitlement (pro-rated from %s)', v_year, to_char(v_start, 'Mon'))
+            ELSE format('%s entitlement', v_year)
+          END
+        )
+        ON CONFLICT ON CONSTRAINT unique_leave_transaction_reference DO NOTHING;
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_count := v_count + v_rows;
+      ELSE
+        v_month := v_start;
+        WHILE v_month <= v_as_of LOOP
+          -- Cumulative rounding so the months of a full year add up to the entitlement exactly
+          v_month_number := EXTRACT(MONTH FROM v_month)::INTEGER;
+          INSERT INTO leave_balance_transactions (
+            employee_id, leave_type_id, year, transaction_type, days, effective_date, reference, notes
+          ) VALUES (
+            v_employee.id, v_policy.leave_type_id, v_year, 'accrual',
+            ROUND(v_entitlement * v_month_number / 12, 2) - ROUND(v_entitlement * (v_month_number - 1) / 12, 2),
+            v_month, to_char(v_month, 'YYYY-MM'),
+            format('Monthly accrual for %s', to_char(v_month, 'Mon YYYY'))
+          )
+          ON CONFLICT ON CONSTRAINT unique_leave_transaction_reference DO NOTHING;
+          GET DIAGNOSTICS v_rows = ROW_COUNT;
+          v_count := v_count + v_rows;
+
+          v_month := (v_month + INTERVAL '1 month')::date;
+        END LOOP;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.run_leave_accrual(DATE, UUID) TO authenticated;
+
+-- The yearly allocation now runs the engine: to the end of a past year, to today for the
+-- current year and to 1 January for a future year
+CREATE OR REPLACE FUNCTION public.auto_allocate_leave_balances(p_year integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM run_leave_accrual(
+    LEAST(make_date(p_year, 12, 31), GREATEST((NOW() AT TIME ZONE 'Asia/Dubai')::date, make_date(p_year, 1, 1)))
+  );
+END;
+$$;
+
+-- Open the ledger with the balances allocated so far and the leave already approved.
+-- This year's automatic allocations are left out: the engine run below re-accrues them.
+INSERT INTO public.leave_balance_transactions (
+  employee_id, leave_type_id, year, transaction_type, days, effective_date, reference, notes
+)
+SELECT employee_id, leave_type_id, year, 'adjustment', allocated_days, make_date(year, 1, 1), 'opening',
+  'Opening balance'
+FROM public.employee_leave_balances
+WHERE allocated_days <> 0
+  AND (year < EXTRACT(YEAR FROM (NOW() AT TIME ZONE 'Asia/Dubai'))::INTEGER OR NOT COALESCE(auto_calculated, false));
+
+INSERT INTO public.leave_balance_transactions (
+  employee_id, leave_type_id, year, transaction_type, days, effective_date, leave_request_id, notes
+)
+SELECT lr.employee_id, lr.leave_type_id, EXTRACT(YEAR FROM lr.start_date)::INTEGER, 'debit', -lr.total_days,
+  lr.start_date, lr.id,
+  format('Leave %s to %s', to_char(lr.start_date, 'DD Mon YYYY'), to_char(lr.end_date, 'DD Mon YYYY'))
+FROM public.leave_requests lr
+JOIN public.leave_accrual_policies p ON p.leave_type_id = lr.leave_type_id
+WHERE lr.status = 'approved' AND lr.total_days > 0;
+
+CREATE TRIGGER record_leave_request_debit_trigger
+  AFTER INSERT OR UPDATE OF status, total_days, start_date, end_date, leave_type_id ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_leave_request_debit();
+
+SELECT public.run_leave_accrual();
+
+-- Accrue daily (01:00 GST); entries for periods already posted are skipped
+SELECT cron.schedule(
+  'leave-accrual-job',
+  '0 21 * * *',
+  $$SELECT public.run_leave_accrual()$$
+);
@@ -0,0 +1,459 @@
+-- Half-day and hourly leave: a request can cover a whole range of days, the morning or
+-- afternoon of one day, or a number of hours on one day. Partial requests are charged as a
+-- fraction of a day, so day counts and balances become NUMERIC.
+
+-- The debit trigger lists total_days in its UPDATE OF columns, which blocks the type change
+DROP TRIGGER record_leave_request_debit_trigger ON public.leave_requests;
+
+ALTER TABLE public.leave_requests
+  ALTER COLUMN total_days TYPE NUMERIC(6,2),
+  ADD COLUMN duration_type TEXT NOT NULL DEFAULT 'full_day'
+    CHECK (duration_type IN ('full_day', 'half_day_am', 'half_day_pm', 'hours')),
+  -- Hours taken; only set for duration_type 'hours'
+  ADD COLUMN duration_hours NUMERIC(4,2) CHECK (duration_hours > 0),
+  ADD CONSTRAINT leave_requests_partial_single_day_check
+    CHECK (duration_type = 'full_day' OR start_date = end_date),
+  ADD CONSTRAINT leave_requests_duration_hours_check
+    CHECK ((duration_type = 'hours') = (duration_hours IS NOT NULL));
+
+CREATE TRIGGER record_leave_request_debit_trigger
+  AFTER INSERT OR UPDATE OF status, total_days, start_date, end_date, leave_type_id ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_leave_request_debit();
+
+-- Fraction of a day charged for a partial-day request. A half day is 0.5; hours are divided
+-- by the day's minimum hours (rostered shift or work schedule, 8 when neither is set).
+-- Nothing is charged on a rest day or a public holiday that applies to the employee.
+CREATE OR REPLACE FUNCTION public.calculate_partial_leave_days(
+  p_employee_id UUID,
+  p_date DATE,
+  p_duration_type TEXT,
+  p_duration_hours NUMERIC DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift RECORD;
+  v_minimum NUMERIC := 8;
+BEGIN
+  SELECT * INTO v_shift FROM get_employee_shift(p_employee_id, p_date);
+  IF FOUND THEN
+    IF NOT v_shift.is_working THEN
+      RETURN 0;
+    END IF;
+    v_minimum := COALESCE(v_shift.minimum_hours, 8);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM get_public_holidays(p_date, p_date, (SELECT division FROM employees WHERE id = p_employee_id))
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  CASE p_duration_type
+    WHEN 'half_day_am', 'half_day_pm' THEN
+      RETURN 0.5;
+    WHEN 'hours' THEN
+      IF p_duration_hours IS NULL OR p_duration_hours <= 0 THEN
+        RAISE EXCEPTION 'Number of hours is required for hourly leave';
+      END IF;
+      IF p_duration_hours >= v_minimum THEN
+        RAISE EXCEPTION 'Hourly leave must be shorter than the % hour working day; request a full day instead', v_minimum;
+      END IF;
+      RETURN ROUND(p_duration_hours / v_minimum, 2);
+    ELSE
+      RAISE EXCEPTION 'Unknown partial leave duration: %', p_duration_type;
+  END CASE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_partial_leave_days(UUID, DATE, TEXT, NUMERIC) TO authenticated;
+
+-- Working hours covered by approved partial-day leave on a date; they count towards the
+-- day's minimum hours. A half day covers half of the day's minimum hours.
+CREATE OR REPLACE FUNCTION public.get_partial_leave_hours(p_employee_id UUID, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(
+    CASE lr.duration_type
+      WHEN 'hours' THEN lr.duration_hours
+      ELSE COALESCE((SELECT s.minimum_hours FROM get_employee_shift(p_employee_id, p_date) s), 8) / 2
+    END
+  ), 0)
+  FROM leave_requests lr
+  WHERE lr.employee_id = p_employee_id
+    AND lr.status = 'approved'
+    AND lr.duration_type <> 'full_day'
+    AND lr.start_date = p_date
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_partial_leave_hours(UUID, DATE) TO authenticated;
+
+-- Sick days used so far in the year can now be fractional
+CREATE OR REPLACE FUNCTION public.validate_leave_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_leave_type_name text;
+  v_probation_completed boolean;
+  v_hire_date date;
+  v_service_months integer;
+  v_sick_days_used numeric;
+BEGIN
+  -- Get leave type name
+  SELECT name INTO v_leave_type_name
+  FROM leave_types
+  WHERE id = NEW.leave_type_id;
+
+  -- Get employee details
+  SELECT is_probation_completed(id), hire_date
+  INTO v_probation_completed, v_hire_date
+  FROM employees
+  WHERE id = NEW.employee_id;
+
+  -- Calculate service months
+  v_service_months := EXTRACT(YEAR FROM AGE(CURRENT_DATE, v_hire_date)) * 12 
+                    + EXTRACT(MONTH FROM AGE(CURRENT_DATE, v_hire_date));
+
+  -- Validation rules
+  CASE v_leave_type_name
+    WHEN 'Sick Leave' THEN
+      -- Must complete probation
+      IF NOT v_probation_completed THEN
+        RAISE EXCEPTION 'Sick leave is only available after completing probation period';
+      END IF;
+
+      -- Require medical certificate for >3 days
+      IF NEW.total_days > 3 AND NEW.medical_certificate_url IS NULL THEN
+        RAISE EXCEPTION 'Medical certificate is required for sick leave exceeding 3 days';
+      END IF;
+
+      -- Calculate payment type based on cumulative sick days used this year
+      SELECT COALESCE(SUM(total_days), 0)
+      INTO v_sick_days_used
+      FROM leave_requests
+      WHERE employee_id = NEW.employee_id
+        AND leave_type_id = NEW.leave_type_id
+        AND status = 'approved'
+        AND EXTRACT(YEAR FROM start_date) = EXTRACT(YEAR FROM NEW.start_date)
+        AND id != NEW.id;
+
+      -- Auto-set payment type
+      IF v_sick_days_used + NEW.total_days <= 15 THEN
+        NEW.payment_type := 'full_pay';
+      ELSIF v_sick_days_used + NEW.total_days <= 45 THEN
+        NEW.payment_type := 'half_pay';
+      ELSE
+        NEW.payment_type := 'unpaid';
+      END IF;
+
+    WHEN 'Hajj Leave' THEN
+      -- Must have 2 years service
+      IF v_service_months < 24 THEN
+        RAISE EXCEPTION 'Hajj leave requires minimum 2 years of service';
+      END IF;
+
+      -- Can only be taken once
+      IF EXISTS (
+        SELECT 1 FROM leave_requests
+        WHERE employee_id = NEW.employee_id
+          AND leave_type_id = NEW.leave_type_id
+          AND status = 'approved'
+      ) THEN
+        RAISE EXCEPTION 'Hajj leave can only be taken once per employment';
+      END IF;
+
+      NEW.payment_type := 'unpaid';
+
+    WHEN 'Maternity Leave' THEN
+      -- Auto-set payment type based on days
+      IF NEW.total_days <= 45 THEN
+        NEW.payment_type := 'full_pay';
+      ELSIF NEW.total_days <= 60 THEN
+        NEW.payment_type := 'half_pay';
+      ELSE
+        NEW.payment_type := 'unpaid';
+      END IF;
+
+    WHEN 'Parental Leave' THEN
+      NEW.payment_type := 'full_pay';
+
+    WHEN 'Study Leave' THEN
+      -- Typically paid, but can be configured
+      IF NEW.payment_type IS NULL THEN
+        NEW.payment_type := 'full_pay';
+      END IF;
+
+    WHEN 'Compassionate Leave' THEN
+      NEW.payment_type := 'full_pay';
+      
+      -- Validate relationship is provided
+      IF NEW.relationship IS NULL OR NEW.relationship = '' THEN
+        RAISE EXCEPTION 'Relationship must be specified for compassionate leave';
+      END IF;
+
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Payroll: unpaid and half-pay partial leave is deducted as its fraction of a day, and a day
+-- with partial leave is still assessed for short hours, less the hours the leave covers
+CREATE OR REPLACE FUNCTION public.calculate_payroll_breakdown(
+  p_employee_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee RECORD;
+  v_deduction JSONB;
+  v_daily_deduction NUMERIC := 0;
+  v_salary NUMERIC;
+  v_fixed_salary NUMERIC;
+  v_daily_rate NUMERIC;
+  v_period_days INTEGER;
+  v_employed_days INTEGER;
+  v_leave RECORD;
+  v_leave_days NUMERIC;
+  v_unpaid_days NUMERIC := 0;
+  v_half_pay_days NUMERIC := 0;
+  v_day DATE;
+  v_last_day DATE;
+  v_shift RECORD;
+  v_attendance RECORD;
+  v_minimum NUMERIC;
+  v_excused NUMERIC;
+  v_short NUMERIC;
+  v_partial_hours NUMERIC;
+  v_absent_days INTEGER := 0;
+  v_short_hours NUMERIC := 0;
+  v_short_amount NUMERIC := 0;
+BEGIN
+  SELECT salary, division, hire_date INTO v_employee FROM employees WHERE id = p_employee_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  SELECT setting_value INTO v_deduction FROM system_settings WHERE setting_key = 'daily_hours_deduction';
+  IF COALESCE((v_deduction->>'enabled')::boolean, false) THEN
+    v_daily_deduction := COALESCE((v_deduction->>'hours')::numeric, 0) + COALESCE((v_deduction->>'minutes')::numeric, 0) / 60;
+  END IF;
+
+  v_salary := COALESCE(v_employee.salary, 0);
+  v_daily_rate := v_salary / 30;
+
+  v_period_days := p_end_date - p_start_date + 1;
+  v_employed_days := p_end_date - GREATEST(p_start_date, v_employee.hire_date) + 1;
+  v_fixed_salary := CASE
+    WHEN v_employed_days >= v_period_days THEN v_salary
+    WHEN v_employed_days <= 0 THEN 0
+    ELSE v_salary * v_employed_days / v_period_days
+  END;
+
+  FOR v_leave IN
+    SELECT start_date, end_date, payment_type, duration_type, total_days
+    FROM leave_requests
+    WHERE employee_id = p_employee_id
+      AND status = 'approved'
+      AND payment_type IN ('unpaid', 'half_pay')
+      AND start_date <= p_end_date
+      AND end_date >= p_start_date
+  LOOP
+    -- Partial-day leave is a single day already charged as a fraction
+    v_leave_days := CASE
+      WHEN v_leave.duration_type = 'full_day' THEN calculate_leave_days(
+        p_employee_id,
+        GREATEST(v_leave.start_date, p_start_date),
+        LEAST(v_leave.end_date, p_end_date)
+      )
+      ELSE v_leave.total_days
+    END;
+    IF v_leave.payment_type = 'unpaid' THEN
+      v_unpaid_days := v_unpaid_days + v_leave_days;
+    ELSE
+      v_half_pay_days := v_half_pay_days + v_leave_days;
+    END IF;
+  END LOOP;
+
+  v_last_day := LEAST(p_end_date, (NOW() AT TIME ZONE 'Asia/Dubai')::date - 1);
+
+  FOR v_day IN
+    SELECT d::date FROM generate_series(GREATEST(p_start_date, v_employee.hire_date), v_last_day, INTERVAL '1 day') d
+  LOOP
+    SELECT * INTO v_shift FROM get_employee_shift(p_employee_id, v_day);
+    CONTINUE WHEN NOT FOUND OR NOT v_shift.is_working;
+
+    CONTINUE WHEN EXISTS (SELECT 1 FROM get_public_holidays(v_day, v_day, v_employee.division));
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM leave_requests
+      WHERE employee_id = p_employee_id
+        AND status = 'approved'
+        AND duration_type = 'full_day'
+        AND v_day BETWEEN start_date AND end_date
+    );
+
+    SELECT clock_in_time, total_hours INTO v_attendance
+    FROM attendance
+    WHERE employee_id = p_employee_id AND date = v_day;
+
+    IF NOT FOUND OR v_attendance.clock_in_time IS NULL THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM attendance_exceptions
+        WHERE employee_id = p_employee_id
+          AND status = 'approved'
+          AND target_date = v_day
+          AND exception_type = 'wfh'
+      ) THEN
+        v_absent_days := v_absent_days + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    -- Open days are not assessed; late arrival / early departure exceptions excuse the whole day
+    CONTINUE WHEN v_attendance.total_hours IS NULL;
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM attendance_exceptions
+      WHERE employee_id = p_employee_id
+        AND status = 'approved'
+        AND target_date = v_day
+        AND exception_type IN ('late_arrival', 'early_departure')
+    );
+
+    SELECT COALESCE(SUM(duration_hours), 0) INTO v_excused
+    FROM attendance_exceptions
+    WHERE employee_id = p_employee_id
+      AND status = 'approved'
+      AND target_date = v_day
+      AND exception_type IN ('short_permission_personal', 'short_permission_official');
+
+    v_partial_hours := get_partial_leave_hours(p_employee_id, v_day);
+
+    v_minimum := COALESCE(v_shift.minimum_hours, 8);
+    v_short := GREATEST(v_minimum - v_partial_hours - GREATEST(v_attendance.total_hours - v_daily_deduction, 0) - v_excused, 0);
+
+    IF v_short > 0 THEN
+      v_short_hours := v_short_hours + v_short;
+      v_short_amount := v_short_amount + v_short * v_daily_rate / v_minimum;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'salary', ROUND(v_salary, 2),
+    'fixed_salary', ROUND(v_fixed_salary, 2),
+    'daily_rate', ROUND(v_daily_rate, 2),
+    'employed_days', GREATEST(LEAST(v_employed_days, v_period_days), 0),
+    'period_days', v_period_days,
+    'unpaid_leave_days', v_unpaid_days,
+    'half_pay_leave_days', v_half_pay_days,
+    'absent_days', v_absent_days,
+    'short_hours', ROUND(v_short_hours, 2),
+    'deductions_unpaid_leave', ROUND((v_unpaid_days + v_half_pay_days / 2) * v_daily_rate, 2),
+    'deductions_attendance', ROUND(v_absent_days * v_daily_rate + v_short_amount, 2),
+    'assessed_until', v_last_day
+  );
+END;
+$$;
+
+-- Gratuity: unpaid partial leave reduces service by its fraction of a day
+CREATE OR REPLACE FUNCTION public.calculate_gratuity(
+  p_employee_id UUID,
+  p_as_of DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee RECORD;
+  v_as_of DATE;
+  v_leave RECORD;
+  v_unpaid_days NUMERIC := 0;
+  v_total_days INTEGER;
+  v_service_days NUMERIC;
+  v_service_years NUMERIC;
+  v_salary NUMERIC;
+  v_daily_wage NUMERIC;
+  v_gratuity_days NUMERIC := 0;
+  v_amount NUMERIC := 0;
+  v_cap NUMERIC;
+BEGIN
+  SELECT user_id, salary, hire_date INTO v_employee FROM employees WHERE id = p_employee_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR v_employee.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to view gratuity for this employee';
+  END IF;
+
+  v_as_of := COALESCE(p_as_of, (NOW() AT TIME ZONE 'Asia/Dubai')::date);
+  v_total_days := GREATEST(v_as_of - v_employee.hire_date + 1, 0);
+
+  FOR v_leave IN
+    SELECT start_date, end_date, duration_type, total_days
+    FROM leave_requests
+    WHERE employee_id = p_employee_id
+      AND status = 'approved'
+      AND payment_type = 'unpaid'
+      AND start_date <= v_as_of
+      AND end_date >= v_employee.hire_date
+  LOOP
+    v_unpaid_days := v_unpaid_days + CASE
+      WHEN v_leave.duration_type = 'full_day' THEN calculate_leave_days(
+        p_employee_id,
+        GREATEST(v_leave.start_date, v_employee.hire_date),
+        LEAST(v_leave.end_date, v_as_of)
+      )
+      ELSE v_leave.total_days
+    END;
+  END LOOP;
+
+  v_service_days := GREATEST(v_total_days - v_unpaid_days, 0);
+  v_service_years := v_service_days / 365.0;
+
+  v_salary := COALESCE(v_employee.salary, 0);
+  v_daily_wage := v_salary / 30;
+  v_cap := v_salary * 24;
+
+  IF v_service_years >= 1 THEN
+    v_gratuity_days := LEAST(v_service_years, 5) * 21 + GREATEST(v_service_years - 5, 0) * 30;
+    v_amount := LEAST(v_gratuity_days * v_daily_wage, v_cap);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'basic_salary', ROUND(v_salary, 2),
+    'daily_wage', ROUND(v_daily_wage, 2),
+    'hire_date', v_employee.hire_date,
+    'as_of', v_as_of,
+    'total_days', v_total_days,
+    'unpaid_leave_days', v_unpaid_days,
+    'service_days', v_service_days,
+    'service_years', ROUND(v_service_years, 2),
+    'eligible', v_service_years >= 1,
+    'gratuity_days', ROUND(v_gratuity_days, 2),
+    'gratuity_amount', ROUND(v_amount, 2),
+    'capped', v_service_years >= 1 AND v_gratuity_days * v_daily_wage > v_cap
+  );
+END;
+$$;
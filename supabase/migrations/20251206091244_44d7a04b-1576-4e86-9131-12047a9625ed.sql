@@ -0,0 +1,245 @@
+-- Team leave calendar and minimum staffing: who in a department or division is off, and a
+-- per-department floor on how many people must remain available on a working day
+
+CREATE TABLE public.staffing_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  department TEXT NOT NULL,
+  -- NULL = the department in every division
+  division TEXT,
+  minimum_present INTEGER NOT NULL CHECK (minimum_present >= 0),
+  -- When false the approver is only warned; when true the request cannot be submitted
+  block_submission BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX unique_staffing_rule_scope
+  ON public.staffing_rules (department, COALESCE(division, ''));
+
+ALTER TABLE public.staffing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view staffing rules"
+  ON public.staffing_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage staffing rules"
+  ON public.staffing_rules
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_staffing_rules_updated_at
+  BEFORE UPDATE ON public.staffing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Approved and pending leave plus WFH days for a department and/or division.
+-- Admins and managers can look at any team; staff only see their own department, and the
+-- leave type is hidden from them.
+CREATE OR REPLACE FUNCTION public.get_team_leave_calendar(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_department TEXT DEFAULT NULL,
+  p_division TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  employee_id UUID,
+  full_name TEXT,
+  department TEXT,
+  division TEXT,
+  entry_type TEXT,
+  status TEXT,
+  leave_type TEXT,
+  start_date DATE,
+  end_date DATE,
+  duration_type TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_can_see_all BOOLEAN;
+  v_department TEXT := p_department;
+BEGIN
+  v_can_see_all := has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role);
+
+  IF NOT v_can_see_all THEN
+    SELECT e.department INTO v_department
+    FROM employees e
+    WHERE e.id = get_employee_id_from_user(auth.uid());
+
+    IF v_department IS NULL THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id, e.full_name, e.department, e.division, 'leave'::TEXT, lr.status,
+    CASE WHEN v_can_see_all THEN lt.name ELSE NULL END,
+    lr.start_date, lr.end_date, lr.duration_type
+  FROM leave_requests lr
+  JOIN employees e ON e.id = lr.employee_id
+  LEFT JOIN leave_types lt ON lt.id = lr.leave_type_id
+  WHERE e.status = 'active'
+    AND lr.status IN ('approved', 'pending')
+    AND lr.start_date <= p_end_date
+    AND lr.end_date >= p_start_date
+    AND (v_department IS NULL OR e.department = v_department)
+    AND (p_division IS NULL OR e.division = p_division)
+  UNION ALL
+  SELECT e.id, e.full_name, e.department, e.division, 'wfh'::TEXT, ae.status,
+    NULL::TEXT, ae.target_date, ae.target_date, 'full_day'::TEXT
+  FROM attendance_exceptions ae
+  JOIN employees e ON e.id = ae.employee_id
+  WHERE e.status = 'active'
+    AND ae.exception_type = 'wfh'
+    AND ae.status IN ('approved', 'pending')
+    AND ae.target_date BETWEEN p_start_date AND p_end_date
+    AND (v_department IS NULL OR e.department = v_department)
+    AND (p_division IS NULL OR e.division = p_division);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_leave_calendar(DATE, DATE, TEXT, TEXT) TO authenticated;
+
+-- Staffing on each working day of a proposed leave, assuming it is granted. Only days covered
+-- by an active staffing rule for the employee's department are returned; a rule for their
+-- division takes precedence over a department-wide one. Full-day approved and pending leave
+-- of colleagues counts as absence; partial-day leave and WFH do not.
+-- p_exclude_request_id is the request being assessed, so an existing request is not counted
+-- against itself.
+CREATE OR REPLACE FUNCTION public.get_leave_coverage(
+  p_employee_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_exclude_request_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  coverage_date DATE,
+  department TEXT,
+  team_size INTEGER,
+  on_leave INTEGER,
+  available INTEGER,
+  minimum_present INTEGER,
+  block_submission BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee RECORD;
+  v_rule RECORD;
+  v_day DATE;
+  v_shift RECORD;
+  v_team_size INTEGER;
+  v_on_leave INTEGER;
+BEGIN
+  SELECT e.id, e.user_id, e.department, e.division INTO v_employee FROM employees e WHERE e.id = p_employee_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT (
+    v_employee.user_id = auth.uid()
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role)
+    OR (p_exclude_request_id IS NOT NULL AND is_request_approver('leave', p_exclude_request_id, auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view staffing for this employee';
+  END IF;
+
+  SELECT * INTO v_rule
+  FROM staffing_rules sr
+  WHERE sr.is_active
+    AND sr.department = v_employee.department
+    AND (sr.division IS NULL OR sr.division = v_employee.division)
+  ORDER BY sr.division NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*)::int INTO v_team_size
+  FROM employees e
+  WHERE e.status = 'active'
+    AND e.department = v_rule.department
+    AND (v_rule.division IS NULL OR e.division = v_rule.division);
+
+  FOR v_day IN SELECT d::date FROM generate_series(p_start_date, p_end_date, INTERVAL '1 day') d
+  LOOP
+    SELECT * INTO v_shift FROM get_employee_shift(p_employee_id, v_day);
+    CONTINUE WHEN FOUND AND NOT v_shift.is_working;
+    CONTINUE WHEN EXISTS (SELECT 1 FROM get_public_holidays(v_day, v_day, v_employee.division));
+
+    SELECT COUNT(DISTINCT lr.employee_id)::int INTO v_on_leave
+    FROM leave_requests lr
+    JOIN employees e ON e.id = lr.employee_id
+    WHERE e.status = 'active'
+      AND e.department = v_rule.department
+      AND (v_rule.division IS NULL OR e.division = v_rule.division)
+      AND lr.employee_id <> p_employee_id
+      AND lr.id IS DISTINCT FROM p_exclude_request_id
+      AND lr.status IN ('approved', 'pending')
+      AND lr.duration_type = 'full_day'
+      AND v_day BETWEEN lr.start_date AND lr.end_date;
+
+    coverage_date := v_day;
+    department := v_rule.department;
+    team_size := v_team_size;
+    on_leave := v_on_leave + 1;
+    available := GREATEST(v_team_size - v_on_leave - 1, 0);
+    minimum_present := v_rule.minimum_present;
+    block_submission := v_rule.block_submission;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_leave_coverage(UUID, DATE, DATE, UUID) TO authenticated;
+
+-- Blocking rules stop a full-day request from being submitted (or moved to other dates)
+-- when it would take the team below its minimum
+CREATE OR REPLACE FUNCTION public.enforce_leave_staffing_minimum()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shortfall RECORD;
+BEGIN
+  IF NEW.status <> 'pending' OR NEW.duration_type <> 'full_day' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_shortfall
+  FROM get_leave_coverage(NEW.employee_id, NEW.start_date, NEW.end_date, NEW.id) c
+  WHERE c.block_submission AND c.available < c.minimum_present
+  ORDER BY c.coverage_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Leave on % would leave % with % of the % staff required',
+      to_char(v_shortfall.coverage_date, 'DD Mon YYYY'),
+      v_shortfall.department,
+      v_shortfall.available,
+      v_shortfall.minimum_present;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_leave_staffing_minimum_trigger
+  BEFORE INSERT OR UPDATE OF start_date, end_date, duration_type ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_leave_staffing_minimum();
@@ -0,0 +1,404 @@
+-- Leave cancellation and amendment: staff ask to cancel an approved leave, shorten it after
+-- returning early or extend it. The line manager (or their delegate), the request's chain
+-- approvers or an admin decide; an approved change is applied to the leave request and the
+-- debit trigger restores or consumes the balance difference. Every change is kept with the
+-- dates it replaced.
+
+ALTER TABLE public.leave_requests DROP CONSTRAINT IF EXISTS leave_requests_status_check;
+ALTER TABLE public.leave_requests
+  ADD CONSTRAINT leave_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled'));
+
+CREATE TABLE public.leave_request_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  leave_request_id UUID NOT NULL REFERENCES public.leave_requests(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  change_type TEXT NOT NULL CHECK (change_type IN ('cancel', 'amend')),
+  -- The request as it stood when the change was asked for
+  original_start_date DATE NOT NULL,
+  original_end_date DATE NOT NULL,
+  original_total_days NUMERIC(6,2) NOT NULL,
+  -- Amendments only
+  new_start_date DATE,
+  new_end_date DATE,
+  new_total_days NUMERIC(6,2),
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  requested_by UUID,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comments TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT leave_request_changes_amend_check CHECK (
+    change_type = 'cancel'
+    OR (new_start_date IS NOT NULL AND new_end_date IS NOT NULL AND new_end_date >= new_start_date AND new_total_days > 0)
+  )
+);
+
+-- One open change per leave request
+CREATE UNIQUE INDEX unique_pending_leave_request_change
+  ON public.leave_request_changes (leave_request_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_leave_request_changes_employee_id ON public.leave_request_changes(employee_id);
+
+CREATE TRIGGER update_leave_request_changes_updated_at
+  BEFORE UPDATE ON public.leave_request_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whoever could approve the original request reviews changes to it: admins, the line manager
+-- or their active delegate, and the approvers on its chain. Nobody reviews their own leave.
+CREATE OR REPLACE FUNCTION public.can_review_leave_change(p_leave_request_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM leave_requests lr
+    JOIN employees e ON e.id = lr.employee_id
+    WHERE lr.id = p_leave_request_id
+      AND e.user_id IS DISTINCT FROM p_user_id
+      AND (
+        has_role(p_user_id, 'admin'::app_role)
+        OR e.manager_id = get_employee_id_from_user(p_user_id)
+        OR e.manager_id IN (SELECT get_delegating_employees(p_user_id))
+        OR is_request_approver('leave', lr.id, p_user_id)
+      )
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_review_leave_change(UUID, UUID) TO authenticated;
+
+ALTER TABLE public.leave_request_changes ENABLE ROW LEVEL SECURITY;
+
+-- Changes are only created and decided through request_leave_change / act_on_leave_change
+CREATE POLICY "Employees can view their own leave changes"
+  ON public.leave_request_changes
+  FOR SELECT
+  TO authenticated
+  USING (employee_id = public.get_employee_id_from_user(auth.uid()));
+
+CREATE POLICY "Reviewers can view leave changes they decide"
+  ON public.leave_request_changes
+  FOR SELECT
+  TO authenticated
+  USING (public.can_review_leave_change(leave_request_id, auth.uid()));
+
+CREATE POLICY "Admins can view all leave changes"
+  ON public.leave_request_changes
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Apply an approved change to its leave request. The request must still have the dates the
+-- change was based on, so an amendment cannot silently overwrite another edit.
+CREATE OR REPLACE FUNCTION public.apply_leave_request_change(p_change_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change RECORD;
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_change FROM leave_request_changes WHERE id = p_change_id;
+  SELECT * INTO v_request FROM leave_requests WHERE id = v_change.leave_request_id FOR UPDATE;
+
+  IF v_request.status NOT IN ('pending', 'approved')
+    OR v_request.start_date <> v_change.original_start_date
+    OR v_request.end_date <> v_change.original_end_date THEN
+    RAISE EXCEPTION 'The leave request has changed since this change was requested';
+  END IF;
+
+  IF v_change.change_type = 'cancel' THEN
+    -- Nobody needs to act on the chain of a withdrawn request. Skipped first, as the chain
+    -- holds back status changes while it has steps outstanding.
+    UPDATE request_approval_steps
+    SET status = 'skipped'
+    WHERE request_type = 'leave'
+      AND request_id = v_request.id
+      AND status IN ('waiting', 'pending');
+
+    UPDATE leave_requests SET status = 'cancelled' WHERE id = v_request.id;
+  ELSE
+    UPDATE leave_requests
+    SET start_date = v_change.new_start_date,
+        end_date = v_change.new_end_date,
+        total_days = v_change.new_total_days
+    WHERE id = v_request.id;
+  END IF;
+END;
+$$;
+
+-- Only reachable through request_leave_change and act_on_leave_change, which check access
+REVOKE EXECUTE ON FUNCTION public.apply_leave_request_change(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Ask to cancel or amend a leave request. Cancelling a request that is still pending, and any
+-- change asked for by an admin, takes effect at once; otherwise the change waits for review.
+CREATE OR REPLACE FUNCTION public.request_leave_change(
+  p_leave_request_id UUID,
+  p_change_type TEXT,
+  p_reason TEXT,
+  p_new_start_date DATE DEFAULT NULL,
+  p_new_end_date DATE DEFAULT NULL
+)
+RETURNS public.leave_request_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+  v_is_admin BOOLEAN;
+  v_new_total NUMERIC;
+  v_change public.leave_request_changes;
+BEGIN
+  SELECT lr.*, e.user_id INTO v_request
+  FROM leave_requests lr
+  JOIN employees e ON e.id = lr.employee_id
+  WHERE lr.id = p_leave_request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  v_is_admin := has_role(auth.uid(), 'admin'::app_role);
+  IF NOT (v_is_admin OR v_request.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to change this leave request';
+  END IF;
+
+  IF v_request.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Only pending or approved leave can be changed';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF p_change_type = 'amend' THEN
+    IF v_request.status <> 'approved' THEN
+      RAISE EXCEPTION 'Pending requests cannot be amended; cancel it and submit a new one';
+    END IF;
+    IF v_request.duration_type <> 'full_day' THEN
+      RAISE EXCEPTION 'Partial-day leave can only be cancelled';
+    END IF;
+    IF p_new_start_date IS NULL OR p_new_end_date IS NULL OR p_new_end_date < p_new_start_date THEN
+      RAISE EXCEPTION 'New start and end dates are required, with the end on or after the start';
+    END IF;
+    IF p_new_start_date = v_request.start_date AND p_new_end_date = v_request.end_date THEN
+      RAISE EXCEPTION 'The new dates are the same as the current ones';
+    END IF;
+
+    v_new_total := calculate_leave_days(v_request.employee_id, p_new_start_date, p_new_end_date);
+    IF v_new_total <= 0 THEN
+      RAISE EXCEPTION 'The new dates only cover public holidays';
+    END IF;
+  ELSIF p_change_type <> 'cancel' THEN
+    RAISE EXCEPTION 'Unknown change type: %', p_change_type;
+  END IF;
+
+  INSERT INTO leave_request_changes (
+    leave_request_id, employee_id, change_type,
+    original_start_date, original_end_date, original_total_days,
+    new_start_date, new_end_date, new_total_days,
+    reason, requested_by
+  ) VALUES (
+    v_request.id, v_request.employee_id, p_change_type,
+    v_request.start_date, v_request.end_date, v_request.total_days,
+    CASE WHEN p_change_type = 'amend' THEN p_new_start_date END,
+    CASE WHEN p_change_type = 'amend' THEN p_new_end_date END,
+    v_new_total,
+    TRIM(p_reason), auth.uid()
+  )
+  RETURNING * INTO v_change;
+
+  IF v_is_admin OR (p_change_type = 'cancel' AND v_request.status = 'pending') THEN
+    PERFORM apply_leave_request_change(v_change.id);
+
+    UPDATE leave_request_changes
+    SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = NOW()
+    WHERE id = v_change.id
+    RETURNING * INTO v_change;
+  END IF;
+
+  RETURN v_change;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_leave_change(UUID, TEXT, TEXT, DATE, DATE) TO authenticated;
+
+-- Approve or reject a pending change; the requester may instead withdraw it
+CREATE OR REPLACE FUNCTION public.act_on_leave_change(
+  p_change_id UUID,
+  p_decision TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change RECORD;
+BEGIN
+  SELECT * INTO v_change FROM leave_request_changes WHERE id = p_change_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave change not found';
+  END IF;
+
+  IF v_change.status <> 'pending' THEN
+    RAISE EXCEPTION 'This change has already been %', v_change.status;
+  END IF;
+
+  IF p_decision = 'withdrawn' THEN
+    IF v_change.employee_id IS DISTINCT FROM get_employee_id_from_user(auth.uid()) THEN
+      RAISE EXCEPTION 'Only the employee can withdraw their change request';
+    END IF;
+  ELSIF p_decision IN ('approved', 'rejected') THEN
+    IF NOT can_review_leave_change(v_change.leave_request_id, auth.uid()) THEN
+      RAISE EXCEPTION 'Not authorized to review this leave change';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown decision: %', p_decision;
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    PERFORM apply_leave_request_change(v_change.id);
+  END IF;
+
+  UPDATE leave_request_changes
+  SET status = p_decision,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_comments = p_comments
+  WHERE id = v_change.id;
+
+  RETURN p_decision;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.act_on_leave_change(UUID, TEXT, TEXT) TO authenticated;
+
+-- Cancelled requests skip eligibility checks, and a Hajj leave being amended is not counted
+-- as a previous Hajj leave
+CREATE OR REPLACE FUNCTION public.validate_leave_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_leave_type_name text;
+  v_probation_completed boolean;
+  v_hire_date date;
+  v_service_months integer;
+  v_sick_days_used numeric;
+BEGIN
+  -- Withdrawing a request needs no eligibility checks
+  IF TG_OP = 'UPDATE' AND NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get leave type name
+  SELECT name INTO v_leave_type_name
+  FROM leave_types
+  WHERE id = NEW.leave_type_id;
+
+  -- Get employee details
+  SELECT is_probation_completed(id), hire_date
+  INTO v_probation_completed, v_hire_date
+  FROM employees
+  WHERE id = NEW.employee_id;
+
+  -- Calculate service months
+  v_service_months := EXTRACT(YEAR FROM AGE(CURRENT_DATE, v_hire_date)) * 12 
+                    + EXTRACT(MONTH FROM AGE(CURRENT_DATE, v_hire_date));
+
+  -- Validation rules
+  CASE v_leave_type_name
+    WHEN 'Sick Leave' THEN
+      -- Must complete probation
+      IF NOT v_probation_completed THEN
+        RAISE EXCEPTION 'Sick leave is only available after completing probation period';
+      END IF;
+
+      -- Require medical certificate for >3 days
+      IF NEW.total_days > 3 AND NEW.medical_certificate_url IS NULL THEN
+        RAISE EXCEPTION 'Medical certificate is required for sick leave exceeding 3 days';
+      END IF;
+
+      -- Calculate payment type based on cumulative sick days used this year
+      SELECT COALESCE(SUM(total_days), 0)
+      INTO v_sick_days_used
+      FROM leave_requests
+      WHERE employee_id = NEW.employee_id
+        AND leave_type_id = NEW.leave_type_id
+        AND status = 'approved'
+        AND EXTRACT(YEAR FROM start_date) = EXTRACT(YEAR FROM NEW.start_date)
+        AND id != NEW.id;
+
+      -- Auto-set payment type
+      IF v_sick_days_used + NEW.total_days <= 15 THEN
+        NEW.payment_type := 'full_pay';
+      ELSIF v_sick_days_used + NEW.total_days <= 45 THEN
+        NEW.payment_type := 'half_pay';
+      ELSE
+        NEW.payment_type := 'unpaid';
+      END IF;
+
+    WHEN 'Hajj Leave' THEN
+      -- Must have 2 years service
+      IF v_service_months < 24 THEN
+        RAISE EXCEPTION 'Hajj leave requires minimum 2 years of service';
+      END IF;
+
+      -- Can only be taken once
+      IF EXISTS (
+        SELECT 1 FROM leave_requests
+        WHERE employee_id = NEW.employee_id
+          AND leave_type_id = NEW.leave_type_id
+          AND status = 'approved'
+          AND id <> NEW.id
+      ) THEN
+        RAISE EXCEPTION 'Hajj leave can only be taken once per employment';
+      END IF;
+
+      NEW.payment_type := 'unpaid';
+
+    WHEN 'Maternity Leave' THEN
+      -- Auto-set payment type based on days
+      IF NEW.total_days <= 45 THEN
+        NEW.payment_type := 'full_pay';
+      ELSIF NEW.total_days <= 60 THEN
+        NEW.payment_type := 'half_pay';
+      ELSE
+        NEW.payment_type := 'unpaid';
+      END IF;
+
+    WHEN 'Parental Leave' THEN
+      NEW.payment_type := 'full_pay';
+
+    WHEN 'Study Leave' THEN
+      -- Typically paid, but can be configured
+      IF NEW.payment_type IS NULL THEN
+        NEW.payment_type := 'full_pay';
+      END IF;
+
+    WHEN 'Compassionate Leave' THEN
+      NEW.payment_type := 'full_pay';
+      
+      -- Validate relationship is provided
+      IF NEW.relationship IS NULL OR NEW.relationship = '' THEN
+        RAISE EXCEPTION 'Relationship must be specified for compassionate leave';
+      END IF;
+
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,81 @@
+-- iCalendar feeds: a secret URL per user that calendar apps (Outlook, Google Calendar)
+-- subscribe to. The personal feed publishes the user's approved leave, WFH days and public
+-- holidays; the team feed publishes the approved leave of a manager's direct reports.
+-- Feeds are served by the calendar-feed edge function, which looks the token up with the
+-- service role; the token is the only credential, so it can be regenerated at any time.
+
+CREATE TABLE public.calendar_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  feed_type TEXT NOT NULL CHECK (feed_type IN ('personal', 'team')),
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_calendar_feed UNIQUE (employee_id, feed_type)
+);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON public.calendar_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Feeds are created and rotated through get_calendar_feed_token
+CREATE POLICY "Users can view their own calendar feeds"
+  ON public.calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own calendar feeds"
+  ON public.calendar_feeds
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- The caller's feed token, creating the feed on first use. p_regenerate replaces the token,
+-- so subscriptions using the old URL stop receiving updates. The team feed is only
+-- available to employees with direct reports.
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token(p_feed_type TEXT, p_regenerate BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee_id UUID;
+  v_token TEXT;
+BEGIN
+  v_employee_id := get_employee_id_from_user(auth.uid());
+  IF v_employee_id IS NULL THEN
+    RAISE EXCEPTION 'No employee record found for the current user';
+  END IF;
+
+  IF p_feed_type NOT IN ('personal', 'team') THEN
+    RAISE EXCEPTION 'Unknown calendar feed: %', p_feed_type;
+  END IF;
+
+  IF p_feed_type = 'team' AND NOT EXISTS (
+    SELECT 1 FROM employees WHERE manager_id = v_employee_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'The team calendar feed is only available to managers with direct reports';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id, employee_id, feed_type)
+  VALUES (auth.uid(), v_employee_id, p_feed_type)
+  ON CONFLICT (employee_id, feed_type) DO UPDATE
+    SET token = CASE
+          WHEN p_regenerate THEN replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+          ELSE calendar_feeds.token
+        END,
+        user_id = EXCLUDED.user_id
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed_token(TEXT, BOOLEAN) TO authenticated;
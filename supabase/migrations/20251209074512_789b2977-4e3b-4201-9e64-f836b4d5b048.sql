@@ -0,0 +1,56 @@
+-- Approval notifications link straight to the request (/leave/:id, /exceptions/:id) now that
+-- the app has a route per entity, instead of to the dashboard
+CREATE OR REPLACE FUNCTION public.notify_approval_step(p_step_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_step RECORD;
+  v_requester_name TEXT;
+  v_approver_id UUID;
+  v_delegate_id UUID;
+  v_on_behalf_of TEXT;
+  v_user_id UUID;
+BEGIN
+  SELECT * INTO v_step FROM request_approval_steps WHERE id = p_step_id;
+  SELECT full_name INTO v_requester_name FROM employees WHERE id = v_step.employee_id;
+
+  v_approver_id := v_step.approver_employee_id;
+  IF v_approver_id IS NOT NULL THEN
+    v_delegate_id := get_active_delegate(v_approver_id);
+    IF v_delegate_id IS NOT NULL AND v_delegate_id IS DISTINCT FROM v_step.employee_id THEN
+      SELECT full_name INTO v_on_behalf_of FROM employees WHERE id = v_approver_id;
+      v_approver_id := v_delegate_id;
+    END IF;
+  END IF;
+
+  FOR v_user_id IN
+    SELECT user_id FROM employees
+    WHERE id = v_approver_id AND user_id IS NOT NULL
+    UNION
+    SELECT ur.user_id FROM user_roles ur
+    WHERE v_step.approver_employee_id IS NULL
+      AND ur.role = v_step.approver_role
+      AND ur.user_id IS DISTINCT FROM (SELECT user_id FROM employees WHERE id = v_step.employee_id)
+  LOOP
+    PERFORM create_in_app_notification(
+      v_user_id,
+      v_step.employee_id,
+      CASE v_step.request_type WHEN 'leave' THEN 'leave_request' ELSE 'exception_request' END,
+      'Approval Required',
+      format('%s''s %s request is waiting for your approval (%s%s)',
+        v_requester_name,
+        CASE v_step.request_type WHEN 'leave' THEN 'leave' ELSE 'attendance exception' END,
+        v_step.label,
+        CASE WHEN v_on_behalf_of IS NOT NULL THEN format(' on behalf of %s', v_on_behalf_of) ELSE '' END),
+      jsonb_build_object('request_type', v_step.request_type, 'request_id', v_step.request_id, 'step', v_step.step_order),
+      CASE v_step.request_type WHEN 'leave' THEN '/leave/' ELSE '/exceptions/' END || v_step.request_id,
+      'high'
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_approval_step(UUID) FROM PUBLIC, anon, authenticated;
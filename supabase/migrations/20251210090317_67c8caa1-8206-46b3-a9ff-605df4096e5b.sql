@@ -0,0 +1,74 @@
+-- Reporting lines: employees.manager_id must form a tree. Assigning a manager is rejected when
+-- it would make someone report to themselves (directly or through their own reports) or to a
+-- manager who is no longer active. find_reporting_cycles reports loops that predate this check.
+
+CREATE OR REPLACE FUNCTION public.validate_employee_manager()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.manager_id IS NULL OR (TG_OP = 'UPDATE' AND NEW.manager_id IS NOT DISTINCT FROM OLD.manager_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.manager_id = NEW.id THEN
+    RAISE EXCEPTION 'An employee cannot report to themselves';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM employees WHERE id = NEW.manager_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Employees can only report to an active manager';
+  END IF;
+
+  -- Walk up from the new manager; reaching this employee means a cycle
+  IF EXISTS (
+    WITH RECURSIVE chain AS (
+      SELECT m.id, m.manager_id, ARRAY[m.id] AS path
+      FROM employees m
+      WHERE m.id = NEW.manager_id
+      UNION ALL
+      SELECT m.id, m.manager_id, c.path || m.id
+      FROM employees m
+      JOIN chain c ON m.id = c.manager_id
+      WHERE m.id <> ALL(c.path)
+    )
+    SELECT 1 FROM chain WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'This reporting line would create a cycle: % already manages the new manager', NEW.full_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_employee_manager_trigger
+  BEFORE INSERT OR UPDATE OF manager_id ON public.employees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_employee_manager();
+
+-- Employees whose chain of managers leads back to themselves
+CREATE OR REPLACE FUNCTION public.find_reporting_cycles()
+RETURNS TABLE (employee_id UUID, full_name TEXT, manager_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE walk AS (
+    SELECT e.id AS start_id, e.manager_id AS current_id, ARRAY[e.id] AS path
+    FROM employees e
+    WHERE e.manager_id IS NOT NULL
+    UNION ALL
+    SELECT w.start_id, m.manager_id, w.path || m.id
+    FROM walk w
+    JOIN employees m ON m.id = w.current_id
+    WHERE m.id <> ALL(w.path)
+  )
+  SELECT DISTINCT e.id, e.full_name, e.manager_id
+  FROM walk w
+  JOIN employees e ON e.id = w.start_id
+  WHERE w.current_id = w.start_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_reporting_cycles() TO authenticated;
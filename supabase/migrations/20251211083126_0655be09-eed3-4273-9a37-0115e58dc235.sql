@@ -0,0 +1,107 @@
+-- Historical attendance from biometric terminals. The client collapses raw punches into work
+-- sessions and breaks per employee and day; this function saves them in one transaction.
+-- Each day is compared with existing attendance first:
+--   created   - no attendance row yet (or a row without punches, e.g. from an approved exception)
+--   duplicate - same first clock-in and last clock-out already recorded; left alone
+--   conflict  - different punches already recorded; left alone unless p_replace_conflicts
+--   replaced  - conflicting day whose punch log was replaced by the imported one
+-- With p_dry_run nothing is written, so the outcomes can be previewed.
+
+CREATE OR REPLACE FUNCTION public.import_biometric_attendance(
+  p_days JSONB,
+  p_dry_run BOOLEAN DEFAULT true,
+  p_replace_conflicts BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  employee_id UUID,
+  attendance_date DATE,
+  outcome TEXT,
+  existing_clock_in TIMESTAMP WITH TIME ZONE,
+  existing_clock_out TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day JSONB;
+  v_employee_id UUID;
+  v_date DATE;
+  v_first_in TIMESTAMP WITH TIME ZONE;
+  v_last_out TIMESTAMP WITH TIME ZONE;
+  v_existing RECORD;
+  v_attendance_id UUID;
+  v_outcome TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can import attendance';
+  END IF;
+
+  FOR v_day IN SELECT * FROM jsonb_array_elements(p_days)
+  LOOP
+    v_employee_id := (v_day->>'employee_id')::UUID;
+    v_date := (v_day->>'date')::DATE;
+
+    IF NOT EXISTS (SELECT 1 FROM employees e WHERE e.id = v_employee_id) THEN
+      RAISE EXCEPTION 'Employee % does not exist', v_employee_id;
+    END IF;
+
+    -- Clock times the sync trigger will derive from the imported sessions
+    SELECT
+      MIN((s->>'start_time')::TIMESTAMPTZ),
+      CASE WHEN bool_or(s->>'end_time' IS NULL) THEN NULL ELSE MAX((s->>'end_time')::TIMESTAMPTZ) END
+    INTO v_first_in, v_last_out
+    FROM jsonb_array_elements(v_day->'sessions') s
+    WHERE s->>'session_type' = 'work';
+
+    IF v_first_in IS NULL THEN
+      RAISE EXCEPTION 'No work session for employee % on %', v_employee_id, v_date;
+    END IF;
+
+    SELECT a.id, a.clock_in_time, a.clock_out_time
+    INTO v_existing
+    FROM attendance a
+    WHERE a.employee_id = v_employee_id AND a.date = v_date;
+
+    IF v_existing.id IS NULL OR v_existing.clock_in_time IS NULL THEN
+      v_outcome := 'created';
+    ELSIF v_existing.clock_in_time = v_first_in AND v_existing.clock_out_time IS NOT DISTINCT FROM v_last_out THEN
+      v_outcome := 'duplicate';
+    ELSIF p_replace_conflicts THEN
+      v_outcome := 'replaced';
+    ELSE
+      v_outcome := 'conflict';
+    END IF;
+
+    IF NOT p_dry_run AND v_outcome IN ('created', 'replaced') THEN
+      v_attendance_id := v_existing.id;
+
+      IF v_attendance_id IS NULL THEN
+        INSERT INTO attendance (employee_id, date, status, notes)
+        VALUES (v_employee_id, v_date, 'present', 'Imported from biometric device')
+        RETURNING id INTO v_attendance_id;
+      ELSE
+        DELETE FROM attendance_sessions s WHERE s.attendance_id = v_attendance_id;
+        UPDATE attendance a
+        SET status = 'present',
+            notes = COALESCE(a.notes || E'\n', '') || 'Imported from biometric device'
+        WHERE a.id = v_attendance_id;
+      END IF;
+
+      INSERT INTO attendance_sessions (attendance_id, employee_id, session_type, start_time, end_time)
+      SELECT v_attendance_id, v_employee_id, s->>'session_type', (s->>'start_time')::TIMESTAMPTZ, (s->>'end_time')::TIMESTAMPTZ
+      FROM jsonb_array_elements(v_day->'sessions') s
+      ORDER BY (s->>'start_time')::TIMESTAMPTZ;
+    END IF;
+
+    employee_id := v_employee_id;
+    attendance_date := v_date;
+    outcome := v_outcome;
+    existing_clock_in := v_existing.clock_in_time;
+    existing_clock_out := v_existing.clock_out_time;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_biometric_attendance(JSONB, BOOLEAN, BOOLEAN) TO authenticated;
@@ -0,0 +1,582 @@
+-- Onboarding and offboarding checklists. Admins keep templates of tasks (documents to collect,
+-- assets to issue, accounts to create or revoke, the final settlement); a copy of every matching
+-- active template is made for an employee when they are invited and when they stop being active.
+-- Due dates are counted from the hire date (onboarding) or the last working day (offboarding),
+-- and task owners are reminded in-app as tasks fall due.
+
+CREATE TABLE public.lifecycle_checklist_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  checklist_type TEXT NOT NULL CHECK (checklist_type IN ('onboarding', 'offboarding')),
+  -- NULL = every department / division
+  department TEXT,
+  division TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE public.lifecycle_template_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.lifecycle_checklist_templates(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN ('document', 'asset', 'account', 'settlement', 'other')),
+  -- For document tasks: the staff_documents.document_type that completes the task when uploaded
+  document_type TEXT,
+  -- admin = HR, manager = the employee's line manager, employee = the employee themselves,
+  -- person = owner_employee_id (e.g. IT). Tasks without a resolvable owner fall to HR.
+  owner_type TEXT NOT NULL DEFAULT 'admin' CHECK (owner_type IN ('admin', 'manager', 'employee', 'person')),
+  owner_employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  -- Days after the hire date / last working day; negative = before it
+  due_offset_days INTEGER NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT document_task_has_type CHECK (category <> 'document' OR document_type IS NOT NULL)
+);
+
+CREATE TABLE public.employee_checklists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.lifecycle_checklist_templates(id) ON DELETE SET NULL,
+  checklist_type TEXT NOT NULL CHECK (checklist_type IN ('onboarding', 'offboarding')),
+  name TEXT NOT NULL,
+  -- Hire date or last working day the task due dates are counted from
+  anchor_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'cancelled')),
+  started_by UUID,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX unique_open_employee_checklist
+  ON public.employee_checklists (employee_id, template_id)
+  WHERE status = 'open';
+
+CREATE INDEX idx_employee_checklists_employee ON public.employee_checklists (employee_id);
+
+CREATE TABLE public.employee_checklist_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  checklist_id UUID NOT NULL REFERENCES public.employee_checklists(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL CHECK (category IN ('document', 'asset', 'account', 'settlement', 'other')),
+  document_type TEXT,
+  owner_type TEXT NOT NULL CHECK (owner_type IN ('admin', 'manager', 'employee', 'person')),
+  -- Resolved when the checklist is started; NULL = HR
+  owner_employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  due_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'skipped')),
+  notes TEXT,
+  document_id UUID REFERENCES public.staff_documents(id) ON DELETE SET NULL,
+  completed_by UUID,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  last_reminded_at TIMESTAMP WITH TIME ZONE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_employee_checklist_tasks_checklist ON public.employee_checklist_tasks (checklist_id);
+CREATE INDEX idx_employee_checklist_tasks_owner ON public.employee_checklist_tasks (owner_employee_id, status);
+
+ALTER TABLE public.lifecycle_checklist_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lifecycle_template_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.employee_checklists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.employee_checklist_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage checklist templates"
+  ON public.lifecycle_checklist_templates
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can manage checklist template tasks"
+  ON public.lifecycle_template_tasks
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can manage employee checklists"
+  ON public.employee_checklists
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Employees, their managers and task owners can view checklists"
+  ON public.employee_checklists
+  FOR SELECT
+  USING (
+    employee_id = get_employee_id_from_user(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.employees e
+      WHERE e.id = employee_checklists.employee_id
+        AND e.manager_id = get_employee_id_from_user(auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.employee_checklist_tasks t
+      WHERE t.checklist_id = employee_checklists.id
+        AND t.owner_employee_id = get_employee_id_from_user(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can manage checklist tasks"
+  ON public.employee_checklist_tasks
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Employees, their managers and owners can view checklist tasks"
+  ON public.employee_checklist_tasks
+  FOR SELECT
+  USING (
+    employee_id = get_employee_id_from_user(auth.uid())
+    OR owner_employee_id = get_employee_id_from_user(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.employees e
+      WHERE e.id = employee_checklist_tasks.employee_id
+        AND e.manager_id = get_employee_id_from_user(auth.uid())
+    )
+  );
+
+CREATE TRIGGER update_lifecycle_checklist_templates_updated_at
+  BEFORE UPDATE ON public.lifecycle_checklist_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_lifecycle_template_tasks_updated_at
+  BEFORE UPDATE ON public.lifecycle_template_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_employee_checklists_updated_at
+  BEFORE UPDATE ON public.employee_checklists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_employee_checklist_tasks_updated_at
+  BEFORE UPDATE ON public.employee_checklist_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Copy every active template of the given type that applies to the employee's department and
+-- division, skipping templates already open for them. Returns the number of checklists started.
+CREATE OR REPLACE FUNCTION public.instantiate_lifecycle_checklists(
+  p_employee_id UUID,
+  p_checklist_type TEXT,
+  p_anchor_date DATE,
+  p_started_by UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee RECORD;
+  v_template RECORD;
+  v_checklist_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_employee FROM employees WHERE id = p_employee_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_template IN
+    SELECT t.id, t.name
+    FROM lifecycle_checklist_templates t
+    WHERE t.checklist_type = p_checklist_type
+      AND t.is_active
+      AND (t.department IS NULL OR t.department = v_employee.department)
+      AND (t.division IS NULL OR t.division = v_employee.division)
+      AND EXISTS (SELECT 1 FROM lifecycle_template_tasks tt WHERE tt.template_id = t.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM employee_checklists c
+        WHERE c.employee_id = p_employee_id AND c.template_id = t.id AND c.status = 'open'
+      )
+    ORDER BY t.name
+  LOOP
+    INSERT INTO employee_checklists (employee_id, template_id, checklist_type, name, anchor_date, started_by)
+    VALUES (p_employee_id, v_template.id, p_checklist_type, v_template.name, p_anchor_date, p_started_by)
+    RETURNING id INTO v_checklist_id;
+
+    INSERT INTO employee_checklist_tasks (
+      checklist_id, employee_id, title, description, category, document_type,
+      owner_type, owner_employee_id, due_date, sort_order
+    )
+    SELECT v_checklist_id, p_employee_id, tt.title, tt.description, tt.category, tt.document_type,
+      tt.owner_type,
+      CASE tt.owner_type
+        WHEN 'manager' THEN v_employee.manager_id
+        WHEN 'employee' THEN p_employee_id
+        WHEN 'person' THEN tt.owner_employee_id
+      END,
+      p_anchor_date + tt.due_offset_days, tt.sort_order
+    FROM lifecycle_template_tasks tt
+    WHERE tt.template_id = v_template.id;
+
+    -- Documents already on file count as collected
+    IF p_checklist_type = 'onboarding' THEN
+      UPDATE employee_checklist_tasks t
+      SET status = 'done', completed_at = NOW(), document_id = d.id
+      FROM (
+        SELECT DISTINCT ON (sd.document_type) sd.id, sd.document_type
+        FROM staff_documents sd
+        WHERE sd.employee_id = p_employee_id
+        ORDER BY sd.document_type, sd.created_at DESC
+      ) d
+      WHERE t.checklist_id = v_checklist_id
+        AND t.category = 'document'
+        AND t.document_type = d.document_type;
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.instantiate_lifecycle_checklists(UUID, TEXT, DATE, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Start checklists by hand, e.g. for staff who joined before templates existed or to begin
+-- offboarding during a notice period. The anchor defaults to the hire date / today.
+CREATE OR REPLACE FUNCTION public.start_employee_checklists(
+  p_employee_id UUID,
+  p_checklist_type TEXT,
+  p_anchor_date DATE DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_anchor DATE := p_anchor_date;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can start checklists';
+  END IF;
+
+  IF p_checklist_type NOT IN ('onboarding', 'offboarding') THEN
+    RAISE EXCEPTION 'Invalid checklist type: %', p_checklist_type;
+  END IF;
+
+  IF v_anchor IS NULL THEN
+    SELECT CASE WHEN p_checklist_type = 'onboarding' THEN e.hire_date END INTO v_anchor
+    FROM employees e
+    WHERE e.id = p_employee_id;
+    v_anchor := COALESCE(v_anchor, (NOW() AT TIME ZONE 'Asia/Dubai')::date);
+  END IF;
+
+  RETURN instantiate_lifecycle_checklists(p_employee_id, p_checklist_type, v_anchor, auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_employee_checklists(UUID, TEXT, DATE) TO authenticated;
+
+-- Mark a task done or skipped (or reopen it). Task owners and admins only; tasks owned by HR
+-- are for admins.
+CREATE OR REPLACE FUNCTION public.update_checklist_task(
+  p_task_id UUID,
+  p_status TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task RECORD;
+BEGIN
+  IF p_status NOT IN ('pending', 'done', 'skipped') THEN
+    RAISE EXCEPTION 'Invalid task status: %', p_status;
+  END IF;
+
+  SELECT t.owner_employee_id, c.status AS checklist_status INTO v_task
+  FROM employee_checklist_tasks t
+  JOIN employee_checklists c ON c.id = t.checklist_id
+  WHERE t.id = p_task_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Checklist task not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'admin'::app_role)
+    AND v_task.owner_employee_id IS DISTINCT FROM get_employee_id_from_user(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the task owner or HR can update this task';
+  END IF;
+
+  IF v_task.checklist_status = 'cancelled' THEN
+    RAISE EXCEPTION 'This checklist has been cancelled';
+  END IF;
+
+  UPDATE employee_checklist_tasks
+  SET status = p_status,
+    notes = COALESCE(p_notes, notes),
+    completed_by = CASE WHEN p_status = 'pending' THEN NULL ELSE auth.uid() END,
+    completed_at = CASE WHEN p_status = 'pending' THEN NULL ELSE NOW() END
+  WHERE id = p_task_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_checklist_task(UUID, TEXT, TEXT) TO authenticated;
+
+-- A checklist is completed once no task is pending, and reopens if a task is reopened
+CREATE OR REPLACE FUNCTION public.sync_employee_checklist_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_checklist_id UUID := COALESCE(NEW.checklist_id, OLD.checklist_id);
+  v_has_pending BOOLEAN;
+BEGIN
+  v_has_pending := EXISTS (
+    SELECT 1 FROM employee_checklist_tasks
+    WHERE checklist_id = v_checklist_id AND status = 'pending'
+  );
+
+  UPDATE employee_checklists
+  SET status = CASE WHEN v_has_pending THEN 'open' ELSE 'completed' END,
+    completed_at = CASE WHEN v_has_pending THEN NULL ELSE COALESCE(completed_at, NOW()) END
+  WHERE id = v_checklist_id
+    AND status <> 'cancelled'
+    AND status <> CASE WHEN v_has_pending THEN 'open' ELSE 'completed' END;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_employee_checklist_status_trigger
+  AFTER INSERT OR UPDATE OF status OR DELETE ON public.employee_checklist_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_employee_checklist_status();
+
+-- Re-anchor an employee's open checklists of one type, shifting pending due dates by the same
+-- number of days
+CREATE OR REPLACE FUNCTION public.move_checklist_anchor(
+  p_employee_id UUID,
+  p_checklist_type TEXT,
+  p_anchor_date DATE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE employee_checklist_tasks t
+  SET due_date = t.due_date + (p_anchor_date - c.anchor_date),
+    last_reminded_at = NULL
+  FROM employee_checklists c
+  WHERE c.id = t.checklist_id
+    AND c.employee_id = p_employee_id
+    AND c.checklist_type = p_checklist_type
+    AND c.status = 'open'
+    AND c.anchor_date <> p_anchor_date
+    AND t.status = 'pending';
+
+  UPDATE employee_checklists
+  SET anchor_date = p_anchor_date
+  WHERE employee_id = p_employee_id
+    AND checklist_type = p_checklist_type
+    AND status = 'open'
+    AND anchor_date <> p_anchor_date;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.move_checklist_anchor(UUID, TEXT, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Onboarding starts when the employee record is created (invite-user); offboarding when an
+-- active employee is deactivated or deleted, counted from today as the last working day.
+-- Reactivating someone cancels their open offboarding. Changing the hire date moves pending
+-- onboarding due dates with it, and a new line manager takes over their pending manager tasks.
+CREATE OR REPLACE FUNCTION public.handle_employee_lifecycle_checklists()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Dubai')::date;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'active' THEN
+      PERFORM instantiate_lifecycle_checklists(NEW.id, 'onboarding', COALESCE(NEW.hire_date, v_today), auth.uid());
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF OLD.status = 'active' AND NEW.status <> 'active' THEN
+    UPDATE employee_checklists
+    SET status = 'cancelled'
+    WHERE employee_id = NEW.id AND checklist_type = 'onboarding' AND status = 'open';
+
+    PERFORM instantiate_lifecycle_checklists(NEW.id, 'offboarding', v_today, auth.uid());
+  ELSIF OLD.status <> 'active' AND NEW.status = 'active' THEN
+    UPDATE employee_checklists
+    SET status = 'cancelled'
+    WHERE employee_id = NEW.id AND checklist_type = 'offboarding' AND status = 'open';
+  END IF;
+
+  IF NEW.hire_date IS DISTINCT FROM OLD.hire_date AND NEW.hire_date IS NOT NULL THEN
+    PERFORM move_checklist_anchor(NEW.id, 'onboarding', NEW.hire_date);
+  END IF;
+
+  IF NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+    UPDATE employee_checklist_tasks t
+    SET owner_employee_id = NEW.manager_id
+    FROM employee_checklists c
+    WHERE c.id = t.checklist_id
+      AND c.employee_id = NEW.id
+      AND c.status = 'open'
+      AND t.status = 'pending'
+      AND t.owner_type = 'manager';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER handle_employee_lifecycle_checklists_trigger
+  AFTER INSERT OR UPDATE OF status, hire_date, manager_id ON public.employees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_employee_lifecycle_checklists();
+
+-- Uploading a staff document completes the pending document tasks of that type
+CREATE OR REPLACE FUNCTION public.complete_document_checklist_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE employee_checklist_tasks t
+  SET status = 'done', completed_at = NOW(), completed_by = NEW.uploaded_by, document_id = NEW.id
+  FROM employee_checklists c
+  WHERE c.id = t.checklist_id
+    AND c.status = 'open'
+    AND t.employee_id = NEW.employee_id
+    AND t.status = 'pending'
+    AND t.category = 'document'
+    AND t.document_type = NEW.document_type;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER complete_document_checklist_tasks_trigger
+  AFTER INSERT ON public.staff_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.complete_document_checklist_tasks();
+
+-- Saving the final settlement fixes the last working day for offboarding and completes the
+-- pending settlement tasks
+CREATE OR REPLACE FUNCTION public.complete_settlement_checklist_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM move_checklist_anchor(NEW.employee_id, 'offboarding', NEW.last_working_day);
+
+  UPDATE employee_checklist_tasks t
+  SET status = 'done', completed_at = NOW(), completed_by = NEW.created_by
+  FROM employee_checklists c
+  WHERE c.id = t.checklist_id
+    AND c.status = 'open'
+    AND t.employee_id = NEW.employee_id
+    AND t.status = 'pending'
+    AND t.category = 'settlement';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER complete_settlement_checklist_tasks_trigger
+  AFTER INSERT OR UPDATE OF last_working_day ON public.final_settlements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.complete_settlement_checklist_tasks();
+
+-- Remind owners of pending tasks due within two days, then every three days while overdue.
+-- Tasks owned by HR, or by someone no longer active, go to every admin.
+CREATE OR REPLACE FUNCTION public.send_checklist_task_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Dubai')::date;
+  v_task RECORD;
+  v_owner_user_id UUID;
+  v_user_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_task IN
+    SELECT t.id, t.checklist_id, t.title, t.due_date, t.owner_employee_id, t.employee_id,
+      c.checklist_type, e.full_name
+    FROM employee_checklist_tasks t
+    JOIN employee_checklists c ON c.id = t.checklist_id
+    JOIN employees e ON e.id = t.employee_id
+    WHERE c.status = 'open'
+      AND t.status = 'pending'
+      AND t.due_date <= v_today + 2
+      AND (
+        t.last_reminded_at IS NULL
+        OR (t.due_date < v_today AND t.last_reminded_at < NOW() - INTERVAL '3 days')
+      )
+  LOOP
+    SELECT o.user_id INTO v_owner_user_id
+    FROM employees o
+    WHERE o.id = v_task.owner_employee_id AND o.status = 'active';
+
+    FOR v_user_id IN
+      SELECT v_owner_user_id WHERE v_owner_user_id IS NOT NULL
+      UNION
+      SELECT ur.user_id FROM user_roles ur
+      WHERE v_owner_user_id IS NULL AND ur.role = 'admin'::app_role
+    LOOP
+      PERFORM create_in_app_notification(
+        v_user_id,
+        v_task.employee_id,
+        'lifecycle_task',
+        CASE WHEN v_task.due_date < v_today THEN 'Checklist Task Overdue' ELSE 'Checklist Task Due' END,
+        format('%s (%s of %s) %s %s',
+          v_task.title,
+          v_task.checklist_type,
+          v_task.full_name,
+          CASE WHEN v_task.due_date < v_today THEN 'was due on' ELSE 'is due on' END,
+          to_char(v_task.due_date, 'DD Mon YYYY')),
+        jsonb_build_object('task_id', v_task.id, 'checklist_id', v_task.checklist_id),
+        '/checklists',
+        CASE WHEN v_task.due_date < v_today THEN 'high' ELSE 'normal' END
+      );
+    END LOOP;
+
+    UPDATE employee_checklist_tasks SET last_reminded_at = NOW() WHERE id = v_task.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_checklist_task_reminders() FROM PUBLIC, anon, authenticated;
+
+-- Send reminders daily (09:00 GST)
+SELECT cron.schedule(
+  'checklist-task-reminders-job',
+  '0 5 * * *',
+  $$SELECT public.send_checklist_task_reminders()$$
+);
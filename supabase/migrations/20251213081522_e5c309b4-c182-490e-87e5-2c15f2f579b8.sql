@@ -0,0 +1,24 @@
+-- Attendance rules shared by the calendar, stats and notification emails: grace windows,
+-- lateness tiers and a monthly allowance of forgiven late arrivals
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES (
+  'attendance_rules',
+  '{
+    "late_grace_minutes": 15,
+    "early_grace_minutes": 0,
+    "lateness_tiers": [
+      {"name": "Minor", "up_to_minutes": 30, "consequence": "record"},
+      {"name": "Moderate", "up_to_minutes": 60, "consequence": "notify"},
+      {"name": "Severe", "up_to_minutes": null, "consequence": "escalate"}
+    ],
+    "monthly_late_allowance": 0
+  }'::jsonb,
+  'Grace windows (minutes), lateness tiers (record / notify / escalate) and late arrivals forgiven each month before lateness counts'
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Every employee's calendar applies these rules, so they are readable by all signed-in users
+CREATE POLICY "Authenticated users can view attendance rules"
+  ON public.system_settings FOR SELECT
+  TO authenticated
+  USING (setting_key = 'attendance_rules');
@@ -0,0 +1,112 @@
+-- Document expiry reminders: a reminder schedule per document type replaces the fixed 90/30/7-day
+-- windows, every reminder sent is logged instead of flagged on the document, HR is alerted when a
+-- document actually expires, and a document marked as being renewed gets no reminders until its
+-- replacement is uploaded.
+
+CREATE TABLE public.document_reminder_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_type TEXT NOT NULL UNIQUE
+    CHECK (document_type IN ('emirates_id', 'passport', 'visa', 'driving_license', 'work_permit', 'health_card', 'insurance_card', 'other')),
+  -- Days before the expiry date a reminder goes out, e.g. {60,30,14,7,1}
+  reminder_days INTEGER[] NOT NULL DEFAULT '{90,30,7}',
+  -- Email HR when a document of this type expires without being renewed
+  escalate_on_expiry BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT reminder_days_positive CHECK (0 < ALL (reminder_days))
+);
+
+CREATE TABLE public.document_expiry_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.staff_documents(id) ON DELETE CASCADE,
+  -- The expiry date reminded about, so a corrected date starts the schedule again
+  expiry_date DATE NOT NULL,
+  -- reminder = one step of the schedule; expired = the escalation to HR on expiry
+  reminder_type TEXT NOT NULL CHECK (reminder_type IN ('reminder', 'expired')),
+  -- The schedule step (days before expiry); 0 for the expiry escalation
+  days_before INTEGER NOT NULL DEFAULT 0,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (document_id, expiry_date, reminder_type, days_before)
+);
+
+CREATE INDEX idx_document_expiry_reminders_document_id ON public.document_expiry_reminders(document_id);
+
+-- Renewal in progress pauses the reminders until the new document is uploaded
+ALTER TABLE public.staff_documents
+  ADD COLUMN renewal_in_progress BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN renewal_started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN renewal_started_by UUID;
+
+ALTER TABLE public.document_reminder_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_expiry_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage document reminder policies"
+  ON public.document_reminder_policies
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view document expiry reminders"
+  ON public.document_expiry_reminders
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_document_reminder_policies_updated_at
+  BEFORE UPDATE ON public.document_reminder_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.document_reminder_policies (document_type, reminder_days) VALUES
+  ('emirates_id', '{90,30,7}'),
+  ('passport', '{90,30,7}'),
+  ('visa', '{60,30,14,7,1}'),
+  ('driving_license', '{90,30,7}'),
+  ('work_permit', '{90,30,7}'),
+  ('health_card', '{30,7}'),
+  ('insurance_card', '{90,30,7}'),
+  ('other', '{90,30,7}')
+ON CONFLICT (document_type) DO NOTHING;
+
+-- Carry the reminders already sent over to the log before the flags go
+INSERT INTO public.document_expiry_reminders (document_id, expiry_date, reminder_type, days_before, sent_at)
+SELECT d.id, d.expiry_date, 'reminder', s.days_before, d.updated_at
+FROM public.staff_documents d
+CROSS JOIN LATERAL (
+  VALUES (90, d.notification_sent_90_days), (30, d.notification_sent_30_days), (7, d.notification_sent_7_days)
+) AS s(days_before, sent)
+WHERE d.expiry_date IS NOT NULL
+  AND s.sent
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.staff_documents
+  DROP COLUMN notification_sent_90_days,
+  DROP COLUMN notification_sent_30_days,
+  DROP COLUMN notification_sent_7_days;
+
+-- Uploading a document completes the renewal of the same type for that employee: the document
+-- being renewed is retired, which also ends its reminders
+CREATE OR REPLACE FUNCTION public.complete_document_renewals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE staff_documents
+  SET status = 'renewed', renewal_in_progress = false
+  WHERE employee_id = NEW.employee_id
+    AND document_type = NEW.document_type
+    AND id <> NEW.id
+    AND status = 'active'
+    AND renewal_in_progress;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER complete_document_renewals_trigger
+  AFTER INSERT ON public.staff_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.complete_document_renewals();
@@ -0,0 +1,180 @@
+-- Document versions: a renewed document is a new staff_documents row linked to the version it
+-- replaces. The replaced version is retired ('renewed') and becomes read-only, keeping its own
+-- file, issue and expiry dates, so the whole renewal chain stays on record.
+
+ALTER TABLE public.staff_documents
+  ADD COLUMN previous_version_id UUID REFERENCES public.staff_documents(id),
+  ADD COLUMN version_number INTEGER NOT NULL DEFAULT 1;
+
+-- A version is renewed at most once, so every chain is a single line
+CREATE UNIQUE INDEX idx_staff_documents_previous_version_id
+  ON public.staff_documents(previous_version_id)
+  WHERE previous_version_id IS NOT NULL;
+
+-- Link a new document to the version it renews. Without an explicit link, the upload continues
+-- the employee's renewal in progress for the same document type, if there is one.
+CREATE OR REPLACE FUNCTION public.link_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous RECORD;
+BEGIN
+  IF NEW.previous_version_id IS NULL THEN
+    SELECT id INTO NEW.previous_version_id
+    FROM staff_documents
+    WHERE employee_id = NEW.employee_id
+      AND document_type = NEW.document_type
+      AND status = 'active'
+      AND renewal_in_progress
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF NEW.previous_version_id IS NOT NULL THEN
+    SELECT * INTO v_previous FROM staff_documents WHERE id = NEW.previous_version_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The document being renewed does not exist';
+    END IF;
+
+    IF v_previous.employee_id <> NEW.employee_id OR v_previous.document_type <> NEW.document_type THEN
+      RAISE EXCEPTION 'A renewal must be for the same employee and document type';
+    END IF;
+
+    IF v_previous.status <> 'active' THEN
+      RAISE EXCEPTION 'Only the current version of a document can be renewed';
+    END IF;
+
+    NEW.version_number := v_previous.version_number + 1;
+  ELSE
+    NEW.version_number := 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_document_version_trigger
+  BEFORE INSERT ON public.staff_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_document_version();
+
+-- Uploading a renewal retires the version it replaces, which also ends that version's reminders
+CREATE OR REPLACE FUNCTION public.complete_document_renewals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.previous_version_id IS NOT NULL THEN
+    UPDATE staff_documents
+    SET status = 'renewed', renewal_in_progress = false
+    WHERE id = NEW.previous_version_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Retired versions keep their file and dates as they were
+CREATE OR REPLACE FUNCTION public.protect_previous_document_versions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'renewed' AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.file_url IS DISTINCT FROM OLD.file_url
+    OR NEW.document_name IS DISTINCT FROM OLD.document_name
+    OR NEW.document_type IS DISTINCT FROM OLD.document_type
+    OR NEW.employee_id IS DISTINCT FROM OLD.employee_id
+    OR NEW.issue_date IS DISTINCT FROM OLD.issue_date
+    OR NEW.expiry_date IS DISTINCT FROM OLD.expiry_date
+    OR NEW.previous_version_id IS DISTINCT FROM OLD.previous_version_id
+    OR NEW.version_number IS DISTINCT FROM OLD.version_number
+  ) THEN
+    RAISE EXCEPTION 'Previous versions of a document are read-only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_previous_document_versions_trigger
+  BEFORE UPDATE ON public.staff_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_previous_document_versions();
+
+-- Every version in a document's renewal chain, oldest first, with who uploaded each one.
+-- Open to admins and to the employee the document belongs to.
+CREATE OR REPLACE FUNCTION public.get_document_versions(p_document_id UUID)
+RETURNS TABLE (
+  id UUID,
+  version_number INTEGER,
+  document_name TEXT,
+  file_url TEXT,
+  issue_date DATE,
+  expiry_date DATE,
+  status TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  uploaded_by UUID,
+  uploaded_by_name TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee_id UUID;
+BEGIN
+  SELECT sd.employee_id INTO v_employee_id FROM staff_documents sd WHERE sd.id = p_document_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'admin'::app_role)
+     AND v_employee_id IS DISTINCT FROM get_employee_id_from_user(auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot view this document';
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE earlier AS (
+    SELECT sd.* FROM staff_documents sd WHERE sd.id = p_document_id
+    UNION ALL
+    SELECT sd.* FROM staff_documents sd JOIN earlier e ON sd.id = e.previous_version_id
+  ),
+  later AS (
+    SELECT sd.* FROM staff_documents sd WHERE sd.id = p_document_id
+    UNION ALL
+    SELECT sd.* FROM staff_documents sd JOIN later l ON sd.previous_version_id = l.id
+  ),
+  chain AS (
+    SELECT * FROM earlier
+    UNION
+    SELECT * FROM later
+  )
+  SELECT
+    c.id,
+    c.version_number,
+    c.document_name,
+    c.file_url,
+    c.issue_date,
+    c.expiry_date,
+    c.status,
+    c.notes,
+    c.created_at,
+    c.uploaded_by,
+    p.full_name
+  FROM chain c
+  LEFT JOIN profiles p ON p.user_id = c.uploaded_by
+  ORDER BY c.version_number, c.created_at;
+END;
+$$;
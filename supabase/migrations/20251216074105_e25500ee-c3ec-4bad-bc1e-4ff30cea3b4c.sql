@@ -0,0 +1,249 @@
+-- Self-service staff documents: employees upload their own documents from their profile. Uploads
+-- land as 'pending_verification' and only take effect (renewing the previous version, completing
+-- checklist tasks, getting expiry reminders) once HR approves them; a rejection carries a reason.
+-- The employee is notified in-app either way.
+
+ALTER TABLE public.staff_documents
+  ADD COLUMN verified_by UUID,
+  ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN rejection_reason TEXT;
+
+CREATE INDEX idx_staff_documents_pending ON public.staff_documents(created_at)
+  WHERE status = 'pending_verification';
+
+CREATE POLICY "Employees can upload their own documents for verification"
+  ON public.staff_documents
+  FOR INSERT
+  WITH CHECK (
+    employee_id = get_employee_id_from_user(auth.uid())
+    AND uploaded_by = auth.uid()
+    AND status = 'pending_verification'
+    AND verified_by IS NULL
+    AND NOT renewal_in_progress
+  );
+
+-- A rejected renewal does not use up the version it was meant to replace
+DROP INDEX public.idx_staff_documents_previous_version_id;
+CREATE UNIQUE INDEX idx_staff_documents_previous_version_id
+  ON public.staff_documents(previous_version_id)
+  WHERE previous_version_id IS NOT NULL AND status <> 'rejected';
+
+CREATE OR REPLACE FUNCTION public.link_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous RECORD;
+BEGIN
+  IF NEW.previous_version_id IS NULL THEN
+    SELECT id INTO NEW.previous_version_id
+    FROM staff_documents
+    WHERE employee_id = NEW.employee_id
+      AND document_type = NEW.document_type
+      AND status = 'active'
+      AND renewal_in_progress
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF NEW.previous_version_id IS NOT NULL THEN
+    SELECT * INTO v_previous FROM staff_documents WHERE id = NEW.previous_version_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The document being renewed does not exist';
+    END IF;
+
+    IF v_previous.employee_id <> NEW.employee_id OR v_previous.document_type <> NEW.document_type THEN
+      RAISE EXCEPTION 'A renewal must be for the same employee and document type';
+    END IF;
+
+    IF v_previous.status <> 'active' THEN
+      RAISE EXCEPTION 'Only the current version of a document can be renewed';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM staff_documents
+      WHERE previous_version_id = NEW.previous_version_id
+        AND status = 'pending_verification'
+    ) THEN
+      RAISE EXCEPTION 'A renewal of this document is already waiting for verification';
+    END IF;
+
+    NEW.version_number := v_previous.version_number + 1;
+  ELSE
+    NEW.version_number := 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Renewals and document checklist tasks complete when a document becomes active: on upload by HR,
+-- or when HR approves an employee's upload
+CREATE OR REPLACE FUNCTION public.complete_document_renewals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'active')
+     AND NEW.previous_version_id IS NOT NULL THEN
+    UPDATE staff_documents
+    SET status = 'renewed', renewal_in_progress = false
+    WHERE id = NEW.previous_version_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER complete_document_renewals_trigger ON public.staff_documents;
+CREATE TRIGGER complete_document_renewals_trigger
+  AFTER INSERT OR UPDATE OF status ON public.staff_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.complete_document_renewals();
+
+CREATE OR REPLACE FUNCTION public.complete_document_checklist_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'active' OR (TG_OP = 'UPDATE' AND OLD.status = 'active') THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE employee_checklist_tasks t
+  SET status = 'done', completed_at = NOW(), completed_by = COALESCE(NEW.verified_by, NEW.uploaded_by), document_id = NEW.id
+  FROM employee_checklists c
+  WHERE c.id = t.checklist_id
+    AND c.status = 'open'
+    AND t.employee_id = NEW.employee_id
+    AND t.status = 'pending'
+    AND t.category = 'document'
+    AND t.document_type = NEW.document_type;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER complete_document_checklist_tasks_trigger ON public.staff_documents;
+CREATE TRIGGER complete_document_checklist_tasks_trigger
+  AFTER INSERT OR UPDATE OF status ON public.staff_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.complete_document_checklist_tasks();
+
+-- Tell HR an upload is waiting for verification
+CREATE OR REPLACE FUNCTION public.notify_document_verification_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee_name TEXT;
+  v_user_id UUID;
+BEGIN
+  IF NEW.status <> 'pending_verification' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT full_name INTO v_employee_name FROM employees WHERE id = NEW.employee_id;
+
+  FOR v_user_id IN
+    SELECT ur.user_id FROM user_roles ur WHERE ur.role = 'admin'::app_role
+  LOOP
+    PERFORM create_in_app_notification(
+      v_user_id,
+      NEW.employee_id,
+      'document_verification',
+      'Document Awaiting Verification',
+      format('%s uploaded %s for verification', v_employee_name, NEW.document_name),
+      jsonb_build_object('document_id', NEW.id, 'document_type', NEW.document_type),
+      '/documents',
+      'normal'
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_document_verification_request_trigger
+  AFTER INSERT ON public.staff_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_document_verification_request();
+
+-- Approve or reject an employee's upload. Rejecting needs a reason, which the employee is shown.
+CREATE OR REPLACE FUNCTION public.review_staff_document(
+  p_document_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_document RECORD;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only HR can verify documents';
+  END IF;
+
+  SELECT sd.*, e.user_id AS employee_user_id
+  INTO v_document
+  FROM staff_documents sd
+  JOIN employees e ON e.id = sd.employee_id
+  WHERE sd.id = p_document_id
+  FOR UPDATE OF sd;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  IF v_document.status <> 'pending_verification' THEN
+    RAISE EXCEPTION 'This document is not waiting for verification';
+  END IF;
+
+  IF NOT p_approve AND COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a document';
+  END IF;
+
+  IF p_approve AND v_document.previous_version_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM staff_documents
+    WHERE id = v_document.previous_version_id AND status <> 'active'
+  ) THEN
+    RAISE EXCEPTION 'The document this upload replaces has already been renewed';
+  END IF;
+
+  UPDATE staff_documents
+  SET status = CASE WHEN p_approve THEN 'active' ELSE 'rejected' END,
+      verified_by = auth.uid(),
+      verified_at = NOW(),
+      rejection_reason = CASE WHEN p_approve THEN NULL ELSE TRIM(p_reason) END
+  WHERE id = p_document_id;
+
+  IF v_document.employee_user_id IS NOT NULL THEN
+    PERFORM create_in_app_notification(
+      v_document.employee_user_id,
+      v_document.employee_id,
+      'document_verification',
+      CASE WHEN p_approve THEN 'Document Verified' ELSE 'Document Rejected' END,
+      CASE WHEN p_approve
+        THEN format('Your %s has been verified by HR', v_document.document_name)
+        ELSE format('Your %s was rejected: %s', v_document.document_name, TRIM(p_reason))
+      END,
+      jsonb_build_object('document_id', v_document.id, 'document_type', v_document.document_type),
+      '/profile',
+      CASE WHEN p_approve THEN 'normal' ELSE 'high' END
+    );
+  END IF;
+END;
+$$;